@@ -0,0 +1,314 @@
+/**
+ * S2T Accelerators MCP Server - API Client Tests
+ *
+ * Tests timeouts, retry/backoff policy and cancellation against an injected
+ * fetch implementation.
+ *
+ * @module api-client.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  apiClientOptionsFromEnv,
+  createApiClient,
+  scopeApiClient,
+  type ApiClientOptions,
+} from "./api-client.js";
+import {
+  S2TAuthError,
+  S2TQuotaError,
+  S2TUpstreamUnavailableError,
+  S2TValidationError,
+} from "./api-errors.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/** A fetch that never settles until its signal aborts. */
+function hangingFetch(): ReturnType<typeof vi.fn> {
+  return vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      })
+  );
+}
+
+function client(fetchImpl: ReturnType<typeof vi.fn>, options: ApiClientOptions = {}) {
+  return createApiClient("https://api.test/v1", "sk_test", {
+    fetch: fetchImpl as unknown as typeof fetch,
+    random: () => 0,
+    retry: { baseDelayMs: 1, maxDelayMs: 5 },
+    ...options,
+  });
+}
+
+// ===========================================================================
+// Requests
+// ===========================================================================
+
+describe("createApiClient", () => {
+  it("should send the API key and JSON body", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(jsonResponse(200, { ok: true }));
+
+    const data = await client(fetchImpl).callApi("/accelerators/embed", "POST", { text: "hi" });
+
+    expect(data).toEqual({ ok: true });
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe("https://api.test/v1/accelerators/embed");
+    expect(init.headers["X-S2T-API-Key"]).toBe("sk_test");
+    expect(init.body).toBe(JSON.stringify({ text: "hi" }));
+  });
+
+  it("should forward per-call headers without letting them replace the API key", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(jsonResponse(200, { ok: true }));
+    const traceparent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+    await client(fetchImpl).callApi("/catalog", "GET", undefined, {
+      headers: { traceparent, "X-S2T-API-Key": "sk_other" },
+    });
+
+    const [, init] = fetchImpl.mock.calls[0];
+    expect(init.headers.traceparent).toBe(traceparent);
+    expect(init.headers["X-S2T-API-Key"]).toBe("sk_test");
+  });
+
+  it("should surface the upstream error message for 4xx without retrying", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(
+      jsonResponse(400, { error: { message: "text is required" } })
+    );
+
+    await expect(
+      client(fetchImpl).callApi("/accelerators/embed", "POST", {}, { idempotent: true })
+    ).rejects.toThrow(S2TValidationError);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  // -------------------------------------------------------------------------
+  // Error taxonomy
+  // -------------------------------------------------------------------------
+
+  it("should classify auth failures with upstream code and request ID", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(
+      jsonResponse(
+        401,
+        { error: { message: "Invalid API key", code: "INVALID_API_KEY" } },
+        { "x-amzn-RequestId": "req-123" }
+      )
+    );
+
+    const error = await client(fetchImpl).callApi("/catalog").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(S2TAuthError);
+    expect(error).toMatchObject({
+      message: "Invalid API key",
+      status: 401,
+      code: "INVALID_API_KEY",
+      requestId: "req-123",
+      endpoint: "/catalog",
+      method: "GET",
+    });
+  });
+
+  it("should carry Retry-After on quota errors once retries are exhausted", async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(429, {}, { "Retry-After": "0" }));
+
+    const error = await client(fetchImpl, { retry: { maxRetries: 0 } })
+      .callApi("/catalog")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(S2TQuotaError);
+    expect((error as S2TQuotaError).retryAfterMs).toBe(0);
+  });
+
+  it("should report HTML gateway pages as upstream unavailable, not a JSON parse error", async () => {
+    const fetchImpl = vi.fn(
+      async () =>
+        new Response("<html><body><h1>502 Bad Gateway</h1></body></html>", {
+          status: 502,
+          headers: { "Content-Type": "text/html" },
+        })
+    );
+
+    const error = await client(fetchImpl, { retry: { maxRetries: 0 } })
+      .callApi("/catalog")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(S2TUpstreamUnavailableError);
+    expect((error as Error).message).toBe(
+      "API error: 502 (non-JSON text/html response: 502 Bad Gateway)"
+    );
+  });
+
+  it("should reject a non-JSON success body", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response("OK", { status: 200 }));
+
+    await expect(client(fetchImpl).callApi("/catalog")).rejects.toThrow(
+      /non-JSON response \(200 text\/plain.*\) for GET \/catalog/
+    );
+  });
+
+  // -------------------------------------------------------------------------
+  // Retries
+  // -------------------------------------------------------------------------
+
+  it("should retry 5xx responses for idempotent calls", async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(502, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const data = await client(fetchImpl).callApi("/catalog", "GET", undefined, { idempotent: true });
+
+    expect(data).toEqual({ ok: true });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry 500 responses for non-idempotent calls", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(jsonResponse(500, {}));
+
+    await expect(client(fetchImpl).callApi("/aci/decision-log", "POST", {})).rejects.toThrow(
+      "API error: 500"
+    );
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry 429 even for non-idempotent calls", async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { "Retry-After": "0" }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    await expect(client(fetchImpl).callApi("/aci/decision-log", "POST", {})).resolves.toEqual({
+      ok: true,
+    });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wait out Retry-After instead of its own backoff", async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { "Retry-After": "0.02" }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+    const onRetry = vi.fn();
+
+    await client(fetchImpl, { retry: { baseDelayMs: 1, maxDelayMs: 1_000 } }).callApi("/catalog", "GET", undefined, {
+      onRetry,
+    });
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 20 }));
+  });
+
+  it("should surface the quota error when Retry-After exceeds maxDelayMs", async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(429, {}, { "Retry-After": "60" }));
+
+    const error = await client(fetchImpl).callApi("/catalog").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(S2TQuotaError);
+    expect((error as S2TQuotaError).retryAfterMs).toBe(60_000);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after maxRetries", async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(503, { error: { message: "busy" } }));
+
+    await expect(
+      client(fetchImpl, { retry: { maxRetries: 3, baseDelayMs: 1 } }).callApi("/catalog")
+    ).rejects.toThrow(S2TUpstreamUnavailableError);
+    expect(fetchImpl).toHaveBeenCalledTimes(4);
+  });
+
+  it("should announce each retry before backing off", async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(503, { error: { message: "busy" } }));
+    const onRetry = vi.fn();
+
+    await expect(
+      client(fetchImpl, { retry: { maxRetries: 2, baseDelayMs: 1 } }).callApi("/catalog", "GET", undefined, {
+        onRetry,
+      })
+    ).rejects.toThrow(S2TUpstreamUnavailableError);
+    expect(onRetry.mock.calls.map(([event]) => [event.retry, event.maxRetries])).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+    expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(S2TUpstreamUnavailableError);
+  });
+
+  // -------------------------------------------------------------------------
+  // Timeouts and cancellation
+  // -------------------------------------------------------------------------
+
+  it("should time out using the longest matching endpoint override", async () => {
+    const fetchImpl = hangingFetch();
+    const api = client(fetchImpl, {
+      timeoutMs: 60_000,
+      endpointTimeouts: { "/accelerators": 30_000, "/accelerators/embed": 10 },
+      retry: { maxRetries: 0 },
+    });
+
+    await expect(api.callApi("/accelerators/embed", "POST", {})).rejects.toThrow(
+      "API request timed out after 10ms: POST /accelerators/embed"
+    );
+  });
+
+  it("should abort the in-flight fetch when the caller's signal fires", async () => {
+    const fetchImpl = hangingFetch();
+    const controller = new AbortController();
+    const api = scopeApiClient(client(fetchImpl), { signal: controller.signal, idempotent: true });
+
+    const pending = api.callApi("/catalog");
+    controller.abort(new Error("Request cancelled by client"));
+
+    await expect(pending).rejects.toThrow("Request cancelled by client");
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect((fetchImpl.mock.calls[0][1] as RequestInit).signal?.aborted).toBe(true);
+  });
+
+  it("should stop retrying when cancelled during backoff", async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(503, {}));
+    const controller = new AbortController();
+    const api = client(fetchImpl, { retry: { baseDelayMs: 10_000, maxDelayMs: 10_000 } });
+
+    const pending = api.callApi("/catalog", "GET", undefined, {
+      signal: controller.signal,
+      idempotent: true,
+    });
+    await vi.waitFor(() => expect(fetchImpl).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ===========================================================================
+// Environment configuration
+// ===========================================================================
+
+describe("apiClientOptionsFromEnv", () => {
+  it("should parse timeouts, endpoint overrides and retries", () => {
+    expect(
+      apiClientOptionsFromEnv({
+        S2T_API_TIMEOUT_MS: "15000",
+        S2T_API_ENDPOINT_TIMEOUTS: "/accelerators/embed=60000, /aci/parallel-review=90000",
+        S2T_API_MAX_RETRIES: "0",
+      })
+    ).toEqual({
+      timeoutMs: 15000,
+      endpointTimeouts: { "/accelerators/embed": 60000, "/aci/parallel-review": 90000 },
+      retry: { maxRetries: 0 },
+    });
+  });
+
+  it("should ignore unset or malformed values", () => {
+    expect(apiClientOptionsFromEnv({ S2T_API_TIMEOUT_MS: "soon" })).toEqual({});
+  });
+});
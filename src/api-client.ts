@@ -0,0 +1,271 @@
+/**
+ * S2T Accelerators - API Client
+ *
+ * HTTP client for the S2T Accelerator Platform. Every request runs under a
+ * timeout (configurable per endpoint), honours the caller's AbortSignal so
+ * MCP cancellations stop the underlying fetch, and retries transient
+ * failures with jittered exponential backoff:
+ *
+ *   - 429 and 503 are always retried: the platform refused the request
+ *     before doing any work.
+ *   - Other 5xx responses, network errors and timeouts are retried only for
+ *     idempotent calls, since the request may already have taken effect.
+ *
+ * A `Retry-After` from the platform is waited out exactly. When it asks for
+ * longer than `maxDelayMs`, the client stops retrying and throws, so the
+ * caller sees the quota error and its retryAfterMs instead of a call that
+ * retries too early or blocks for minutes.
+ *
+ * Failures are thrown as the typed errors in api-errors.ts.
+ *
+ * @module api-client
+ */
+
+import type { ApiCallOptions, ApiClient } from "./handlers.js";
+import {
+  createApiErrorFromResponse,
+  S2TApiError,
+  S2TUpstreamUnavailableError,
+} from "./api-errors.js";
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying). */
+  maxRetries: number;
+  /** Backoff ceiling for the first retry; doubles on each further retry. */
+  baseDelayMs: number;
+  /** Upper bound for any single backoff; a longer Retry-After ends retrying. */
+  maxDelayMs: number;
+}
+
+export interface ApiClientOptions {
+  /** Default per-attempt timeout. */
+  timeoutMs?: number;
+  /**
+   * Per-endpoint timeout overrides, keyed by endpoint path prefix. The
+   * longest matching prefix wins, e.g. `{ "/embed": 60000 }`.
+   */
+  endpointTimeouts?: Record<string, number>;
+  retry?: Partial<RetryPolicy>;
+  /** Injection points for tests. */
+  fetch?: typeof fetch;
+  random?: () => number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 5_000,
+};
+
+/** Statuses where the platform guarantees the request was not processed. */
+const ALWAYS_RETRYABLE_STATUSES = new Set([429, 503]);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function resolveTimeout(endpoint: string, options: ApiClientOptions): number {
+  let timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let matched = -1;
+  for (const [prefix, ms] of Object.entries(options.endpointTimeouts ?? {})) {
+    if (endpoint.startsWith(prefix) && prefix.length > matched) {
+      timeout = ms;
+      matched = prefix.length;
+    }
+  }
+  return timeout;
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error("API request cancelled");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number,
+  retryAfterMs?: number
+): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  // "Full jitter": uniform in [0, base * 2^attempt], capped.
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+// ---------------------------------------------------------------------------
+// Client factory
+// ---------------------------------------------------------------------------
+
+export function createApiClient(
+  baseUrl: string,
+  apiKey: string,
+  options: ApiClientOptions = {}
+): ApiClient {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const doFetch = options.fetch ?? fetch;
+  const random = options.random ?? Math.random;
+
+  async function attempt(
+    endpoint: string,
+    method: string,
+    body: object | undefined,
+    signal: AbortSignal | undefined,
+    headers: Record<string, string> | undefined
+  ): Promise<unknown> {
+    const timeoutMs = resolveTimeout(endpoint, options);
+    const request = { endpoint, method };
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      let raw: string;
+      try {
+        response = await doFetch(`${baseUrl}${endpoint}`, {
+          method,
+          headers: {
+            ...headers,
+            "X-S2T-API-Key": apiKey,
+            "Content-Type": "application/json",
+          },
+          ...(body ? { body: JSON.stringify(body) } : {}),
+          signal: controller.signal,
+        });
+        raw = await response.text();
+      } catch (error) {
+        if (signal?.aborted) throw abortReason(signal);
+        if (controller.signal.aborted) {
+          throw new S2TUpstreamUnavailableError(
+            `API request timed out after ${timeoutMs}ms: ${method} ${endpoint}`,
+            request
+          );
+        }
+        throw new S2TUpstreamUnavailableError(
+          `API request failed: ${error instanceof Error ? error.message : String(error)}`,
+          request,
+          { cause: error }
+        );
+      }
+
+      let data: unknown;
+      try {
+        data = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        data = undefined;
+      }
+
+      if (!response.ok) {
+        throw createApiErrorFromResponse(response, request, data, raw);
+      }
+      if (data === undefined) {
+        throw new S2TUpstreamUnavailableError(
+          `API returned a non-JSON response (${response.status} ${
+            response.headers.get("Content-Type") ?? "untyped"
+          }) for ${method} ${endpoint}`,
+          { ...request, status: response.status }
+        );
+      }
+
+      return data;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  return {
+    async callApi(
+      endpoint: string,
+      method: string = "GET",
+      body?: object,
+      callOptions: ApiCallOptions = {}
+    ): Promise<unknown> {
+      const { signal, idempotent = false, headers, onRetry } = callOptions;
+
+      for (let retry = 0; ; retry++) {
+        if (signal?.aborted) throw abortReason(signal);
+        try {
+          return await attempt(endpoint, method, body, signal, headers);
+        } catch (error) {
+          if (!(error instanceof S2TApiError)) throw error;
+
+          const retryable =
+            (error.status !== undefined && ALWAYS_RETRYABLE_STATUSES.has(error.status)) ||
+            (idempotent && error instanceof S2TUpstreamUnavailableError);
+          if (!retryable || retry >= policy.maxRetries) throw error;
+          if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxDelayMs) throw error;
+          const delayMs = backoffDelay(retry, policy, random, error.retryAfterMs);
+          onRetry?.({ retry: retry + 1, maxRetries: policy.maxRetries, delayMs, error });
+          await sleep(delayMs, signal);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Bind per-call options (cancellation signal, idempotency) onto a client so
+ * handlers can keep calling `callApi(endpoint, method, body)` unchanged.
+ */
+export function scopeApiClient(client: ApiClient, scope: ApiCallOptions): ApiClient {
+  return {
+    callApi(endpoint, method, body, options) {
+      return client.callApi(endpoint, method, body, { ...scope, ...options });
+    },
+  };
+}
+
+/**
+ * Read client options from the environment:
+ *
+ *   S2T_API_TIMEOUT_MS            Default per-attempt timeout
+ *   S2T_API_ENDPOINT_TIMEOUTS     Comma-separated `prefix=ms` overrides
+ *   S2T_API_MAX_RETRIES           Retries after the first attempt
+ */
+export function apiClientOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ApiClientOptions {
+  const options: ApiClientOptions = {};
+
+  const timeout = Number(env.S2T_API_TIMEOUT_MS);
+  if (env.S2T_API_TIMEOUT_MS && timeout > 0) options.timeoutMs = timeout;
+
+  if (env.S2T_API_ENDPOINT_TIMEOUTS) {
+    options.endpointTimeouts = {};
+    for (const pair of env.S2T_API_ENDPOINT_TIMEOUTS.split(",")) {
+      const [prefix, ms] = pair.split("=").map((part) => part.trim());
+      if (prefix && Number(ms) > 0) options.endpointTimeouts[prefix] = Number(ms);
+    }
+  }
+
+  const retries = Number(env.S2T_API_MAX_RETRIES);
+  if (env.S2T_API_MAX_RETRIES && Number.isInteger(retries) && retries >= 0) {
+    options.retry = { maxRetries: retries };
+  }
+
+  return options;
+}
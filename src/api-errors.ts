@@ -0,0 +1,218 @@
+/**
+ * S2T Accelerators - API Error Taxonomy
+ *
+ * Typed errors for failed calls to the S2T Accelerator Platform. Each class
+ * carries the HTTP status, upstream error code, request ID and Retry-After
+ * (where known) plus a remediation hint that createMcpServer surfaces to the
+ * calling agent.
+ *
+ *   S2TApiError                    base class (also used for unclassified 4xx)
+ *   ├── S2TAuthError               401 / 403 -- missing, invalid or revoked key
+ *   ├── S2TQuotaError              402 / 429 -- rate limit or monthly quota
+ *   ├── S2TValidationError         400 / 422 -- request rejected by the platform
+ *   ├── S2TUpstreamUnavailableError  5xx, timeouts, network and non-JSON errors
+ *   └── UpstreamContractError      2xx whose body does not match the outputSchema
+ *
+ * @module api-errors
+ */
+
+export const API_KEY_URL = "https://dev.s2tconsulting.com/ai-sales/purchase.html";
+
+export interface S2TApiErrorDetails {
+  endpoint: string;
+  method: string;
+  /** HTTP status; absent when no response was received. */
+  status?: number;
+  /** Machine-readable code from the upstream error body, e.g. "INVALID_API_KEY". */
+  code?: string;
+  requestId?: string;
+  retryAfterMs?: number;
+}
+
+export class S2TApiError extends Error {
+  readonly endpoint: string;
+  readonly method: string;
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: S2TApiErrorDetails, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "S2TApiError";
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** What the caller should do about it. */
+  get remediation(): string {
+    return "Review the request and retry. Quote the request ID if you contact S2T support.";
+  }
+}
+
+export class S2TAuthError extends S2TApiError {
+  constructor(message: string, details: S2TApiErrorDetails) {
+    super(message, details);
+    this.name = "S2TAuthError";
+  }
+
+  override get remediation(): string {
+    return this.status === 403
+      ? "The API key is valid but not permitted to call this accelerator. Check your tier with s2t_catalog or upgrade your plan."
+      : `Check that S2T_API_KEY is set to an active key. Get one at ${API_KEY_URL}`;
+  }
+}
+
+export class S2TQuotaError extends S2TApiError {
+  constructor(message: string, details: S2TApiErrorDetails) {
+    super(message, details);
+    this.name = "S2TQuotaError";
+  }
+
+  override get remediation(): string {
+    if (this.status === 429) {
+      const wait =
+        this.retryAfterMs !== undefined
+          ? `in ${Math.ceil(this.retryAfterMs / 1000)}s`
+          : "after a short pause";
+      return `Rate limit reached. Retry ${wait}, or upgrade your tier for a higher limit.`;
+    }
+    return "Monthly quota exhausted. Check remaining calls with s2t_usage or upgrade your plan.";
+  }
+}
+
+export class S2TValidationError extends S2TApiError {
+  constructor(message: string, details: S2TApiErrorDetails) {
+    super(message, details);
+    this.name = "S2TValidationError";
+  }
+
+  override get remediation(): string {
+    return "The platform rejected the arguments. Correct the fields named in the message and call the tool again.";
+  }
+}
+
+export class S2TUpstreamUnavailableError extends S2TApiError {
+  constructor(message: string, details: S2TApiErrorDetails, options?: { cause?: unknown }) {
+    super(message, details, options);
+    this.name = "S2TUpstreamUnavailableError";
+  }
+
+  override get remediation(): string {
+    return "The S2T platform is temporarily unavailable. Retry shortly; if it persists, report the request ID to S2T support.";
+  }
+}
+
+/** A response field that does not match the expected contract. */
+export interface ContractViolation {
+  pointer: string;
+  message: string;
+}
+
+export class UpstreamContractError extends S2TApiError {
+  readonly violations: ContractViolation[];
+
+  constructor(request: { endpoint: string; method: string }, violations: ContractViolation[]) {
+    const [first] = violations;
+    const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : "";
+    super(
+      `Upstream contract mismatch for ${request.method} ${request.endpoint}: ` +
+        `${first ? `${first.pointer} ${first.message}` : "unexpected response shape"}${more}`,
+      request
+    );
+    this.name = "UpstreamContractError";
+    this.violations = violations;
+  }
+
+  override get remediation(): string {
+    return "The S2T API returned a response this server version does not understand. Upgrade s2t-mcp-accelerators; if already current, report the field named above to S2T support.";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response classification
+// ---------------------------------------------------------------------------
+
+const REQUEST_ID_HEADERS = ["x-request-id", "x-amzn-requestid", "apigw-requestid"];
+
+interface UpstreamErrorBody {
+  error?: { message?: string; code?: string; request_id?: string } | string;
+  message?: string;
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP-date) into ms. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function requestIdFrom(headers: Headers): string | undefined {
+  for (const name of REQUEST_ID_HEADERS) {
+    const value = headers.get(name);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Build the typed error for a non-2xx response. `body` is the parsed JSON
+ * body, or undefined when the response was not JSON (e.g. an HTML 502 page
+ * from API Gateway), in which case `rawBody` is quoted instead.
+ */
+export function createApiErrorFromResponse(
+  response: Response,
+  request: { endpoint: string; method: string },
+  body: unknown,
+  rawBody = ""
+): S2TApiError {
+  const upstream = (typeof body === "object" && body !== null ? body : {}) as UpstreamErrorBody;
+  const error = typeof upstream.error === "object" ? upstream.error : undefined;
+
+  const details: S2TApiErrorDetails = {
+    ...request,
+    status: response.status,
+    code: error?.code,
+    requestId: requestIdFrom(response.headers) ?? error?.request_id,
+    retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+  };
+
+  let message =
+    error?.message ||
+    (typeof upstream.error === "string" ? upstream.error : undefined) ||
+    upstream.message;
+  if (!message) {
+    message =
+      body === undefined
+        ? `API error: ${response.status} (non-JSON ${describeContentType(response)} response${
+            rawBody ? `: ${summarize(rawBody)}` : ""
+          })`
+        : `API error: ${response.status}`;
+  }
+
+  const { status } = response;
+  if (status === 401 || status === 403) return new S2TAuthError(message, details);
+  if (status === 402 || status === 429) return new S2TQuotaError(message, details);
+  if (status === 400 || status === 422) return new S2TValidationError(message, details);
+  if (status >= 500) return new S2TUpstreamUnavailableError(message, details);
+  return new S2TApiError(message, details);
+}
+
+function describeContentType(response: Response): string {
+  return response.headers.get("Content-Type")?.split(";")[0].trim() || "untyped";
+}
+
+/** Collapse an HTML/text body into a short single-line excerpt. */
+function summarize(raw: string): string {
+  const text = raw
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
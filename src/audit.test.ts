@@ -0,0 +1,329 @@
+/**
+ * S2T Accelerators MCP Server - Audit Trail Tests
+ *
+ * Tests redaction rules, argument digests, the JSON-lines records and
+ * their sinks, and the record createMcpServer writes for each tool call.
+ *
+ * @module audit.test
+ */
+
+import { describe, it, expect, vi, afterAll, beforeAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  LoggingMessageNotificationSchema,
+  type LoggingMessageNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  auditLogFromEnv,
+  createAuditLog,
+  createFileAuditSink,
+  digestArgs,
+  redact,
+  DEFAULT_REDACTION_RULES,
+  REDACTED,
+  type AuditRecord,
+} from "./audit.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { S2TUpstreamUnavailableError } from "./api-errors.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-audit-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** An audit log whose records are parsed and collected in memory. */
+function recordingAudit(options: Partial<Parameters<typeof createAuditLog>[0]> = {}) {
+  const records: AuditRecord[] = [];
+  const audit = createAuditLog({
+    write: (line) => records.push(JSON.parse(line)),
+    now: () => Date.UTC(2026, 0, 2, 3, 4, 5),
+    ...options,
+  });
+  return { audit, records };
+}
+
+// ===========================================================================
+// Redaction
+// ===========================================================================
+
+describe("redact", () => {
+  it("should redact the default sensitive fields at any depth", () => {
+    const args = {
+      client_id: "abc",
+      policy_document: { Statement: [] },
+      nested: [{ stack_trace: "at foo()", API_KEY: "k", db_password_hash: "x" }],
+      action: "Deploy",
+    };
+
+    expect(redact("any_tool", args, DEFAULT_REDACTION_RULES)).toEqual({
+      client_id: REDACTED,
+      policy_document: REDACTED,
+      nested: [{ stack_trace: REDACTED, API_KEY: REDACTED, db_password_hash: REDACTED }],
+      action: "Deploy",
+    });
+  });
+
+  it("should limit tool-scoped rules to that tool", () => {
+    const args = { token: "t-1", message: "Our approvals take two weeks" };
+
+    expect(redact("s2t_interview_message", args, DEFAULT_REDACTION_RULES)).toEqual({
+      token: "t-1",
+      message: REDACTED,
+    });
+    expect(redact("aci_log_decision", { message: "kept" }, DEFAULT_REDACTION_RULES)).toEqual({
+      message: "kept",
+    });
+  });
+
+  it("should match wildcards against whole field names", () => {
+    const rules = ["stakeholder_*", "*_token"];
+
+    expect(
+      redact("t", { stakeholder_email: "a@b.c", lock_token: "x", token: "y", tokens: 3 }, rules)
+    ).toEqual({ stakeholder_email: REDACTED, lock_token: REDACTED, token: "y", tokens: 3 });
+  });
+
+  it("should not modify the original arguments", () => {
+    const args = { client_id: "abc" };
+    redact("t", args, DEFAULT_REDACTION_RULES);
+    expect(args.client_id).toBe("abc");
+  });
+
+  it("should reject malformed rules", () => {
+    expect(() => createAuditLog({ write: () => {}, rules: [":message"] })).toThrow(
+      'Invalid redaction rule ":message"'
+    );
+  });
+});
+
+describe("digestArgs", () => {
+  it("should not depend on key order", () => {
+    expect(digestArgs({ a: 1, b: { c: 2, d: 3 } })).toBe(digestArgs({ b: { d: 3, c: 2 }, a: 1 }));
+    expect(digestArgs({ a: 1 })).not.toBe(digestArgs({ a: 2 }));
+    expect(digestArgs({})).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+});
+
+// ===========================================================================
+// Audit log
+// ===========================================================================
+
+describe("createAuditLog", () => {
+  it("should write only a digest of the redacted arguments by default", () => {
+    const { audit, records } = recordingAudit({ principal: { user: "ops" } });
+
+    audit.record({
+      tool: "s2t_interview_message",
+      args: { token: "t-1", message: "Our approvals take two weeks" },
+      who: { sessionId: "s-1" },
+      durationMs: 12.4,
+    });
+
+    expect(records).toEqual([
+      {
+        ts: "2026-01-02T03:04:05.000Z",
+        event: "tools/call",
+        tool: "s2t_interview_message",
+        who: { user: "ops", sessionId: "s-1" },
+        argsDigest: digestArgs({ token: "t-1", message: REDACTED }),
+        outcome: "ok",
+        latencyMs: 12,
+      },
+    ]);
+    expect(JSON.stringify(records)).not.toContain("t-1");
+  });
+
+  it("should write the redacted arguments when capture is on", () => {
+    const { audit, records } = recordingAudit({ args: "redacted" });
+
+    audit.record({
+      tool: "s2t_validate_oauth",
+      args: { client_id: "secret-client", scopes: ["openid"] },
+      who: {},
+      durationMs: 1,
+    });
+
+    expect(records[0]).toMatchObject({
+      argsDigest: digestArgs({ client_id: REDACTED, scopes: ["openid"] }),
+      args: { client_id: REDACTED, scopes: ["openid"] },
+    });
+    expect(JSON.stringify(records)).not.toContain("secret-client");
+  });
+
+  it("should record failures and cache status", () => {
+    const { audit, records } = recordingAudit();
+
+    audit.record({ tool: "a", args: {}, who: {}, durationMs: 1, errorClass: "S2TAuthError" });
+    audit.record({ tool: "b", args: {}, who: {}, durationMs: 1, cacheStatus: "hit" });
+
+    expect(records.map(({ outcome, errorClass, cacheStatus }) => [outcome, errorClass, cacheStatus])).toEqual([
+      ["error", "S2TAuthError", undefined],
+      ["ok", undefined, "hit"],
+    ]);
+  });
+
+  it("should report sink failures instead of throwing", () => {
+    const onError = vi.fn();
+    const audit = createAuditLog({
+      write: () => {
+        throw new Error("disk full");
+      },
+      onError,
+    });
+
+    expect(() => audit.record({ tool: "a", args: {}, who: {}, durationMs: 1 })).not.toThrow();
+    expect(onError).toHaveBeenCalledWith(new Error("disk full"));
+  });
+
+  it("should report a record's failure to its own onError instead", () => {
+    const onError = vi.fn();
+    const onRecordError = vi.fn();
+    const audit = createAuditLog({
+      write: () => {
+        throw new Error("disk full");
+      },
+      onError,
+    });
+
+    audit.record({ tool: "a", args: {}, who: {}, durationMs: 1 }, onRecordError);
+
+    expect(onRecordError).toHaveBeenCalledWith(new Error("disk full"));
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should append one JSON line per record to the file", () => {
+    const path = join(dir, "audit.jsonl");
+    const audit = createAuditLog({ write: createFileAuditSink(path) });
+
+    audit.record({ tool: "a", args: {}, who: {}, durationMs: 1 });
+    audit.record({ tool: "b", args: {}, who: {}, durationMs: 1 });
+
+    const lines = readFileSync(path, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.tool)).toEqual(["a", "b"]);
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer audit", () => {
+  async function connect(callApi: ReturnType<typeof vi.fn>) {
+    const { audit, records } = recordingAudit({ args: "redacted" });
+    const client = await connectClient({ callApi }, { audit, tenantId: "tenant-1" });
+    return { client, records };
+  }
+
+  it("should audit successful calls", async () => {
+    const callApi = vi.fn().mockResolvedValue(MOCK_FIXTURES["GET /catalog"]({}, "success"));
+    const { client, records } = await connect(callApi);
+
+    await client.callTool({ name: "s2t_catalog", arguments: {} });
+
+    expect(records).toEqual([
+      expect.objectContaining({ tool: "s2t_catalog", who: { tenantId: "tenant-1" }, outcome: "ok" }),
+    ]);
+  });
+
+  it("should log failed writes to the session's client", async () => {
+    const audit = createAuditLog({
+      write: () => {
+        throw new Error("disk full");
+      },
+    });
+    const callApi = vi.fn().mockResolvedValue(MOCK_FIXTURES["GET /catalog"]({}, "success"));
+    const client = await connectClient({ callApi }, { audit });
+    const messages: LoggingMessageNotification["params"][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params);
+    });
+
+    await client.setLoggingLevel("error");
+    await client.callTool({ name: "s2t_catalog", arguments: {} });
+
+    await vi.waitFor(() =>
+      expect(messages).toContainEqual(
+        expect.objectContaining({
+          level: "error",
+          data: expect.objectContaining({ message: "Failed to write audit record", error: "disk full" }),
+        })
+      )
+    );
+  });
+
+  it("should audit failed and unknown calls with redacted arguments", async () => {
+    const callApi = vi.fn().mockRejectedValue(
+      new S2TUpstreamUnavailableError("down", { endpoint: "/analyze/error-patterns", method: "POST", status: 503 })
+    );
+    const { client, records } = await connect(callApi);
+
+    await client.callTool({
+      name: "s2t_analyze_error_patterns",
+      arguments: { errors: [{ message: "boom", stack_trace: "at handler (/srv/app.js:1)" }] },
+    });
+    await client.callTool({ name: "no_such_tool", arguments: { api_key: "k" } });
+
+    expect(records.map(({ tool, outcome, args }) => [tool, outcome, args])).toEqual([
+      ["s2t_analyze_error_patterns", "error", { errors: [{ message: "boom", stack_trace: REDACTED }] }],
+      ["no_such_tool", "error", { api_key: REDACTED }],
+    ]);
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("auditLogFromEnv", () => {
+  it("should be off unless a target is set", () => {
+    expect(auditLogFromEnv({})).toBeUndefined();
+  });
+
+  it("should add extra rules to the defaults", () => {
+    const path = join(dir, "env.jsonl");
+    const audit = auditLogFromEnv({
+      S2T_AUDIT_LOG: path,
+      S2T_AUDIT_ARGS: "redacted",
+      S2T_AUDIT_REDACT: "customer_name",
+    })!;
+
+    audit.record({ tool: "t", args: { customer_name: "Acme", client_id: "c" }, who: {}, durationMs: 1 });
+
+    expect(JSON.parse(readFileSync(path, "utf8")).args).toEqual({ customer_name: REDACTED, client_id: REDACTED });
+  });
+
+  it("should write only the digest unless S2T_AUDIT_ARGS asks for arguments", () => {
+    const path = join(dir, "env-digest.jsonl");
+    const audit = auditLogFromEnv({ S2T_AUDIT_LOG: path })!;
+
+    audit.record({ tool: "t", args: { customer_name: "Acme" }, who: {}, durationMs: 1 });
+
+    const record = JSON.parse(readFileSync(path, "utf8"));
+    expect(record.argsDigest).toBe(digestArgs({ customer_name: "Acme" }));
+    expect(record).not.toHaveProperty("args");
+  });
+
+  it("should reject unknown S2T_AUDIT_ARGS values", () => {
+    expect(() => auditLogFromEnv({ S2T_AUDIT_LOG: "stderr", S2T_AUDIT_ARGS: "all" })).toThrow(
+      'Invalid S2T_AUDIT_ARGS "all". Use one of: digest, redacted'
+    );
+  });
+
+  it("should reject malformed extra rules", () => {
+    expect(() => auditLogFromEnv({ S2T_AUDIT_LOG: "stderr", S2T_AUDIT_REDACT: "tool:" })).toThrow(
+      'Invalid S2T_AUDIT_REDACT rule "tool:"'
+    );
+  });
+});
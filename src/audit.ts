@@ -0,0 +1,269 @@
+/**
+ * S2T Accelerators - Tool-Call Audit Trail
+ *
+ * Writes one JSON line per tools/call -- who called which tool, when, a
+ * digest of the arguments, the outcome and the latency -- for compliance
+ * review. Both entry points share it through createMcpServer.
+ *
+ * Arguments are redacted before they are digested or written. A rule names
+ * an argument field, matched case-insensitively at any depth, optionally
+ * limited to one tool and with `*` wildcards:
+ *
+ *   client_id                       the field in every tool
+ *   s2t_interview_message:message   only in that tool
+ *   *_api_key                       any field ending in _api_key
+ *
+ * The digest is taken over the redacted arguments, so it cannot be used to
+ * confirm a guess at a redacted value. Records carry only the digest unless
+ * argument capture is turned on (`args: "redacted"`): rules can only redact
+ * the fields someone thought to list, and free-text arguments are
+ * everywhere.
+ *
+ * @module audit
+ */
+
+import { appendFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { userInfo } from "node:os";
+import { normalizeBody } from "./canonical-json.js";
+import type { CacheStatus } from "./response-cache.js";
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ *   digest     records carry argsDigest only (default)
+ *   redacted   records also carry the redacted arguments
+ */
+export type AuditArgsMode = "digest" | "redacted";
+
+export const AUDIT_ARGS_MODES: readonly AuditArgsMode[] = ["digest", "redacted"];
+
+/** Fields redacted unless a caller supplies its own rule list. */
+export const DEFAULT_REDACTION_RULES = [
+  "client_id",
+  "client_secret",
+  "policy_document",
+  "stack_trace",
+  "s2t_interview_message:message",
+  "api_key",
+  "apikey",
+  "*_api_key",
+  "x-s2t-api-key",
+  "authorization",
+  "*password*",
+  "*secret*",
+];
+
+/** Who made a call, as far as the transport knows. */
+export interface AuditPrincipal {
+  /** Multi-tenant HTTP: hash of the session's API key. */
+  tenantId?: string;
+  /** OAuth client of the bearer token. */
+  clientId?: string;
+  /** OAuth token subject. */
+  subject?: string;
+  /** HTTP session or SSE connection. */
+  sessionId?: string;
+  /** Local OS user (stdio). */
+  user?: string;
+}
+
+export interface ToolCallAudit {
+  tool: string;
+  args: unknown;
+  who: AuditPrincipal;
+  durationMs: number;
+  /** Set when the call failed. */
+  errorClass?: string;
+  /** Set when the call went through the response cache. */
+  cacheStatus?: CacheStatus;
+}
+
+/** One line of the audit trail. */
+export interface AuditRecord {
+  ts: string;
+  event: "tools/call";
+  tool: string;
+  who: AuditPrincipal;
+  argsDigest: string;
+  /** Present when argument capture is on. */
+  args?: unknown;
+  outcome: "ok" | "error";
+  errorClass?: string;
+  latencyMs: number;
+  cacheStatus?: CacheStatus;
+}
+
+export interface AuditLog {
+  /**
+   * Redact, digest and write a finished tools/call. Never throws: a failed
+   * write goes to `onError`, or to the log's own when there is none.
+   */
+  record(call: ToolCallAudit, onError?: (error: unknown) => void): void;
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+interface RedactionRule {
+  tool?: string;
+  field: RegExp;
+}
+
+function compileRule(rule: string): RedactionRule {
+  const separator = rule.indexOf(":");
+  const tool = separator >= 0 ? rule.slice(0, separator).trim() : undefined;
+  const field = (separator >= 0 ? rule.slice(separator + 1) : rule).trim();
+  if (!field || tool === "") {
+    throw new Error(`Invalid redaction rule "${rule}": expected "field" or "tool:field"`);
+  }
+  const pattern = field
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return { tool, field: new RegExp(`^${pattern}$`, "i") };
+}
+
+/** A copy of `value` with every field matching a rule for `tool` replaced. */
+export function redact(tool: string, value: unknown, rules: readonly string[]): unknown {
+  return redactCompiled(tool, value, rules.map(compileRule));
+}
+
+function redactCompiled(tool: string, value: unknown, rules: readonly RedactionRule[]): unknown {
+  const fields = rules.filter((rule) => rule.tool === undefined || rule.tool === tool).map((rule) => rule.field);
+  return redactFields(value, fields);
+}
+
+function redactFields(value: unknown, fields: readonly RegExp[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, fields));
+  }
+  if (typeof value === "object" && value !== null) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = fields.some((field) => field.test(key)) ? REDACTED : redactFields(item, fields);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/** SHA-256 of the arguments in canonical (sorted-key) form. */
+export function digestArgs(args: unknown): string {
+  const canonical = JSON.stringify(normalizeBody(args ?? {}));
+  return `sha256:${createHash("sha256").update(canonical).digest("hex")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Audit log
+// ---------------------------------------------------------------------------
+
+export interface AuditLogOptions {
+  /** Receives each record as one line of JSON, without the newline. */
+  write: (line: string) => void;
+  /** Redaction rules; defaults to DEFAULT_REDACTION_RULES. */
+  rules?: readonly string[];
+  /** Write the redacted arguments as well as their digest (default: digest only). */
+  args?: AuditArgsMode;
+  /** Merged into every record's `who`, e.g. the local user for stdio. */
+  principal?: AuditPrincipal;
+  /** Called when a record cannot be written. Defaults to stderr. */
+  onError?: (error: unknown) => void;
+  now?: () => number;
+}
+
+export function createAuditLog(options: AuditLogOptions): AuditLog {
+  const rules = (options.rules ?? DEFAULT_REDACTION_RULES).map(compileRule);
+  const now = options.now ?? Date.now;
+  const onError =
+    options.onError ?? ((error: unknown) => console.error("Failed to write audit record:", error));
+
+  return {
+    record({ tool, args, who, durationMs, errorClass, cacheStatus }, onRecordError = onError) {
+      try {
+        const redacted = redactCompiled(tool, args ?? {}, rules);
+        const entry: AuditRecord = {
+          ts: new Date(now()).toISOString(),
+          event: "tools/call",
+          tool,
+          who: { ...options.principal, ...who },
+          argsDigest: digestArgs(redacted),
+          ...(options.args === "redacted" ? { args: redacted } : {}),
+          outcome: errorClass ? "error" : "ok",
+          ...(errorClass ? { errorClass } : {}),
+          latencyMs: Math.round(durationMs),
+          ...(cacheStatus ? { cacheStatus } : {}),
+        };
+        options.write(JSON.stringify(entry));
+      } catch (error) {
+        // A broken audit sink must not fail the tool call.
+        onRecordError(error);
+      }
+    },
+  };
+}
+
+/** Appends each record to a JSON-lines file, synchronously so none are lost on exit. */
+export function createFileAuditSink(path: string): (line: string) => void {
+  return (line) => appendFileSync(path, line + "\n");
+}
+
+/** The OS user running the server, if the platform reports one. */
+export function localUser(): string | undefined {
+  try {
+    return userInfo().username;
+  } catch {
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Environment
+// ---------------------------------------------------------------------------
+
+/** DEFAULT_REDACTION_RULES plus the comma-separated rules in S2T_AUDIT_REDACT. */
+export function redactionRulesFromEnv(env: Record<string, string | undefined> = process.env): string[] {
+  const extra = (env.S2T_AUDIT_REDACT ?? "")
+    .split(",")
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+  for (const rule of extra) {
+    try {
+      compileRule(rule);
+    } catch {
+      throw new Error(`Invalid S2T_AUDIT_REDACT rule "${rule}": expected "field" or "tool:field"`);
+    }
+  }
+  return [...DEFAULT_REDACTION_RULES, ...extra];
+}
+
+/**
+ * Audit log from S2T_AUDIT_LOG (a file path, or `stderr`), S2T_AUDIT_ARGS
+ * (digest | redacted, default: digest) and S2T_AUDIT_REDACT (extra
+ * comma-separated rules, added to the defaults). Returns undefined when
+ * S2T_AUDIT_LOG is unset.
+ */
+export function auditLogFromEnv(
+  env: Record<string, string | undefined> = process.env,
+  options: Pick<AuditLogOptions, "principal" | "onError"> = {}
+): AuditLog | undefined {
+  const target = env.S2T_AUDIT_LOG?.trim();
+  if (!target) return undefined;
+
+  const args = (env.S2T_AUDIT_ARGS || "digest") as AuditArgsMode;
+  if (!AUDIT_ARGS_MODES.includes(args)) {
+    throw new Error(`Invalid S2T_AUDIT_ARGS "${args}". Use one of: ${AUDIT_ARGS_MODES.join(", ")}`);
+  }
+
+  const rules = redactionRulesFromEnv(env);
+
+  return createAuditLog({
+    // stdout carries the stdio protocol, so it is never an audit target.
+    write: target === "stderr" ? (line) => process.stderr.write(line + "\n") : createFileAuditSink(target),
+    rules,
+    args,
+    principal: options.principal,
+    onError: options.onError,
+  });
+}
@@ -0,0 +1,314 @@
+/**
+ * S2T Accelerators MCP Server - OAuth Authorization Tests
+ *
+ * Tests JWT verification against a local JWKS file, the scope-to-tool
+ * policy, and the HTTP middleware chain (bearer auth, scope challenges,
+ * protected resource metadata) on an ephemeral express app.
+ *
+ * @module auth.test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server as HttpServer } from "node:http";
+import express from "express";
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey } from "jose";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import {
+  createJwtVerifier,
+  createScopePolicy,
+  oauthConfigFromEnv,
+  protectedResourceMetadataHandler,
+  protectedResourceMetadataPath,
+  protectedResourceMetadataUrl,
+  requireToolScopes,
+  READ_SCOPE,
+  WRITE_SCOPE,
+  type OAuthConfig,
+} from "./auth.js";
+import { TOOL_REGISTRY } from "./server-setup.js";
+import { resolveResource } from "./resources.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ISSUER = "https://auth.example.com";
+const RESOURCE = "https://mcp.example.com/mcp";
+
+let dir: string;
+let privateKey: CryptoKey;
+let config: OAuthConfig;
+
+function tool(name: string) {
+  return TOOL_REGISTRY.get(name)!.definition;
+}
+
+async function token(
+  claims: Record<string, unknown> = { scope: READ_SCOPE },
+  options: { issuer?: string; audience?: string; expiresIn?: string } = {}
+): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+    .setIssuer(options.issuer ?? ISSUER)
+    .setAudience(options.audience ?? RESOURCE)
+    .setSubject("user-1")
+    .setIssuedAt()
+    .setExpirationTime(options.expiresIn ?? "5m")
+    .sign(privateKey);
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-auth-"));
+  const keys = await generateKeyPair("RS256");
+  privateKey = keys.privateKey;
+  const jwk = { ...(await exportJWK(keys.publicKey)), kid: "test-key", alg: "RS256", use: "sig" };
+  const jwksFile = join(dir, "jwks.json");
+  writeFileSync(jwksFile, JSON.stringify({ keys: [jwk] }));
+  config = { issuer: ISSUER, resource: RESOURCE, jwksFile };
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ===========================================================================
+// Scope policy
+// ===========================================================================
+
+describe("createScopePolicy", () => {
+  const policy = createScopePolicy();
+
+  it("should require s2t:write for tools that change state", () => {
+    expect(policy.requiredScope(tool("aci_log_decision"))).toBe(WRITE_SCOPE);
+    expect(policy.requiredScope(tool("s2t_acquire_file_lock"))).toBe(WRITE_SCOPE);
+    expect(policy.requiredScope(tool("s2t_catalog"))).toBe(READ_SCOPE);
+  });
+
+  it("should keep read-only tokens away from write tools", () => {
+    expect(policy.allows([READ_SCOPE], tool("aci_log_decision"))).toBe(false);
+    expect(policy.allows([READ_SCOPE], tool("s2t_acquire_file_lock"))).toBe(false);
+    expect(policy.allows([READ_SCOPE], tool("s2t_validate_iam_policy"))).toBe(true);
+  });
+
+  it("should let write tokens call read-only tools", () => {
+    expect(policy.allows([WRITE_SCOPE], tool("s2t_catalog"))).toBe(true);
+    expect(policy.allows([WRITE_SCOPE], tool("aci_log_decision"))).toBe(true);
+    expect(policy.allows([], tool("s2t_catalog"))).toBe(false);
+  });
+
+  it("should apply per-tool overrides", () => {
+    const custom = createScopePolicy({ s2t_embed: "s2t:embed" });
+    expect(custom.allows([WRITE_SCOPE], tool("s2t_embed"))).toBe(false);
+    expect(custom.allows(["s2t:embed"], tool("s2t_embed"))).toBe(true);
+    expect(custom.scopesSupported).toEqual([READ_SCOPE, WRITE_SCOPE, "s2t:embed"]);
+  });
+});
+
+// ===========================================================================
+// Token verification
+// ===========================================================================
+
+describe("createJwtVerifier", () => {
+  it("should verify tokens offline against a local JWKS file", async () => {
+    const jwt = await token({ scope: `${READ_SCOPE} ${WRITE_SCOPE}`, client_id: "agent-7" });
+
+    const info = await createJwtVerifier(config).verifyAccessToken(jwt);
+
+    expect(info).toMatchObject({
+      token: jwt,
+      clientId: "agent-7",
+      scopes: [READ_SCOPE, WRITE_SCOPE],
+      resource: new URL(RESOURCE),
+      extra: { subject: "user-1" },
+    });
+    expect(info.expiresAt).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it("should read scopes from an scp array claim", async () => {
+    const info = await createJwtVerifier(config).verifyAccessToken(await token({ scp: [WRITE_SCOPE] }));
+    expect(info.scopes).toEqual([WRITE_SCOPE]);
+    expect(info.clientId).toBe("user-1");
+  });
+
+  it.each([
+    ["another issuer", { issuer: "https://evil.example.com" }],
+    ["another audience", { audience: "https://other.example.com/mcp" }],
+    ["an expired token", { expiresIn: "-1m" }],
+  ])("should reject %s", async (_label, options) => {
+    await expect(
+      createJwtVerifier(config).verifyAccessToken(await token(undefined, options))
+    ).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  it("should reject tokens signed by an unknown key", async () => {
+    const { privateKey: otherKey } = await generateKeyPair("RS256");
+    const forged = await new SignJWT({ scope: WRITE_SCOPE })
+      .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+      .setIssuer(ISSUER)
+      .setAudience(RESOURCE)
+      .setExpirationTime("5m")
+      .sign(otherKey);
+
+    await expect(createJwtVerifier(config).verifyAccessToken(forged)).rejects.toThrow(
+      /Invalid access token/
+    );
+  });
+});
+
+// ===========================================================================
+// HTTP middleware
+// ===========================================================================
+
+describe("OAuth middleware", () => {
+  let httpServer: HttpServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // s2t_usage is held to write scope so resource reads have something to reject.
+    const policy = createScopePolicy({ s2t_usage: WRITE_SCOPE });
+    const resourceMetadataUrl = protectedResourceMetadataUrl(config);
+    const app = express();
+    app.use(express.json());
+    app.get(protectedResourceMetadataPath(config), protectedResourceMetadataHandler(config, policy, "s2t-test"));
+    app.use("/mcp", requireBearerAuth({ verifier: createJwtVerifier(config), resourceMetadataUrl }));
+    app.post(
+      "/mcp",
+      requireToolScopes(
+        policy,
+        (name) => TOOL_REGISTRY.get(name)?.definition,
+        (uri) => TOOL_REGISTRY.get(resolveResource(uri)?.resource.tool ?? "")?.definition,
+        resourceMetadataUrl
+      ),
+      (_req, res) => {
+        res.json({ ok: true });
+      }
+    );
+
+    httpServer = app.listen(0);
+    await new Promise((resolve) => httpServer.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  function callTool(name: string, bearer?: string) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}),
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 7, method: "tools/call", params: { name, arguments: {} } }),
+    });
+  }
+
+  function readResource(uri: string, bearer: string) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${bearer}` },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 8, method: "resources/read", params: { uri } }),
+    });
+  }
+
+  it("should serve protected resource metadata", async () => {
+    const res = await fetch(`${baseUrl}/.well-known/oauth-protected-resource/mcp`);
+    expect(await res.json()).toEqual({
+      resource: RESOURCE,
+      authorization_servers: [ISSUER],
+      scopes_supported: [READ_SCOPE, WRITE_SCOPE],
+      bearer_methods_supported: ["header"],
+      resource_name: "s2t-test",
+    });
+  });
+
+  it("should challenge requests without a token", async () => {
+    const res = await callTool("s2t_catalog");
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toContain(
+      'resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource/mcp"'
+    );
+  });
+
+  it("should reject write tools for read-only tokens with a scope challenge", async () => {
+    const readOnly = await token({ scope: READ_SCOPE });
+
+    for (const name of ["aci_log_decision", "s2t_acquire_file_lock"]) {
+      const res = await callTool(name, readOnly);
+      expect(res.status, name).toBe(403);
+      expect(res.headers.get("WWW-Authenticate")).toContain(`error="insufficient_scope"`);
+      expect(res.headers.get("WWW-Authenticate")).toContain(`scope="${WRITE_SCOPE}"`);
+      expect(await res.json()).toMatchObject({ id: 7, error: { message: expect.stringContaining(name) } });
+    }
+  });
+
+  it("should pass calls the token is scoped for", async () => {
+    expect((await callTool("s2t_catalog", await token({ scope: READ_SCOPE }))).status).toBe(200);
+    expect((await callTool("aci_log_decision", await token({ scope: WRITE_SCOPE }))).status).toBe(200);
+  });
+
+  it("should hold resource reads to the scope of the tool serving them", async () => {
+    const readOnly = await token({ scope: READ_SCOPE });
+
+    const res = await readResource("s2t://usage", readOnly);
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get("WWW-Authenticate")).toContain(`scope="${WRITE_SCOPE}"`);
+    expect(await res.json()).toMatchObject({
+      id: 8,
+      error: { message: "Forbidden: Resource s2t://usage requires scope s2t:write" },
+    });
+    expect((await readResource("s2t://catalog", readOnly)).status).toBe(200);
+    expect((await readResource("aci://precedents/rollback", readOnly)).status).toBe(200);
+    expect((await readResource("s2t://usage", await token({ scope: WRITE_SCOPE }))).status).toBe(200);
+  });
+
+  it("should check every call in a batch", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await token()}` },
+      body: JSON.stringify([
+        { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "s2t_catalog" } },
+        { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "aci_log_decision" } },
+      ]),
+    });
+    expect(res.status).toBe(403);
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("oauthConfigFromEnv", () => {
+  it("should be disabled without an issuer", () => {
+    expect(oauthConfigFromEnv({})).toBeUndefined();
+  });
+
+  it("should require the resource URL", () => {
+    expect(() => oauthConfigFromEnv({ S2T_OAUTH_ISSUER: ISSUER })).toThrow("S2T_OAUTH_RESOURCE is required");
+  });
+
+  it("should parse JWKS and scope settings", () => {
+    expect(
+      oauthConfigFromEnv({
+        S2T_OAUTH_ISSUER: ISSUER,
+        S2T_OAUTH_RESOURCE: RESOURCE,
+        S2T_OAUTH_JWKS_FILE: "/etc/s2t/jwks.json",
+        S2T_OAUTH_TOOL_SCOPES: "s2t_embed=s2t:write, aci_recall_precedent = s2t:audit",
+      })
+    ).toEqual({
+      issuer: ISSUER,
+      resource: RESOURCE,
+      jwksUri: undefined,
+      jwksFile: "/etc/s2t/jwks.json",
+      toolScopes: { s2t_embed: "s2t:write", aci_recall_precedent: "s2t:audit" },
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * S2T Accelerators - OAuth 2.1 Bearer Authorization
+ *
+ * Implements the resource-server side of the MCP authorization spec for the
+ * HTTP transports:
+ *
+ *   - Protected resource metadata (RFC 9728) at
+ *     /.well-known/oauth-protected-resource[/path], naming the issuer that
+ *     clients should obtain tokens from.
+ *   - Bearer JWT validation against the issuer's JWKS -- fetched from a URL,
+ *     or read from a local file so the server can run offline. Tokens must be
+ *     issued by the configured issuer for this resource (audience, RFC 8707).
+ *   - Scope-to-tool mapping. Read-only tools need `s2t:read`; tools that
+ *     change state (e.g. aci_log_decision, s2t_acquire_file_lock) need
+ *     `s2t:write`, which also grants read access. Calls a token is not scoped
+ *     for get HTTP 403 with an `insufficient_scope` challenge so clients can
+ *     step up.
+ *
+ * @module auth
+ */
+
+import { readFileSync } from "node:fs";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors as joseErrors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+} from "jose";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+
+export const READ_SCOPE = "s2t:read";
+export const WRITE_SCOPE = "s2t:write";
+
+/** Scopes that satisfy each required scope. */
+const IMPLIED_BY: Record<string, readonly string[]> = {
+  [READ_SCOPE]: [READ_SCOPE, WRITE_SCOPE],
+};
+
+export interface OAuthConfig {
+  /** Authorization server issuer identifier (the JWT `iss`). */
+  issuer: string;
+  /** This server's MCP endpoint URL, e.g. https://mcp.example.com/mcp (the JWT `aud`). */
+  resource: string;
+  /** JWKS URL; defaults to `<issuer>/.well-known/jwks.json`. */
+  jwksUri?: string;
+  /** Local JWKS file, used instead of jwksUri (offline deployments). */
+  jwksFile?: string;
+  /** Per-tool scope overrides, e.g. `{ s2t_embed: "s2t:write" }`. */
+  toolScopes?: Record<string, string>;
+  /** Allowed JWS algorithms (default: any the key supports). */
+  algorithms?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Scope policy
+// ---------------------------------------------------------------------------
+
+export interface ScopePolicy {
+  /** Scope a token needs to call `tool`. */
+  requiredScope(tool: Tool): string;
+  /** Whether a token holding `scopes` may call `tool`. */
+  allows(scopes: readonly string[], tool: Tool): boolean;
+  /** Every scope the policy can require, for metadata. */
+  readonly scopesSupported: string[];
+}
+
+export function createScopePolicy(overrides: Record<string, string> = {}): ScopePolicy {
+  function requiredScope(tool: Tool): string {
+    return (
+      overrides[tool.name] ??
+      (tool.annotations?.readOnlyHint === true ? READ_SCOPE : WRITE_SCOPE)
+    );
+  }
+
+  return {
+    requiredScope,
+    allows(scopes, tool) {
+      const required = requiredScope(tool);
+      const satisfiedBy = IMPLIED_BY[required] ?? [required];
+      return scopes.some((scope) => satisfiedBy.includes(scope));
+    },
+    scopesSupported: Array.from(new Set([READ_SCOPE, WRITE_SCOPE, ...Object.values(overrides)])),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Token verification
+// ---------------------------------------------------------------------------
+
+function scopesFrom(payload: JWTPayload): string[] {
+  if (typeof payload.scope === "string") return payload.scope.split(" ").filter(Boolean);
+  if (Array.isArray(payload.scp)) return payload.scp.filter((s): s is string => typeof s === "string");
+  return [];
+}
+
+function clientIdFrom(payload: JWTPayload): string {
+  for (const claim of ["client_id", "azp", "sub"] as const) {
+    const value = payload[claim];
+    if (typeof value === "string" && value) return value;
+  }
+  return "unknown";
+}
+
+/** Verify bearer JWTs against the issuer's JWKS. */
+export function createJwtVerifier(config: OAuthConfig): OAuthTokenVerifier {
+  const keySet = config.jwksFile
+    ? createLocalJWKSet(JSON.parse(readFileSync(config.jwksFile, "utf8")) as JSONWebKeySet)
+    : createRemoteJWKSet(
+        new URL(config.jwksUri ?? `${config.issuer.replace(/\/$/, "")}/.well-known/jwks.json`)
+      );
+
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      let payload: JWTPayload;
+      try {
+        ({ payload } = await jwtVerify(token, keySet, {
+          issuer: config.issuer,
+          audience: config.resource,
+          algorithms: config.algorithms,
+        }));
+      } catch (error) {
+        if (error instanceof joseErrors.JOSEError) {
+          throw new InvalidTokenError(`Invalid access token: ${error.message}`);
+        }
+        throw error;
+      }
+
+      return {
+        token,
+        clientId: clientIdFrom(payload),
+        scopes: scopesFrom(payload),
+        expiresAt: payload.exp,
+        resource: new URL(config.resource),
+        extra: { subject: payload.sub },
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP wiring
+// ---------------------------------------------------------------------------
+
+/** RFC 9728 metadata document URL for the resource. */
+export function protectedResourceMetadataUrl(config: OAuthConfig): string {
+  return getOAuthProtectedResourceMetadataUrl(new URL(config.resource));
+}
+
+/** Path the metadata document is served from. */
+export function protectedResourceMetadataPath(config: OAuthConfig): string {
+  return new URL(protectedResourceMetadataUrl(config)).pathname;
+}
+
+export function protectedResourceMetadataHandler(
+  config: OAuthConfig,
+  policy: ScopePolicy,
+  resourceName?: string
+): RequestHandler {
+  const metadata = {
+    resource: config.resource,
+    authorization_servers: [config.issuer],
+    scopes_supported: policy.scopesSupported,
+    bearer_methods_supported: ["header"],
+    ...(resourceName ? { resource_name: resourceName } : {}),
+  };
+  return (_req: Request, res: Response) => {
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    res.json(metadata);
+  };
+}
+
+interface JsonRpcMessage {
+  id?: string | number | null;
+  method?: string;
+  params?: { name?: unknown; uri?: unknown };
+}
+
+/** The tool whose scope a message needs, and how to name what it asked for. */
+function scopedTarget(
+  message: JsonRpcMessage,
+  lookupTool: (name: string) => Tool | undefined,
+  lookupResourceTool: (uri: string) => Tool | undefined
+): { tool: Tool; target: string } | undefined {
+  const { name, uri } = message?.params ?? {};
+  if (message?.method === "tools/call" && typeof name === "string") {
+    const tool = lookupTool(name);
+    return tool && { tool, target: `Tool ${tool.name}` };
+  }
+  if (message?.method === "resources/read" && typeof uri === "string") {
+    const tool = lookupResourceTool(uri);
+    return tool && { tool, target: `Resource ${uri}` };
+  }
+  return undefined;
+}
+
+/**
+ * Reject tools/call requests the bearer token is not scoped for with HTTP
+ * 403 and an `insufficient_scope` challenge naming the scope to request.
+ * resources/read is held to the scope of the tool that serves the same
+ * data, found with `lookupResourceTool`.
+ * Must run after requireBearerAuth (which sets req.auth) and express.json.
+ */
+export function requireToolScopes(
+  policy: ScopePolicy,
+  lookupTool: (name: string) => Tool | undefined,
+  lookupResourceTool: (uri: string) => Tool | undefined,
+  resourceMetadataUrl: string
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const scopes = req.auth?.scopes ?? [];
+    const messages: JsonRpcMessage[] = Array.isArray(req.body) ? req.body : [req.body ?? {}];
+
+    for (const message of messages) {
+      const scoped = scopedTarget(message, lookupTool, lookupResourceTool);
+      // Unknown tools and resources fall through to the server's own error handling.
+      if (!scoped || policy.allows(scopes, scoped.tool)) continue;
+
+      const required = policy.requiredScope(scoped.tool);
+      const description = `${scoped.target} requires scope ${required}`;
+      res.setHeader(
+        "WWW-Authenticate",
+        `Bearer error="insufficient_scope", error_description="${description}", ` +
+          `scope="${required}", resource_metadata="${resourceMetadataUrl}"`
+      );
+      res.status(403).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: `Forbidden: ${description}` },
+        id: message.id ?? null,
+      });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Read OAuth settings from the environment, or undefined when
+ * S2T_OAUTH_ISSUER is unset (authorization disabled):
+ *
+ *   S2T_OAUTH_ISSUER        Authorization server issuer
+ *   S2T_OAUTH_RESOURCE      Public URL of this server's /mcp endpoint
+ *   S2T_OAUTH_JWKS_URI      JWKS URL (default: <issuer>/.well-known/jwks.json)
+ *   S2T_OAUTH_JWKS_FILE     Local JWKS file (offline)
+ *   S2T_OAUTH_TOOL_SCOPES   Per-tool overrides, e.g. "s2t_embed=s2t:write"
+ */
+export function oauthConfigFromEnv(env: NodeJS.ProcessEnv = process.env): OAuthConfig | undefined {
+  if (!env.S2T_OAUTH_ISSUER) return undefined;
+  if (!env.S2T_OAUTH_RESOURCE) {
+    throw new Error("S2T_OAUTH_RESOURCE is required when S2T_OAUTH_ISSUER is set");
+  }
+
+  const toolScopes: Record<string, string> = {};
+  for (const pair of (env.S2T_OAUTH_TOOL_SCOPES ?? "").split(",")) {
+    const [tool, scope] = pair.split("=").map((part) => part.trim());
+    if (tool && scope) toolScopes[tool] = scope;
+  }
+
+  return {
+    issuer: env.S2T_OAUTH_ISSUER,
+    resource: env.S2T_OAUTH_RESOURCE,
+    jwksUri: env.S2T_OAUTH_JWKS_URI || undefined,
+    jwksFile: env.S2T_OAUTH_JWKS_FILE || undefined,
+    toolScopes,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * S2T Accelerators MCP Server - Canonical JSON Tests
+ *
+ * Tests the canonical body form shared by cassettes, cache keys and audit
+ * digests.
+ *
+ * @module canonical-json.test
+ */
+
+import { describe, it, expect } from "vitest";
+import { normalizeBody } from "./canonical-json.js";
+
+describe("normalizeBody", () => {
+  it("should sort keys, drop undefined and remove ignored fields at any depth", () => {
+    expect(
+      normalizeBody({ b: 1, a: { z: undefined, y: [{ ts: 1, k: 2 }] }, ts: 3 }, new Set(["ts"]))
+    ).toEqual({ a: { y: [{ k: 2 }] }, b: 1 });
+    expect(JSON.stringify(normalizeBody({ b: 1, a: 2 }))).toBe('{"a":2,"b":1}');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * S2T Accelerators - Canonical JSON
+ *
+ * One canonical form for request bodies, shared by everything that keys or
+ * digests them: cassette matching, response-cache keys and audit digests.
+ * Two bodies that differ only in key order or `undefined` members
+ * serialize to the same JSON.
+ *
+ * @module canonical-json
+ */
+
+/** Canonical form of a request body: sorted keys, no undefined, no ignored fields. */
+export function normalizeBody(body: unknown, ignoreFields: ReadonlySet<string> = new Set()): unknown {
+  if (Array.isArray(body)) {
+    return body.map((item) => (item === undefined ? null : normalizeBody(item, ignoreFields)));
+  }
+  if (typeof body === "object" && body !== null) {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(body).sort()) {
+      const value = (body as Record<string, unknown>)[key];
+      if (value === undefined || ignoreFields.has(key)) continue;
+      normalized[key] = normalizeBody(value, ignoreFields);
+    }
+    return normalized;
+  }
+  return body;
+}
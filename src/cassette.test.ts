@@ -0,0 +1,306 @@
+/**
+ * S2T Accelerators MCP Server - Cassette Tests
+ *
+ * Tests recording, request matching and replay (including typed errors) for
+ * the cassette ApiClient decorator, using temporary cassette files.
+ *
+ * @module cassette.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  CassetteMismatchError,
+  cassetteFromEnv,
+  createCassetteClient,
+  type CassetteFile,
+} from "./cassette.js";
+import { REDACTED } from "./audit.js";
+import { S2TQuotaError, UpstreamContractError } from "./api-errors.js";
+import { handleRiskClassify, type ApiClient } from "./handlers.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const RISK_RESPONSE = {
+  risk_level: "HIGH",
+  score: 71,
+  factors: [{ name: "environment", weight: 0.4, value: "production", contribution: 40 }],
+  recommendation: "Require human approval",
+  auto_approve: false,
+  metadata: { processing_time_ms: 9, model_version: "risk-v2.1" },
+};
+
+function fakeClient(impl: ApiClient["callApi"] = async () => RISK_RESPONSE): ApiClient & {
+  callApi: ReturnType<typeof vi.fn>;
+} {
+  return { callApi: vi.fn(impl) };
+}
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-cassette-"));
+  path = join(dir, "nested", "cassette.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ===========================================================================
+// Record / replay
+// ===========================================================================
+
+describe("createCassetteClient", () => {
+  it("should record interactions to disk without the API key", async () => {
+    const real = fakeClient();
+    const recorder = createCassetteClient({
+      path,
+      mode: "record",
+      client: real,
+      now: () => new Date("2026-01-15T10:00:00Z"),
+    });
+
+    const data = await recorder.callApi("/accelerators/risk/classify", "POST", { action: "rm -rf" });
+
+    expect(data).toEqual(RISK_RESPONSE);
+    const cassette = JSON.parse(readFileSync(path, "utf8")) as CassetteFile;
+    expect(cassette).toEqual({
+      version: 1,
+      interactions: [
+        {
+          request: {
+            method: "POST",
+            endpoint: "/accelerators/risk/classify",
+            body: { action: "rm -rf" },
+            bodyDigest: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+          },
+          response: { data: RISK_RESPONSE },
+          recorded_at: "2026-01-15T10:00:00.000Z",
+        },
+      ],
+    });
+  });
+
+  it("should replay on endpoint, method and normalized body", async () => {
+    const real = fakeClient();
+    await createCassetteClient({ path, mode: "record", client: real }).callApi(
+      "/accelerators/risk/classify",
+      "POST",
+      { action: "deploy", environment: "production" }
+    );
+
+    const replay = createCassetteClient({ path, mode: "replay" });
+    await expect(
+      replay.callApi("/accelerators/risk/classify", "POST", { environment: "production", action: "deploy" })
+    ).resolves.toEqual(RISK_RESPONSE);
+
+    await expect(
+      replay.callApi("/accelerators/risk/classify", "POST", { action: "deploy", environment: "local" })
+    ).rejects.toThrow(CassetteMismatchError);
+    await expect(replay.callApi("/accelerators/risk/classify", "GET")).rejects.toThrow(
+      "No recorded interaction"
+    );
+    expect(real.callApi).toHaveBeenCalledTimes(1);
+  });
+
+  it("should replay repeated requests in recorded order, then repeat the last", async () => {
+    let calls = 0;
+    const recorder = createCassetteClient({
+      path,
+      mode: "record",
+      client: fakeClient(async () => ({ call: ++calls })),
+    });
+    await recorder.callApi("/usage");
+    await recorder.callApi("/usage");
+
+    const replay = createCassetteClient({ path, mode: "replay" });
+    expect(await replay.callApi("/usage")).toEqual({ call: 1 });
+    expect(await replay.callApi("/usage")).toEqual({ call: 2 });
+    expect(await replay.callApi("/usage")).toEqual({ call: 2 });
+  });
+
+  it("should ignore configured volatile fields when matching", async () => {
+    await createCassetteClient({ path, mode: "record", client: fakeClient(), ignoreFields: ["timestamp"] }).callApi(
+      "/accelerators/trace/create",
+      "POST",
+      { operation: "deploy", timestamp: "2026-01-01" }
+    );
+
+    const replay = createCassetteClient({ path, mode: "replay", ignoreFields: ["timestamp"] });
+    await expect(
+      replay.callApi("/accelerators/trace/create", "POST", { operation: "deploy", timestamp: "2026-06-30" })
+    ).resolves.toEqual(RISK_RESPONSE);
+  });
+
+  it("should write redacted bodies but match on the unredacted ones", async () => {
+    const body = {
+      policy_document: '{"Statement":[]}',
+      context: { client_id: "secret-client", region: "eu-west-1" },
+    };
+    await createCassetteClient({ path, mode: "record", client: fakeClient() }).callApi("/validate/iam", "POST", body);
+
+    const written = readFileSync(path, "utf8");
+    expect(written).not.toContain("secret-client");
+    expect(written).not.toContain("Statement");
+    expect((JSON.parse(written) as CassetteFile).interactions[0].request.body).toEqual({
+      context: { client_id: REDACTED, region: "eu-west-1" },
+      policy_document: REDACTED,
+    });
+    const replay = createCassetteClient({ path, mode: "replay" });
+    await expect(replay.callApi("/validate/iam", "POST", body)).resolves.toEqual(RISK_RESPONSE);
+    await expect(
+      replay.callApi("/validate/iam", "POST", { ...body, policy_document: '{"Statement":[{"Effect":"Allow"}]}' })
+    ).rejects.toThrow(CassetteMismatchError);
+  });
+
+  it("should still match recordings made before digests, and redact them", async () => {
+    const recorded: CassetteFile = {
+      version: 1,
+      interactions: [
+        {
+          request: { method: "POST", endpoint: "/analyze/error-patterns", body: { stack_trace: "at app.js:1" } },
+          response: { data: RISK_RESPONSE },
+          recorded_at: "2026-01-15T10:00:00.000Z",
+        },
+      ],
+    };
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(recorded));
+
+    const replay = createCassetteClient({ path, mode: "replay" });
+
+    await expect(replay.callApi("/analyze/error-patterns", "POST", { stack_trace: "at app.js:1" })).resolves.toEqual(
+      RISK_RESPONSE
+    );
+    expect(replay.interactions[0].request.body).toEqual({ stack_trace: REDACTED });
+  });
+
+  it("should record typed API errors and rethrow them on replay", async () => {
+    const recorder = createCassetteClient({
+      path,
+      mode: "record",
+      client: fakeClient(async () => {
+        throw new S2TQuotaError("Rate limit exceeded", {
+          endpoint: "/catalog",
+          method: "GET",
+          status: 429,
+          requestId: "req-9",
+          retryAfterMs: 2000,
+        });
+      }),
+    });
+    await expect(recorder.callApi("/catalog")).rejects.toBeInstanceOf(S2TQuotaError);
+
+    const replayed = await createCassetteClient({ path, mode: "replay" })
+      .callApi("/catalog")
+      .catch((e: unknown) => e);
+    expect(replayed).toBeInstanceOf(S2TQuotaError);
+    expect(replayed).toMatchObject({
+      message: "Rate limit exceeded",
+      status: 429,
+      requestId: "req-9",
+      remediation: "Rate limit reached. Retry in 2s, or upgrade your tier for a higher limit.",
+    });
+  });
+
+  it("should preserve contract violations on replay", async () => {
+    await createCassetteClient({
+      path,
+      mode: "record",
+      client: fakeClient(async () => {
+        throw new UpstreamContractError({ endpoint: "/usage", method: "GET" }, [
+          { pointer: "/tier", message: "is required" },
+        ]);
+      }),
+    })
+      .callApi("/usage")
+      .catch(() => undefined);
+
+    const replayed = await createCassetteClient({ path, mode: "replay" })
+      .callApi("/usage")
+      .catch((e: unknown) => e);
+    expect(replayed).toBeInstanceOf(UpstreamContractError);
+    expect((replayed as UpstreamContractError).violations).toEqual([{ pointer: "/tier", message: "is required" }]);
+  });
+
+  it("should not record cancellations", async () => {
+    const recorder = createCassetteClient({
+      path,
+      mode: "record",
+      client: fakeClient(async () => {
+        throw new Error("API request cancelled");
+      }),
+    });
+    await expect(recorder.callApi("/usage")).rejects.toThrow("API request cancelled");
+    expect(recorder.interactions).toHaveLength(0);
+  });
+
+  it("should replay known requests and record new ones in auto mode", async () => {
+    const real = fakeClient();
+    await createCassetteClient({ path, mode: "record", client: real }).callApi("/catalog");
+
+    const auto = createCassetteClient({ path, mode: "auto", client: real });
+    await auto.callApi("/catalog");
+    await auto.callApi("/usage");
+
+    expect(real.callApi).toHaveBeenCalledTimes(2);
+    expect(auto.interactions.map((i) => i.request.endpoint)).toEqual(["/catalog", "/usage"]);
+  });
+
+  it("should require a client unless replaying", () => {
+    expect(() => createCassetteClient({ path, mode: "record" })).toThrow(
+      'Cassette mode "record" requires a client'
+    );
+  });
+
+  it("should drive handle* functions from a replayed cassette", async () => {
+    await createCassetteClient({ path, mode: "record", client: fakeClient() }).callApi(
+      "/accelerators/risk/classify",
+      "POST",
+      { action: "terraform destroy", environment: "production", context: "development" }
+    );
+
+    const result = await handleRiskClassify(
+      { action: "terraform destroy", environment: "production" },
+      createCassetteClient({ path, mode: "replay" })
+    );
+
+    expect(result).toContain("HIGH");
+    expect(result).toContain("Require human approval");
+  });
+});
+
+// ===========================================================================
+// Environment wiring
+// ===========================================================================
+
+describe("cassetteFromEnv", () => {
+  it("should return the client unchanged without S2T_CASSETTE", () => {
+    const real = fakeClient();
+    expect(cassetteFromEnv(real, {})).toBe(real);
+  });
+
+  it("should redact the S2T_AUDIT_REDACT fields too", async () => {
+    const recorder = cassetteFromEnv(fakeClient(), {
+      S2T_CASSETTE: path,
+      S2T_CASSETTE_MODE: "record",
+      S2T_AUDIT_REDACT: "customer_name",
+    });
+
+    await recorder.callApi("/accelerators/risk/classify", "POST", { action: "deploy", customer_name: "Acme" });
+
+    expect(readFileSync(path, "utf8")).not.toContain("Acme");
+  });
+
+  it("should reject unknown modes", () => {
+    expect(() =>
+      cassetteFromEnv(fakeClient(), { S2T_CASSETTE: path, S2T_CASSETTE_MODE: "rewind" })
+    ).toThrow('Invalid S2T_CASSETTE_MODE "rewind"');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * S2T Accelerators - Record/Replay Cassettes
+ *
+ * An ApiClient decorator that records real request/response pairs to a JSON
+ * cassette file and replays them later, so handler regression tests can run
+ * against real platform payloads and customer bug reports can be reproduced
+ * exactly.
+ *
+ * Interactions are matched on method, endpoint and a SHA-256 digest of the
+ * normalized body (keys sorted, `undefined` dropped, `ignoreFields` removed
+ * at any depth). The digest is taken when recording, so record and replay
+ * with the same `ignoreFields`. Repeated identical requests replay their
+ * recordings in order; once exhausted, the last one is repeated. Typed API
+ * errors are recorded too and rethrown as the same class on replay.
+ *
+ * The decorator wraps a client created by createApiClient, so the API key
+ * never reaches the cassette. The body written next to the digest is
+ * redacted with the audit trail's rules, so credentials, policy documents
+ * and stack traces stay out of cassettes that get attached to bug reports,
+ * while requests that differ only in those fields still match different
+ * recordings. Tool-scoped rules never apply: the cassette sees endpoints,
+ * not tools.
+ *
+ *   const client = createCassetteClient({ path: "bug-1234.json", mode: "record", client: real });
+ *   const replay = createCassetteClient({ path: "bug-1234.json", mode: "replay" });
+ *
+ * @module cassette
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ApiClient } from "./handlers.js";
+import { DEFAULT_REDACTION_RULES, redact, redactionRulesFromEnv } from "./audit.js";
+import { normalizeBody } from "./canonical-json.js";
+import {
+  S2TApiError,
+  S2TAuthError,
+  S2TQuotaError,
+  S2TUpstreamUnavailableError,
+  S2TValidationError,
+  UpstreamContractError,
+  type ContractViolation,
+  type S2TApiErrorDetails,
+} from "./api-errors.js";
+
+export const CASSETTE_VERSION = 1;
+
+/**
+ *   record   call the wrapped client and append every interaction
+ *   replay   serve only from the cassette; unmatched requests throw
+ *   auto     replay when a recording matches, otherwise record
+ */
+export type CassetteMode = "record" | "replay" | "auto";
+
+export const CASSETTE_MODES: readonly CassetteMode[] = ["record", "replay", "auto"];
+
+export interface CassetteRequest {
+  method: string;
+  endpoint: string;
+  /** The body with the redaction rules applied. */
+  body?: unknown;
+  /** Digest of the unredacted body; requests match on it. */
+  bodyDigest?: string;
+}
+
+export interface RecordedApiError extends S2TApiErrorDetails {
+  name: string;
+  message: string;
+  violations?: ContractViolation[];
+}
+
+export type CassetteResponse = { data: unknown } | { error: RecordedApiError };
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recorded_at: string;
+}
+
+export interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  /** Cassette file; created on first record. */
+  path: string;
+  mode: CassetteMode;
+  /** Client to forward to. Required unless mode is "replay". */
+  client?: ApiClient;
+  /** Body fields ignored when matching, e.g. timestamps or nonces. */
+  ignoreFields?: string[];
+  /** Redaction rules for request bodies; defaults to DEFAULT_REDACTION_RULES. */
+  rules?: readonly string[];
+  /** Injection point for tests. */
+  now?: () => Date;
+}
+
+export interface CassetteClient extends ApiClient {
+  /** Interactions currently held by the cassette. */
+  readonly interactions: readonly CassetteInteraction[];
+}
+
+export class CassetteMismatchError extends Error {
+  readonly request: CassetteRequest;
+
+  constructor(request: CassetteRequest, path: string, recordedForRoute: number) {
+    super(
+      `No recorded interaction in ${path} for ${request.method} ${request.endpoint}` +
+        (recordedForRoute > 0
+          ? ` with this body (${recordedForRoute} recorded with a different body)`
+          : "") +
+        ". Re-record the cassette with mode \"record\" or \"auto\"."
+    );
+    this.name = "CassetteMismatchError";
+    this.request = request;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/** SHA-256 of the normalized body, which requests are matched on. */
+function digestBody(body: unknown, ignoreFields: ReadonlySet<string>): string {
+  const canonical = JSON.stringify(normalizeBody(body ?? null, ignoreFields));
+  return `sha256:${createHash("sha256").update(canonical).digest("hex")}`;
+}
+
+function matchKey(request: CassetteRequest, ignoreFields: ReadonlySet<string>): string {
+  const digest = request.bodyDigest ?? digestBody(undefined, ignoreFields);
+  return `${request.method.toUpperCase()} ${request.endpoint} ${digest}`;
+}
+
+// ---------------------------------------------------------------------------
+// Error (de)serialization
+// ---------------------------------------------------------------------------
+
+const ERROR_CLASSES: Record<string, new (message: string, details: S2TApiErrorDetails) => S2TApiError> = {
+  S2TApiError,
+  S2TAuthError,
+  S2TQuotaError,
+  S2TValidationError,
+  S2TUpstreamUnavailableError,
+};
+
+function recordError(error: S2TApiError): RecordedApiError {
+  return {
+    name: error.name,
+    message: error.message,
+    endpoint: error.endpoint,
+    method: error.method,
+    status: error.status,
+    code: error.code,
+    requestId: error.requestId,
+    retryAfterMs: error.retryAfterMs,
+    ...(error instanceof UpstreamContractError ? { violations: error.violations } : {}),
+  };
+}
+
+function reviveError(recorded: RecordedApiError): S2TApiError {
+  const { name, message, violations, ...details } = recorded;
+  if (name === "UpstreamContractError") {
+    return new UpstreamContractError(details, violations ?? []);
+  }
+  const ErrorClass = ERROR_CLASSES[name] ?? S2TApiError;
+  return new ErrorClass(message, details);
+}
+
+// ---------------------------------------------------------------------------
+// File I/O
+// ---------------------------------------------------------------------------
+
+export function loadCassette(path: string): CassetteFile {
+  if (!existsSync(path)) return { version: CASSETTE_VERSION, interactions: [] };
+  const cassette = JSON.parse(readFileSync(path, "utf8")) as CassetteFile;
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Unsupported cassette format in ${path} (expected version ${CASSETTE_VERSION})`);
+  }
+  return cassette;
+}
+
+function saveCassette(path: string, cassette: CassetteFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`);
+}
+
+// ---------------------------------------------------------------------------
+// Decorator
+// ---------------------------------------------------------------------------
+
+export function createCassetteClient(options: CassetteOptions): CassetteClient {
+  const { path, mode, client } = options;
+  const ignoreFields = new Set(options.ignoreFields ?? []);
+  const rules = options.rules ?? DEFAULT_REDACTION_RULES;
+  const now = options.now ?? (() => new Date());
+
+  if (mode !== "replay" && !client) {
+    throw new Error(`Cassette mode "${mode}" requires a client to record from`);
+  }
+
+  const requestOf = (endpoint: string, method: string, body: unknown): CassetteRequest => ({
+    method,
+    endpoint,
+    ...(body !== undefined
+      ? { body: normalizeBody(redact(endpoint, body, rules)), bodyDigest: digestBody(body, ignoreFields) }
+      : {}),
+  });
+
+  // "record" starts a fresh cassette; the others build on what is on disk.
+  // Recordings from before digests hold the full body: digest and redact it
+  // now, so it still matches and is redacted the next time the file is saved.
+  const cassette: CassetteFile =
+    mode === "record" ? { version: CASSETTE_VERSION, interactions: [] } : loadCassette(path);
+  cassette.interactions = cassette.interactions.map((interaction) => {
+    const { method, endpoint, body, bodyDigest } = interaction.request;
+    if (bodyDigest || body === undefined) return interaction;
+    return { ...interaction, request: requestOf(endpoint, method, body) };
+  });
+  /** Replay cursor per match key. */
+  const cursors = new Map<string, number>();
+
+  function findRecording(request: CassetteRequest): CassetteInteraction | undefined {
+    const key = matchKey(request, ignoreFields);
+    const matches = cassette.interactions.filter((i) => matchKey(i.request, ignoreFields) === key);
+    if (matches.length === 0) return undefined;
+    const cursor = cursors.get(key) ?? 0;
+    cursors.set(key, cursor + 1);
+    return matches[Math.min(cursor, matches.length - 1)];
+  }
+
+  function replay(interaction: CassetteInteraction): unknown {
+    if ("error" in interaction.response) throw reviveError(interaction.response.error);
+    return structuredClone(interaction.response.data);
+  }
+
+  async function record(
+    request: CassetteRequest,
+    call: () => Promise<unknown>
+  ): Promise<unknown> {
+    let response: CassetteResponse;
+    try {
+      response = { data: await call() };
+    } catch (error) {
+      // Cancellations and programming errors are not part of the API contract.
+      if (!(error instanceof S2TApiError)) throw error;
+      response = { error: recordError(error) };
+    }
+
+    cassette.interactions.push({ request, response, recorded_at: now().toISOString() });
+    saveCassette(path, cassette);
+    return replay({ request, response, recorded_at: "" });
+  }
+
+  return {
+    get interactions() {
+      return cassette.interactions;
+    },
+
+    async callApi(endpoint, method = "GET", body, callOptions) {
+      const request = requestOf(endpoint, method, body);
+
+      if (mode !== "record") {
+        const recording = findRecording(request);
+        if (recording) return replay(recording);
+        if (mode === "replay") {
+          const sameRoute = cassette.interactions.filter(
+            (i) => i.request.method === method && i.request.endpoint === endpoint
+          ).length;
+          throw new CassetteMismatchError(request, path, sameRoute);
+        }
+      }
+
+      return record(request, () => client!.callApi(endpoint, method, body, callOptions));
+    },
+  };
+}
+
+/**
+ * Wrap `client` in a cassette when S2T_CASSETTE is set:
+ *
+ *   S2T_CASSETTE        Cassette file path
+ *   S2T_CASSETTE_MODE   record | replay | auto (default: auto)
+ *   S2T_AUDIT_REDACT    Extra redaction rules, as for the audit trail
+ */
+export function cassetteFromEnv(
+  client: ApiClient,
+  env: NodeJS.ProcessEnv = process.env
+): ApiClient {
+  if (!env.S2T_CASSETTE) return client;
+  const mode = (env.S2T_CASSETTE_MODE || "auto") as CassetteMode;
+  if (!CASSETTE_MODES.includes(mode)) {
+    throw new Error(
+      `Invalid S2T_CASSETTE_MODE "${mode}". Use one of: ${CASSETTE_MODES.join(", ")}`
+    );
+  }
+  return createCassetteClient({ path: env.S2T_CASSETTE, mode, client, rules: redactionRulesFromEnv(env) });
+}
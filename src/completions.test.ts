@@ -0,0 +1,210 @@
+/**
+ * S2T Accelerators MCP Server - Completion Tests
+ *
+ * Tests what the completion index learns from tool calls, how it matches,
+ * scopes, bounds and expires values, and the completion/complete handler
+ * createMcpServer registers for prompts and resource templates.
+ *
+ * @module completions.test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { COMPLETION_SOURCES, createCompletionIndex, type CompletionIndex } from "./completions.js";
+import { buildPromptRegistry, PROMPT_TEMPLATES, TOOL_REGISTRY } from "./server-setup.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { connectClient } from "./test-client.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===========================================================================
+// Completion index
+// ===========================================================================
+
+describe("createCompletionIndex", () => {
+  const ROUTE = MOCK_FIXTURES["POST /aci/route"]({}, "success") as Record<string, unknown>;
+
+  it("should learn values from arguments and structured results", () => {
+    const index = createCompletionIndex();
+
+    index.learn("aci_route_domain", { task_description: "Rotate keys" }, ROUTE);
+    index.learn("s2t_submit_agent_task", { agent_id: "data-agent", prompt: "Compact tables" });
+
+    expect(index.complete("agent_id", "")).toEqual({
+      values: ["data-agent", "ops-agent", "security-agent"],
+      total: 3,
+      hasMore: false,
+    });
+    expect(index.complete("agent_id", "s").values).toEqual(["security-agent"]);
+    expect(index.complete("decision_id", "").values).toEqual([]);
+  });
+
+  it("should only learn arguments from the tools that hand them out", () => {
+    const index = createCompletionIndex();
+
+    index.learn("s2t_embed", { text: "hi", agent_id: "not-an-agent" });
+
+    expect(index.complete("agent_id", "").values).toEqual([]);
+  });
+
+  it("should file memory keys under their namespace and ignore stored values", () => {
+    const index = createCompletionIndex();
+    const store = (namespace: string | undefined, key: string) =>
+      index.learn("s2t_manage_agent_memory", {
+        operation: "store",
+        agent_id: "deployment-agent",
+        key,
+        ...(namespace ? { namespace } : {}),
+        value: { key: "nested" },
+      });
+
+    store(undefined, "last_deployment");
+    store("releases", "v1.4.2");
+
+    expect(index.complete("key", "").values).toEqual(["v1.4.2", "last_deployment"]);
+    expect(index.complete("key", "", { arguments: { namespace: "default" } }).values).toEqual(["last_deployment"]);
+    expect(index.complete("namespace", "").values).toEqual(["releases"]);
+  });
+
+  it("should keep tenants apart", () => {
+    const index = createCompletionIndex();
+
+    index.learn("aci_log_decision", { action: "x" }, { decision_id: "dec-1" }, "tenant-a");
+
+    expect(index.complete("decision_id", "", { namespace: "tenant-a" }).values).toEqual(["dec-1"]);
+    expect(index.complete("decision_id", "", { namespace: "tenant-b" }).values).toEqual([]);
+    expect(index.complete("decision_id", "").values).toEqual([]);
+  });
+
+  it("should keep the most recently seen values, for ttlMs", () => {
+    vi.useFakeTimers();
+    const index = createCompletionIndex({ maxValues: 2, ttlMs: 1_000 });
+
+    index.learn("aci_log_decision", {}, { decision_id: "dec-1" });
+    index.learn("aci_log_decision", {}, { decision_id: "dec-2" });
+    vi.advanceTimersByTime(600);
+    index.learn("aci_record_outcome", { decision_id: "dec-1", outcome: "success" });
+    index.learn("aci_log_decision", {}, { decision_id: "dec-3" });
+
+    expect(index.complete("decision_id", "").values).toEqual(["dec-3", "dec-1"]);
+    vi.advanceTimersByTime(600);
+    expect(index.complete("decision_id", "").values).toEqual(["dec-3", "dec-1"]);
+    vi.advanceTimersByTime(500);
+    expect(index.complete("decision_id", "").values).toEqual([]);
+  });
+
+  it("should cap a response at 100 values", () => {
+    const index = createCompletionIndex();
+    for (let i = 0; i < 120; i++) index.learn("aci_log_decision", {}, { decision_id: `dec-${i}` });
+
+    const completion = index.complete("decision_id", "dec-");
+
+    expect(completion.values).toHaveLength(100);
+    expect(completion.values[0]).toBe("dec-119");
+    expect(completion).toMatchObject({ total: 120, hasMore: true });
+  });
+
+  it("should name registered tools only", () => {
+    for (const [argument, tools] of Object.entries(COMPLETION_SOURCES)) {
+      for (const tool of tools) expect(TOOL_REGISTRY.has(tool), `${argument}: ${tool}`).toBe(true);
+    }
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer completions", () => {
+  /** Connect a client; with `clientId`, its requests carry that OAuth client's auth info. */
+  async function connect(options: { completions?: CompletionIndex; clientId?: string } = {}) {
+    const callApi = vi.fn(async (endpoint: string, method: string, body?: Record<string, unknown>) =>
+      endpoint.startsWith("/aci/")
+        ? MOCK_FIXTURES["POST /aci/classify"](body ?? {}, "success")
+        : MOCK_FIXTURES[`${method} ${endpoint}`](body ?? {}, "success")
+    );
+    const prompts = buildPromptRegistry([
+      ...PROMPT_TEMPLATES,
+      {
+        name: "review_decision",
+        description: "Review a logged decision",
+        arguments: [{ name: "decision_id", required: true }],
+        tools: ["aci_record_outcome"],
+        template: "Review decision {{decision_id}}.",
+      },
+    ]);
+    const { clientId } = options;
+    return connectClient(
+      { callApi },
+      { prompts, completions: options.completions },
+      { authInfo: clientId ? { token: "t", clientId, scopes: [] } : undefined }
+    );
+  }
+
+  it("should complete prompt arguments from earlier calls", async () => {
+    const client = await connect();
+
+    const { structuredContent } = await client.callTool({
+      name: "aci_classify_decision",
+      arguments: { action: "Restart staging workers" },
+    });
+    const decisionId = (structuredContent as { decision_id: string }).decision_id;
+    const fromPrompt = await client.complete({
+      ref: { type: "ref/prompt", name: "review_decision" },
+      argument: { name: "decision_id", value: "dec" },
+    });
+
+    expect(client.getServerCapabilities()?.completions).toEqual({});
+    expect(fromPrompt.completion).toEqual({ values: [decisionId], total: 1, hasMore: false });
+  });
+
+  it("should keep OAuth clients on a shared key apart", async () => {
+    const completions = createCompletionIndex();
+    const alice = await connect({ completions, clientId: "alice-app" });
+    const bob = await connect({ completions, clientId: "bob-app" });
+    const decisionIdCompletion = (client: Client) =>
+      client.complete({
+        ref: { type: "ref/prompt", name: "review_decision" },
+        argument: { name: "decision_id", value: "" },
+      });
+
+    const { structuredContent } = await alice.callTool({
+      name: "aci_classify_decision",
+      arguments: { action: "Restart staging workers" },
+    });
+
+    expect((await decisionIdCompletion(alice)).completion.values).toEqual([
+      (structuredContent as { decision_id: string }).decision_id,
+    ]);
+    expect((await decisionIdCompletion(bob)).completion.values).toEqual([]);
+  });
+
+  it("should offer nothing for arguments without a source", async () => {
+    const client = await connect();
+
+    const fromPrompt = await client.complete({
+      ref: { type: "ref/prompt", name: "preflight_production_change" },
+      argument: { name: "environment", value: "prod" },
+    });
+    const fromTemplate = await client.complete({
+      ref: { type: "ref/resource", uri: "aci://precedents/{query}" },
+      argument: { name: "query", value: "rot" },
+    });
+
+    expect(fromPrompt.completion).toEqual({ values: [], total: 0, hasMore: false });
+    expect(fromTemplate.completion).toEqual({ values: [], total: 0, hasMore: false });
+  });
+
+  it("should reject unknown prompts and resource templates", async () => {
+    const client = await connect();
+
+    await expect(
+      client.complete({ ref: { type: "ref/prompt", name: "nope" }, argument: { name: "x", value: "" } })
+    ).rejects.toThrow("Unknown prompt: nope");
+    await expect(
+      client.complete({ ref: { type: "ref/resource", uri: "s2t://catalog" }, argument: { name: "x", value: "" } })
+    ).rejects.toMatchObject({ code: -32002 });
+  });
+});
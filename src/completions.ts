@@ -0,0 +1,156 @@
+/**
+ * S2T Accelerators - Argument Completion
+ *
+ * Values for `completion/complete`, so clients can offer the opaque IDs
+ * earlier calls returned instead of leaving agents and humans to guess
+ * them. The platform has no endpoints that list agents, review sessions or
+ * decisions, so the server learns them: after each successful tool call,
+ * the completion index collects the values of the arguments in
+ * COMPLETION_SOURCES found in that tool's arguments and structured result
+ * (for example every `agent_id` in an aci_route_domain recommendation, or
+ * the `decision_id` aci_classify_decision logged).
+ *
+ * MCP completes prompt arguments and resource template variables. A prompt
+ * argument is completed when its name is a completion source, so a team
+ * prompt with a `decision_id` argument gets decision IDs. No resource
+ * template variable holds one of these IDs.
+ *
+ * The index is a bounded cache: each namespace -- a tenant, or an OAuth
+ * client on a shared key -- keeps the `maxValues` most recently seen values
+ * per argument, each for `ttlMs`. Memory keys are
+ * filed under their namespace and filtered by the `namespace` argument
+ * when the client has already filled it in.
+ *
+ * @module completions
+ */
+
+import type { CompleteResult } from "@modelcontextprotocol/sdk/types.js";
+
+/** The tools whose arguments and structured results carry each completable argument. */
+export const COMPLETION_SOURCES: Readonly<Record<string, readonly string[]>> = {
+  agent_id: ["s2t_route_task_to_agent", "aci_route_domain", "s2t_submit_agent_task", "s2t_manage_agent_memory"],
+  review_session_id: ["aci_parallel_review", "aci_synthesize_reviews"],
+  decision_id: ["aci_classify_decision", "aci_log_decision", "aci_recall_precedent", "aci_record_outcome"],
+  token: ["s2t_interview_create", "s2t_interview_message", "s2t_interview_summary", "s2t_interview_list"],
+  namespace: ["s2t_manage_agent_memory"],
+  key: ["s2t_manage_agent_memory"],
+};
+
+/** Arguments whose values are filed under another argument's value. */
+const SCOPED_BY: Readonly<Record<string, { argument: string; default: string }>> = {
+  key: { argument: "namespace", default: "default" },
+};
+
+/** MCP caps a completion response at 100 values. */
+const MAX_COMPLETIONS = 100;
+
+/** How deep into a structured result values are looked for. */
+const MAX_DEPTH = 4;
+
+export const DEFAULT_COMPLETION_MAX_VALUES = 500;
+export const DEFAULT_COMPLETION_TTL_MS = 86_400_000;
+
+export interface CompletionIndexOptions {
+  /** Values kept per argument and namespace; the least recently seen go first. */
+  maxValues?: number;
+  /** How long a value is offered after it was last seen. */
+  ttlMs?: number;
+}
+
+export interface CompletionRequest {
+  /** Tenant or OAuth client whose values to offer; values never cross namespaces. */
+  namespace?: string;
+  /** Arguments the client has already filled in. */
+  arguments?: Record<string, string>;
+}
+
+export interface CompletionIndex {
+  /** Learn the completable values in a successful call to `tool`. */
+  learn(tool: string, args: Record<string, unknown>, result?: Record<string, unknown>, namespace?: string): void;
+  /** Values of `argument` starting with `prefix`, most recently seen first. */
+  complete(argument: string, prefix: string, request?: CompletionRequest): CompleteResult["completion"];
+}
+
+interface Seen {
+  scope?: string;
+  seenAt: number;
+}
+
+/** Whether `argument` is a completion source. */
+export function isCompletable(argument: string): boolean {
+  return Object.hasOwn(COMPLETION_SOURCES, argument);
+}
+
+export function createCompletionIndex(options: CompletionIndexOptions = {}): CompletionIndex {
+  const { maxValues = DEFAULT_COMPLETION_MAX_VALUES, ttlMs = DEFAULT_COMPLETION_TTL_MS } = options;
+  // namespace -> argument -> value -> when it was seen; Map order is recency.
+  const namespaces = new Map<string, Map<string, Map<string, Seen>>>();
+
+  const remember = (namespace: string, argument: string, value: string, scope?: string) => {
+    let byArgument = namespaces.get(namespace);
+    if (!byArgument) namespaces.set(namespace, (byArgument = new Map()));
+    let values = byArgument.get(argument);
+    if (!values) byArgument.set(argument, (values = new Map()));
+    values.delete(value);
+    values.set(value, { scope, seenAt: Date.now() });
+    if (values.size > maxValues) values.delete(values.keys().next().value!);
+  };
+
+  return {
+    learn(tool, args, result, namespace = "") {
+      const argumentsOf = Object.keys(COMPLETION_SOURCES).filter((argument) =>
+        COMPLETION_SOURCES[argument].includes(tool)
+      );
+      if (argumentsOf.length === 0) return;
+
+      const visit = (node: unknown, depth: number, scopes: Record<string, string | undefined>) => {
+        if (depth > MAX_DEPTH || node === null || typeof node !== "object") return;
+        if (Array.isArray(node)) {
+          for (const item of node) visit(item, depth + 1, scopes);
+          return;
+        }
+        const record = node as Record<string, unknown>;
+        const here = { ...scopes };
+        for (const [argument, { argument: scopeArgument }] of Object.entries(SCOPED_BY)) {
+          const scope = record[scopeArgument];
+          if (typeof scope === "string" && scope !== "") here[argument] = scope;
+        }
+        for (const argument of argumentsOf) {
+          const value = record[argument];
+          if (typeof value !== "string" || value === "") continue;
+          const scope = SCOPED_BY[argument] ? (here[argument] ?? SCOPED_BY[argument].default) : undefined;
+          remember(namespace, argument, value, scope);
+        }
+        for (const value of Object.values(record)) visit(value, depth + 1, here);
+      };
+      // Only top-level arguments count: nested ones are caller data, such
+      // as a memory value, not IDs the platform handed out.
+      visit(args, MAX_DEPTH, {});
+      visit(result, 0, {});
+    },
+
+    complete(argument, prefix, { namespace = "", arguments: filled = {} } = {}) {
+      const values = namespaces.get(namespace)?.get(argument);
+      if (!values) return { values: [], total: 0, hasMore: false };
+
+      const scopeArgument = SCOPED_BY[argument]?.argument;
+      const scope = scopeArgument ? filled[scopeArgument] : undefined;
+      const expiredBefore = Date.now() - ttlMs;
+      const matches: string[] = [];
+      for (const [value, seen] of values) {
+        if (seen.seenAt < expiredBefore) {
+          values.delete(value);
+          continue;
+        }
+        if (scope !== undefined && seen.scope !== scope) continue;
+        if (value.startsWith(prefix)) matches.push(value);
+      }
+      matches.reverse();
+      return {
+        values: matches.slice(0, MAX_COMPLETIONS),
+        total: matches.length,
+        hasMore: matches.length > MAX_COMPLETIONS,
+      };
+    },
+  };
+}
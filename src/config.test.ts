@@ -0,0 +1,321 @@
+/**
+ * S2T Accelerators MCP Server - Configuration Tests
+ *
+ * Tests config file parsing and validation, profile selection, the
+ * translation of settings into environment variables (and the precedence
+ * of the real environment), tool allow/deny lists, and default tool
+ * arguments applied by createMcpServer.
+ *
+ * @module config.test
+ */
+
+import { describe, it, expect, vi, afterAll, beforeAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyConfigEnv,
+  loadServerConfig,
+  logLevelFromEnv,
+  mergeSettings,
+  parseConfig,
+  selectProfile,
+  settingsToEnv,
+  toolFilterFromEnv,
+} from "./config.js";
+import { TOOLS, TOOL_REGISTRY, type McpServerOptions } from "./server-setup.js";
+import { S2TUpstreamUnavailableError } from "./api-errors.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-config-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const YAML_CONFIG = `
+defaultProfile: dev
+api:
+  timeoutMs: 30000
+tools:
+  defaults:
+    aci_classify_decision:
+      org_config:
+        risk_tolerance: conservative
+profiles:
+  dev:
+    api:
+      url: http://localhost:4010
+  prod:
+    api:
+      url: https://api.example.com/v1
+      endpointTimeouts:
+        /accelerators/embed: 60000
+    tools:
+      deny: [s2t_acquire_file_lock]
+      defaults:
+        aci_classify_decision:
+          org_config:
+            require_human_approval_above: 0.8
+    cache:
+      store: sqlite
+      ttls:
+        s2t_catalog: 3600000
+    env:
+      S2T_EVENT_STORE: sqlite
+`;
+
+/** Write `contents` to a fresh directory as `name`; returns the directory. */
+function project(name: string, contents: string): string {
+  const cwd = join(dir, `project-${Math.random().toString(36).slice(2)}`);
+  mkdirSync(cwd);
+  writeFileSync(join(cwd, name), contents);
+  return cwd;
+}
+
+// ===========================================================================
+// Parsing and profiles
+// ===========================================================================
+
+describe("parseConfig", () => {
+  it("should parse YAML and JSON", () => {
+    expect(parseConfig("api:\n  maxRetries: 1\n", "s2t.config.yaml")).toEqual({ api: { maxRetries: 1 } });
+    expect(parseConfig('{"api": {"maxRetries": 1}}', "s2t.config.json")).toEqual({ api: { maxRetries: 1 } });
+    expect(parseConfig("", "empty.yml")).toEqual({});
+  });
+
+  it("should list every violation with its location", () => {
+    const text = JSON.stringify({
+      api: { timeoutMs: "soon" },
+      profiles: { prod: { cache: { store: "redis" }, colour: "blue" } },
+    });
+
+    expect(() => parseConfig(text, "bad.json")).toThrow(
+      "Invalid config file bad.json: /api/timeoutMs must be integer; " +
+        "/profiles/prod must NOT have additional properties \"colour\"; " +
+        "/profiles/prod/cache/store must be equal to one of the allowed values"
+    );
+  });
+
+  it("should report syntax errors", () => {
+    expect(() => parseConfig("{", "broken.json")).toThrow("Invalid config file broken.json:");
+    expect(() => parseConfig("api: [", "broken.yaml")).toThrow("Invalid config file broken.yaml:");
+  });
+});
+
+describe("selectProfile", () => {
+  const file = parseConfig(YAML_CONFIG, "s2t.config.yaml");
+
+  it("should deep-merge the profile over the shared settings", () => {
+    const prod = selectProfile(file, "prod", "s2t.config.yaml");
+
+    expect(prod.api).toEqual({
+      timeoutMs: 30000,
+      url: "https://api.example.com/v1",
+      endpointTimeouts: { "/accelerators/embed": 60000 },
+    });
+    expect(prod.tools?.defaults).toEqual({
+      aci_classify_decision: { org_config: { risk_tolerance: "conservative", require_human_approval_above: 0.8 } },
+    });
+  });
+
+  it("should use only the shared settings without a profile", () => {
+    expect(selectProfile(file, undefined, "s2t.config.yaml").api).toEqual({ timeoutMs: 30000 });
+  });
+
+  it("should name the available profiles when one is unknown", () => {
+    expect(() => selectProfile(file, "qa", "s2t.config.yaml")).toThrow(
+      'Unknown profile "qa" in s2t.config.yaml (available: dev, prod)'
+    );
+  });
+});
+
+describe("mergeSettings", () => {
+  it("should replace arrays and scalars", () => {
+    expect(mergeSettings({ a: [1, 2], b: { c: 1, d: 2 } }, { a: [3], b: { d: 4 } })).toEqual({
+      a: [3],
+      b: { c: 1, d: 4 },
+    });
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("settingsToEnv", () => {
+  it("should translate settings into their environment variables", () => {
+    const file = parseConfig(YAML_CONFIG, "s2t.config.yaml");
+
+    expect(settingsToEnv(selectProfile(file, "prod", "s2t.config.yaml"))).toEqual({
+      S2T_API_URL: "https://api.example.com/v1",
+      S2T_API_TIMEOUT_MS: "30000",
+      S2T_API_ENDPOINT_TIMEOUTS: "/accelerators/embed=60000",
+      S2T_TOOLS_DENY: "s2t_acquire_file_lock",
+      S2T_CACHE: "sqlite",
+      S2T_CACHE_TTLS: "s2t_catalog=3600000",
+      S2T_EVENT_STORE: "sqlite",
+    });
+  });
+
+  it("should prefer typed settings over the env block", () => {
+    expect(settingsToEnv({ http: { port: 8080 }, env: { PORT: 9090, S2T_TENANCY: "multi" } })).toEqual({
+      PORT: "8080",
+      S2T_TENANCY: "multi",
+    });
+  });
+});
+
+describe("applyConfigEnv", () => {
+  it("should only fill in variables the environment leaves unset", () => {
+    const env: NodeJS.ProcessEnv = { S2T_API_URL: "http://override" };
+
+    applyConfigEnv({ env: { S2T_API_URL: "http://file", S2T_CACHE: "off" }, toolDefaults: {} }, env);
+
+    expect(env).toEqual({ S2T_API_URL: "http://override", S2T_CACHE: "off" });
+  });
+});
+
+describe("logLevelFromEnv", () => {
+  it("should default to info and reject unknown levels", () => {
+    expect(logLevelFromEnv({})).toBe("info");
+    expect(logLevelFromEnv({ S2T_LOG_LEVEL: "warn" })).toBe("warn");
+    expect(() => logLevelFromEnv({ S2T_LOG_LEVEL: "verbose" })).toThrow('Invalid S2T_LOG_LEVEL "verbose"');
+  });
+});
+
+describe("toolFilterFromEnv", () => {
+  it("should be undefined without lists", () => {
+    expect(toolFilterFromEnv({})).toBeUndefined();
+  });
+
+  it("should apply the allow list, then the deny list, with wildcards", () => {
+    const enabled = toolFilterFromEnv({ S2T_TOOLS_ALLOW: "aci_*, s2t_catalog", S2T_TOOLS_DENY: "aci_rollback*" })!;
+
+    expect(["aci_classify_decision", "s2t_catalog", "aci_rollback_action", "s2t_embed"].map(enabled)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+});
+
+// ===========================================================================
+// Loading
+// ===========================================================================
+
+describe("loadServerConfig", () => {
+  it("should find the default file and apply its default profile", () => {
+    const cwd = project("s2t.config.yaml", YAML_CONFIG);
+
+    const config = loadServerConfig({ argv: [], env: {}, cwd });
+
+    expect(config).toMatchObject({ path: join(cwd, "s2t.config.yaml"), profile: "dev" });
+    expect(config.env.S2T_API_URL).toBe("http://localhost:4010");
+  });
+
+  it("should select the profile from --profile, then S2T_PROFILE", () => {
+    const cwd = project("s2t.config.yaml", YAML_CONFIG);
+
+    expect(loadServerConfig({ argv: ["--profile", "prod"], env: { S2T_PROFILE: "dev" }, cwd }).profile).toBe("prod");
+    expect(loadServerConfig({ argv: [], env: { S2T_PROFILE: "prod" }, cwd }).profile).toBe("prod");
+  });
+
+  it("should load an explicit file from --config or S2T_CONFIG", () => {
+    const cwd = project("team.json", JSON.stringify({ api: { maxRetries: 0 } }));
+
+    expect(loadServerConfig({ argv: ["--config=team.json"], env: {}, cwd }).env).toEqual({ S2T_API_MAX_RETRIES: "0" });
+    expect(loadServerConfig({ argv: [], env: { S2T_CONFIG: "team.json" }, cwd }).env).toEqual({
+      S2T_API_MAX_RETRIES: "0",
+    });
+    expect(() => loadServerConfig({ argv: ["--config", "missing.yaml"], env: {}, cwd })).toThrow(
+      "Config file not found"
+    );
+  });
+
+  it("should be empty without a file, unless a profile was requested", () => {
+    const cwd = project("README.md", "");
+
+    expect(loadServerConfig({ argv: [], env: {}, cwd })).toEqual({ env: {}, toolDefaults: {} });
+    expect(() => loadServerConfig({ argv: ["--profile", "prod"], env: {}, cwd })).toThrow(
+      'Profile "prod" requested but no config file found'
+    );
+  });
+
+  it("should reject unknown flags and defaults for unknown tools", () => {
+    const cwd = project("s2t.config.json", JSON.stringify({ tools: { defaults: { no_such_tool: {} } } }));
+
+    expect(() => loadServerConfig({ argv: ["--verbose"], env: {}, cwd })).toThrow("--verbose");
+    expect(() => loadServerConfig({ argv: [], env: {}, cwd, knownTools: TOOLS })).toThrow(
+      "tools.defaults names unknown tools: no_such_tool"
+    );
+  });
+
+  it("should check defaults against the tool's inputSchema", () => {
+    const defaults = {
+      s2t_embed: { chunk_size: "large" },
+      aci_classify_decision: { org_config: { risk_tolerance: "conservative" } },
+      s2t_catalog: { output_format: "xml" },
+    };
+    const cwd = project("s2t.config.json", JSON.stringify({ tools: { defaults } }));
+
+    expect(() => loadServerConfig({ argv: [], env: {}, cwd, knownTools: TOOLS })).toThrow(
+      "/tools/defaults/s2t_embed/chunk_size must be integer; " +
+        "/tools/defaults/s2t_catalog/output_format must be equal to one of the allowed values"
+    );
+  });
+
+  it("should accept defaults that leave out required arguments", () => {
+    const defaults = { aci_classify_decision: { org_config: { risk_tolerance: "conservative" } } };
+    const cwd = project("s2t.config.json", JSON.stringify({ tools: { defaults } }));
+
+    expect(loadServerConfig({ argv: [], env: {}, cwd, knownTools: TOOLS }).toolDefaults).toEqual(defaults);
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer tool configuration", () => {
+  async function connect(options: McpServerOptions) {
+    const callApi = vi.fn().mockRejectedValue(
+      new S2TUpstreamUnavailableError("down", { endpoint: "/analyze/error-patterns", method: "POST", status: 503 })
+    );
+    const client = await connectClient({ callApi }, options);
+    return { client, callApi };
+  }
+
+  it("should neither list nor run disabled tools", async () => {
+    const { client, callApi } = await connect({ isToolEnabled: (name) => name !== "s2t_catalog" });
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: "s2t_catalog", arguments: {} });
+
+    expect(tools.map((tool) => tool.name)).not.toContain("s2t_catalog");
+    expect(tools).toHaveLength(TOOL_REGISTRY.size - 1);
+    expect(result).toMatchObject({ isError: true, content: [{ text: "Error: Tool s2t_catalog is disabled on this server" }] });
+    expect(callApi).not.toHaveBeenCalled();
+  });
+
+  it("should merge default arguments under the caller's", async () => {
+    const { client, callApi } = await connect({
+      toolDefaults: { s2t_analyze_error_patterns: { include_ai_analysis: false } },
+    });
+    const errors = [{ message: "boom" }];
+
+    await client.callTool({ name: "s2t_analyze_error_patterns", arguments: { errors } });
+    await client.callTool({ name: "s2t_analyze_error_patterns", arguments: { errors, include_ai_analysis: true } });
+
+    expect(callApi.mock.calls.map(([, , body]) => body.include_ai_analysis)).toEqual([false, true]);
+  });
+});
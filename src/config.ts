@@ -0,0 +1,448 @@
+/**
+ * S2T Accelerators - Configuration File and Profiles
+ *
+ * Loads an optional JSON or YAML config file holding shared settings plus
+ * named profiles (dev, staging, prod, ...) that override them:
+ *
+ *   api:
+ *     timeoutMs: 30000
+ *   tools:
+ *     defaults:
+ *       aci_classify_decision:
+ *         org_config: { risk_tolerance: conservative }
+ *   profiles:
+ *     dev:
+ *       api: { url: "http://localhost:4010" }
+ *     prod:
+ *       cache: { store: sqlite }
+ *       toolsets: { enabled: [governance, platform] }
+ *       tools: { deny: ["aci_generate_rollback"] }
+ *
+ * The file is found via `--config <path>`, S2T_CONFIG, or s2t.config.yaml /
+ * .yml / .json in the working directory. The profile comes from
+ * `--profile <name>`, S2T_PROFILE, or the file's `defaultProfile`.
+ *
+ * Settings are translated into their environment variables (api.url into
+ * S2T_API_URL, cache.ttls into S2T_CACHE_TTLS, ...) and applied only where
+ * the variable is unset, so the environment always overrides the file and
+ * every `*FromEnv` helper sees one merged view. Default tool arguments
+ * have no variable and are returned separately.
+ *
+ * @module config
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { Ajv, type ErrorObject } from "ajv";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { parse as parseYaml } from "yaml";
+import { TOOLSET_IDS, toolsetFilter, toolsetSelectionFromEnv } from "./toolsets.js";
+
+/** Looked up in the working directory when no path is given. */
+export const DEFAULT_CONFIG_FILES = ["s2t.config.yaml", "s2t.config.yml", "s2t.config.json"];
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** Settings allowed at the top level of the file and in each profile. */
+export interface ConfigSettings {
+  api?: {
+    url?: string;
+    timeoutMs?: number;
+    endpointTimeouts?: Record<string, number>;
+    maxRetries?: number;
+  };
+  http?: {
+    port?: number;
+    corsOrigins?: string[];
+  };
+  tools?: {
+    /** Only these tools are served; `*` wildcards allowed. */
+    allow?: string[];
+    /** These tools are never served, even if allowed. */
+    deny?: string[];
+    /** Default arguments per tool; the caller's arguments take precedence. */
+    defaults?: Record<string, Record<string, unknown>>;
+  };
+  /** Tool groups to serve; see toolsets.ts. */
+  toolsets?: {
+    /** Only these toolsets are served; empty means all. */
+    enabled?: string[];
+    /** These toolsets are never served. */
+    disabled?: string[];
+  };
+  logging?: {
+    level?: LogLevel;
+    audit?: { target?: string; args?: "digest" | "redacted"; redact?: string[] };
+  };
+  /** Team prompt files and directories, relative to the config file; see prompt-files.ts. */
+  prompts?: {
+    files?: string[];
+  };
+  cache?: {
+    store?: "memory" | "sqlite" | "off";
+    path?: string;
+    maxEntries?: number;
+    ttlMs?: number;
+    ttls?: Record<string, number>;
+  };
+  /** Any other environment variables, e.g. S2T_EVENT_STORE. */
+  env?: Record<string, string | number | boolean>;
+}
+
+export interface ConfigFile extends ConfigSettings {
+  defaultProfile?: string;
+  profiles?: Record<string, ConfigSettings>;
+}
+
+export interface ServerConfig {
+  /** Absolute path of the file loaded, if any. */
+  path?: string;
+  /** Profile applied on top of the shared settings, if any. */
+  profile?: string;
+  /** Environment variables equivalent to the file's settings. */
+  env: Record<string, string>;
+  /** Default arguments per tool. */
+  toolDefaults: Record<string, Record<string, unknown>>;
+}
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const stringList = { type: "array", items: { type: "string", minLength: 1 } };
+const millisMap = { type: "object", additionalProperties: { type: "integer", minimum: 0 } };
+
+const SETTINGS_PROPERTIES = {
+  api: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      url: { type: "string", pattern: "^https?://" },
+      timeoutMs: { type: "integer", minimum: 1 },
+      endpointTimeouts: { type: "object", additionalProperties: { type: "integer", minimum: 1 } },
+      maxRetries: { type: "integer", minimum: 0 },
+    },
+  },
+  http: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      port: { type: "integer", minimum: 0, maximum: 65535 },
+      corsOrigins: stringList,
+    },
+  },
+  tools: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      allow: stringList,
+      deny: stringList,
+      defaults: { type: "object", additionalProperties: { type: "object" } },
+    },
+  },
+  toolsets: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "array", items: { enum: TOOLSET_IDS } },
+      disabled: { type: "array", items: { enum: TOOLSET_IDS } },
+    },
+  },
+  logging: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      level: { enum: [...LOG_LEVELS] },
+      audit: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          target: { type: "string", minLength: 1 },
+          args: { enum: ["digest", "redacted"] },
+          redact: stringList,
+        },
+      },
+    },
+  },
+  prompts: {
+    type: "object",
+    additionalProperties: false,
+    properties: { files: stringList },
+  },
+  cache: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      store: { enum: ["memory", "sqlite", "off"] },
+      path: { type: "string", minLength: 1 },
+      maxEntries: { type: "integer", minimum: 1 },
+      ttlMs: { type: "integer", minimum: 0 },
+      ttls: millisMap,
+    },
+  },
+  env: {
+    type: "object",
+    propertyNames: { pattern: "^[A-Z_][A-Z0-9_]*$" },
+    additionalProperties: { type: ["string", "number", "boolean"] },
+  },
+};
+
+const CONFIG_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    ...SETTINGS_PROPERTIES,
+    defaultProfile: { type: "string", minLength: 1 },
+    profiles: {
+      type: "object",
+      additionalProperties: { type: "object", additionalProperties: false, properties: SETTINGS_PROPERTIES },
+    },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateConfig = ajv.compile<ConfigFile>(CONFIG_SCHEMA);
+
+/** Each error as `<JSON pointer> <message>`, the pointer prefixed with `base`. */
+function describeErrors(errors: ErrorObject[] | null | undefined, base = ""): string[] {
+  return (errors ?? []).map((error) => {
+    const extra = error.keyword === "additionalProperties" ? ` "${error.params.additionalProperty}"` : "";
+    return `${base + error.instancePath || "/"} ${error.message}${extra}`;
+  });
+}
+
+/** Parse and validate a config file's contents; `source` names it in errors. */
+export function parseConfig(text: string, source: string): ConfigFile {
+  let parsed: unknown;
+  try {
+    parsed = [".yaml", ".yml"].includes(extname(source).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid config file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  // An empty YAML document is an empty config.
+  parsed ??= {};
+
+  if (!validateConfig(parsed)) {
+    throw new Error(`Invalid config file ${source}: ${describeErrors(validateConfig.errors).join("; ")}`);
+  }
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Merge `override` into `base`: objects recursively, anything else replaced. */
+export function mergeSettings<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeSettings(merged[key], value);
+  }
+  return merged as T;
+}
+
+/** The shared settings with `profile` applied on top. */
+export function selectProfile(file: ConfigFile, profile: string | undefined, source: string): ConfigSettings {
+  const { profiles = {}, defaultProfile: _defaultProfile, ...shared } = file;
+  if (profile === undefined) return shared;
+  if (!Object.hasOwn(profiles, profile)) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile "${profile}" in ${source}` +
+        (available.length > 0 ? ` (available: ${available.join(", ")})` : " (it defines no profiles)")
+    );
+  }
+  return mergeSettings(shared, profiles[profile]);
+}
+
+// ---------------------------------------------------------------------------
+// Environment
+// ---------------------------------------------------------------------------
+
+function pairs(map: Record<string, number>): string {
+  return Object.entries(map)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(",");
+}
+
+/** Environment variables equivalent to `settings`. */
+export function settingsToEnv(settings: ConfigSettings): Record<string, string> {
+  const { api, http, tools, toolsets, logging, prompts, cache } = settings;
+  const env: Record<string, string | number | undefined> = {
+    S2T_API_URL: api?.url,
+    S2T_API_TIMEOUT_MS: api?.timeoutMs,
+    S2T_API_ENDPOINT_TIMEOUTS: api?.endpointTimeouts && pairs(api.endpointTimeouts),
+    S2T_API_MAX_RETRIES: api?.maxRetries,
+    PORT: http?.port,
+    S2T_CORS_ORIGINS: http?.corsOrigins?.join(","),
+    S2T_TOOLS_ALLOW: tools?.allow?.join(","),
+    S2T_TOOLS_DENY: tools?.deny?.join(","),
+    S2T_TOOLSETS: toolsets?.enabled?.join(","),
+    S2T_TOOLSETS_DISABLED: toolsets?.disabled?.join(","),
+    S2T_LOG_LEVEL: logging?.level,
+    S2T_AUDIT_LOG: logging?.audit?.target,
+    S2T_AUDIT_ARGS: logging?.audit?.args,
+    S2T_AUDIT_REDACT: logging?.audit?.redact?.join(","),
+    S2T_PROMPT_FILES: prompts?.files?.join(","),
+    S2T_CACHE: cache?.store,
+    S2T_CACHE_PATH: cache?.path,
+    S2T_CACHE_MAX_ENTRIES: cache?.maxEntries,
+    S2T_CACHE_TTL_MS: cache?.ttlMs,
+    S2T_CACHE_TTLS: cache?.ttls && pairs(cache.ttls),
+  };
+  // Typed settings win over the free-form `env` block.
+  const merged: Record<string, string> = {};
+  for (const [name, value] of Object.entries({ ...settings.env })) merged[name] = String(value);
+  for (const [name, value] of Object.entries(env)) {
+    if (value !== undefined) merged[name] = String(value);
+  }
+  return merged;
+}
+
+/**
+ * Set each of the config's variables that is not already set in `env`,
+ * leaving explicit environment settings in charge.
+ */
+export function applyConfigEnv(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): void {
+  for (const [name, value] of Object.entries(config.env)) {
+    if (env[name] === undefined) env[name] = value;
+  }
+}
+
+/** Log threshold from S2T_LOG_LEVEL (default: info). */
+export function logLevelFromEnv(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = env.S2T_LOG_LEVEL || "info";
+  if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`Invalid S2T_LOG_LEVEL "${level}". Use one of: ${LOG_LEVELS.join(", ")}`);
+  }
+  return level as LogLevel;
+}
+
+// ---------------------------------------------------------------------------
+// Tool selection
+// ---------------------------------------------------------------------------
+
+function toolPattern(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Tool filter from S2T_TOOLS_ALLOW and S2T_TOOLS_DENY (comma-separated
+ * names, `*` wildcards allowed) and the toolset selection in S2T_TOOLSETS /
+ * S2T_TOOLSETS_DISABLED. A tool is enabled when its toolset is selected,
+ * it matches the allow list (or there is none), and it does not match the
+ * deny list. Returns undefined when none of these is set.
+ */
+export function toolFilterFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ((tool: string) => boolean) | undefined {
+  const list = (value: string | undefined) =>
+    (value ?? "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map(toolPattern);
+  const allow = list(env.S2T_TOOLS_ALLOW);
+  const deny = list(env.S2T_TOOLS_DENY);
+  const inToolsets = toolsetFilter(toolsetSelectionFromEnv(env));
+  if (allow.length === 0 && deny.length === 0 && !inToolsets) return undefined;
+
+  return (tool) =>
+    (inToolsets?.(tool) ?? true) &&
+    (allow.length === 0 || allow.some((pattern) => pattern.test(tool))) &&
+    !deny.some((pattern) => pattern.test(tool));
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Where `defaults` breaks `tool`'s inputSchema, pointing into the config
+ * file. Callers still supply the required arguments, so only the arguments
+ * given are checked.
+ */
+function defaultsErrors(tool: Tool, defaults: Record<string, unknown>): string[] {
+  const validate = ajv.compile({ ...tool.inputSchema, required: [] });
+  return validate(defaults) ? [] : describeErrors(validate.errors, `/tools/defaults/${tool.name}`);
+}
+
+/**
+ * Resolve the config for this process from `--config` / `--profile` in
+ * `argv` and S2T_CONFIG / S2T_PROFILE in `env`. Throws on unknown flags,
+ * a missing or invalid file, unknown profiles, and default arguments for
+ * tools not in `knownTools` or that break the tool's inputSchema.
+ */
+export function loadServerConfig(
+  options: {
+    argv?: string[];
+    env?: NodeJS.ProcessEnv;
+    cwd?: string;
+    knownTools?: Iterable<Tool>;
+  } = {}
+): ServerConfig {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const { values } = parseArgs({
+    args: options.argv ?? process.argv.slice(2),
+    options: { config: { type: "string" }, profile: { type: "string" } },
+    strict: true,
+  });
+
+  const explicitPath = values.config ?? env.S2T_CONFIG;
+  const path = explicitPath
+    ? resolve(cwd, explicitPath)
+    : DEFAULT_CONFIG_FILES.map((name) => resolve(cwd, name)).find((candidate) => existsSync(candidate));
+  const requestedProfile = values.profile ?? env.S2T_PROFILE;
+
+  if (!path) {
+    if (requestedProfile) {
+      throw new Error(
+        `Profile "${requestedProfile}" requested but no config file found (pass --config or create ${DEFAULT_CONFIG_FILES[0]})`
+      );
+    }
+    return { env: {}, toolDefaults: {} };
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+
+  const file = parseConfig(readFileSync(path, "utf8"), path);
+  const profile = requestedProfile ?? file.defaultProfile;
+  const selected = selectProfile(file, profile, path);
+  // Prompt files are relative to the config file, not the working directory.
+  const settings = selected.prompts?.files
+    ? { ...selected, prompts: { files: selected.prompts.files.map((entry) => resolve(dirname(path), entry)) } }
+    : selected;
+  const toolDefaults = settings.tools?.defaults ?? {};
+
+  if (options.knownTools) {
+    const known = new Map(Array.from(options.knownTools, (tool) => [tool.name, tool]));
+    const unknown = Object.keys(toolDefaults).filter((tool) => !known.has(tool));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid config file ${path}: tools.defaults names unknown tools: ${unknown.join(", ")}`);
+    }
+    const details = Object.entries(toolDefaults).flatMap(([tool, defaults]) =>
+      defaultsErrors(known.get(tool)!, defaults)
+    );
+    if (details.length > 0) {
+      throw new Error(`Invalid config file ${path}: ${details.join("; ")}`);
+    }
+  }
+
+  return { path, profile, env: settingsToEnv(settings), toolDefaults };
+}
@@ -0,0 +1,332 @@
+/**
+ * S2T Accelerators MCP Server - Event Store Tests
+ *
+ * Tests replay, session scoping and retention for both stores, and resumes
+ * a tool call end to end after its connection is killed mid-call.
+ *
+ * @module event-store.test
+ */
+
+import { describe, it, expect, afterAll, afterEach, beforeAll } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import type { AddressInfo, Socket } from "node:net";
+import type { Server as HttpServer } from "node:http";
+import express from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  createMemoryEventStore,
+  createSqliteEventStore,
+  eventStoreFromEnv,
+  type EventRetention,
+  type ResumableEventStore,
+} from "./event-store.js";
+import { createMcpServer } from "./server-setup.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import type { ApiClient } from "./handlers.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+const open: ResumableEventStore[] = [];
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-events-"));
+});
+
+afterEach(() => {
+  for (const store of open.splice(0)) store.close();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: 1, progress: n } };
+}
+
+async function replay(store: EventStore, lastEventId: string): Promise<[string, JSONRPCMessage][]> {
+  const sent: [string, JSONRPCMessage][] = [];
+  await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => {
+      sent.push([eventId, message]);
+    },
+  });
+  return sent;
+}
+
+const STORES: [string, (retention?: Partial<EventRetention>, now?: () => number) => ResumableEventStore][] = [
+  ["memory", (retention, now) => createMemoryEventStore(retention, { now })],
+  [
+    "sqlite",
+    (retention, now) => createSqliteEventStore(join(dir, `${randomUUID()}.db`), retention, { now }),
+  ],
+];
+
+// ===========================================================================
+// Stores
+// ===========================================================================
+
+describe.each(STORES)("%s event store", (_kind, factory) => {
+  function create(retention?: Partial<EventRetention>, now?: () => number): ResumableEventStore {
+    const store = factory(retention, now);
+    open.push(store);
+    return store;
+  }
+
+  it("should replay a stream's events after the last one received", async () => {
+    const events = create().forSession("session-1");
+    const priming = await events.storeEvent("stream-a", {} as JSONRPCMessage);
+    const first = await events.storeEvent("stream-a", notification(1));
+    await events.storeEvent("stream-b", notification(99));
+    const second = await events.storeEvent("stream-a", notification(2));
+
+    expect(await events.getStreamIdForEventId!(priming)).toBe("stream-a");
+    expect(await replay(events, priming)).toEqual([
+      [first, notification(1)],
+      [second, notification(2)],
+    ]);
+    expect(await replay(events, second)).toEqual([]);
+  });
+
+  it("should skip priming events when replaying", async () => {
+    const events = create().forSession("session-1");
+    const first = await events.storeEvent("_GET_stream", notification(1));
+    await events.storeEvent("_GET_stream", {} as JSONRPCMessage);
+    const second = await events.storeEvent("_GET_stream", notification(2));
+
+    expect(await replay(events, first)).toEqual([[second, notification(2)]]);
+  });
+
+  it("should not resolve event IDs from another session", async () => {
+    const store = create();
+    const eventId = await store.forSession("session-1").storeEvent("_GET_stream", notification(1));
+    const other = store.forSession("session-2");
+
+    expect(await other.getStreamIdForEventId!(eventId)).toBeUndefined();
+    await expect(replay(other, eventId)).rejects.toThrow("Unknown or expired event ID");
+    expect(await other.getStreamIdForEventId!("not-an-event-id")).toBeUndefined();
+  });
+
+  it("should discard a session's events when it closes", async () => {
+    const store = create();
+    await store.forSession("session-1").storeEvent("stream-a", notification(1));
+    await store.forSession("session-2").storeEvent("stream-a", notification(1));
+
+    store.dropSession("session-1");
+
+    expect(store.stats()).toEqual({ events: 1 });
+  });
+
+  it("should keep resuming other sessions after one closes", async () => {
+    const store = create({ maxEventsPerStream: 1 });
+    const closing = store.forSession("session-1");
+    await closing.storeEvent("stream-a", notification(1));
+    await closing.storeEvent("stream-a", notification(2));
+    await closing.storeEvent("stream-b", notification(3));
+    const events = store.forSession("session-2");
+    const first = await events.storeEvent("stream-a", {} as JSONRPCMessage);
+
+    store.dropSession("session-1");
+    const second = await events.storeEvent("stream-b", notification(4));
+
+    expect(store.stats()).toEqual({ events: 2 });
+    expect(await events.getStreamIdForEventId!(first)).toBe("stream-a");
+    expect(await events.getStreamIdForEventId!(second)).toBe("stream-b");
+  });
+
+  it("should keep only the newest events of each stream", async () => {
+    const store = create({ maxEventsPerStream: 2 });
+    const events = store.forSession("session-1");
+    const first = await events.storeEvent("stream-a", notification(1));
+    const second = await events.storeEvent("stream-a", notification(2));
+    const third = await events.storeEvent("stream-a", notification(3));
+    await events.storeEvent("stream-b", notification(1));
+
+    expect(await events.getStreamIdForEventId!(first)).toBeUndefined();
+    expect(await replay(events, second)).toEqual([[third, notification(3)]]);
+    expect(store.stats()).toEqual({ events: 3 });
+  });
+
+  it("should cap the total number of events", async () => {
+    const store = create({ maxEvents: 2 });
+    const events = store.forSession("session-1");
+    const first = await events.storeEvent("stream-a", notification(1));
+    await events.storeEvent("stream-b", notification(2));
+    await events.storeEvent("stream-c", notification(3));
+
+    expect(await events.getStreamIdForEventId!(first)).toBeUndefined();
+    expect(store.stats()).toEqual({ events: 2 });
+  });
+
+  it("should expire events older than the retention window", async () => {
+    let now = 1_000;
+    const store = create({ maxAgeMs: 500 }, () => now);
+    const events = store.forSession("session-1");
+    const old = await events.storeEvent("stream-a", notification(1));
+
+    now = 1_499;
+    expect(await events.getStreamIdForEventId!(old)).toBe("stream-a");
+
+    now = 1_500;
+    expect(await events.getStreamIdForEventId!(old)).toBeUndefined();
+    await events.storeEvent("stream-a", notification(2));
+    expect(store.stats()).toEqual({ events: 1 });
+  });
+});
+
+describe("createSqliteEventStore", () => {
+  it("should keep events across reopening the file", async () => {
+    const path = join(dir, "reopen.db");
+    const before = createSqliteEventStore(path);
+    const first = await before.forSession("session-1").storeEvent("stream-a", notification(1));
+    const second = await before.forSession("session-1").storeEvent("stream-a", notification(2));
+    before.close();
+
+    const after = createSqliteEventStore(path);
+    open.push(after);
+    expect(await replay(after.forSession("session-1"), first)).toEqual([[second, notification(2)]]);
+  });
+
+  it("should apply the overall cap to events from before reopening", async () => {
+    const path = join(dir, "reopen-capped.db");
+    const before = createSqliteEventStore(path);
+    const first = await before.forSession("session-1").storeEvent("stream-a", notification(1));
+    await before.forSession("session-1").storeEvent("stream-a", notification(2));
+    before.close();
+
+    const after = createSqliteEventStore(path, { maxEvents: 2 });
+    open.push(after);
+    await after.forSession("session-1").storeEvent("stream-a", notification(3));
+
+    expect(after.stats()).toEqual({ events: 2 });
+    expect(await after.forSession("session-1").getStreamIdForEventId!(first)).toBeUndefined();
+  });
+});
+
+// ===========================================================================
+// Resuming over HTTP
+// ===========================================================================
+
+describe("resumable Streamable HTTP", () => {
+  it("should deliver a tool result after the connection is killed mid-call", async () => {
+    const store = createMemoryEventStore();
+    open.push(store);
+
+    // The API call blocks until the test releases it.
+    let apiCalled!: () => void;
+    const called = new Promise<void>((resolve) => (apiCalled = resolve));
+    let release!: (value: unknown) => void;
+    const apiClient = {
+      callApi: () => {
+        apiCalled();
+        return new Promise((resolve) => (release = resolve));
+      },
+    } as unknown as ApiClient;
+
+    const transports = new Map<string, StreamableHTTPServerTransport>();
+    let resumed = 0;
+    const app = express();
+    app.use(express.json());
+    app.all("/mcp", async (req, res) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? transports.get(sessionId) : undefined;
+      if (!transport) {
+        const newSessionId = randomUUID();
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => newSessionId,
+          eventStore: store.forSession(newSessionId),
+        });
+        transports.set(newSessionId, transport);
+        await createMcpServer(apiClient).connect(transport);
+      }
+      if (req.method === "GET" && req.headers["last-event-id"]) {
+        // Count a resume once the replay stream is open.
+        const writeHead = res.writeHead.bind(res);
+        res.writeHead = ((...args: Parameters<typeof res.writeHead>) => {
+          if (args[0] === 200) resumed++;
+          return writeHead(...args);
+        }) as typeof res.writeHead;
+      }
+      await transport.handleRequest(req, res, req.body);
+    });
+
+    const sockets = new Set<Socket>();
+    const httpServer: HttpServer = app.listen(0);
+    httpServer.on("connection", (socket) => {
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+    });
+    await new Promise((resolve) => httpServer.once("listening", resolve));
+    const url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(url, {
+        reconnectionOptions: {
+          initialReconnectionDelay: 20,
+          maxReconnectionDelay: 100,
+          reconnectionDelayGrowFactor: 1.5,
+          maxRetries: 10,
+        },
+      })
+    );
+
+    try {
+      let primed!: () => void;
+      const resumable = new Promise<void>((resolve) => (primed = resolve));
+      const result = client.callTool({ name: "s2t_catalog", arguments: {} }, undefined, {
+        onresumptiontoken: () => primed(),
+      });
+
+      await Promise.all([called, resumable]);
+      for (const socket of sockets) socket.destroy();
+      while (resumed === 0) await new Promise((resolve) => setTimeout(resolve, 10));
+      release(MOCK_FIXTURES["GET /catalog"]({}, "success"));
+
+      expect(await result).toMatchObject({
+        structuredContent: { your_tier: "developer" },
+      });
+      expect(resumed).toBe(1);
+    } finally {
+      await client.close();
+      for (const transport of transports.values()) await transport.close();
+      for (const socket of sockets) socket.destroy();
+      await new Promise((resolve) => httpServer.close(resolve));
+    }
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("eventStoreFromEnv", () => {
+  it("should default to the memory store", () => {
+    const store = eventStoreFromEnv({})!;
+    open.push(store);
+    expect(store.stats()).toEqual({ events: 0 });
+  });
+
+  it("should be disabled with off", () => {
+    expect(eventStoreFromEnv({ S2T_EVENT_STORE: "off" })).toBeUndefined();
+  });
+
+  it("should reject unknown stores and invalid limits", () => {
+    expect(() => eventStoreFromEnv({ S2T_EVENT_STORE: "redis" })).toThrow(
+      'Invalid S2T_EVENT_STORE "redis"'
+    );
+    expect(() => eventStoreFromEnv({ S2T_EVENT_MAX_AGE_MS: "soon" })).toThrow(
+      'Invalid S2T_EVENT_MAX_AGE_MS "soon"'
+    );
+  });
+});
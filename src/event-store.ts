@@ -0,0 +1,377 @@
+/**
+ * S2T Accelerators - Resumable Stream Event Store
+ *
+ * Backs the Streamable HTTP transport's resumability. Every SSE event the
+ * transport writes (progress notifications, tool results, server requests)
+ * is stored with an event ID; a client whose connection drops reconnects
+ * with `GET /mcp` and a `Last-Event-ID` header, and the transport replays
+ * the events it missed before continuing the stream live.
+ *
+ * Events are scoped per session: a session can only resume its own streams,
+ * and a session's events are discarded when it closes. Retention limits keep
+ * the log bounded (a limit of 0 disables it):
+ *
+ *   maxAgeMs            events older than this are discarded
+ *   maxEventsPerStream  only the newest events of each stream are kept
+ *   maxEvents           only the newest events overall are kept
+ *
+ * Two stores ship with the server:
+ *
+ *   memory   in-process log (default)
+ *   sqlite   better-sqlite3 file, keeps the log out of the heap
+ *
+ * @module event-store
+ */
+
+import Database from "better-sqlite3";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+export interface EventRetention {
+  maxAgeMs: number;
+  maxEventsPerStream: number;
+  maxEvents: number;
+}
+
+export const DEFAULT_EVENT_RETENTION: EventRetention = {
+  maxAgeMs: 10 * 60_000,
+  maxEventsPerStream: 1_000,
+  maxEvents: 100_000,
+};
+
+export interface EventStoreStats {
+  events: number;
+}
+
+export interface ResumableEventStore {
+  /** The SDK EventStore for one Streamable HTTP session. */
+  forSession(sessionId: string): EventStore;
+  /** Discard a closed session's events. */
+  dropSession(sessionId: string): void;
+  stats(): EventStoreStats;
+  close(): void;
+}
+
+interface StoredEvent {
+  seq: number;
+  sessionId: string;
+  streamId: string;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+/** Storage primitives shared by the memory and SQLite stores. */
+interface EventLog {
+  /** Store an event, apply retention and return its sequence number. */
+  append(sessionId: string, streamId: string, message: JSONRPCMessage, storedAt: number): number;
+  find(sessionId: string, seq: number): StoredEvent | undefined;
+  /** Events on a stream after `seq`, oldest first. */
+  after(sessionId: string, streamId: string, seq: number): StoredEvent[];
+  dropSession(sessionId: string): void;
+  count(): number;
+  close(): void;
+}
+
+// ---------------------------------------------------------------------------
+// Event IDs
+// ---------------------------------------------------------------------------
+
+// Stream IDs are UUIDs or the SDK's "_GET_stream", so the sequence number
+// always follows the last underscore.
+function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}_${seq}`;
+}
+
+function parseEventId(eventId: string): { streamId: string; seq: number } | undefined {
+  const separator = eventId.lastIndexOf("_");
+  const seq = Number(eventId.slice(separator + 1));
+  if (separator <= 0 || !Number.isSafeInteger(seq) || seq <= 0) return undefined;
+  return { streamId: eventId.slice(0, separator), seq };
+}
+
+/** The transport stores an empty priming event at the start of each stream. */
+function isPrimingEvent(message: JSONRPCMessage): boolean {
+  return Object.keys(message).length === 0;
+}
+
+function createEventStore(
+  log: EventLog,
+  retention: EventRetention,
+  now: () => number
+): ResumableEventStore {
+  /** The event, if it belongs to this session's stream and is still retained. */
+  function lookup(sessionId: string, eventId: string): StoredEvent | undefined {
+    const parsed = parseEventId(eventId);
+    if (!parsed) return undefined;
+    const event = log.find(sessionId, parsed.seq);
+    if (!event || event.streamId !== parsed.streamId) return undefined;
+    if (retention.maxAgeMs > 0 && now() - event.storedAt >= retention.maxAgeMs) return undefined;
+    return event;
+  }
+
+  return {
+    forSession(sessionId) {
+      return {
+        async storeEvent(streamId, message) {
+          return formatEventId(streamId, log.append(sessionId, streamId, message, now()));
+        },
+
+        // Unknown or expired IDs make the transport answer 400, so a client
+        // learns it cannot resume instead of silently missing events.
+        async getStreamIdForEventId(eventId) {
+          return lookup(sessionId, eventId)?.streamId;
+        },
+
+        async replayEventsAfter(lastEventId, { send }) {
+          const last = lookup(sessionId, lastEventId);
+          if (!last) throw new Error(`Unknown or expired event ID: ${lastEventId}`);
+          for (const event of log.after(sessionId, last.streamId, last.seq)) {
+            if (isPrimingEvent(event.message)) continue;
+            await send(formatEventId(event.streamId, event.seq), event.message);
+          }
+          return last.streamId;
+        },
+      };
+    },
+    dropSession: (sessionId) => log.dropSession(sessionId),
+    stats: () => ({ events: log.count() }),
+    close: () => log.close(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+/** In-process log. Map iteration order doubles as sequence order. */
+export function createMemoryEventStore(
+  retention: Partial<EventRetention> = {},
+  options: { now?: () => number } = {}
+): ResumableEventStore {
+  const limits: EventRetention = { ...DEFAULT_EVENT_RETENTION, ...retention };
+  const now = options.now ?? Date.now;
+  const events = new Map<number, StoredEvent>();
+  // Sequence numbers per session stream, oldest first.
+  const streams = new Map<string, number[]>();
+  // Stream IDs per session, so closing a session never scans the whole log.
+  const sessionStreams = new Map<string, Set<string>>();
+  let nextSeq = 1;
+
+  const streamKey = (sessionId: string, streamId: string) => `${sessionId}\n${streamId}`;
+
+  function forgetStream(sessionId: string, streamId: string): void {
+    streams.delete(streamKey(sessionId, streamId));
+    const ids = sessionStreams.get(sessionId);
+    ids?.delete(streamId);
+    if (ids?.size === 0) sessionStreams.delete(sessionId);
+  }
+
+  function discard(event: StoredEvent): void {
+    events.delete(event.seq);
+    const seqs = streams.get(streamKey(event.sessionId, event.streamId));
+    if (!seqs) return;
+    const index = seqs.indexOf(event.seq);
+    if (index >= 0) seqs.splice(index, 1);
+    if (seqs.length === 0) forgetStream(event.sessionId, event.streamId);
+  }
+
+  function oldest(): StoredEvent | undefined {
+    return events.values().next().value;
+  }
+
+  const log: EventLog = {
+    append(sessionId, streamId, message, storedAt) {
+      const seq = nextSeq++;
+      const key = streamKey(sessionId, streamId);
+      events.set(seq, { seq, sessionId, streamId, message, storedAt });
+      const seqs = streams.get(key) ?? [];
+      seqs.push(seq);
+      streams.set(key, seqs);
+      sessionStreams.set(sessionId, (sessionStreams.get(sessionId) ?? new Set()).add(streamId));
+
+      if (limits.maxEventsPerStream > 0) {
+        while (seqs.length > limits.maxEventsPerStream) discard(events.get(seqs[0])!);
+      }
+      if (limits.maxEvents > 0) {
+        while (events.size > limits.maxEvents) discard(oldest()!);
+      }
+      if (limits.maxAgeMs > 0) {
+        for (let event = oldest(); event && storedAt - event.storedAt >= limits.maxAgeMs; event = oldest()) {
+          discard(event);
+        }
+      }
+      return seq;
+    },
+
+    find(sessionId, seq) {
+      const event = events.get(seq);
+      return event?.sessionId === sessionId ? event : undefined;
+    },
+
+    after(sessionId, streamId, seq) {
+      return (streams.get(streamKey(sessionId, streamId)) ?? [])
+        .filter((s) => s > seq)
+        .map((s) => events.get(s)!);
+    },
+
+    dropSession(sessionId) {
+      for (const streamId of sessionStreams.get(sessionId) ?? []) {
+        for (const seq of streams.get(streamKey(sessionId, streamId)) ?? []) events.delete(seq);
+        streams.delete(streamKey(sessionId, streamId));
+      }
+      sessionStreams.delete(sessionId);
+    },
+
+    count: () => events.size,
+    close: () => {
+      events.clear();
+      streams.clear();
+      sessionStreams.clear();
+    },
+  };
+
+  return createEventStore(log, limits, now);
+}
+
+/**
+ * SQLite-backed store. Retention is applied on every write; sequence
+ * numbers keep increasing across restarts, so stale event IDs from a
+ * previous process never resolve to new events. The store keeps a running
+ * row count, so the overall cap only deletes once the log is over it, and
+ * then just the oldest rows, by primary key.
+ */
+export function createSqliteEventStore(
+  path: string,
+  retention: Partial<EventRetention> = {},
+  options: { now?: () => number } = {}
+): ResumableEventStore {
+  const limits: EventRetention = { ...DEFAULT_EVENT_RETENTION, ...retention };
+  const now = options.now ?? Date.now;
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS stream_events (
+      seq        INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT    NOT NULL,
+      stream_id  TEXT    NOT NULL,
+      message    TEXT    NOT NULL,
+      stored_at  INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS stream_events_stream ON stream_events (session_id, stream_id, seq);
+    CREATE INDEX IF NOT EXISTS stream_events_stored_at ON stream_events (stored_at);
+  `);
+
+  interface Row {
+    seq: number;
+    session_id: string;
+    stream_id: string;
+    message: string;
+    stored_at: number;
+  }
+  const toEvent = (row: Row): StoredEvent => ({
+    seq: row.seq,
+    sessionId: row.session_id,
+    streamId: row.stream_id,
+    message: JSON.parse(row.message),
+    storedAt: row.stored_at,
+  });
+
+  const insert = db.prepare(
+    "INSERT INTO stream_events (session_id, stream_id, message, stored_at) VALUES (?, ?, ?, ?)"
+  );
+  const select = db.prepare<[number, string], Row>(
+    "SELECT * FROM stream_events WHERE seq = ? AND session_id = ?"
+  );
+  const selectAfter = db.prepare<[string, string, number], Row>(
+    "SELECT * FROM stream_events WHERE session_id = ? AND stream_id = ? AND seq > ? ORDER BY seq"
+  );
+  const purgeExpired = db.prepare("DELETE FROM stream_events WHERE stored_at <= ?");
+  const trimStream = db.prepare(
+    `DELETE FROM stream_events WHERE seq IN (
+       SELECT seq FROM stream_events WHERE session_id = ? AND stream_id = ?
+       ORDER BY seq DESC LIMIT -1 OFFSET ?
+     )`
+  );
+  const trimOldest = db.prepare(
+    "DELETE FROM stream_events WHERE seq IN (SELECT seq FROM stream_events ORDER BY seq LIMIT ?)"
+  );
+  const removeSession = db.prepare("DELETE FROM stream_events WHERE session_id = ?");
+  const countAll = db.prepare<[], { count: number }>("SELECT COUNT(*) AS count FROM stream_events");
+  let rows = countAll.get()!.count;
+
+  const write = db.transaction(
+    (sessionId: string, streamId: string, message: JSONRPCMessage, storedAt: number): number => {
+      const seq = Number(insert.run(sessionId, streamId, JSON.stringify(message), storedAt).lastInsertRowid);
+      rows++;
+      if (limits.maxEventsPerStream > 0) {
+        rows -= trimStream.run(sessionId, streamId, limits.maxEventsPerStream).changes;
+      }
+      if (limits.maxEvents > 0 && rows > limits.maxEvents) {
+        rows -= trimOldest.run(rows - limits.maxEvents).changes;
+      }
+      if (limits.maxAgeMs > 0) rows -= purgeExpired.run(storedAt - limits.maxAgeMs).changes;
+      return seq;
+    }
+  );
+
+  const log: EventLog = {
+    append: (sessionId, streamId, message, storedAt) => write(sessionId, streamId, message, storedAt),
+    find(sessionId, seq) {
+      const row = select.get(seq, sessionId);
+      return row ? toEvent(row) : undefined;
+    },
+    after: (sessionId, streamId, seq) => selectAfter.all(sessionId, streamId, seq).map(toEvent),
+    dropSession(sessionId) {
+      rows -= removeSession.run(sessionId).changes;
+    },
+    count: () => rows,
+    close() {
+      db.close();
+    },
+  };
+
+  return createEventStore(log, limits, now);
+}
+
+// ---------------------------------------------------------------------------
+// Environment
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the event store from the environment, or undefined when
+ * resumability is disabled:
+ *
+ *   S2T_EVENT_STORE                memory | sqlite | off (default: memory)
+ *   S2T_EVENT_STORE_PATH           SQLite file for the sqlite store (default: s2t-events.db)
+ *   S2T_EVENT_MAX_AGE_MS           Retention window (default: 600000)
+ *   S2T_EVENT_MAX_PER_STREAM       Events kept per stream (default: 1000)
+ *   S2T_EVENT_MAX_EVENTS           Events kept overall (default: 100000)
+ */
+export function eventStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ResumableEventStore | undefined {
+  const kind = env.S2T_EVENT_STORE || "memory";
+  if (kind === "off") return undefined;
+
+  const variables: Record<keyof EventRetention, string> = {
+    maxAgeMs: "S2T_EVENT_MAX_AGE_MS",
+    maxEventsPerStream: "S2T_EVENT_MAX_PER_STREAM",
+    maxEvents: "S2T_EVENT_MAX_EVENTS",
+  };
+  const retention: Partial<EventRetention> = {};
+  for (const [field, name] of Object.entries(variables) as [keyof EventRetention, string][]) {
+    const raw = env[name];
+    if (raw === undefined || raw === "") continue;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${name} "${raw}": expected a non-negative integer`);
+    }
+    retention[field] = value;
+  }
+
+  if (kind === "memory") return createMemoryEventStore(retention);
+  if (kind === "sqlite") {
+    return createSqliteEventStore(env.S2T_EVENT_STORE_PATH || "s2t-events.db", retention);
+  }
+  throw new Error(`Invalid S2T_EVENT_STORE "${kind}". Use one of: memory, sqlite, off`);
+}
@@ -47,6 +47,7 @@ import {
   TraceContextResponse,
   FileLockResponse,
   CliReadinessResponse,
+  getOutputFormat,
 } from "./handlers.js";
 
 // Mock API client factory
@@ -1704,6 +1705,100 @@ describe("handleDataLakeReadiness", () => {
   });
 });
 
+describe("Output formats", () => {
+  const riskResponse: RiskClassificationResponse = {
+    risk_level: "HIGH",
+    score: 72,
+    factors: [{ name: "environment", weight: 0.2, value: "production", contribution: 20 }],
+    recommendation: "Require human approval.",
+    auto_approve: false,
+    metadata: { processing_time_ms: 9, model_version: "1.0.0" },
+  };
+
+  it("should default to markdown for missing or unknown formats", () => {
+    expect(getOutputFormat({})).toBe("markdown");
+    expect(getOutputFormat({ output_format: "yaml" })).toBe("markdown");
+    expect(getOutputFormat({ output_format: "compact" })).toBe("compact");
+  });
+
+  it("should return the raw normalized response for json", async () => {
+    const mockClient = createMockApiClient(riskResponse);
+    const result = await handleRiskClassify(
+      { action: "terraform apply", output_format: "json" },
+      mockClient
+    );
+
+    expect(JSON.parse(result)).toEqual(riskResponse);
+  });
+
+  it("should return a one-line summary without footer for compact", async () => {
+    const mockClient = createMockApiClient(riskResponse);
+    const result = await handleRiskClassify(
+      { action: "terraform apply", output_format: "compact" },
+      mockClient
+    );
+
+    expect(result).toBe("Risk: HIGH (72/100) | auto-approve: no | Require human approval.");
+    expect(result).not.toContain("Powered by S2T Consulting");
+  });
+
+  it("should omit large JSON dumps from compact DynamoDB designs", async () => {
+    const mockClient = createMockApiClient({
+      design: {
+        table_name: "AppTable",
+        key_schema: { PK: "S", SK: "S" },
+        gsis: [{ name: "GSI1", partition_key: { GSI1PK: "S" } }],
+        entity_mappings: [{ entity: "User", pk: "USER#<id>" }],
+        access_pattern_mappings: [{ pattern: "Get user", index: "table" }],
+        sample_items: [],
+      },
+      cloudformation_template: { Resources: { AppTable: { Type: "AWS::DynamoDB::Table" } } },
+      summary: { entities: 1, access_patterns: 1, gsis_required: 1 },
+    });
+    const result = await handleDynamoDbDesign(
+      { entities: [{ name: "User" }], access_patterns: ["Get user"], output_format: "compact" },
+      mockClient
+    );
+
+    expect(result).toBe("Table AppTable: 1 entities, 1 access patterns, 1 GSI(s) (GSI1)");
+  });
+
+  it("should honour output_format on argument-less tools", async () => {
+    const mockClient = createMockApiClient({
+      accelerators: [
+        { id: "ACC-AI-001", name: "Embeddings", endpoint: "/embed", description: "", tier_access: ["free"] },
+      ],
+      tiers: {},
+      your_tier: "free",
+    });
+    const result = await handleCatalog(mockClient, { output_format: "compact" });
+
+    expect(result).toBe("Tier: free | 1 accelerator(s): ACC-AI-001");
+  });
+});
+
+describe("Upstream contract validation", () => {
+  it("should render without optional metadata and capability sections", async () => {
+    const mockClient = createMockApiClient({
+      best_match: {
+        agent_id: "deployment-agent",
+        name: "Deployment Agent",
+        domain: "AWS deployment",
+        similarity_score: 0.9,
+      },
+      candidates: [],
+      routing_method: "keyword",
+      confidence: 0.9,
+    });
+
+    const result = await handleTaskRouting({ task_description: "Deploy" }, mockClient);
+
+    expect(result).toContain("**Best Match:** Deployment Agent (90%)");
+    expect(result).not.toContain("Best Match Capabilities");
+    expect(result).not.toContain("Evaluated");
+  });
+});
+
 describe("Input validation guards", () => {
   const dummyClient = createMockApiClient({});
 
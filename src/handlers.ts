@@ -3,8 +3,70 @@
  * Extracted for testability
  */
 
+import { NO_PROGRESS, type ProgressReporter } from "./progress.js";
+
+/**
+ * Per-call transport hints. Handlers never set these; the server scopes them
+ * onto the client for each tool call (see scopeApiClient in api-client.ts).
+ */
+export interface ApiCallOptions {
+  /** Aborts the in-flight request (and any pending retry) when fired. */
+  signal?: AbortSignal;
+  /** The calling tool is idempotent, so transient failures may be retried. */
+  idempotent?: boolean;
+  /** Extra request headers, e.g. the W3C traceparent of the current span. */
+  headers?: Record<string, string>;
+  /** Called before each retry of a failed attempt, e.g. to report progress. */
+  onRetry?: (retry: ApiRetryEvent) => void;
+}
+
+export interface ApiRetryEvent {
+  /** 1 for the first retry. */
+  retry: number;
+  maxRetries: number;
+  delayMs: number;
+  error: Error;
+}
+
 export interface ApiClient {
-  callApi(endpoint: string, method?: string, body?: object): Promise<unknown>;
+  callApi(
+    endpoint: string,
+    method?: string,
+    body?: object,
+    options?: ApiCallOptions
+  ): Promise<unknown>;
+}
+
+// Output formatting
+export const OUTPUT_FORMATS = ["markdown", "json", "compact"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Per-mode renderers for a typed API response. "json" needs no renderer: it
+ * always returns the normalized response as-is.
+ */
+export interface ResponseFormatters<T> {
+  markdown(response: T): string;
+  compact(response: T): string;
+}
+
+export function getOutputFormat(args: Record<string, unknown>): OutputFormat {
+  const format = args.output_format;
+  return OUTPUT_FORMATS.includes(format as OutputFormat)
+    ? (format as OutputFormat)
+    : "markdown";
+}
+
+export function formatResponse<T>(
+  response: T,
+  format: OutputFormat,
+  formatters: ResponseFormatters<T>
+): string {
+  if (format === "json") {
+    return JSON.stringify(response, null, 2);
+  }
+  return formatters[format](response);
 }
 
 // Embed response types
@@ -21,7 +83,7 @@ export interface EmbedResponse {
     dimensions: number;
     processing_time_ms: number;
   };
-  usage: {
+  usage?: {
     tokens_used: number;
     estimated_cost: number;
   };
@@ -46,8 +108,8 @@ export interface CloudFormationResponse {
     resource_count: number;
     resources: CloudFormationResource[];
   };
-  warnings: CloudFormationWarning[];
-  usage: { estimated_cost: number };
+  warnings?: CloudFormationWarning[];
+  usage?: { estimated_cost: number };
 }
 
 // OAuth response types
@@ -73,7 +135,7 @@ export interface OAuthResponse {
     errors: OAuthValidationItem[];
     warnings: OAuthValidationItem[];
   };
-  recommendations: OAuthRecommendation[];
+  recommendations?: OAuthRecommendation[];
 }
 
 // Catalog response types
@@ -96,7 +158,7 @@ export interface Tier {
 
 export interface CatalogResponse {
   accelerators: Accelerator[];
-  tiers: Record<string, Tier>;
+  tiers?: Record<string, Tier>;
   your_tier: string;
 }
 
@@ -116,7 +178,7 @@ export interface UsageResponse {
   remaining: {
     requests_this_month: number;
   };
-  billing: {
+  billing?: {
     tier_price: number;
     usage_charges: number;
     period_total: number;
@@ -154,19 +216,49 @@ export interface IamPolicyResponse {
     low: number;
   };
   findings: IamPolicyFinding[];
-  suggestions: IamPolicySuggestion[];
+  suggestions?: IamPolicySuggestion[];
   scoped_alternatives?: Record<string, { read: string[]; write: string[]; admin: string[] }>;
-  metadata: {
+  metadata?: {
     policy_version: string;
     processing_time_ms: number;
   };
 }
 
 // Handler implementations
+const embedFormatters: ResponseFormatters<EmbedResponse> = {
+  markdown(response) {
+    return JSON.stringify(
+      {
+        summary: `Generated ${response.summary.total_chunks} embedding(s) using ${response.summary.model}`,
+        dimensions: response.summary.dimensions,
+        chunks: response.chunks.map((c, i) => ({
+          index: i,
+          text_preview:
+            c.text.substring(0, 100) + (c.text.length > 100 ? "..." : ""),
+          word_count: c.metadata.word_count,
+          has_embedding: true,
+        })),
+        usage: response.usage,
+        note: "Full embeddings available in API response. Use for vector database indexing.",
+      },
+      null,
+      2
+    );
+  },
+  compact(response) {
+    const usage = response.usage
+      ? ` | ${response.usage.tokens_used} tokens, $${response.usage.estimated_cost}`
+      : "";
+    return `Embedded ${response.summary.total_chunks} chunk(s) with ${response.summary.model} (${response.summary.dimensions} dims)${usage}`;
+  },
+};
+
 export async function handleEmbed(
   args: Record<string, unknown>,
-  apiClient: ApiClient
+  apiClient: ApiClient,
+  progress: ProgressReporter = NO_PROGRESS
 ): Promise<string> {
+  progress({ phase: `Embedding ${String(args.text ?? "").length} characters` });
   const result = await apiClient.callApi("/embed", "POST", {
     text: args.text,
     model: args.model || "amazon.titan-embed-text-v2:0",
@@ -176,25 +268,42 @@ export async function handleEmbed(
 
   const response = result as EmbedResponse;
 
-  return JSON.stringify(
-    {
-      summary: `Generated ${response.summary.total_chunks} embedding(s) using ${response.summary.model}`,
-      dimensions: response.summary.dimensions,
-      chunks: response.chunks.map((c, i) => ({
-        index: i,
-        text_preview:
-          c.text.substring(0, 100) + (c.text.length > 100 ? "..." : ""),
-        word_count: c.metadata.word_count,
-        has_embedding: true,
-      })),
-      usage: response.usage,
-      note: "Full embeddings available in API response. Use for vector database indexing.",
-    },
-    null,
-    2
-  );
+  return formatResponse(response, getOutputFormat(args), embedFormatters);
 }
 
+const cloudFormationFormatters: ResponseFormatters<CloudFormationResponse> = {
+  markdown(response) {
+    let output = `# Generated ${response.metadata.format.toUpperCase()} Template\n\n`;
+    output += `Resources created: ${response.metadata.resource_count}\n`;
+    output += response.metadata.resources
+      .map((r) => `- ${r.logical_id} (${r.type})`)
+      .join("\n");
+    output += "\n\n";
+
+    const warnings = response.warnings ?? [];
+    if (warnings.length > 0) {
+      output += "## Warnings\n";
+      warnings.forEach((w) => {
+        output += `- ${w.message}\n  Recommendation: ${w.recommendation}\n`;
+      });
+      output += "\n";
+    }
+
+    output += "## Template\n\n```yaml\n";
+    output += response.template;
+    output += "\n```\n";
+
+    return output;
+  },
+  compact(response) {
+    const resources = response.metadata.resources.map((r) => r.logical_id).join(", ");
+    let output = `${response.metadata.format.toUpperCase()} template: ${response.metadata.resource_count} resource(s) (${resources})\n`;
+    output += `Warnings: ${response.warnings?.length ?? 0}\n`;
+    output += "Template omitted; use output_format=markdown or json for the full template.";
+    return output;
+  },
+};
+
 export async function handleCloudFormation(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -208,27 +317,50 @@ export async function handleCloudFormation(
 
   const response = result as CloudFormationResponse;
 
-  let output = `# Generated ${response.metadata.format.toUpperCase()} Template\n\n`;
-  output += `Resources created: ${response.metadata.resource_count}\n`;
-  output += response.metadata.resources
-    .map((r) => `- ${r.logical_id} (${r.type})`)
-    .join("\n");
-  output += "\n\n";
-
-  if (response.warnings.length > 0) {
-    output += "## Warnings\n";
-    response.warnings.forEach((w) => {
-      output += `- ${w.message}\n  Recommendation: ${w.recommendation}\n`;
-    });
-    output += "\n";
-  }
+  return formatResponse(response, getOutputFormat(args), cloudFormationFormatters);
+}
 
-  output += "## Template\n\n```yaml\n";
-  output += response.template;
-  output += "\n```\n";
+const oauthValidateFormatters: ResponseFormatters<OAuthResponse> = {
+  markdown(response) {
+    let output = `# OAuth Configuration Validation: ${response.provider}\n\n`;
+    output += `**Status:** ${response.valid ? "VALID" : "INVALID"}\n\n`;
 
-  return output;
-}
+    if (response.validation.errors.length > 0) {
+      output += "## Errors\n";
+      response.validation.errors.forEach((e) => {
+        output += `- [${e.code}] ${e.message}\n`;
+      });
+      output += "\n";
+    }
+
+    if (response.validation.warnings.length > 0) {
+      output += "## Warnings\n";
+      response.validation.warnings.forEach((w) => {
+        output += `- [${w.code}] ${w.message}\n`;
+      });
+      output += "\n";
+    }
+
+    if (response.recommendations && response.recommendations.length > 0) {
+      output += "## Recommendations\n";
+      response.recommendations.forEach((r) => {
+        output += `- **${r.field}:** \`${r.value}\`\n  ${r.reason}\n`;
+      });
+      output += "\n";
+    }
+
+    output += "## Endpoints\n";
+    output += `- Authorization: ${response.configuration.authorization_endpoint}\n`;
+    output += `- Token: ${response.configuration.token_endpoint}\n`;
+
+    return output;
+  },
+  compact(response) {
+    let output = `OAuth ${response.provider}: ${response.valid ? "VALID" : "INVALID"} | ${response.validation.errors.length} error(s), ${response.validation.warnings.length} warning(s)`;
+    for (const e of response.validation.errors) output += `\n- [${e.code}] ${e.message}`;
+    return output;
+  },
+};
 
 export async function handleOAuthValidate(
   args: Record<string, unknown>,
@@ -245,86 +377,85 @@ export async function handleOAuthValidate(
 
   const response = result as OAuthResponse;
 
-  let output = `# OAuth Configuration Validation: ${response.provider}\n\n`;
-  output += `**Status:** ${response.valid ? "VALID" : "INVALID"}\n\n`;
-
-  if (response.validation.errors.length > 0) {
-    output += "## Errors\n";
-    response.validation.errors.forEach((e) => {
-      output += `- [${e.code}] ${e.message}\n`;
-    });
-    output += "\n";
-  }
-
-  if (response.validation.warnings.length > 0) {
-    output += "## Warnings\n";
-    response.validation.warnings.forEach((w) => {
-      output += `- [${w.code}] ${w.message}\n`;
-    });
-    output += "\n";
-  }
+  return formatResponse(response, getOutputFormat(args), oauthValidateFormatters);
+}
 
-  if (response.recommendations.length > 0) {
-    output += "## Recommendations\n";
-    response.recommendations.forEach((r) => {
-      output += `- **${r.field}:** \`${r.value}\`\n  ${r.reason}\n`;
+const catalogFormatters: ResponseFormatters<CatalogResponse> = {
+  markdown(response) {
+    let output = "# S2T Accelerator Catalog\n\n";
+    output += `**Your Tier:** ${response.your_tier}\n\n`;
+
+    output += "## Available Accelerators\n\n";
+    response.accelerators.forEach((acc) => {
+      output += `### ${acc.name} (${acc.id})\n`;
+      output += `${acc.description}\n`;
+      output += `- Endpoint: \`${acc.endpoint}\`\n`;
+      output += `- Available in: ${acc.tier_access.join(", ")}\n\n`;
     });
-    output += "\n";
-  }
-
-  output += "## Endpoints\n";
-  output += `- Authorization: ${response.configuration.authorization_endpoint}\n`;
-  output += `- Token: ${response.configuration.token_endpoint}\n`;
 
-  return output;
-}
+    if (response.tiers) {
+      output += "## Pricing Tiers\n\n";
+      Object.entries(response.tiers).forEach(([, tier]) => {
+        output += `- **${tier.name}:** $${tier.price}/mo - ${tier.limits.requestsPerMinute} req/min, ${tier.limits.requestsPerMonth || "unlimited"}/mo\n`;
+      });
+    }
 
-export async function handleCatalog(apiClient: ApiClient): Promise<string> {
+    return output;
+  },
+  compact(response) {
+    const ids = response.accelerators.map((acc) => acc.id).join(", ");
+    return `Tier: ${response.your_tier} | ${response.accelerators.length} accelerator(s): ${ids}`;
+  },
+};
+
+export async function handleCatalog(
+  apiClient: ApiClient,
+  args: Record<string, unknown> = {}
+): Promise<string> {
   const result = await apiClient.callApi("/catalog", "GET");
 
   const response = result as CatalogResponse;
 
-  let output = "# S2T Accelerator Catalog\n\n";
-  output += `**Your Tier:** ${response.your_tier}\n\n`;
-
-  output += "## Available Accelerators\n\n";
-  response.accelerators.forEach((acc) => {
-    output += `### ${acc.name} (${acc.id})\n`;
-    output += `${acc.description}\n`;
-    output += `- Endpoint: \`${acc.endpoint}\`\n`;
-    output += `- Available in: ${acc.tier_access.join(", ")}\n\n`;
-  });
-
-  output += "## Pricing Tiers\n\n";
-  Object.entries(response.tiers).forEach(([, tier]) => {
-    output += `- **${tier.name}:** $${tier.price}/mo - ${tier.limits.requestsPerMinute} req/min, ${tier.limits.requestsPerMonth || "unlimited"}/mo\n`;
-  });
-
-  return output;
+  return formatResponse(response, getOutputFormat(args), catalogFormatters);
 }
 
-export async function handleUsage(apiClient: ApiClient): Promise<string> {
+const usageFormatters: ResponseFormatters<UsageResponse> = {
+  markdown(response) {
+    let output = "# S2T API Usage\n\n";
+    output += `**Account:** ${response.email}\n`;
+    output += `**Tier:** ${response.tier}\n`;
+    output += `**Period:** ${response.period}\n\n`;
+
+    output += "## Usage\n";
+    output += `- Requests this month: ${response.usage.requests}\n`;
+    output += `- Remaining: ${response.remaining.requests_this_month}\n`;
+    output += `- Rate limit: ${response.limits.requests_per_minute}/min\n`;
+    output += `- Monthly limit: ${response.limits.requests_per_month}\n\n`;
+
+    if (response.billing) {
+      output += "## Billing\n";
+      output += `- Tier price: $${response.billing.tier_price}\n`;
+      output += `- Usage charges: $${response.billing.usage_charges}\n`;
+      output += `- Period total: $${response.billing.period_total}\n`;
+    }
+
+    return output;
+  },
+  compact(response) {
+    const billing = response.billing ? ` | $${response.billing.period_total} total` : "";
+    return `${response.tier} tier | ${response.usage.requests} requests this period, ${response.remaining.requests_this_month} remaining${billing}`;
+  },
+};
+
+export async function handleUsage(
+  apiClient: ApiClient,
+  args: Record<string, unknown> = {}
+): Promise<string> {
   const result = await apiClient.callApi("/usage", "GET");
 
   const response = result as UsageResponse;
 
-  let output = "# S2T API Usage\n\n";
-  output += `**Account:** ${response.email}\n`;
-  output += `**Tier:** ${response.tier}\n`;
-  output += `**Period:** ${response.period}\n\n`;
-
-  output += "## Usage\n";
-  output += `- Requests this month: ${response.usage.requests}\n`;
-  output += `- Remaining: ${response.remaining.requests_this_month}\n`;
-  output += `- Rate limit: ${response.limits.requests_per_minute}/min\n`;
-  output += `- Monthly limit: ${response.limits.requests_per_month}\n\n`;
-
-  output += "## Billing\n";
-  output += `- Tier price: $${response.billing.tier_price}\n`;
-  output += `- Usage charges: $${response.billing.usage_charges}\n`;
-  output += `- Period total: $${response.billing.period_total}\n`;
-
-  return output;
+  return formatResponse(response, getOutputFormat(args), usageFormatters);
 }
 
 // MFA Compliance response types
@@ -351,7 +482,7 @@ export interface MfaComplianceResponse {
     root_checked: boolean;
   };
   findings: MfaComplianceFinding[];
-  recommendations: Array<{
+  recommendations?: Array<{
     priority: number;
     title: string;
     description: string;
@@ -399,7 +530,7 @@ export interface ErrorPatternsResponse {
     trend_change_percent: number;
   };
   patterns: ErrorPatternGroup[];
-  recommendations: Array<{
+  recommendations?: Array<{
     priority: number;
     category: string;
     issue: string;
@@ -420,7 +551,7 @@ export interface DataLakeReadinessResponse {
     warnings: number;
   };
   category_scores: Record<string, { score: number; passed: number; failed: number }>;
-  recommendations: Array<{
+  recommendations?: Array<{
     priority: number;
     category: string;
     title: string;
@@ -428,6 +559,62 @@ export interface DataLakeReadinessResponse {
   }>;
 }
 
+const mfaComplianceFormatters: ResponseFormatters<MfaComplianceResponse> = {
+  markdown(response) {
+    const statusEmoji = response.status === "COMPLIANT" ? "✅" :
+                        response.status === "AT_RISK" ? "⚠️" :
+                        response.status === "REVIEW_REQUIRED" ? "🔍" : "❌";
+
+    let output = `# MFA Compliance Report\n\n`;
+    output += `**Status:** ${statusEmoji} ${response.status}\n`;
+    output += `**Compliance Score:** ${response.compliance_score}/100\n\n`;
+
+    output += "## Summary\n";
+    output += `- Users checked: ${response.summary.users_checked}\n`;
+    output += `- Policies checked: ${response.summary.policies_checked}\n`;
+    output += `- Root account checked: ${response.summary.root_checked ? 'Yes' : 'No'}\n`;
+    output += `- Total findings: ${response.summary.total_findings}\n`;
+    if (response.summary.critical > 0) output += `- 🔴 Critical: ${response.summary.critical}\n`;
+    if (response.summary.high > 0) output += `- 🟠 High: ${response.summary.high}\n`;
+    if (response.summary.medium > 0) output += `- 🟡 Medium: ${response.summary.medium}\n`;
+    output += "\n";
+
+    if (response.findings.length > 0) {
+      output += "## Findings\n\n";
+      for (const finding of response.findings) {
+        const emoji = finding.severity === "CRITICAL" ? "🔴" :
+                      finding.severity === "HIGH" ? "🟠" : "🟡";
+        output += `${emoji} **[${finding.rule_id}]** ${finding.finding}\n`;
+        output += `   - Fix: ${finding.recommendation}\n`;
+      }
+      output += "\n";
+    }
+
+    if (response.recommendations && response.recommendations.length > 0) {
+      output += "## Recommendations\n\n";
+      for (const rec of response.recommendations) {
+        output += `### ${rec.title}\n`;
+        output += `${rec.description}\n`;
+        if (rec.actions) {
+          output += "Steps:\n";
+          rec.actions.forEach((a, i) => output += `${i + 1}. ${a}\n`);
+        }
+        output += "\n";
+      }
+    }
+
+    return output;
+  },
+  compact(response) {
+    const s = response.summary;
+    let output = `MFA: ${response.status} (${response.compliance_score}/100) | ${s.total_findings} finding(s): ${s.critical} critical, ${s.high} high, ${s.medium} medium`;
+    for (const f of response.findings.filter((f) => f.severity === "CRITICAL")) {
+      output += `\n- [${f.rule_id}] ${f.finding}`;
+    }
+    return output;
+  },
+};
+
 export async function handleMfaCompliance(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -440,50 +627,54 @@ export async function handleMfaCompliance(
 
   const response = result as MfaComplianceResponse;
 
-  const statusEmoji = response.status === "COMPLIANT" ? "✅" :
-                      response.status === "AT_RISK" ? "⚠️" :
-                      response.status === "REVIEW_REQUIRED" ? "🔍" : "❌";
-
-  let output = `# MFA Compliance Report\n\n`;
-  output += `**Status:** ${statusEmoji} ${response.status}\n`;
-  output += `**Compliance Score:** ${response.compliance_score}/100\n\n`;
-
-  output += "## Summary\n";
-  output += `- Users checked: ${response.summary.users_checked}\n`;
-  output += `- Policies checked: ${response.summary.policies_checked}\n`;
-  output += `- Root account checked: ${response.summary.root_checked ? 'Yes' : 'No'}\n`;
-  output += `- Total findings: ${response.summary.total_findings}\n`;
-  if (response.summary.critical > 0) output += `- 🔴 Critical: ${response.summary.critical}\n`;
-  if (response.summary.high > 0) output += `- 🟠 High: ${response.summary.high}\n`;
-  if (response.summary.medium > 0) output += `- 🟡 Medium: ${response.summary.medium}\n`;
-  output += "\n";
-
-  if (response.findings.length > 0) {
-    output += "## Findings\n\n";
-    for (const finding of response.findings) {
-      const emoji = finding.severity === "CRITICAL" ? "🔴" :
-                    finding.severity === "HIGH" ? "🟠" : "🟡";
-      output += `${emoji} **[${finding.rule_id}]** ${finding.finding}\n`;
-      output += `   - Fix: ${finding.recommendation}\n`;
-    }
-    output += "\n";
-  }
+  return formatResponse(response, getOutputFormat(args), mfaComplianceFormatters);
+}
 
-  if (response.recommendations.length > 0) {
-    output += "## Recommendations\n\n";
-    for (const rec of response.recommendations) {
-      output += `### ${rec.title}\n`;
-      output += `${rec.description}\n`;
-      if (rec.actions) {
-        output += "Steps:\n";
-        rec.actions.forEach((a, i) => output += `${i + 1}. ${a}\n`);
+const dynamoDbDesignFormatters: ResponseFormatters<DynamoDbDesignResponse> = {
+  markdown(response) {
+    let output = `# DynamoDB Single-Table Design\n\n`;
+    output += `**Table Name:** ${response.design.table_name}\n`;
+    output += `**Entities:** ${response.summary.entities}\n`;
+    output += `**Access Patterns:** ${response.summary.access_patterns}\n`;
+    output += `**GSIs Required:** ${response.summary.gsis_required}\n\n`;
+
+    output += "## Key Schema\n";
+    output += "```json\n";
+    output += JSON.stringify(response.design.key_schema, null, 2);
+    output += "\n```\n\n";
+
+    if (response.design.gsis && response.design.gsis.length > 0) {
+      output += "## Global Secondary Indexes\n";
+      for (const gsi of response.design.gsis) {
+        output += `- **${gsi.name}**: PK=${JSON.stringify(gsi.partition_key)}`;
+        if (gsi.sort_key) output += `, SK=${JSON.stringify(gsi.sort_key)}`;
+        output += "\n";
       }
       output += "\n";
     }
-  }
 
-  return output;
-}
+    output += "## Entity Mappings\n";
+    output += "```json\n";
+    output += JSON.stringify(response.design.entity_mappings, null, 2);
+    output += "\n```\n\n";
+
+    output += "## Access Pattern Mappings\n";
+    output += "```json\n";
+    output += JSON.stringify(response.design.access_pattern_mappings, null, 2);
+    output += "\n```\n\n";
+
+    output += "## CloudFormation Template\n";
+    output += "```json\n";
+    output += JSON.stringify(response.cloudformation_template, null, 2);
+    output += "\n```\n";
+
+    return output;
+  },
+  compact(response) {
+    const gsis = (response.design.gsis ?? []).map((g) => g.name);
+    return `Table ${response.design.table_name}: ${response.summary.entities} entities, ${response.summary.access_patterns} access patterns, ${response.summary.gsis_required} GSI(s)${gsis.length > 0 ? ` (${gsis.join(", ")})` : ""}`;
+  },
+};
 
 export async function handleDynamoDbDesign(
   args: Record<string, unknown>,
@@ -497,49 +688,61 @@ export async function handleDynamoDbDesign(
 
   const response = result as DynamoDbDesignResponse;
 
-  let output = `# DynamoDB Single-Table Design\n\n`;
-  output += `**Table Name:** ${response.design.table_name}\n`;
-  output += `**Entities:** ${response.summary.entities}\n`;
-  output += `**Access Patterns:** ${response.summary.access_patterns}\n`;
-  output += `**GSIs Required:** ${response.summary.gsis_required}\n\n`;
-
-  output += "## Key Schema\n";
-  output += "```json\n";
-  output += JSON.stringify(response.design.key_schema, null, 2);
-  output += "\n```\n\n";
-
-  if (response.design.gsis && response.design.gsis.length > 0) {
-    output += "## Global Secondary Indexes\n";
-    for (const gsi of response.design.gsis) {
-      output += `- **${gsi.name}**: PK=${JSON.stringify(gsi.partition_key)}`;
-      if (gsi.sort_key) output += `, SK=${JSON.stringify(gsi.sort_key)}`;
-      output += "\n";
-    }
-    output += "\n";
-  }
-
-  output += "## Entity Mappings\n";
-  output += "```json\n";
-  output += JSON.stringify(response.design.entity_mappings, null, 2);
-  output += "\n```\n\n";
+  return formatResponse(response, getOutputFormat(args), dynamoDbDesignFormatters);
+}
 
-  output += "## Access Pattern Mappings\n";
-  output += "```json\n";
-  output += JSON.stringify(response.design.access_pattern_mappings, null, 2);
-  output += "\n```\n\n";
+const errorPatternsFormatters: ResponseFormatters<ErrorPatternsResponse> = {
+  markdown(response) {
+    const trendEmoji = response.summary.trend === "increasing" ? "📈" :
+                       response.summary.trend === "decreasing" ? "📉" : "➡️";
+
+    let output = `# Error Pattern Analysis\n\n`;
+    output += `**Total Errors:** ${response.summary.total_errors}\n`;
+    output += `**Unique Patterns:** ${response.summary.unique_patterns}\n`;
+    output += `**Trend:** ${trendEmoji} ${response.summary.trend} (${response.summary.trend_change_percent > 0 ? '+' : ''}${response.summary.trend_change_percent}%)\n`;
+    output += `**Critical Issues:** ${response.summary.critical_count}\n`;
+    output += `**High Issues:** ${response.summary.high_count}\n\n`;
+
+    if (response.patterns.length > 0) {
+      output += "## Error Patterns\n\n";
+      for (const pattern of response.patterns.slice(0, 10)) {
+        const emoji = pattern.severity === "HIGH" ? "🔴" :
+                      pattern.severity === "MEDIUM" ? "🟠" : "🟡";
+        output += `### ${emoji} ${pattern.type.toUpperCase()} (${pattern.count} errors, ${pattern.percentage}%)\n`;
+        output += `**Category:** ${pattern.category}\n`;
+        output += `**Common Causes:** ${pattern.common_causes.join(", ")}\n`;
+        output += `**Remediation:** ${pattern.remediation.join("; ")}\n\n`;
+      }
+    }
 
-  output += "## CloudFormation Template\n";
-  output += "```json\n";
-  output += JSON.stringify(response.cloudformation_template, null, 2);
-  output += "\n```\n";
+    if (response.recommendations && response.recommendations.length > 0) {
+      output += "## Priority Actions\n\n";
+      for (const rec of response.recommendations) {
+        output += `${rec.priority}. **${rec.issue}** (${rec.category})\n`;
+        if (rec.actions) {
+          rec.actions.forEach(a => output += `   - ${a}\n`);
+        }
+      }
+    }
 
-  return output;
-}
+    return output;
+  },
+  compact(response) {
+    const s = response.summary;
+    let output = `${s.total_errors} errors, ${s.unique_patterns} patterns, trend ${s.trend} (${s.trend_change_percent > 0 ? "+" : ""}${s.trend_change_percent}%) | ${s.critical_count} critical, ${s.high_count} high`;
+    for (const pattern of response.patterns.slice(0, 3)) {
+      output += `\n- ${pattern.type} (${pattern.severity}, ${pattern.percentage}%)`;
+    }
+    return output;
+  },
+};
 
 export async function handleErrorPatterns(
   args: Record<string, unknown>,
-  apiClient: ApiClient
+  apiClient: ApiClient,
+  progress: ProgressReporter = NO_PROGRESS
 ): Promise<string> {
+  progress({ phase: `Analyzing ${Array.isArray(args.errors) ? args.errors.length : 0} errors` });
   const result = await apiClient.callApi("/analyze/error-patterns", "POST", {
     errors: args.errors,
     include_ai_analysis: args.include_ai_analysis ?? true,
@@ -547,40 +750,52 @@ export async function handleErrorPatterns(
 
   const response = result as ErrorPatternsResponse;
 
-  const trendEmoji = response.summary.trend === "increasing" ? "📈" :
-                     response.summary.trend === "decreasing" ? "📉" : "➡️";
-
-  let output = `# Error Pattern Analysis\n\n`;
-  output += `**Total Errors:** ${response.summary.total_errors}\n`;
-  output += `**Unique Patterns:** ${response.summary.unique_patterns}\n`;
-  output += `**Trend:** ${trendEmoji} ${response.summary.trend} (${response.summary.trend_change_percent > 0 ? '+' : ''}${response.summary.trend_change_percent}%)\n`;
-  output += `**Critical Issues:** ${response.summary.critical_count}\n`;
-  output += `**High Issues:** ${response.summary.high_count}\n\n`;
-
-  if (response.patterns.length > 0) {
-    output += "## Error Patterns\n\n";
-    for (const pattern of response.patterns.slice(0, 10)) {
-      const emoji = pattern.severity === "HIGH" ? "🔴" :
-                    pattern.severity === "MEDIUM" ? "🟠" : "🟡";
-      output += `### ${emoji} ${pattern.type.toUpperCase()} (${pattern.count} errors, ${pattern.percentage}%)\n`;
-      output += `**Category:** ${pattern.category}\n`;
-      output += `**Common Causes:** ${pattern.common_causes.join(", ")}\n`;
-      output += `**Remediation:** ${pattern.remediation.join("; ")}\n\n`;
+  return formatResponse(response, getOutputFormat(args), errorPatternsFormatters);
+}
+
+const dataLakeReadinessFormatters: ResponseFormatters<DataLakeReadinessResponse> = {
+  markdown(response) {
+    const statusEmoji = response.status === "READY" ? "✅" :
+                        response.status === "MOSTLY_READY" ? "🟢" :
+                        response.status === "PARTIALLY_READY" ? "🟡" : "❌";
+
+    let output = `# Data Lake Readiness Assessment\n\n`;
+    output += `**Status:** ${statusEmoji} ${response.status}\n`;
+    output += `**Overall Score:** ${response.overall_score}/100\n`;
+    output += `**Production Ready:** ${response.summary.ready_for_production ? 'Yes' : 'No'}\n\n`;
+
+    output += "## Summary\n";
+    output += `- Categories evaluated: ${response.summary.categories_evaluated}\n`;
+    output += `- Total checks: ${response.summary.total_checks}\n`;
+    output += `- Passed: ${response.summary.passed}\n`;
+    output += `- Failed: ${response.summary.failed}\n`;
+    output += `- Warnings: ${response.summary.warnings}\n\n`;
+
+    output += "## Category Scores\n\n";
+    for (const [category, scores] of Object.entries(response.category_scores)) {
+      const catEmoji = scores.score >= 80 ? "✅" : scores.score >= 60 ? "🟡" : "❌";
+      output += `- ${catEmoji} **${category.toUpperCase()}:** ${scores.score}/100 (${scores.passed} passed, ${scores.failed} failed)\n`;
     }
-  }
+    output += "\n";
 
-  if (response.recommendations.length > 0) {
-    output += "## Priority Actions\n\n";
-    for (const rec of response.recommendations) {
-      output += `${rec.priority}. **${rec.issue}** (${rec.category})\n`;
-      if (rec.actions) {
-        rec.actions.forEach(a => output += `   - ${a}\n`);
+    if (response.recommendations && response.recommendations.length > 0) {
+      output += "## Recommendations\n\n";
+      for (const rec of response.recommendations) {
+        output += `### P${rec.priority}: ${rec.title}\n`;
+        for (const item of rec.items) {
+          output += `- **${item.check}:** ${item.recommendation}\n`;
+        }
+        output += "\n";
       }
     }
-  }
 
-  return output;
-}
+    return output;
+  },
+  compact(response) {
+    const s = response.summary;
+    return `Data lake: ${response.status} (${response.overall_score}/100) | production ready: ${s.ready_for_production ? "yes" : "no"} | ${s.passed}/${s.total_checks} checks passed, ${s.failed} failed, ${s.warnings} warnings`;
+  },
+};
 
 export async function handleDataLakeReadiness(
   args: Record<string, unknown>,
@@ -596,144 +811,126 @@ export async function handleDataLakeReadiness(
 
   const response = result as DataLakeReadinessResponse;
 
-  const statusEmoji = response.status === "READY" ? "✅" :
-                      response.status === "MOSTLY_READY" ? "🟢" :
-                      response.status === "PARTIALLY_READY" ? "🟡" : "❌";
-
-  let output = `# Data Lake Readiness Assessment\n\n`;
-  output += `**Status:** ${statusEmoji} ${response.status}\n`;
-  output += `**Overall Score:** ${response.overall_score}/100\n`;
-  output += `**Production Ready:** ${response.summary.ready_for_production ? 'Yes' : 'No'}\n\n`;
-
-  output += "## Summary\n";
-  output += `- Categories evaluated: ${response.summary.categories_evaluated}\n`;
-  output += `- Total checks: ${response.summary.total_checks}\n`;
-  output += `- Passed: ${response.summary.passed}\n`;
-  output += `- Failed: ${response.summary.failed}\n`;
-  output += `- Warnings: ${response.summary.warnings}\n\n`;
-
-  output += "## Category Scores\n\n";
-  for (const [category, scores] of Object.entries(response.category_scores)) {
-    const catEmoji = scores.score >= 80 ? "✅" : scores.score >= 60 ? "🟡" : "❌";
-    output += `- ${catEmoji} **${category.toUpperCase()}:** ${scores.score}/100 (${scores.passed} passed, ${scores.failed} failed)\n`;
-  }
-  output += "\n";
-
-  if (response.recommendations.length > 0) {
-    output += "## Recommendations\n\n";
-    for (const rec of response.recommendations) {
-      output += `### P${rec.priority}: ${rec.title}\n`;
-      for (const item of rec.items) {
-        output += `- **${item.check}:** ${item.recommendation}\n`;
-      }
-      output += "\n";
-    }
-  }
-
-  return output;
+  return formatResponse(response, getOutputFormat(args), dataLakeReadinessFormatters);
 }
 
-export async function handleIamPolicyValidate(
-  args: Record<string, unknown>,
-  apiClient: ApiClient
-): Promise<string> {
-  const result = await apiClient.callApi("/validate/iam-policy", "POST", {
-    policy_document: args.policy_document,
-    resource_type: args.resource_type || "general",
-    suggest_improvements: args.suggest_improvements ?? true,
-  });
+const iamPolicyValidateFormatters: ResponseFormatters<IamPolicyResponse> = {
+  markdown(response) {
+    // Build status emoji
+    const statusEmoji = response.status === "PASS" ? "✅" :
+                        response.status === "WARN" ? "⚠️" :
+                        response.status === "FAIL" ? "❌" : "🔍";
+
+    let output = `# IAM Policy Validation Report\n\n`;
+    output += `**Status:** ${statusEmoji} ${response.status}\n`;
+    output += `**Security Score:** ${response.score}/100\n\n`;
+
+    output += "## Summary\n";
+    output += `- Statements analyzed: ${response.summary.statements_analyzed}\n`;
+    output += `- Total findings: ${response.summary.total_findings}\n`;
+    if (response.summary.critical > 0) output += `- 🔴 Critical: ${response.summary.critical}\n`;
+    if (response.summary.high > 0) output += `- 🟠 High: ${response.summary.high}\n`;
+    if (response.summary.medium > 0) output += `- 🟡 Medium: ${response.summary.medium}\n`;
+    if (response.summary.low > 0) output += `- 🟢 Low: ${response.summary.low}\n`;
+    output += "\n";
 
-  const response = result as IamPolicyResponse;
+    // Group findings by severity for display
+    if (response.findings.length > 0) {
+      output += "## Findings\n\n";
+
+      const criticalFindings = response.findings.filter(f => f.severity === "CRITICAL");
+      const highFindings = response.findings.filter(f => f.severity === "HIGH");
+      const mediumFindings = response.findings.filter(f => f.severity === "MEDIUM");
+
+      if (criticalFindings.length > 0) {
+        output += "### 🔴 Critical\n";
+        criticalFindings.forEach(f => {
+          output += `- **[${f.code}]** ${f.message}\n`;
+          if (f.action) output += `  - Action: \`${f.action}\`\n`;
+          if (f.resource) output += `  - Resource: \`${f.resource}\`\n`;
+          output += `  - Fix: ${f.recommendation}\n`;
+        });
+        output += "\n";
+      }
 
-  // Build status emoji
-  const statusEmoji = response.status === "PASS" ? "✅" :
-                      response.status === "WARN" ? "⚠️" :
-                      response.status === "FAIL" ? "❌" : "🔍";
-
-  let output = `# IAM Policy Validation Report\n\n`;
-  output += `**Status:** ${statusEmoji} ${response.status}\n`;
-  output += `**Security Score:** ${response.score}/100\n\n`;
-
-  output += "## Summary\n";
-  output += `- Statements analyzed: ${response.summary.statements_analyzed}\n`;
-  output += `- Total findings: ${response.summary.total_findings}\n`;
-  if (response.summary.critical > 0) output += `- 🔴 Critical: ${response.summary.critical}\n`;
-  if (response.summary.high > 0) output += `- 🟠 High: ${response.summary.high}\n`;
-  if (response.summary.medium > 0) output += `- 🟡 Medium: ${response.summary.medium}\n`;
-  if (response.summary.low > 0) output += `- 🟢 Low: ${response.summary.low}\n`;
-  output += "\n";
-
-  // Group findings by severity for display
-  if (response.findings.length > 0) {
-    output += "## Findings\n\n";
-
-    const criticalFindings = response.findings.filter(f => f.severity === "CRITICAL");
-    const highFindings = response.findings.filter(f => f.severity === "HIGH");
-    const mediumFindings = response.findings.filter(f => f.severity === "MEDIUM");
-
-    if (criticalFindings.length > 0) {
-      output += "### 🔴 Critical\n";
-      criticalFindings.forEach(f => {
-        output += `- **[${f.code}]** ${f.message}\n`;
-        if (f.action) output += `  - Action: \`${f.action}\`\n`;
-        if (f.resource) output += `  - Resource: \`${f.resource}\`\n`;
-        output += `  - Fix: ${f.recommendation}\n`;
-      });
-      output += "\n";
-    }
+      if (highFindings.length > 0) {
+        output += "### 🟠 High\n";
+        highFindings.forEach(f => {
+          output += `- **[${f.code}]** ${f.message}\n`;
+          if (f.action) output += `  - Action: \`${f.action}\`\n`;
+          if (f.resource) output += `  - Resource: \`${f.resource}\`\n`;
+          output += `  - Fix: ${f.recommendation}\n`;
+        });
+        output += "\n";
+      }
 
-    if (highFindings.length > 0) {
-      output += "### 🟠 High\n";
-      highFindings.forEach(f => {
-        output += `- **[${f.code}]** ${f.message}\n`;
-        if (f.action) output += `  - Action: \`${f.action}\`\n`;
-        if (f.resource) output += `  - Resource: \`${f.resource}\`\n`;
-        output += `  - Fix: ${f.recommendation}\n`;
-      });
-      output += "\n";
+      if (mediumFindings.length > 0) {
+        output += "### 🟡 Medium\n";
+        mediumFindings.forEach(f => {
+          output += `- **[${f.code}]** ${f.message}\n`;
+          if (f.action) output += `  - Action: \`${f.action}\`\n`;
+          output += `  - Fix: ${f.recommendation}\n`;
+        });
+        output += "\n";
+      }
     }
 
-    if (mediumFindings.length > 0) {
-      output += "### 🟡 Medium\n";
-      mediumFindings.forEach(f => {
-        output += `- **[${f.code}]** ${f.message}\n`;
-        if (f.action) output += `  - Action: \`${f.action}\`\n`;
-        output += `  - Fix: ${f.recommendation}\n`;
+    // Suggestions
+    if (response.suggestions && response.suggestions.length > 0) {
+      output += "## Recommendations\n\n";
+      response.suggestions.forEach((s, i) => {
+        output += `${i + 1}. **${s.title}**\n`;
+        output += `   ${s.description}\n`;
+        if (s.actions && s.actions.length > 0) {
+          output += `   Actions: ${s.actions.slice(0, 5).map(a => `\`${a}\``).join(", ")}\n`;
+        }
       });
       output += "\n";
     }
-  }
 
-  // Suggestions
-  if (response.suggestions.length > 0) {
-    output += "## Recommendations\n\n";
-    response.suggestions.forEach((s, i) => {
-      output += `${i + 1}. **${s.title}**\n`;
-      output += `   ${s.description}\n`;
-      if (s.actions && s.actions.length > 0) {
-        output += `   Actions: ${s.actions.slice(0, 5).map(a => `\`${a}\``).join(", ")}\n`;
+    // Scoped alternatives
+    if (response.scoped_alternatives && Object.keys(response.scoped_alternatives).length > 0) {
+      output += "## Scoped Alternatives\n\n";
+      output += "Replace wildcard permissions with these scoped alternatives:\n\n";
+
+      for (const [wildcard, alternatives] of Object.entries(response.scoped_alternatives)) {
+        output += `### \`${wildcard}\`\n`;
+        output += `- **Read-only:** ${alternatives.read.slice(0, 4).map(a => `\`${a}\``).join(", ")}\n`;
+        output += `- **Write:** ${alternatives.write.slice(0, 4).map(a => `\`${a}\``).join(", ")}\n`;
+        output += `- **Admin:** ${alternatives.admin.slice(0, 3).map(a => `\`${a}\``).join(", ")}\n`;
+        output += "\n";
       }
-    });
-    output += "\n";
-  }
+    }
 
-  // Scoped alternatives
-  if (response.scoped_alternatives && Object.keys(response.scoped_alternatives).length > 0) {
-    output += "## Scoped Alternatives\n\n";
-    output += "Replace wildcard permissions with these scoped alternatives:\n\n";
+    if (response.metadata) {
+      output += `---\n*Processed in ${response.metadata.processing_time_ms}ms | Policy version: ${response.metadata.policy_version}*\n`;
+    }
 
-    for (const [wildcard, alternatives] of Object.entries(response.scoped_alternatives)) {
-      output += `### \`${wildcard}\`\n`;
-      output += `- **Read-only:** ${alternatives.read.slice(0, 4).map(a => `\`${a}\``).join(", ")}\n`;
-      output += `- **Write:** ${alternatives.write.slice(0, 4).map(a => `\`${a}\``).join(", ")}\n`;
-      output += `- **Admin:** ${alternatives.admin.slice(0, 3).map(a => `\`${a}\``).join(", ")}\n`;
-      output += "\n";
+    return output;
+  },
+  compact(response) {
+    const s = response.summary;
+    let output = `IAM: ${response.status} (${response.score}/100) | ${s.total_findings} finding(s): ${s.critical} critical, ${s.high} high, ${s.medium} medium, ${s.low} low`;
+    for (const f of response.findings.filter((f) => f.severity === "CRITICAL")) {
+      output += `\n- [${f.code}] ${f.message}`;
     }
-  }
+    return output;
+  },
+};
 
-  output += `---\n*Processed in ${response.metadata.processing_time_ms}ms | Policy version: ${response.metadata.policy_version}*\n`;
+export async function handleIamPolicyValidate(
+  args: Record<string, unknown>,
+  apiClient: ApiClient
+): Promise<string> {
+  const result = await apiClient.callApi("/validate/iam-policy", "POST", {
+    policy_document: args.policy_document,
+    resource_type: args.resource_type || "general",
+    suggest_improvements: args.suggest_improvements ?? true,
+  });
 
-  return output;
+  const response = result as IamPolicyResponse;
+
+  return formatResponse(response, getOutputFormat(args), iamPolicyValidateFormatters);
 }
 
 // ============================================================================
@@ -768,9 +965,45 @@ export interface RiskClassificationResponse {
   factors: RiskFactor[];
   recommendation: string;
   auto_approve: boolean;
-  metadata: { processing_time_ms: number; model_version: string };
+  metadata?: { processing_time_ms: number; model_version: string };
 }
 
+const riskClassifyFormatters: ResponseFormatters<RiskClassificationResponse> = {
+  markdown(response) {
+    const riskEmoji = response.risk_level === "LOW" ? "🟢" :
+                      response.risk_level === "MEDIUM" ? "🟡" :
+                      response.risk_level === "HIGH" ? "🟠" : "🔴";
+
+    let output = `# Action Risk Classification\n\n`;
+    output += `**Risk Level:** ${riskEmoji} ${response.risk_level}\n`;
+    output += `**Score:** ${response.score}/100\n`;
+    output += `**Auto-Approve:** ${response.auto_approve ? "Yes" : "No"}\n\n`;
+
+    if (response.factors.length > 0) {
+      output += "## Risk Factors\n\n";
+      output += "| Factor | Value | Weight | Contribution |\n";
+      output += "|--------|-------|--------|--------------|\n";
+      for (const factor of response.factors) {
+        output += `| ${factor.name} | ${factor.value} | ${factor.weight} | ${factor.contribution} |\n`;
+      }
+      output += "\n";
+    }
+
+    output += "## Recommendation\n\n";
+    output += `${response.recommendation}\n`;
+
+    if (response.metadata) {
+      output += `\n---\n*Processed in ${response.metadata.processing_time_ms}ms | Model: ${response.metadata.model_version}*\n`;
+    }
+
+    output += FOOTER_RISK;
+    return output;
+  },
+  compact(response) {
+    return `Risk: ${response.risk_level} (${response.score}/100) | auto-approve: ${response.auto_approve ? "yes" : "no"} | ${response.recommendation}`;
+  },
+};
+
 export async function handleRiskClassify(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -788,32 +1021,7 @@ export async function handleRiskClassify(
 
   const response = result as RiskClassificationResponse;
 
-  const riskEmoji = response.risk_level === "LOW" ? "🟢" :
-                    response.risk_level === "MEDIUM" ? "🟡" :
-                    response.risk_level === "HIGH" ? "🟠" : "🔴";
-
-  let output = `# Action Risk Classification\n\n`;
-  output += `**Risk Level:** ${riskEmoji} ${response.risk_level}\n`;
-  output += `**Score:** ${response.score}/100\n`;
-  output += `**Auto-Approve:** ${response.auto_approve ? "Yes" : "No"}\n\n`;
-
-  if (response.factors.length > 0) {
-    output += "## Risk Factors\n\n";
-    output += "| Factor | Value | Weight | Contribution |\n";
-    output += "|--------|-------|--------|--------------|\n";
-    for (const factor of response.factors) {
-      output += `| ${factor.name} | ${factor.value} | ${factor.weight} | ${factor.contribution} |\n`;
-    }
-    output += "\n";
-  }
-
-  output += "## Recommendation\n\n";
-  output += `${response.recommendation}\n`;
-
-  output += `\n---\n*Processed in ${response.metadata.processing_time_ms}ms | Model: ${response.metadata.model_version}*\n`;
-
-  output += FOOTER_RISK;
-  return output;
+  return formatResponse(response, getOutputFormat(args), riskClassifyFormatters);
 }
 
 // ============================================================================
@@ -825,7 +1033,7 @@ export interface AgentCandidate {
   name: string;
   domain: string;
   similarity_score: number;
-  capabilities: string[];
+  capabilities?: string[];
 }
 
 export interface TaskRoutingResponse {
@@ -833,9 +1041,52 @@ export interface TaskRoutingResponse {
   candidates: AgentCandidate[];
   routing_method: "semantic" | "keyword" | "fallback";
   confidence: number;
-  metadata: { agents_evaluated: number; processing_time_ms: number };
+  metadata?: { agents_evaluated: number; processing_time_ms: number };
 }
 
+const taskRoutingFormatters: ResponseFormatters<TaskRoutingResponse> = {
+  markdown(response) {
+    const confidenceEmoji = response.confidence >= 0.8 ? "🟢" :
+                            response.confidence >= 0.5 ? "🟡" : "🔴";
+
+    let output = `# Task Routing Result\n\n`;
+    output += `**Best Match:** ${response.best_match.name} (${Math.round(response.best_match.similarity_score * 100)}%)\n`;
+    output += `**Agent ID:** \`${response.best_match.agent_id}\`\n`;
+    output += `**Domain:** ${response.best_match.domain}\n`;
+    output += `**Confidence:** ${confidenceEmoji} ${Math.round(response.confidence * 100)}%\n`;
+    output += `**Routing Method:** ${response.routing_method}\n\n`;
+
+    if (response.best_match.capabilities && response.best_match.capabilities.length > 0) {
+      output += "## Best Match Capabilities\n\n";
+      response.best_match.capabilities.forEach(cap => {
+        output += `- ${cap}\n`;
+      });
+      output += "\n";
+    }
+
+    if (response.candidates.length > 1) {
+      output += "## All Candidates\n\n";
+      output += "| Rank | Agent | Domain | Similarity |\n";
+      output += "|------|-------|--------|------------|\n";
+      response.candidates.forEach((candidate, i) => {
+        output += `| ${i + 1} | ${candidate.name} | ${candidate.domain} | ${Math.round(candidate.similarity_score * 100)}% |\n`;
+      });
+      output += "\n";
+    }
+
+    if (response.metadata) {
+      output += `---\n*Evaluated ${response.metadata.agents_evaluated} agents in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_ROUTING;
+    return output;
+  },
+  compact(response) {
+    const best = response.best_match;
+    return `Route to ${best.agent_id} (${best.domain}, ${Math.round(best.similarity_score * 100)}%) | confidence ${Math.round(response.confidence * 100)}% via ${response.routing_method}`;
+  },
+};
+
 export async function handleTaskRouting(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -853,38 +1104,7 @@ export async function handleTaskRouting(
 
   const response = result as TaskRoutingResponse;
 
-  const confidenceEmoji = response.confidence >= 0.8 ? "🟢" :
-                          response.confidence >= 0.5 ? "🟡" : "🔴";
-
-  let output = `# Task Routing Result\n\n`;
-  output += `**Best Match:** ${response.best_match.name} (${Math.round(response.best_match.similarity_score * 100)}%)\n`;
-  output += `**Agent ID:** \`${response.best_match.agent_id}\`\n`;
-  output += `**Domain:** ${response.best_match.domain}\n`;
-  output += `**Confidence:** ${confidenceEmoji} ${Math.round(response.confidence * 100)}%\n`;
-  output += `**Routing Method:** ${response.routing_method}\n\n`;
-
-  if (response.best_match.capabilities.length > 0) {
-    output += "## Best Match Capabilities\n\n";
-    response.best_match.capabilities.forEach(cap => {
-      output += `- ${cap}\n`;
-    });
-    output += "\n";
-  }
-
-  if (response.candidates.length > 1) {
-    output += "## All Candidates\n\n";
-    output += "| Rank | Agent | Domain | Similarity |\n";
-    output += "|------|-------|--------|------------|\n";
-    response.candidates.forEach((candidate, i) => {
-      output += `| ${i + 1} | ${candidate.name} | ${candidate.domain} | ${Math.round(candidate.similarity_score * 100)}% |\n`;
-    });
-    output += "\n";
-  }
-
-  output += `---\n*Evaluated ${response.metadata.agents_evaluated} agents in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_ROUTING;
-  return output;
+  return formatResponse(response, getOutputFormat(args), taskRoutingFormatters);
 }
 
 // ============================================================================
@@ -904,9 +1124,61 @@ export interface SystemPredictionResponse {
   issues: PredictedIssue[];
   health_score: number;
   summary: { total_predictions: number; critical: number; high: number; medium: number; low: number };
-  metadata: { analysis_window_days: number; processing_time_ms: number };
+  metadata?: { analysis_window_days: number; processing_time_ms: number };
 }
 
+const predictIssuesFormatters: ResponseFormatters<SystemPredictionResponse> = {
+  markdown(response) {
+    const healthEmoji = response.health_score >= 80 ? "🟢" :
+                        response.health_score >= 60 ? "🟡" :
+                        response.health_score >= 40 ? "🟠" : "🔴";
+
+    let output = `# System Issue Predictions\n\n`;
+    output += `**Health Score:** ${healthEmoji} ${response.health_score}/100\n`;
+    if (response.metadata) {
+      output += `**Analysis Window:** ${response.metadata.analysis_window_days} days\n`;
+    }
+    output += `**Total Predictions:** ${response.summary.total_predictions}\n\n`;
+
+    output += "## Summary\n";
+    if (response.summary.critical > 0) output += `- 🔴 Critical: ${response.summary.critical}\n`;
+    if (response.summary.high > 0) output += `- 🟠 High: ${response.summary.high}\n`;
+    if (response.summary.medium > 0) output += `- 🟡 Medium: ${response.summary.medium}\n`;
+    if (response.summary.low > 0) output += `- 🟢 Low: ${response.summary.low}\n`;
+    output += "\n";
+
+    if (response.issues.length > 0) {
+      output += "## Predicted Issues\n\n";
+      for (const issue of response.issues) {
+        const sevEmoji = issue.severity === "CRITICAL" ? "🔴" :
+                         issue.severity === "HIGH" ? "🟠" :
+                         issue.severity === "MEDIUM" ? "🟡" : "🟢";
+        output += `### ${sevEmoji} ${issue.category}\n`;
+        output += `- **Severity:** ${issue.severity}\n`;
+        output += `- **Description:** ${issue.description}\n`;
+        output += `- **Predicted Date:** ${issue.predicted_date}\n`;
+        output += `- **Confidence:** ${Math.round(issue.confidence * 100)}%\n`;
+        output += `- **Recommended Action:** ${issue.recommended_action}\n\n`;
+      }
+    }
+
+    if (response.metadata) {
+      output += `---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_PREDICT;
+    return output;
+  },
+  compact(response) {
+    const s = response.summary;
+    let output = `Health: ${response.health_score}/100 | ${s.total_predictions} prediction(s): ${s.critical} critical, ${s.high} high, ${s.medium} medium, ${s.low} low`;
+    for (const issue of response.issues.filter((i) => i.severity === "CRITICAL" || i.severity === "HIGH")) {
+      output += `\n- ${issue.severity} ${issue.category} by ${issue.predicted_date}: ${issue.recommended_action}`;
+    }
+    return output;
+  },
+};
+
 export async function handlePredictIssues(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -918,41 +1190,7 @@ export async function handlePredictIssues(
 
   const response = result as SystemPredictionResponse;
 
-  const healthEmoji = response.health_score >= 80 ? "🟢" :
-                      response.health_score >= 60 ? "🟡" :
-                      response.health_score >= 40 ? "🟠" : "🔴";
-
-  let output = `# System Issue Predictions\n\n`;
-  output += `**Health Score:** ${healthEmoji} ${response.health_score}/100\n`;
-  output += `**Analysis Window:** ${response.metadata.analysis_window_days} days\n`;
-  output += `**Total Predictions:** ${response.summary.total_predictions}\n\n`;
-
-  output += "## Summary\n";
-  if (response.summary.critical > 0) output += `- 🔴 Critical: ${response.summary.critical}\n`;
-  if (response.summary.high > 0) output += `- 🟠 High: ${response.summary.high}\n`;
-  if (response.summary.medium > 0) output += `- 🟡 Medium: ${response.summary.medium}\n`;
-  if (response.summary.low > 0) output += `- 🟢 Low: ${response.summary.low}\n`;
-  output += "\n";
-
-  if (response.issues.length > 0) {
-    output += "## Predicted Issues\n\n";
-    for (const issue of response.issues) {
-      const sevEmoji = issue.severity === "CRITICAL" ? "🔴" :
-                       issue.severity === "HIGH" ? "🟠" :
-                       issue.severity === "MEDIUM" ? "🟡" : "🟢";
-      output += `### ${sevEmoji} ${issue.category}\n`;
-      output += `- **Severity:** ${issue.severity}\n`;
-      output += `- **Description:** ${issue.description}\n`;
-      output += `- **Predicted Date:** ${issue.predicted_date}\n`;
-      output += `- **Confidence:** ${Math.round(issue.confidence * 100)}%\n`;
-      output += `- **Recommended Action:** ${issue.recommended_action}\n\n`;
-    }
-  }
-
-  output += `---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_PREDICT;
-  return output;
+  return formatResponse(response, getOutputFormat(args), predictIssuesFormatters);
 }
 
 // ============================================================================
@@ -973,9 +1211,52 @@ export interface RecoveryResponse {
   confidence: number;
   recovery_steps: RecoveryStep[];
   historical_success_rate: number;
-  metadata: { patterns_checked: number; processing_time_ms: number };
+  metadata?: { patterns_checked: number; processing_time_ms: number };
 }
 
+const autoRecoveryFormatters: ResponseFormatters<RecoveryResponse> = {
+  markdown(response) {
+    const matchEmoji = response.matched ? "✅" : "❌";
+    const confidenceEmoji = response.confidence >= 0.8 ? "🟢" :
+                            response.confidence >= 0.5 ? "🟡" : "🔴";
+
+    let output = `# Auto-Recovery Analysis\n\n`;
+    output += `**Match:** ${matchEmoji} ${response.matched ? "Pattern Found" : "No Match"}\n`;
+    output += `**Error Type:** ${response.error_type}\n`;
+    output += `**Confidence:** ${confidenceEmoji} ${Math.round(response.confidence * 100)}%\n`;
+    output += `**Historical Success Rate:** ${Math.round(response.historical_success_rate * 100)}%\n`;
+    if (response.pattern_id) {
+      output += `**Pattern ID:** \`${response.pattern_id}\`\n`;
+    }
+    output += "\n";
+
+    if (response.recovery_steps.length > 0) {
+      output += "## Recovery Steps\n\n";
+      for (const step of response.recovery_steps) {
+        output += `### Step ${step.step}: ${step.action}\n`;
+        if (step.command) {
+          output += `\`\`\`bash\n${step.command}\n\`\`\`\n`;
+        }
+        output += `**Expected Outcome:** ${step.expected_outcome}\n\n`;
+      }
+    }
+
+    if (response.metadata) {
+      output += `---\n*Checked ${response.metadata.patterns_checked} patterns in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_RECOVERY;
+    return output;
+  },
+  compact(response) {
+    let output = `Recovery: ${response.matched ? `matched ${response.pattern_id ?? response.error_type}` : "no match"} | confidence ${Math.round(response.confidence * 100)}%, success rate ${Math.round(response.historical_success_rate * 100)}%`;
+    for (const step of response.recovery_steps) {
+      output += `\n${step.step}. ${step.command ?? step.action}`;
+    }
+    return output;
+  },
+};
+
 export async function handleAutoRecovery(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -994,35 +1275,7 @@ export async function handleAutoRecovery(
 
   const response = result as RecoveryResponse;
 
-  const matchEmoji = response.matched ? "✅" : "❌";
-  const confidenceEmoji = response.confidence >= 0.8 ? "🟢" :
-                          response.confidence >= 0.5 ? "🟡" : "🔴";
-
-  let output = `# Auto-Recovery Analysis\n\n`;
-  output += `**Match:** ${matchEmoji} ${response.matched ? "Pattern Found" : "No Match"}\n`;
-  output += `**Error Type:** ${response.error_type}\n`;
-  output += `**Confidence:** ${confidenceEmoji} ${Math.round(response.confidence * 100)}%\n`;
-  output += `**Historical Success Rate:** ${Math.round(response.historical_success_rate * 100)}%\n`;
-  if (response.pattern_id) {
-    output += `**Pattern ID:** \`${response.pattern_id}\`\n`;
-  }
-  output += "\n";
-
-  if (response.recovery_steps.length > 0) {
-    output += "## Recovery Steps\n\n";
-    for (const step of response.recovery_steps) {
-      output += `### Step ${step.step}: ${step.action}\n`;
-      if (step.command) {
-        output += `\`\`\`bash\n${step.command}\n\`\`\`\n`;
-      }
-      output += `**Expected Outcome:** ${step.expected_outcome}\n\n`;
-    }
-  }
-
-  output += `---\n*Checked ${response.metadata.patterns_checked} patterns in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_RECOVERY;
-  return output;
+  return formatResponse(response, getOutputFormat(args), autoRecoveryFormatters);
 }
 
 // ============================================================================
@@ -1035,9 +1288,40 @@ export interface ResilienceResult {
   total_latency_ms: number;
   circuit_breaker_state: "closed" | "open" | "half-open";
   last_error: string | null;
-  metadata: { retry_config: { max_retries: number; base_delay_ms: number; max_delay_ms: number } };
+  metadata?: { retry_config: { max_retries: number; base_delay_ms: number; max_delay_ms: number } };
 }
 
+const resilienceExecuteFormatters: ResponseFormatters<ResilienceResult> = {
+  markdown(response) {
+    const statusEmoji = response.success ? "✅" : "❌";
+    const cbEmoji = response.circuit_breaker_state === "closed" ? "🟢" :
+                    response.circuit_breaker_state === "half-open" ? "🟡" : "🔴";
+
+    let output = `# Resilience Execution Report\n\n`;
+    output += `**Status:** ${statusEmoji} ${response.success ? "SUCCESS" : "FAILED"}\n`;
+    output += `**Attempts:** ${response.attempts}\n`;
+    output += `**Total Latency:** ${response.total_latency_ms}ms\n`;
+    output += `**Circuit Breaker:** ${cbEmoji} ${response.circuit_breaker_state}\n`;
+    if (response.last_error) {
+      output += `**Last Error:** ${response.last_error}\n`;
+    }
+    output += "\n";
+
+    if (response.metadata) {
+      output += "## Retry Configuration\n\n";
+      output += `- Max retries: ${response.metadata.retry_config.max_retries}\n`;
+      output += `- Base delay: ${response.metadata.retry_config.base_delay_ms}ms\n`;
+      output += `- Max delay: ${response.metadata.retry_config.max_delay_ms}ms\n`;
+    }
+
+    output += FOOTER_RESILIENCE;
+    return output;
+  },
+  compact(response) {
+    return `Resilience: ${response.success ? "SUCCESS" : "FAILED"} after ${response.attempts} attempt(s), ${response.total_latency_ms}ms | circuit ${response.circuit_breaker_state}${response.last_error ? ` | last error: ${response.last_error}` : ""}`;
+  },
+};
+
 export async function handleResilienceExecute(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -1056,27 +1340,7 @@ export async function handleResilienceExecute(
 
   const response = result as ResilienceResult;
 
-  const statusEmoji = response.success ? "✅" : "❌";
-  const cbEmoji = response.circuit_breaker_state === "closed" ? "🟢" :
-                  response.circuit_breaker_state === "half-open" ? "🟡" : "🔴";
-
-  let output = `# Resilience Execution Report\n\n`;
-  output += `**Status:** ${statusEmoji} ${response.success ? "SUCCESS" : "FAILED"}\n`;
-  output += `**Attempts:** ${response.attempts}\n`;
-  output += `**Total Latency:** ${response.total_latency_ms}ms\n`;
-  output += `**Circuit Breaker:** ${cbEmoji} ${response.circuit_breaker_state}\n`;
-  if (response.last_error) {
-    output += `**Last Error:** ${response.last_error}\n`;
-  }
-  output += "\n";
-
-  output += "## Retry Configuration\n\n";
-  output += `- Max retries: ${response.metadata.retry_config.max_retries}\n`;
-  output += `- Base delay: ${response.metadata.retry_config.base_delay_ms}ms\n`;
-  output += `- Max delay: ${response.metadata.retry_config.max_delay_ms}ms\n`;
-
-  output += FOOTER_RESILIENCE;
-  return output;
+  return formatResponse(response, getOutputFormat(args), resilienceExecuteFormatters);
 }
 
 // ============================================================================
@@ -1098,9 +1362,51 @@ export interface AgentMemoryResponse {
   entries: MemoryEntry[];
   total_entries: number;
   namespace: string;
-  metadata: { storage_used_bytes: number; processing_time_ms: number };
+  metadata?: { storage_used_bytes: number; processing_time_ms: number };
 }
 
+const agentMemoryFormatters: ResponseFormatters<AgentMemoryResponse> = {
+  markdown(response) {
+    const statusEmoji = response.success ? "✅" : "❌";
+    const opEmoji = response.operation === "store" ? "💾" :
+                    response.operation === "retrieve" ? "📖" :
+                    response.operation === "search" ? "🔍" : "🗑️";
+
+    let output = `# Agent Memory Operation\n\n`;
+    output += `**Operation:** ${opEmoji} ${response.operation}\n`;
+    output += `**Status:** ${statusEmoji} ${response.success ? "Success" : "Failed"}\n`;
+    output += `**Namespace:** ${response.namespace}\n`;
+    output += `**Total Entries:** ${response.total_entries}\n`;
+    if (response.metadata) {
+      output += `**Storage Used:** ${response.metadata.storage_used_bytes} bytes\n`;
+    }
+    output += "\n";
+
+    if (response.entries.length > 0) {
+      output += "## Entries\n\n";
+      for (const entry of response.entries) {
+        output += `### \`${entry.key}\`\n`;
+        output += `- **Namespace:** ${entry.namespace}\n`;
+        output += `- **Created:** ${entry.created_at}\n`;
+        output += `- **Updated:** ${entry.updated_at}\n`;
+        if (entry.ttl) output += `- **TTL:** ${entry.ttl}s\n`;
+        output += `- **Value:**\n\`\`\`json\n${JSON.stringify(entry.value, null, 2)}\n\`\`\`\n\n`;
+      }
+    }
+
+    if (response.metadata) {
+      output += `---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_MEMORY;
+    return output;
+  },
+  compact(response) {
+    const keys = response.entries.map((e) => e.key).join(", ");
+    return `Memory ${response.operation}: ${response.success ? "ok" : "failed"} | namespace ${response.namespace}, ${response.total_entries} entries${keys ? ` | keys: ${keys}` : ""}`;
+  },
+};
+
 export async function handleAgentMemory(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -1124,34 +1430,7 @@ export async function handleAgentMemory(
 
   const response = result as AgentMemoryResponse;
 
-  const statusEmoji = response.success ? "✅" : "❌";
-  const opEmoji = response.operation === "store" ? "💾" :
-                  response.operation === "retrieve" ? "📖" :
-                  response.operation === "search" ? "🔍" : "🗑️";
-
-  let output = `# Agent Memory Operation\n\n`;
-  output += `**Operation:** ${opEmoji} ${response.operation}\n`;
-  output += `**Status:** ${statusEmoji} ${response.success ? "Success" : "Failed"}\n`;
-  output += `**Namespace:** ${response.namespace}\n`;
-  output += `**Total Entries:** ${response.total_entries}\n`;
-  output += `**Storage Used:** ${response.metadata.storage_used_bytes} bytes\n\n`;
-
-  if (response.entries.length > 0) {
-    output += "## Entries\n\n";
-    for (const entry of response.entries) {
-      output += `### \`${entry.key}\`\n`;
-      output += `- **Namespace:** ${entry.namespace}\n`;
-      output += `- **Created:** ${entry.created_at}\n`;
-      output += `- **Updated:** ${entry.updated_at}\n`;
-      if (entry.ttl) output += `- **TTL:** ${entry.ttl}s\n`;
-      output += `- **Value:**\n\`\`\`json\n${JSON.stringify(entry.value, null, 2)}\n\`\`\`\n\n`;
-    }
-  }
-
-  output += `---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_MEMORY;
-  return output;
+  return formatResponse(response, getOutputFormat(args), agentMemoryFormatters);
 }
 
 // ============================================================================
@@ -1164,9 +1443,42 @@ export interface TaskSubmissionResponse {
   status: "queued" | "rejected";
   queue_position: number;
   estimated_wait_ms: number;
-  metadata: { queue_depth: number; processing_time_ms: number };
+  metadata?: { queue_depth: number; processing_time_ms: number };
 }
 
+const agentTaskFormatters: ResponseFormatters<TaskSubmissionResponse> = {
+  markdown(response) {
+    const statusEmoji = response.status === "queued" ? "✅" : "❌";
+
+    let output = `# Agent Task Submission\n\n`;
+    output += `**Task ID:** \`${response.task_id}\`\n`;
+    output += `**Agent ID:** \`${response.agent_id}\`\n`;
+    output += `**Status:** ${statusEmoji} ${response.status.toUpperCase()}\n`;
+    output += `**Queue Position:** ${response.queue_position}\n`;
+    output += `**Estimated Wait:** ${response.estimated_wait_ms}ms\n`;
+    if (response.metadata) {
+      output += `**Queue Depth:** ${response.metadata.queue_depth}\n`;
+    }
+    output += "\n";
+
+    if (response.status === "queued") {
+      output += "> Task has been queued for execution. Use the task ID to check status.\n";
+    } else {
+      output += "> Task was rejected. Check agent availability and try again.\n";
+    }
+
+    if (response.metadata) {
+      output += `\n---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_TASK;
+    return output;
+  },
+  compact(response) {
+    return `Task ${response.task_id} -> ${response.agent_id}: ${response.status.toUpperCase()} | position ${response.queue_position}, est. wait ${response.estimated_wait_ms}ms`;
+  },
+};
+
 export async function handleAgentTask(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -1188,26 +1500,7 @@ export async function handleAgentTask(
 
   const response = result as TaskSubmissionResponse;
 
-  const statusEmoji = response.status === "queued" ? "✅" : "❌";
-
-  let output = `# Agent Task Submission\n\n`;
-  output += `**Task ID:** \`${response.task_id}\`\n`;
-  output += `**Agent ID:** \`${response.agent_id}\`\n`;
-  output += `**Status:** ${statusEmoji} ${response.status.toUpperCase()}\n`;
-  output += `**Queue Position:** ${response.queue_position}\n`;
-  output += `**Estimated Wait:** ${response.estimated_wait_ms}ms\n`;
-  output += `**Queue Depth:** ${response.metadata.queue_depth}\n\n`;
-
-  if (response.status === "queued") {
-    output += "> Task has been queued for execution. Use the task ID to check status.\n";
-  } else {
-    output += "> Task was rejected. Check agent availability and try again.\n";
-  }
-
-  output += `\n---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_TASK;
-  return output;
+  return formatResponse(response, getOutputFormat(args), agentTaskFormatters);
 }
 
 // ============================================================================
@@ -1220,9 +1513,34 @@ export interface TraceContextResponse {
   span_id: string;
   version: string;
   created_at: string;
-  metadata: { format: string };
+  metadata?: { format: string };
 }
 
+const traceContextFormatters: ResponseFormatters<TraceContextResponse> = {
+  markdown(response) {
+    let output = `# Trace Context Created\n\n`;
+    output += `**Traceparent:** \`${response.traceparent}\`\n`;
+    output += `**Trace ID:** \`${response.trace_id}\`\n`;
+    output += `**Span ID:** \`${response.span_id}\`\n`;
+    output += `**Version:** ${response.version}\n`;
+    output += `**Created At:** ${response.created_at}\n`;
+    if (response.metadata) {
+      output += `**Format:** ${response.metadata.format}\n`;
+    }
+    output += "\n";
+
+    output += "## Usage\n\n";
+    output += "Pass the `traceparent` header in downstream requests for distributed tracing:\n\n";
+    output += "```\ntraceparent: " + response.traceparent + "\n```\n";
+
+    output += FOOTER_TRACE;
+    return output;
+  },
+  compact(response) {
+    return `traceparent: ${response.traceparent}`;
+  },
+};
+
 export async function handleTraceContext(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -1234,20 +1552,7 @@ export async function handleTraceContext(
 
   const response = result as TraceContextResponse;
 
-  let output = `# Trace Context Created\n\n`;
-  output += `**Traceparent:** \`${response.traceparent}\`\n`;
-  output += `**Trace ID:** \`${response.trace_id}\`\n`;
-  output += `**Span ID:** \`${response.span_id}\`\n`;
-  output += `**Version:** ${response.version}\n`;
-  output += `**Created At:** ${response.created_at}\n`;
-  output += `**Format:** ${response.metadata.format}\n\n`;
-
-  output += "## Usage\n\n";
-  output += "Pass the `traceparent` header in downstream requests for distributed tracing:\n\n";
-  output += "```\ntraceparent: " + response.traceparent + "\n```\n";
-
-  output += FOOTER_TRACE;
-  return output;
+  return formatResponse(response, getOutputFormat(args), traceContextFormatters);
 }
 
 // ============================================================================
@@ -1260,9 +1565,46 @@ export interface FileLockResponse {
   file_path: string;
   holder?: string;
   stale_cleaned: boolean;
-  metadata: { wait_time_ms: number; processing_time_ms: number };
+  metadata?: { wait_time_ms: number; processing_time_ms: number };
 }
 
+const fileLockFormatters: ResponseFormatters<FileLockResponse> = {
+  markdown(response) {
+    const statusEmoji = response.acquired ? "🔒" : "🚫";
+
+    let output = `# File Lock Operation\n\n`;
+    output += `**Status:** ${statusEmoji} ${response.acquired ? "ACQUIRED" : "BLOCKED"}\n`;
+    output += `**File:** \`${response.file_path}\`\n`;
+    if (response.lock_token) {
+      output += `**Lock Token:** \`${response.lock_token}\`\n`;
+    }
+    if (response.holder) {
+      output += `**Current Holder:** ${response.holder}\n`;
+    }
+    output += `**Stale Locks Cleaned:** ${response.stale_cleaned ? "Yes" : "No"}\n`;
+    if (response.metadata) {
+      output += `**Wait Time:** ${response.metadata.wait_time_ms}ms\n`;
+    }
+    output += "\n";
+
+    if (response.acquired) {
+      output += "> Lock acquired successfully. Remember to release the lock when done using the lock token.\n";
+    } else {
+      output += "> Lock could not be acquired. The file is currently locked by another process.\n";
+    }
+
+    if (response.metadata) {
+      output += `\n---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_LOCK;
+    return output;
+  },
+  compact(response) {
+    return `Lock ${response.file_path}: ${response.acquired ? "ACQUIRED" : "BLOCKED"}${response.lock_token ? ` | token ${response.lock_token}` : ""}${response.holder ? ` | held by ${response.holder}` : ""}`;
+  },
+};
+
 export async function handleFileLock(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -1281,30 +1623,7 @@ export async function handleFileLock(
 
   const response = result as FileLockResponse;
 
-  const statusEmoji = response.acquired ? "🔒" : "🚫";
-
-  let output = `# File Lock Operation\n\n`;
-  output += `**Status:** ${statusEmoji} ${response.acquired ? "ACQUIRED" : "BLOCKED"}\n`;
-  output += `**File:** \`${response.file_path}\`\n`;
-  if (response.lock_token) {
-    output += `**Lock Token:** \`${response.lock_token}\`\n`;
-  }
-  if (response.holder) {
-    output += `**Current Holder:** ${response.holder}\n`;
-  }
-  output += `**Stale Locks Cleaned:** ${response.stale_cleaned ? "Yes" : "No"}\n`;
-  output += `**Wait Time:** ${response.metadata.wait_time_ms}ms\n\n`;
-
-  if (response.acquired) {
-    output += "> Lock acquired successfully. Remember to release the lock when done using the lock token.\n";
-  } else {
-    output += "> Lock could not be acquired. The file is currently locked by another process.\n";
-  }
-
-  output += `\n---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_LOCK;
-  return output;
+  return formatResponse(response, getOutputFormat(args), fileLockFormatters);
 }
 
 // ============================================================================
@@ -1322,10 +1641,55 @@ export interface CliReadinessResponse {
   ready: boolean;
   checks: CliCheckResult[];
   degradation_mode: string | null;
-  recommendations: string[];
-  metadata: { total_checks: number; processing_time_ms: number };
+  recommendations?: string[];
+  metadata?: { total_checks: number; processing_time_ms: number };
 }
 
+const cliReadinessFormatters: ResponseFormatters<CliReadinessResponse> = {
+  markdown(response) {
+    const statusEmoji = response.ready ? "✅" : "❌";
+
+    let output = `# CLI Readiness Validation\n\n`;
+    output += `**Status:** ${statusEmoji} ${response.ready ? "READY" : "NOT READY"}\n`;
+    output += `**Total Checks:** ${response.metadata?.total_checks ?? response.checks.length}\n`;
+    if (response.degradation_mode) {
+      output += `**Degradation Mode:** ⚠️ ${response.degradation_mode}\n`;
+    }
+    output += "\n";
+
+    if (response.checks.length > 0) {
+      output += "## Check Results\n\n";
+      output += "| Check | Status | Message | Version |\n";
+      output += "|-------|--------|---------|----------|\n";
+      for (const check of response.checks) {
+        const checkEmoji = check.status === "pass" ? "✅" :
+                           check.status === "warn" ? "⚠️" : "❌";
+        output += `| ${check.name} | ${checkEmoji} ${check.status.toUpperCase()} | ${check.message} | ${check.version || "-"} |\n`;
+      }
+      output += "\n";
+    }
+
+    if (response.recommendations && response.recommendations.length > 0) {
+      output += "## Recommendations\n\n";
+      response.recommendations.forEach((rec, i) => {
+        output += `${i + 1}. ${rec}\n`;
+      });
+      output += "\n";
+    }
+
+    if (response.metadata) {
+      output += `---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
+    }
+
+    output += FOOTER_CLI;
+    return output;
+  },
+  compact(response) {
+    const failing = response.checks.filter((c) => c.status !== "pass").map((c) => `${c.name}=${c.status}`);
+    return `CLI: ${response.ready ? "READY" : "NOT READY"} | ${response.checks.length - failing.length}/${response.checks.length} checks passed${failing.length > 0 ? ` (${failing.join(", ")})` : ""}${response.degradation_mode ? ` | degradation: ${response.degradation_mode}` : ""}`;
+  },
+};
+
 export async function handleCliReadiness(
   args: Record<string, unknown>,
   apiClient: ApiClient
@@ -1337,38 +1701,5 @@ export async function handleCliReadiness(
 
   const response = result as CliReadinessResponse;
 
-  const statusEmoji = response.ready ? "✅" : "❌";
-
-  let output = `# CLI Readiness Validation\n\n`;
-  output += `**Status:** ${statusEmoji} ${response.ready ? "READY" : "NOT READY"}\n`;
-  output += `**Total Checks:** ${response.metadata.total_checks}\n`;
-  if (response.degradation_mode) {
-    output += `**Degradation Mode:** ⚠️ ${response.degradation_mode}\n`;
-  }
-  output += "\n";
-
-  if (response.checks.length > 0) {
-    output += "## Check Results\n\n";
-    output += "| Check | Status | Message | Version |\n";
-    output += "|-------|--------|---------|----------|\n";
-    for (const check of response.checks) {
-      const checkEmoji = check.status === "pass" ? "✅" :
-                         check.status === "warn" ? "⚠️" : "❌";
-      output += `| ${check.name} | ${checkEmoji} ${check.status.toUpperCase()} | ${check.message} | ${check.version || "-"} |\n`;
-    }
-    output += "\n";
-  }
-
-  if (response.recommendations.length > 0) {
-    output += "## Recommendations\n\n";
-    response.recommendations.forEach((rec, i) => {
-      output += `${i + 1}. ${rec}\n`;
-    });
-    output += "\n";
-  }
-
-  output += `---\n*Processed in ${response.metadata.processing_time_ms}ms*\n`;
-
-  output += FOOTER_CLI;
-  return output;
+  return formatResponse(response, getOutputFormat(args), cliReadinessFormatters);
 }
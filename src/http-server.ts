@@ -13,11 +13,78 @@
  *   GET    /sse       Legacy SSE transport connection
  *   POST   /messages  Legacy SSE message submission
  *   GET    /health    Health check
+ *   GET    /metrics   Prometheus metrics (per-tool calls, errors, latency; upstream latency; sessions; cache)
+ *   GET    /tenant/usage  Calling tenant's usage (multi-tenant mode)
+ *   GET    /.well-known/oauth-protected-resource[/mcp]  OAuth resource metadata (when enabled)
+ *
+ * In multi-tenant mode (S2T_TENANCY=multi) each session brings its own API
+ * key via the X-S2T-API-Key header or initialize `_meta["s2t/apiKey"]`; see
+ * tenancy.ts.
+ *
+ * When S2T_OAUTH_ISSUER is set, /mcp, /sse and /messages require an OAuth
+ * 2.1 bearer token from that issuer, scoped for the tools being called; see
+ * auth.ts. A session only accepts tokens for the client and subject that
+ * opened it.
+ *
+ * A session can advertise fewer tools by opening with
+ * `?toolsets=governance,platform` or `?disabled_toolsets=local` on
+ * POST /mcp (or GET /sse); see toolsets.ts.
+ *
+ * Streamable HTTP streams are resumable: a client whose connection drops
+ * reconnects with GET /mcp and Last-Event-ID to receive the events it
+ * missed; see event-store.ts.
+ *
+ * Usage: s2t-mcp-accelerators-http [--config <file>] [--profile <name>]
+ *
+ * Settings may also come from a config file with named profiles; variables
+ * set in the environment take precedence. See config.ts.
  *
  * Environment variables:
- *   S2T_API_KEY   (required)  API key for the S2T Accelerator Platform
- *   S2T_API_URL   (optional)  Override API base URL
- *   PORT          (optional)  HTTP listen port (default: 3001)
+ *   S2T_API_KEY                  (required)  API key for the S2T Accelerator Platform (single-tenant mode)
+ *   S2T_API_URL                  (optional)  Override API base URL
+ *   S2T_API_TIMEOUT_MS           (optional)  Per-request timeout (default: 30000)
+ *   S2T_API_ENDPOINT_TIMEOUTS    (optional)  Per-endpoint overrides, e.g. "/embed=60000"
+ *   S2T_API_MAX_RETRIES          (optional)  Retries for transient failures (default: 2)
+ *   S2T_CASSETTE                 (optional)  Record/replay API traffic to this cassette file
+ *   S2T_CASSETTE_MODE            (optional)  record | replay | auto (default: auto)
+ *   S2T_CACHE                    (optional)  Response cache: memory | sqlite | off (default: memory)
+ *   S2T_CACHE_PATH               (optional)  SQLite cache file (default: s2t-cache.db)
+ *   S2T_CACHE_MAX_ENTRIES        (optional)  Cache capacity (default: 1000)
+ *   S2T_CACHE_TTL_MS             (optional)  Default cache TTL (default: 300000)
+ *   S2T_CACHE_TTLS               (optional)  Per-tool TTLs, e.g. "s2t_catalog=3600000,aci_recall_precedent=0"
+ *   S2T_TENANCY                  (optional)  single | multi (default: single)
+ *   S2T_OAUTH_ISSUER             (optional)  Require bearer tokens from this issuer
+ *   S2T_OAUTH_RESOURCE           (optional)  Public /mcp URL (token audience; required with issuer)
+ *   S2T_OAUTH_JWKS_URI           (optional)  JWKS URL (default: <issuer>/.well-known/jwks.json)
+ *   S2T_OAUTH_JWKS_FILE          (optional)  Local JWKS file for offline validation
+ *   S2T_OAUTH_TOOL_SCOPES        (optional)  Per-tool scope overrides, e.g. "s2t_embed=s2t:write"
+ *   S2T_SESSION_IDLE_TTL_MS      (optional)  Close sessions idle this long (default: 1800000; 0 = never)
+ *   S2T_SESSION_MAX_LIFETIME_MS  (optional)  Close sessions older than this (default: 86400000; 0 = never)
+ *   S2T_MAX_SESSIONS             (optional)  Global session cap, LRU-evicted (default: 1000; 0 = none)
+ *   S2T_MAX_SESSIONS_PER_KEY     (optional)  Per-tenant/client session cap (default: 50; 0 = none)
+ *   S2T_SESSION_SWEEP_MS         (optional)  Idle/lifetime sweep interval (default: 60000)
+ *   S2T_EVENT_STORE              (optional)  Resumable stream events: memory | sqlite | off (default: memory)
+ *   S2T_EVENT_STORE_PATH         (optional)  SQLite event file (default: s2t-events.db)
+ *   S2T_EVENT_MAX_AGE_MS         (optional)  Event retention window (default: 600000)
+ *   S2T_EVENT_MAX_PER_STREAM     (optional)  Events kept per stream (default: 1000)
+ *   S2T_EVENT_MAX_EVENTS         (optional)  Events kept overall (default: 100000)
+ *   OTEL_EXPORTER_OTLP_ENDPOINT  (optional)  Export trace spans to this OTLP/HTTP collector
+ *   S2T_TRACE_FILE               (optional)  Append trace spans to this OTLP/JSON file instead
+ *   S2T_AUDIT_LOG                (optional)  Append a redacted audit record per tool call to this file (or "stderr")
+ *   S2T_AUDIT_ARGS               (optional)  digest (default) | redacted: also record the redacted arguments
+ *   S2T_AUDIT_REDACT             (optional)  Extra redacted fields, e.g. "customer_name,s2t_manage_agent_memory:value"
+ *   S2T_CONFIG                   (optional)  Config file (default: s2t.config.yaml/.yml/.json if present)
+ *   S2T_PROFILE                  (optional)  Config profile to apply (same as --profile)
+ *   S2T_TOOLS_ALLOW              (optional)  Serve only these tools, e.g. "aci_*,s2t_catalog"
+ *   S2T_TOOLS_DENY               (optional)  Never serve these tools
+ *   S2T_TOOLSETS                 (optional)  Serve only these toolsets, e.g. "governance,platform" (see toolsets.ts)
+ *   S2T_TOOLSETS_DISABLED        (optional)  Never serve these toolsets
+ *   S2T_TIER_TOOLS               (optional)  hide | annotate | off: tools outside your tier (default: annotate)
+ *   S2T_TIER_REFRESH_MS          (optional)  Re-check the catalog this often (default: 300000, 0 = session start only)
+ *   S2T_PROMPT_FILES             (optional)  Team prompt files or directories, comma-separated (see prompt-files.ts)
+ *   S2T_LOG_LEVEL                (optional)  debug | info | warn | error (default: info)
+ *   S2T_CORS_ORIGINS             (optional)  Allowed browser origins, comma-separated (default: any)
+ *   PORT                         (optional)  HTTP listen port (default: 3001)
  *
  * @module http-server
  * @version 1.3.0
@@ -25,62 +92,150 @@
 
 import express, { Request, Response } from "express";
 import { randomUUID } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
 import {
-  createApiClient,
+  buildPromptRegistry,
   createMcpServer,
+  PROMPT_TEMPLATES,
   SERVER_NAME,
   SERVER_VERSION,
+  TOOLS,
+  TOOL_REGISTRY,
+  type McpServerOptions,
 } from "./server-setup.js";
+import { resolveResource } from "./resources.js";
+import { apiClientOptionsFromEnv, createApiClient, type ApiClientOptions } from "./api-client.js";
+import type { ApiClient } from "./handlers.js";
+import { cassetteFromEnv } from "./cassette.js";
+import { responseCacheFromEnv } from "./response-cache.js";
+import {
+  apiKeyFromRequest,
+  createTenantRegistry,
+  tenancyModeFromEnv,
+  tenantIdForKey,
+  type TenancyMode,
+} from "./tenancy.js";
+import {
+  createJwtVerifier,
+  createScopePolicy,
+  oauthConfigFromEnv,
+  protectedResourceMetadataHandler,
+  protectedResourceMetadataPath,
+  protectedResourceMetadataUrl,
+  requireToolScopes,
+  type OAuthConfig,
+} from "./auth.js";
+import { createSessionManager, sessionLimitsFromEnv, type SessionLimits } from "./session-manager.js";
+import { eventStoreFromEnv, type ResumableEventStore } from "./event-store.js";
+import { createMetrics, METRICS_CONTENT_TYPE } from "./metrics.js";
+import { tracerFromEnv } from "./tracing.js";
+import { auditLogFromEnv } from "./audit.js";
+import { parseToolsetList, toolsetFilter } from "./toolsets.js";
+import { createTierWatcherPool, tierAccessFromEnv } from "./tier-access.js";
+import { promptFilesFromEnv } from "./prompt-files.js";
+import { createConsoleLogger, errorMessage, toLoggingLevel, type Logger } from "./logger.js";
+import { createCompletionIndex } from "./completions.js";
+import {
+  applyConfigEnv,
+  loadServerConfig,
+  logLevelFromEnv,
+  toolFilterFromEnv,
+  type ServerConfig,
+} from "./config.js";
 import { initializeLocalContext } from './local-context.js';
 
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
 
-const API_BASE_URL =
-  process.env.S2T_API_URL ||
-  "https://mh873houvh.execute-api.us-east-1.amazonaws.com/v1";
-const API_KEY = process.env.S2T_API_KEY as string | undefined;
+// The config file fills in whatever the environment leaves unset. Every
+// setting is read here, so a bad value exits with its message.
+let config: ServerConfig;
+let log: Logger;
+let API_BASE_URL: string;
+let API_KEY: string | undefined;
+let TENANCY: TenancyMode;
+let OAUTH: OAuthConfig | undefined;
+let apiClientOptions: ApiClientOptions;
+let singleTenantApiClient: ApiClient | undefined;
+let cache: McpServerOptions["cache"];
+let eventStore: ResumableEventStore | undefined;
+let tracer: McpServerOptions["tracer"];
+let audit: McpServerOptions["audit"];
+let isToolEnabled: McpServerOptions["isToolEnabled"];
+let tierAccess: McpServerOptions["tierAccess"];
+let prompts: McpServerOptions["prompts"];
+let sessionLimits: Partial<SessionLimits>;
+try {
+  config = loadServerConfig({ knownTools: TOOLS });
+  applyConfigEnv(config);
+  // One logger backs the console and the records sent to each session's client
+  log = createConsoleLogger({
+    level: toLoggingLevel(logLevelFromEnv()),
+    fields: { server: SERVER_NAME, version: SERVER_VERSION },
+  });
+  API_BASE_URL = process.env.S2T_API_URL || "https://mh873houvh.execute-api.us-east-1.amazonaws.com/v1";
+  API_KEY = process.env.S2T_API_KEY;
+  TENANCY = tenancyModeFromEnv();
+  OAUTH = oauthConfigFromEnv();
+  apiClientOptions = apiClientOptionsFromEnv();
+  // Single-tenant mode shares one client; multi-tenant mode builds one per session.
+  if (TENANCY === "single" && API_KEY) {
+    singleTenantApiClient = cassetteFromEnv(createApiClient(API_BASE_URL, API_KEY, apiClientOptions));
+  }
+  cache = responseCacheFromEnv();
+  eventStore = eventStoreFromEnv();
+  tracer = tracerFromEnv(process.env, SERVER_VERSION, {
+    onError: (error) => log("error", "Trace export failed", { error: errorMessage(error) }),
+  });
+  audit = auditLogFromEnv(process.env, {
+    onError: (error) => log("error", "Failed to write audit record", { error: errorMessage(error) }),
+  });
+  isToolEnabled = toolFilterFromEnv();
+  tierAccess = tierAccessFromEnv();
+  prompts = buildPromptRegistry([...PROMPT_TEMPLATES, ...promptFilesFromEnv()]);
+  sessionLimits = sessionLimitsFromEnv();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
 const PORT = parseInt(process.env.PORT || "3001", 10);
 
-if (!API_KEY) {
+if (TENANCY === "single" && !API_KEY) {
   console.error("Error: S2T_API_KEY environment variable is required");
   console.error(
     "Get your API key at: https://dev.s2tconsulting.com/ai-sales/purchase.html"
   );
+  console.error("Or set S2T_TENANCY=multi to have each session supply its own key");
   process.exit(1);
 }
 
-// TypeScript cannot narrow through process.exit; assert after the guard.
-const apiKey: string = API_KEY;
-
 // Initialize local context (free-tier tools powered by @s2t/core)
 initializeLocalContext();
 
-const apiClient = createApiClient(API_BASE_URL, apiKey);
-
-// ---------------------------------------------------------------------------
-// Logging helper
-// ---------------------------------------------------------------------------
-
-function log(level: "info" | "warn" | "error", message: string, meta?: Record<string, unknown>): void {
-  const entry = {
-    ts: new Date().toISOString(),
-    level,
-    server: SERVER_NAME,
-    version: SERVER_VERSION,
-    message,
-    ...meta,
-  };
-  if (level === "error") {
-    console.error(JSON.stringify(entry));
-  } else {
-    console.log(JSON.stringify(entry));
-  }
-}
+const metrics = createMetrics();
+const sharedApiClient = singleTenantApiClient && metrics.instrument(singleTenantApiClient);
+const tenants = createTenantRegistry();
+const serverOptions: McpServerOptions = {
+  cache,
+  metrics,
+  tracer,
+  audit,
+  isToolEnabled,
+  toolDefaults: config.toolDefaults,
+  tierAccess,
+  // Sessions sharing a key poll the catalog once between them.
+  tierWatchers: tierAccess && createTierWatcherPool(tierAccess, log),
+  prompts,
+  logger: log,
+  // One index for all sessions; it keeps each tenant's values apart.
+  completions: createCompletionIndex(),
+};
 
 // ---------------------------------------------------------------------------
 // Session stores
@@ -92,6 +247,160 @@ const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
 // Legacy SSE: one transport per connection
 const sseTransports = new Map<string, SSEServerTransport>();
 
+// Multi-tenant mode: owning tenant per streamable session / SSE connection
+const sessionTenants = new Map<string, string>();
+
+// OAuth: client and subject whose token opened each session / SSE connection
+const sessionOwners = new Map<string, string>();
+
+// Idle/lifetime limits and caps across both transports
+const sessions = createSessionManager(sessionLimits, {
+  onEvict: (session, reason) => {
+    log("warning", "Session evicted", { sessionId: session.id, kind: session.kind, reason });
+  },
+});
+sessions.start();
+
+/**
+ * Session owner for per-key caps: tenant, then OAuth client. Without either
+ * every session shares one owner, so only the global cap applies.
+ */
+function sessionKeyFor(req: Request, tenantId: string | undefined): string | undefined {
+  return tenantId ?? req.auth?.clientId;
+}
+
+interface SessionServer {
+  server: Server;
+  tenantId?: string;
+  /** Count the session against its tenant; call once the session is established. */
+  open(): void;
+}
+
+/**
+ * Narrow the server's tools to the toolsets requested with `?toolsets=` and
+ * `?disabled_toolsets=` on the request that opens a session. Sessions can
+ * only drop tools, never add ones the server does not serve. Throws on
+ * unknown toolset IDs.
+ */
+function sessionToolFilter(req: Request): McpServerOptions["isToolEnabled"] {
+  const param = (name: string) =>
+    [req.query[name]].flat().filter((value): value is string => typeof value === "string").join(",");
+  const requested = toolsetFilter({
+    enabled: parseToolsetList(param("toolsets"), "?toolsets"),
+    disabled: parseToolsetList(param("disabled_toolsets"), "?disabled_toolsets"),
+  });
+  const served = serverOptions.isToolEnabled;
+  if (!requested) return served;
+  return (name) => requested(name) && (served?.(name) ?? true);
+}
+
+/**
+ * Build the MCP server for a new session. In multi-tenant mode the session
+ * gets its own metered ApiClient for the key on the request; returns
+ * undefined when no key was supplied. The tenant's session count only
+ * changes when the caller opens the session, so a failed initialize leaves
+ * nothing behind.
+ */
+function createSessionServer(
+  req: Request,
+  isToolEnabled: McpServerOptions["isToolEnabled"]
+): SessionServer | undefined {
+  if (sharedApiClient) {
+    return { server: createMcpServer(sharedApiClient, { ...serverOptions, isToolEnabled }), open: () => {} };
+  }
+
+  const sessionKey = apiKeyFromRequest(req.headers, req.body);
+  if (!sessionKey) return undefined;
+
+  const tenantId = tenantIdForKey(sessionKey);
+  const apiClient = tenants.meter(
+    metrics.instrument(createApiClient(API_BASE_URL, sessionKey, apiClientOptions)),
+    tenantId
+  );
+  return {
+    server: createMcpServer(apiClient, { ...serverOptions, isToolEnabled, tenantId }),
+    tenantId,
+    open: () => {
+      tenants.openSession(sessionKey);
+    },
+  };
+}
+
+/** The OAuth client and subject a request's token was issued to. */
+function oauthOwnerOf(req: Request): string | undefined {
+  return req.auth ? JSON.stringify([req.auth.clientId, req.auth.extra?.subject ?? null]) : undefined;
+}
+
+/** Record who opened a session, for refuseForeignRequest. */
+function bindSession(sessionId: string, req: Request, tenantId: string | undefined): void {
+  if (tenantId) sessionTenants.set(sessionId, tenantId);
+  const owner = oauthOwnerOf(req);
+  if (owner) sessionOwners.set(sessionId, owner);
+}
+
+/** Release a session's tenant and owner; safe to call more than once. */
+function releaseSession(sessionId: string): void {
+  sessionOwners.delete(sessionId);
+  const tenantId = sessionTenants.get(sessionId);
+  if (tenantId && sessionTenants.delete(sessionId)) {
+    tenants.closeSession(tenantId);
+  }
+}
+
+/**
+ * Every request on an existing session must come from whoever opened it:
+ * with OAuth, a token for the same client and subject; in multi-tenant
+ * mode, a key of the same tenant. Replies 401 (no key) or 403 and returns
+ * true when the request is refused.
+ */
+function refuseForeignRequest(req: Request, res: Response, sessionId: string, body?: unknown): boolean {
+  const owner = sessionOwners.get(sessionId);
+  if (owner !== undefined && oauthOwnerOf(req) !== owner) {
+    res.status(403).json({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "Forbidden: session belongs to a different OAuth client." },
+      id: null,
+    });
+    return true;
+  }
+
+  const tenantId = sessionTenants.get(sessionId);
+  if (tenantId === undefined) return false;
+  const requestKey = apiKeyFromRequest(req.headers, body);
+  if (requestKey === undefined) {
+    res.status(401).json({ jsonrpc: "2.0", error: { code: -32000, message: MISSING_API_KEY_MESSAGE }, id: null });
+    return true;
+  }
+  if (tenantIdForKey(requestKey) !== tenantId) {
+    res.status(403).json({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "Forbidden: session belongs to a different API key." },
+      id: null,
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Reply for a request naming a session that no longer exists (closed,
+ * evicted or never issued). 404 tells Streamable HTTP clients to start a new
+ * session with a fresh initialize request.
+ */
+function sendSessionNotFound(res: Response): void {
+  res.status(404).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32001,
+      message: "Session not found. It may have expired or been evicted; send a new initialize request.",
+    },
+    id: null,
+  });
+}
+
+const MISSING_API_KEY_MESSAGE =
+  'Unauthorized: this server is multi-tenant. Send your S2T API key in the X-S2T-API-Key header or initialize params._meta["s2t/apiKey"].';
+
 // ---------------------------------------------------------------------------
 // Express app
 // ---------------------------------------------------------------------------
@@ -125,11 +434,11 @@ app.use((req: Request, res: Response, next) => {
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
   res.setHeader(
     "Access-Control-Allow-Headers",
-    "Content-Type, Accept, Mcp-Session-Id, Last-Event-ID, X-S2T-API-Key"
+    "Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, X-S2T-API-Key, traceparent, tracestate"
   );
   res.setHeader(
     "Access-Control-Expose-Headers",
-    "Mcp-Session-Id"
+    "Mcp-Session-Id, WWW-Authenticate"
   );
   res.setHeader("Vary", "Origin");
   if (req.method === "OPTIONS") {
@@ -142,6 +451,31 @@ app.use((req: Request, res: Response, next) => {
 // JSON body parsing (only for non-SSE routes)
 app.use(express.json());
 
+// -- OAuth 2.1 bearer authorization ----------------------------------------
+if (OAUTH) {
+  const scopePolicy = createScopePolicy(OAUTH.toolScopes);
+  const resourceMetadataUrl = protectedResourceMetadataUrl(OAUTH);
+  const metadataHandler = protectedResourceMetadataHandler(OAUTH, scopePolicy, SERVER_NAME);
+
+  // Path-aware location first (RFC 9728), root as a fallback for older clients
+  app.get(protectedResourceMetadataPath(OAUTH), metadataHandler);
+  app.get("/.well-known/oauth-protected-resource", metadataHandler);
+
+  app.use(
+    ["/mcp", "/sse", "/messages"],
+    requireBearerAuth({ verifier: createJwtVerifier(OAUTH), resourceMetadataUrl })
+  );
+  app.post(
+    ["/mcp", "/messages"],
+    requireToolScopes(
+      scopePolicy,
+      (name) => TOOL_REGISTRY.get(name)?.definition,
+      (uri) => TOOL_REGISTRY.get(resolveResource(uri)?.resource.tool ?? "")?.definition,
+      resourceMetadataUrl
+    )
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Streamable HTTP transport (protocol version 2025-11-25)
 // ---------------------------------------------------------------------------
@@ -154,14 +488,48 @@ app.post("/mcp", async (req: Request, res: Response) => {
 
   if (sessionId && streamableTransports.has(sessionId)) {
     // Existing session
+    if (refuseForeignRequest(req, res, sessionId, req.body)) return;
     transport = streamableTransports.get(sessionId)!;
+    sessions.touch(sessionId);
   } else if (!sessionId && isInitializeRequest(req.body)) {
     // New session
+    let isToolEnabled: McpServerOptions["isToolEnabled"];
+    try {
+      isToolEnabled = sessionToolFilter(req);
+    } catch (error) {
+      res.status(400).json({
+        jsonrpc: "2.0",
+        error: { code: -32602, message: `Bad Request: ${(error as Error).message}` },
+        id: null,
+      });
+      return;
+    }
+    const session = createSessionServer(req, isToolEnabled);
+    if (!session) {
+      res.status(401).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: MISSING_API_KEY_MESSAGE },
+        id: null,
+      });
+      return;
+    }
+    const { server, tenantId } = session;
+
+    const newSessionId = randomUUID();
     transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
-      onsessioninitialized: (newSessionId) => {
+      sessionIdGenerator: () => newSessionId,
+      eventStore: eventStore?.forSession(newSessionId),
+      onsessioninitialized: () => {
+        session.open();
+        sessions.add({
+          id: newSessionId,
+          kind: "streamable",
+          key: sessionKeyFor(req, tenantId),
+          close: () => transport.close(),
+        });
         streamableTransports.set(newSessionId, transport);
-        log("info", "Streamable HTTP session created", { sessionId: newSessionId });
+        bindSession(newSessionId, req, tenantId);
+        log("info", "Streamable HTTP session created", { sessionId: newSessionId, tenantId });
       },
     });
 
@@ -172,13 +540,18 @@ app.post("/mcp", async (req: Request, res: Response) => {
       )?.[0];
       if (sid) {
         streamableTransports.delete(sid);
-        log("info", "Streamable HTTP session closed", { sessionId: sid });
+        sessions.remove(sid);
+        eventStore?.dropSession(sid);
+        releaseSession(sid);
+        log("info", "Streamable HTTP session closed", { sessionId: sid, tenantId });
       }
     };
 
-    // Wire up a fresh MCP server for this session
-    const server = createMcpServer(apiClient);
+    // Wire up the session's MCP server
     await server.connect(transport);
+  } else if (sessionId) {
+    sendSessionNotFound(res);
+    return;
   } else {
     // No session header and not an initialize request
     res.status(400).json({
@@ -199,7 +572,11 @@ app.post("/mcp", async (req: Request, res: Response) => {
 app.get("/mcp", async (req: Request, res: Response) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
-  if (!sessionId || !streamableTransports.has(sessionId)) {
+  if (sessionId && !streamableTransports.has(sessionId)) {
+    sendSessionNotFound(res);
+    return;
+  }
+  if (!sessionId) {
     res.status(400).json({
       jsonrpc: "2.0",
       error: {
@@ -211,7 +588,10 @@ app.get("/mcp", async (req: Request, res: Response) => {
     return;
   }
 
+  if (refuseForeignRequest(req, res, sessionId)) return;
+
   const transport = streamableTransports.get(sessionId)!;
+  sessions.touch(sessionId);
   await transport.handleRequest(req, res);
 });
 
@@ -219,7 +599,11 @@ app.get("/mcp", async (req: Request, res: Response) => {
 app.delete("/mcp", async (req: Request, res: Response) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
-  if (!sessionId || !streamableTransports.has(sessionId)) {
+  if (sessionId && !streamableTransports.has(sessionId)) {
+    sendSessionNotFound(res);
+    return;
+  }
+  if (!sessionId) {
     res.status(400).json({
       jsonrpc: "2.0",
       error: {
@@ -231,9 +615,14 @@ app.delete("/mcp", async (req: Request, res: Response) => {
     return;
   }
 
+  if (refuseForeignRequest(req, res, sessionId)) return;
+
   const transport = streamableTransports.get(sessionId)!;
   await transport.handleRequest(req, res);
   streamableTransports.delete(sessionId);
+  sessions.remove(sessionId);
+  eventStore?.dropSession(sessionId);
+  releaseSession(sessionId);
   log("info", "Streamable HTTP session terminated via DELETE", { sessionId });
 });
 
@@ -243,19 +632,42 @@ app.delete("/mcp", async (req: Request, res: Response) => {
 
 /** GET /sse - establish SSE connection (legacy) */
 app.get("/sse", async (req: Request, res: Response) => {
+  let isToolEnabled: McpServerOptions["isToolEnabled"];
+  try {
+    isToolEnabled = sessionToolFilter(req);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+  const session = createSessionServer(req, isToolEnabled);
+  if (!session) {
+    res.status(401).json({ error: MISSING_API_KEY_MESSAGE });
+    return;
+  }
+  const { server, tenantId } = session;
+
   const connectionId = randomUUID();
-  log("info", "Legacy SSE connection opening", { connectionId });
+  log("info", "Legacy SSE connection opening", { connectionId, tenantId });
 
   const transport = new SSEServerTransport("/messages", res);
+  session.open();
+  sessions.add({
+    id: connectionId,
+    kind: "sse",
+    key: sessionKeyFor(req, tenantId),
+    close: () => transport.close(),
+  });
   sseTransports.set(connectionId, transport);
+  bindSession(connectionId, req, tenantId);
 
   // Clean up on disconnect
   res.on("close", () => {
     sseTransports.delete(connectionId);
-    log("info", "Legacy SSE connection closed", { connectionId });
+    sessions.remove(connectionId);
+    releaseSession(connectionId);
+    log("info", "Legacy SSE connection closed", { connectionId, tenantId });
   });
 
-  const server = createMcpServer(apiClient);
   await server.connect(transport);
 });
 
@@ -271,10 +683,12 @@ app.post("/messages", async (req: Request, res: Response) => {
   // Find the transport whose sessionId matches the query param. The
   // SSEServerTransport stores its sessionId after the GET /sse handshake.
   let matched: SSEServerTransport | undefined;
-  for (const transport of sseTransports.values()) {
+  let matchedConnectionId = "";
+  for (const [connectionId, transport] of sseTransports) {
     // SSEServerTransport exposes sessionId after connection
     if ((transport as unknown as { _sessionId: string })._sessionId === sessionId) {
       matched = transport;
+      matchedConnectionId = connectionId;
       break;
     }
   }
@@ -283,6 +697,8 @@ app.post("/messages", async (req: Request, res: Response) => {
     res.status(404).json({ error: "Session not found. Connect via GET /sse first." });
     return;
   }
+  if (refuseForeignRequest(req, res, matchedConnectionId, req.body)) return;
+  sessions.touch(matchedConnectionId);
 
   await matched.handlePostMessage(req, res, req.body);
 });
@@ -303,11 +719,54 @@ app.get("/health", (_req: Request, res: Response) => {
     sessions: {
       streamable: streamableTransports.size,
       sse: sseTransports.size,
+      evictions: sessions.stats().evictions,
+    },
+    oauth: OAUTH ? { issuer: OAUTH.issuer, resource: OAUTH.resource } : null,
+    tenancy: {
+      mode: TENANCY,
+      tenants: tenants.list().length,
     },
+    cache: cache ? cache.stats() : null,
+    tracing: Boolean(tracer),
+    audit: Boolean(audit),
+    eventStore: eventStore ? eventStore.stats() : null,
     uptime: Math.floor(process.uptime()),
   });
 });
 
+/** GET /tenant/usage - usage attributed to the caller's API key */
+app.get("/tenant/usage", (req: Request, res: Response) => {
+  if (TENANCY !== "multi") {
+    res.status(404).json({ error: "Tenant usage is only tracked in multi-tenant mode (S2T_TENANCY=multi)." });
+    return;
+  }
+  const requestKey = apiKeyFromRequest(req.headers);
+  if (!requestKey) {
+    res.status(401).json({ error: "Send your S2T API key in the X-S2T-API-Key header." });
+    return;
+  }
+  const usage = tenants.usage(tenantIdForKey(requestKey));
+  if (!usage) {
+    res.status(404).json({ error: "No sessions recorded for this API key yet." });
+    return;
+  }
+  res.json(usage);
+});
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+metrics.gauge("s2t_active_sessions", "Open MCP sessions by transport.", () => [
+  [{ transport: "streamable_http" }, streamableTransports.size],
+  [{ transport: "sse" }, sseTransports.size],
+]);
+
+app.get("/metrics", (_req: Request, res: Response) => {
+  res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+  res.send(metrics.render());
+});
+
 // ---------------------------------------------------------------------------
 // Start server
 // ---------------------------------------------------------------------------
@@ -315,6 +774,7 @@ app.get("/health", (_req: Request, res: Response) => {
 const httpServer = app.listen(PORT, () => {
   log("info", `S2T Accelerators MCP HTTP server listening`, {
     port: PORT,
+    config: config.path ? { path: config.path, profile: config.profile } : null,
     endpoints: {
       streamableHttp: `http://localhost:${PORT}/mcp`,
       legacySse: `http://localhost:${PORT}/sse`,
@@ -329,6 +789,7 @@ const httpServer = app.listen(PORT, () => {
 
 async function shutdown(signal: string): Promise<void> {
   log("info", `Received ${signal}, shutting down gracefully`);
+  sessions.stop();
 
   // Close all Streamable HTTP transports
   const streamableClosePromises: Promise<void>[] = [];
@@ -348,6 +809,12 @@ async function shutdown(signal: string): Promise<void> {
 
   // Close all legacy SSE transports
   sseTransports.clear();
+  sessionTenants.clear();
+  sessionOwners.clear();
+
+  cache?.close();
+  eventStore?.close();
+  await tracer?.shutdown();
 
   // Shut down the HTTP listener
   httpServer.close((err) => {
@@ -361,7 +828,7 @@ async function shutdown(signal: string): Promise<void> {
 
   // Force exit after timeout if graceful shutdown stalls
   setTimeout(() => {
-    log("warn", "Graceful shutdown timed out, forcing exit");
+    log("warning", "Graceful shutdown timed out, forcing exit");
     process.exit(1);
   }, 10_000).unref();
 }
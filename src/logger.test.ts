@@ -0,0 +1,202 @@
+/**
+ * S2T Accelerators MCP Server - Logging Tests
+ *
+ * Tests level filtering, the console and client loggers, the records
+ * logged for platform requests, and the notifications/message a session
+ * receives once its client calls logging/setLevel.
+ *
+ * @module logger.test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { LoggingMessageNotificationSchema, type LoggingMessageNotification } from "@modelcontextprotocol/sdk/types.js";
+import {
+  combineLoggers,
+  createClientLogger,
+  createConsoleLogger,
+  isLevelEnabled,
+  loggingApiClient,
+  NO_LOG,
+  toLoggingLevel,
+  type Logger,
+} from "./logger.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { connectClient } from "./test-client.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ===========================================================================
+// Levels and loggers
+// ===========================================================================
+
+describe("levels", () => {
+  it("should order MCP levels and map S2T_LOG_LEVEL values onto them", () => {
+    expect(isLevelEnabled("notice", "info")).toBe(true);
+    expect(isLevelEnabled("info", "warning")).toBe(false);
+    expect(isLevelEnabled("emergency", "error")).toBe(true);
+    expect(toLoggingLevel("warn")).toBe("warning");
+    expect(toLoggingLevel("debug")).toBe("debug");
+  });
+});
+
+describe("createConsoleLogger", () => {
+  it("should write JSON lines at or above its level, errors to stderr", () => {
+    const out = vi.spyOn(console, "log").mockImplementation(() => {});
+    const err = vi.spyOn(console, "error").mockImplementation(() => {});
+    const log = createConsoleLogger({ level: "info", fields: { server: "s2t" } });
+
+    log("debug", "hidden");
+    log("info", "Session created", { sessionId: "s-1" });
+    log("critical", "Fatal error");
+
+    expect(out).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(out.mock.calls[0][0])).toMatchObject({
+      level: "info",
+      server: "s2t",
+      message: "Session created",
+      sessionId: "s-1",
+    });
+    expect(JSON.parse(err.mock.calls[0][0])).toMatchObject({ level: "critical", message: "Fatal error" });
+  });
+
+  it("should keep stdout clear for stdio", () => {
+    const out = vi.spyOn(console, "log").mockImplementation(() => {});
+    const err = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    createConsoleLogger({ level: "debug", stderrOnly: true })("info", "Running on stdio");
+
+    expect(out).not.toHaveBeenCalled();
+    expect(err).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createClientLogger", () => {
+  it("should stay quiet until the client sets a level", () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const client = createClientLogger(send);
+
+    client.log("error", "Before");
+    client.setLevel("warning");
+    client.log("info", "Filtered");
+    client.log("warning", "Sent", { tool: "s2t_embed" });
+
+    expect(send.mock.calls.map(([params]) => params)).toEqual([
+      { level: "warning", logger: "s2t", data: { message: "Sent", tool: "s2t_embed" } },
+    ]);
+  });
+
+  it("should combine with other loggers", () => {
+    const first = vi.fn<Logger>();
+    const second = vi.fn<Logger>();
+
+    combineLoggers(first, NO_LOG, second)("info", "Both");
+
+    expect(first).toHaveBeenCalledWith("info", "Both", undefined);
+    expect(second).toHaveBeenCalledWith("info", "Both", undefined);
+    expect(combineLoggers(NO_LOG, NO_LOG)).toBe(NO_LOG);
+  });
+});
+
+// ===========================================================================
+// Platform requests
+// ===========================================================================
+
+describe("loggingApiClient", () => {
+  it("should log retries and the outcome of each request", async () => {
+    const log = vi.fn<Logger>();
+    const callApi = vi
+      .fn()
+      .mockImplementationOnce(async (_endpoint, _method, _body, options) => {
+        options.onRetry({ retry: 1, maxRetries: 2, delayMs: 100, error: new Error("busy") });
+        return { ok: true };
+      })
+      .mockRejectedValueOnce(new Error("gone"));
+    const client = loggingApiClient({ callApi }, log, { tool: "s2t_embed" });
+
+    await client.callApi("/embed", "POST");
+    await expect(client.callApi("/embed", "POST")).rejects.toThrow("gone");
+
+    expect(log.mock.calls.map(([level, message, fields]) => [level, message, fields])).toEqual([
+      [
+        "warning",
+        "Retrying S2T API call",
+        { tool: "s2t_embed", endpoint: "/embed", method: "POST", retry: 1, maxRetries: 2, delayMs: 100, error: "busy" },
+      ],
+      ["debug", "S2T API call", expect.objectContaining({ tool: "s2t_embed", endpoint: "/embed" })],
+      ["warning", "S2T API call failed", expect.objectContaining({ errorClass: "Error", error: "gone" })],
+    ]);
+  });
+
+  it("should leave the client alone without a logger", () => {
+    const client = { callApi: vi.fn() };
+
+    expect(loggingApiClient(client, NO_LOG)).toBe(client);
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer logging", () => {
+  async function connect(logger?: Logger) {
+    const callApi = vi.fn(async (endpoint: string, method: string, body?: Record<string, unknown>) =>
+      endpoint.startsWith("/aci/")
+        ? MOCK_FIXTURES["POST /aci/classify"](body ?? {}, "success")
+        : MOCK_FIXTURES[`${method} ${endpoint}`](body ?? {}, "success")
+    );
+    const client = await connectClient({ callApi }, { logger });
+    const messages: LoggingMessageNotification["params"][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params);
+    });
+    return { client, messages };
+  }
+
+  it("should send records at the level the client sets", async () => {
+    const { client, messages } = await connect();
+
+    expect(client.getServerCapabilities()?.logging).toEqual({});
+    await client.callTool({ name: "s2t_embed", arguments: { text: "quiet" } });
+    await client.setLoggingLevel("debug");
+    await client.callTool({ name: "s2t_embed", arguments: { text: "hello" } });
+    await client.setLoggingLevel("warning");
+    await client.callTool({ name: "s2t_embed", arguments: { text: "filtered" } });
+
+    await vi.waitFor(() => expect(messages).toHaveLength(1));
+    expect(messages[0]).toMatchObject({
+      level: "debug",
+      logger: "s2t",
+      data: { message: "S2T API call", tool: "s2t_embed", endpoint: "/embed", method: "POST" },
+    });
+  });
+
+  it("should log governance decisions and invalid arguments", async () => {
+    const { client, messages } = await connect();
+
+    await client.setLoggingLevel("notice");
+    await client.callTool({ name: "aci_classify_decision", arguments: { action: "Restart staging workers" } });
+    await client.callTool({ name: "s2t_embed", arguments: {} }).catch(() => {});
+
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    expect(messages[0]).toMatchObject({
+      level: "notice",
+      data: { message: "Governance decision", tool: "aci_classify_decision", decision: "APPROVE", confidence: 0.91 },
+    });
+    expect(messages[1]).toMatchObject({
+      level: "warning",
+      data: { message: "Invalid tool arguments", tool: "s2t_embed" },
+    });
+  });
+
+  it("should send the same records to the server log", async () => {
+    const logger = vi.fn<Logger>();
+    const { client } = await connect(logger);
+
+    await client.callTool({ name: "s2t_embed", arguments: { text: "hello" } });
+
+    expect(logger).toHaveBeenCalledWith("debug", "S2T API call", expect.objectContaining({ tool: "s2t_embed" }));
+  });
+});
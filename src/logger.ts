@@ -0,0 +1,174 @@
+/**
+ * S2T Accelerators - Logging
+ *
+ * One structured logger for the server's own output and for MCP clients.
+ * A Logger takes an MCP syslog level (debug ... emergency), a message and
+ * optional fields:
+ *
+ * - createConsoleLogger writes each record as a JSON line. The HTTP server
+ *   writes to stdout, with error and above on stderr; the stdio server
+ *   writes everything to stderr, because stdout carries the protocol.
+ * - createClientLogger sends records to an MCP client as
+ *   `notifications/message` once the client has chosen a level with
+ *   `logging/setLevel`. Until then it stays quiet.
+ *
+ * S2T_LOG_LEVEL sets the console threshold; `warn` stands for `warning`.
+ * Each session's client picks its own threshold at runtime.
+ *
+ * @module logger
+ */
+
+import {
+  LoggingLevelSchema,
+  type LoggingLevel,
+  type LoggingMessageNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ApiClient } from "./handlers.js";
+import type { LogLevel } from "./config.js";
+import { errorClassOf } from "./metrics.js";
+
+export type { LoggingLevel };
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = (level: LoggingLevel, message: string, fields?: LogFields) => void;
+
+/** Logger that drops every record. */
+export const NO_LOG: Logger = () => {};
+
+/** The `logger` name on notifications sent to clients. */
+export const LOGGER_NAME = "s2t";
+
+/** MCP levels, least severe first. */
+export const LOGGING_LEVELS: readonly LoggingLevel[] = LoggingLevelSchema.options;
+
+/** Whether a record at `level` passes a `threshold`. */
+export function isLevelEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(threshold);
+}
+
+/** The MCP level for an S2T_LOG_LEVEL value. */
+export function toLoggingLevel(level: LogLevel): LoggingLevel {
+  return level === "warn" ? "warning" : level;
+}
+
+/** The message of a thrown value, for the `error` field of a record. */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Send several loggers every record. */
+export function combineLoggers(...loggers: Logger[]): Logger {
+  const active = loggers.filter((logger) => logger !== NO_LOG);
+  if (active.length === 0) return NO_LOG;
+  if (active.length === 1) return active[0];
+  return (level, message, fields) => {
+    for (const logger of active) logger(level, message, fields);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Console
+// ---------------------------------------------------------------------------
+
+export interface ConsoleLoggerOptions {
+  /** Least severe level written. */
+  level: LoggingLevel;
+  /** Fields added to every record, e.g. the server name and version. */
+  fields?: LogFields;
+  /** Write every record to stderr (stdio), or only error and above (default). */
+  stderrOnly?: boolean;
+}
+
+/** Write records at or above `level` to the console as JSON lines. */
+export function createConsoleLogger(options: ConsoleLoggerOptions): Logger {
+  const { level: threshold, fields = {}, stderrOnly = false } = options;
+  return (level, message, meta) => {
+    if (!isLevelEnabled(level, threshold)) return;
+    const line = JSON.stringify({ ts: new Date().toISOString(), level, ...fields, message, ...meta });
+    if (stderrOnly || isLevelEnabled(level, "error")) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MCP client
+// ---------------------------------------------------------------------------
+
+export interface ClientLogger {
+  log: Logger;
+  /** The level the client chose; undefined until it calls logging/setLevel. */
+  readonly level: LoggingLevel | undefined;
+  /** Apply a client's `logging/setLevel` request. */
+  setLevel(level: LoggingLevel): void;
+}
+
+/**
+ * Send records to a client through `send` once it has set a level. Sending
+ * is best effort: a failed notification never fails the work it describes.
+ */
+export function createClientLogger(
+  send: (params: LoggingMessageNotification["params"]) => Promise<void>
+): ClientLogger {
+  let threshold: LoggingLevel | undefined;
+  return {
+    log(level, message, fields) {
+      if (!threshold || !isLevelEnabled(level, threshold)) return;
+      send({ level, logger: LOGGER_NAME, data: { message, ...fields } }).catch(() => {});
+    },
+    get level() {
+      return threshold;
+    },
+    setLevel(level) {
+      threshold = level;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Platform requests
+// ---------------------------------------------------------------------------
+
+/**
+ * Log each platform request made through `client`: completed calls at
+ * debug, retries and failures at warning. `fields` (the tool, the session)
+ * are added to every record.
+ */
+export function loggingApiClient(client: ApiClient, log: Logger, fields: LogFields = {}): ApiClient {
+  if (log === NO_LOG) return client;
+  return {
+    async callApi(endpoint, method, body, options) {
+      const started = performance.now();
+      const request = { ...fields, endpoint, method };
+      const elapsed = () => Math.round(performance.now() - started);
+      try {
+        const result = await client.callApi(endpoint, method, body, {
+          ...options,
+          onRetry(event) {
+            options?.onRetry?.(event);
+            log("warning", "Retrying S2T API call", {
+              ...request,
+              retry: event.retry,
+              maxRetries: event.maxRetries,
+              delayMs: event.delayMs,
+              error: event.error.message,
+            });
+          },
+        });
+        log("debug", "S2T API call", { ...request, durationMs: elapsed() });
+        return result;
+      } catch (error) {
+        log("warning", "S2T API call failed", {
+          ...request,
+          durationMs: elapsed(),
+          errorClass: errorClassOf(error),
+          error: errorMessage(error),
+        });
+        throw error;
+      }
+    },
+  };
+}
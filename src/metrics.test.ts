@@ -0,0 +1,190 @@
+/**
+ * S2T Accelerators MCP Server - Metrics Tests
+ *
+ * Tests Prometheus text rendering for tool calls, upstream latency, cache
+ * ratios and scrape-time gauges, and the per-tool recording done by
+ * createMcpServer.
+ *
+ * @module metrics.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createMetrics, endpointRoute, errorClassOf } from "./metrics.js";
+import { createMemoryCacheStore, createResponseCache } from "./response-cache.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { S2TAuthError, S2TUpstreamUnavailableError } from "./api-errors.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const UNAVAILABLE = { endpoint: "/aci/classify", method: "POST", status: 503 };
+
+/** Sample lines for one metric name, without HELP/TYPE comments. */
+function samples(text: string, name: string): string[] {
+  return text.split("\n").filter((line) => line.startsWith(`${name}{`) || line.startsWith(`${name} `));
+}
+
+// ===========================================================================
+// Rendering
+// ===========================================================================
+
+describe("createMetrics", () => {
+  it("should count calls and errors per tool and error class", () => {
+    const metrics = createMetrics();
+    metrics.recordToolCall({ tool: "aci_classify_decision", durationMs: 12 });
+    metrics.recordToolCall({ tool: "aci_classify_decision", durationMs: 30, errorClass: "S2TUpstreamUnavailableError" });
+    metrics.recordToolCall({ tool: "s2t_catalog", durationMs: 4 });
+
+    const text = metrics.render();
+
+    expect(text).toContain("# TYPE s2t_tool_calls_total counter");
+    expect(samples(text, "s2t_tool_calls_total")).toEqual([
+      's2t_tool_calls_total{tool="aci_classify_decision"} 2',
+      's2t_tool_calls_total{tool="s2t_catalog"} 1',
+    ]);
+    expect(samples(text, "s2t_tool_errors_total")).toEqual([
+      's2t_tool_errors_total{tool="aci_classify_decision",error_class="S2TUpstreamUnavailableError"} 1',
+    ]);
+  });
+
+  it("should render cumulative latency histograms in seconds", () => {
+    const metrics = createMetrics({ buckets: [0.01, 0.1] });
+    metrics.recordToolCall({ tool: "s2t_embed", durationMs: 5 });
+    metrics.recordToolCall({ tool: "s2t_embed", durationMs: 50 });
+    metrics.recordToolCall({ tool: "s2t_embed", durationMs: 500 });
+
+    expect(metrics.render()).toContain(
+      [
+        "# TYPE s2t_tool_duration_seconds histogram",
+        's2t_tool_duration_seconds_bucket{tool="s2t_embed",le="0.01"} 1',
+        's2t_tool_duration_seconds_bucket{tool="s2t_embed",le="0.1"} 2',
+        's2t_tool_duration_seconds_bucket{tool="s2t_embed",le="+Inf"} 3',
+        's2t_tool_duration_seconds_sum{tool="s2t_embed"} 0.555',
+        's2t_tool_duration_seconds_count{tool="s2t_embed"} 3',
+      ].join("\n")
+    );
+  });
+
+  it("should time upstream requests per endpoint, including failures", async () => {
+    let now = 0;
+    const metrics = createMetrics({ buckets: [1], now: () => now });
+    const client = metrics.instrument({
+      callApi: vi.fn(async (endpoint: string) => {
+        now += 250;
+        if (endpoint === "/aci/classify") {
+          throw new S2TAuthError("expired key", { endpoint, method: "POST", status: 401 });
+        }
+        return {};
+      }),
+    });
+
+    await client.callApi("/catalog");
+    await expect(client.callApi("/aci/classify", "post", {})).rejects.toThrow("expired key");
+
+    const text = metrics.render();
+    expect(samples(text, "s2t_upstream_request_duration_seconds_sum")).toEqual([
+      's2t_upstream_request_duration_seconds_sum{endpoint="/catalog",method="GET"} 0.25',
+      's2t_upstream_request_duration_seconds_sum{endpoint="/aci/classify",method="POST"} 0.25',
+    ]);
+    expect(samples(text, "s2t_upstream_errors_total")).toEqual([
+      's2t_upstream_errors_total{endpoint="/aci/classify",method="POST",error_class="S2TAuthError"} 1',
+    ]);
+  });
+
+  it("should label upstream requests by route, not by the IDs in their path", async () => {
+    const metrics = createMetrics({ buckets: [1] });
+    const client = metrics.instrument({ callApi: vi.fn(async () => ({})) });
+
+    await client.callApi("/aci/decision-log/dec-5f1c2a9b7e31");
+    await client.callApi("/aci/decision-log/dec%2F42?expand=outcome");
+
+    expect(samples(metrics.render(), "s2t_upstream_request_duration_seconds_count")).toEqual([
+      's2t_upstream_request_duration_seconds_count{endpoint="/aci/decision-log/:id",method="GET"} 2',
+    ]);
+    expect(endpointRoute("/accelerators/agent/route")).toBe("/accelerators/agent/route");
+    expect(endpointRoute("/tasks/42/status")).toBe("/tasks/:id/status");
+  });
+
+  it("should report cache lookups and hit ratios excluding bypasses", () => {
+    const metrics = createMetrics();
+    for (const cacheStatus of ["miss", "hit", "hit", "hit", "bypass"] as const) {
+      metrics.recordToolCall({ tool: "s2t_catalog", durationMs: 1, cacheStatus });
+    }
+
+    const text = metrics.render();
+    expect(samples(text, "s2t_cache_lookups_total")).toEqual([
+      's2t_cache_lookups_total{tool="s2t_catalog",status="miss"} 1',
+      's2t_cache_lookups_total{tool="s2t_catalog",status="hit"} 3',
+      's2t_cache_lookups_total{tool="s2t_catalog",status="bypass"} 1',
+    ]);
+    expect(samples(text, "s2t_cache_hit_ratio")).toEqual(['s2t_cache_hit_ratio{tool="s2t_catalog"} 0.75']);
+  });
+
+  it("should collect registered gauges at scrape time", () => {
+    const metrics = createMetrics();
+    let open = 1;
+    metrics.gauge("s2t_active_sessions", "Open sessions.", () => [[{ transport: "sse" }, open]]);
+
+    expect(samples(metrics.render(), "s2t_active_sessions")).toEqual(['s2t_active_sessions{transport="sse"} 1']);
+    open = 3;
+    expect(samples(metrics.render(), "s2t_active_sessions")).toEqual(['s2t_active_sessions{transport="sse"} 3']);
+  });
+
+  it("should escape label values", () => {
+    const metrics = createMetrics();
+    metrics.recordToolCall({ tool: 'a"b\\c\nd', durationMs: 1 });
+    expect(metrics.render()).toContain('s2t_tool_calls_total{tool="a\\"b\\\\c\\nd"} 1');
+  });
+});
+
+describe("errorClassOf", () => {
+  it("should use the error's class name", () => {
+    expect(errorClassOf(new S2TUpstreamUnavailableError("down", UNAVAILABLE))).toBe("S2TUpstreamUnavailableError");
+    expect(errorClassOf(new TypeError("bad"))).toBe("TypeError");
+    expect(errorClassOf("thrown string")).toBe("Error");
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer metrics", () => {
+  it("should record failed governance calls by error class", async () => {
+    const metrics = createMetrics();
+    const apiClient = {
+      callApi: vi.fn().mockRejectedValue(new S2TUpstreamUnavailableError("down", UNAVAILABLE)),
+    };
+    const client = await connectClient(apiClient, { metrics });
+
+    await client.callTool({
+      name: "aci_classify_decision",
+      arguments: { action: "Rotate production database credentials" },
+    });
+    await client.callTool({ name: "no_such_tool", arguments: {} });
+
+    const text = metrics.render();
+    expect(samples(text, "s2t_tool_errors_total")).toEqual([
+      's2t_tool_errors_total{tool="aci_classify_decision",error_class="S2TUpstreamUnavailableError"} 1',
+      's2t_tool_errors_total{tool="unknown",error_class="Error"} 1',
+    ]);
+    expect(samples(text, "s2t_tool_duration_seconds_count")).toHaveLength(2);
+  });
+
+  it("should record cache status for cached tools", async () => {
+    const metrics = createMetrics();
+    const cache = createResponseCache({ store: createMemoryCacheStore() });
+    const apiClient = { callApi: vi.fn().mockResolvedValue(MOCK_FIXTURES["GET /catalog"]({}, "success")) };
+    const client = await connectClient(apiClient, { metrics, cache });
+
+    await client.callTool({ name: "s2t_catalog", arguments: {} });
+    await client.callTool({ name: "s2t_catalog", arguments: {} });
+
+    expect(samples(metrics.render(), "s2t_cache_lookups_total")).toEqual([
+      's2t_cache_lookups_total{tool="s2t_catalog",status="miss"} 1',
+      's2t_cache_lookups_total{tool="s2t_catalog",status="hit"} 1',
+    ]);
+  });
+});
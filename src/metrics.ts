@@ -0,0 +1,242 @@
+/**
+ * S2T Accelerators - Prometheus Metrics
+ *
+ * Per-tool and upstream telemetry for the HTTP server's `/metrics`
+ * endpoint, rendered in the Prometheus text exposition format:
+ *
+ *   s2t_tool_calls_total{tool}                         tools/call requests
+ *   s2t_tool_errors_total{tool,error_class}            failed calls by error class
+ *   s2t_tool_duration_seconds{tool}                    call latency histogram
+ *   s2t_upstream_request_duration_seconds{endpoint,method}  platform API latency
+ *   s2t_upstream_errors_total{endpoint,method,error_class}  failed platform calls
+ *   s2t_cache_lookups_total{tool,status}               response cache hit/miss/bypass
+ *   s2t_cache_hit_ratio{tool}                          hits / (hits + misses)
+ *
+ * Gauges whose value lives elsewhere (e.g. open sessions) are registered
+ * with a collect callback and read at scrape time. Error classes are the
+ * S2TApiError subclass names (S2TAuthError, UpstreamContractError, ...), so
+ * alerts can tell an expired key from an outage. Endpoints are labelled by
+ * route (endpointRoute), so IDs in a path never create new series.
+ *
+ * @module metrics
+ */
+
+import type { ApiClient } from "./handlers.js";
+import type { CacheStatus } from "./response-cache.js";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Latency buckets in seconds, from local validation to slow generators. */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export type Labels = Record<string, string>;
+
+export type GaugeSample = [labels: Labels, value: number];
+
+export interface ToolCallRecord {
+  tool: string;
+  durationMs: number;
+  /** Set when the call failed. */
+  errorClass?: string;
+  /** Set when the call went through the response cache. */
+  cacheStatus?: CacheStatus;
+}
+
+export interface Metrics {
+  /** Record a finished tools/call. */
+  recordToolCall(call: ToolCallRecord): void;
+  /** Wrap a client so every platform request is timed per endpoint. */
+  instrument(client: ApiClient): ApiClient;
+  /** Register a gauge whose samples are collected at scrape time. */
+  gauge(name: string, help: string, collect: () => GaugeSample[]): void;
+  /** All metrics in the Prometheus text exposition format. */
+  render(): string;
+}
+
+/** Error class label for a thrown value. */
+export function errorClassOf(error: unknown): string {
+  return error instanceof Error ? error.name : "Error";
+}
+
+/**
+ * The route an endpoint path belongs to, for labels and span names. Route
+ * segments are lowercase words (`parallel-review`); any other segment -- an
+ * ID, a number, an encoded value -- becomes `:id`, and the query is dropped:
+ * `/tasks/42/status?x=1` is `/tasks/:id/status`.
+ */
+export function endpointRoute(endpoint: string): string {
+  const [path] = endpoint.split("?");
+  return path
+    .split("/")
+    .map((segment) => (segment === "" || /^[a-z]+(?:-[a-z]+)*$/.test(segment) ? segment : ":id"))
+    .join("/");
+}
+
+// ---------------------------------------------------------------------------
+// Families
+// ---------------------------------------------------------------------------
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/** Label sets keyed by their rendered form, in first-seen order. */
+function createSeries<T>(initial: () => T) {
+  const entries = new Map<string, { labels: Labels; value: T }>();
+  return {
+    get(labels: Labels): T {
+      const key = formatLabels(labels);
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { labels, value: initial() };
+        entries.set(key, entry);
+      }
+      return entry.value;
+    },
+    find: (labels: Labels): T | undefined => entries.get(formatLabels(labels))?.value,
+    all: () => Array.from(entries.values()),
+  };
+}
+
+function createCounter(name: string, help: string) {
+  const series = createSeries(() => ({ value: 0 }));
+  return {
+    inc(labels: Labels, by = 1) {
+      series.get(labels).value += by;
+    },
+    value: (labels: Labels) => series.find(labels)?.value ?? 0,
+    series: () => series.all(),
+    render: () => [
+      ...header(name, help, "counter"),
+      ...series.all().map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value.value)}`),
+    ],
+  };
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = createSeries(() => ({ counts: buckets.map(() => 0), sum: 0, count: 0 }));
+  return {
+    observe(labels: Labels, value: number) {
+      const entry = series.get(labels);
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+    render: () => [
+      ...header(name, help, "histogram"),
+      ...series.all().flatMap(({ labels, value }) => [
+        ...buckets.map(
+          (bound, i) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+        `${name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+        `${name}_count${formatLabels(labels)} ${value.count}`,
+      ]),
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export function createMetrics(
+  options: { buckets?: number[]; now?: () => number } = {}
+): Metrics {
+  const buckets = options.buckets ?? DEFAULT_LATENCY_BUCKETS;
+  const now = options.now ?? (() => performance.now());
+
+  const toolCalls = createCounter("s2t_tool_calls_total", "MCP tools/call requests by tool.");
+  const toolErrors = createCounter("s2t_tool_errors_total", "Failed tool calls by tool and error class.");
+  const toolDuration = createHistogram("s2t_tool_duration_seconds", "Tool call latency in seconds.", buckets);
+  const upstreamDuration = createHistogram(
+    "s2t_upstream_request_duration_seconds",
+    "S2T platform API latency in seconds by endpoint, including retries.",
+    buckets
+  );
+  const upstreamErrors = createCounter(
+    "s2t_upstream_errors_total",
+    "Failed S2T platform API requests by endpoint and error class."
+  );
+  const cacheLookups = createCounter("s2t_cache_lookups_total", "Response cache lookups by tool and status.");
+  const gauges: { name: string; help: string; collect: () => GaugeSample[] }[] = [];
+
+  function cacheHitRatios(): string[] {
+    const tools = new Set(cacheLookups.series().map(({ labels }) => labels.tool));
+    return [
+      ...header("s2t_cache_hit_ratio", "Share of cache lookups served from the cache, excluding bypasses.", "gauge"),
+      ...Array.from(tools).flatMap((tool) => {
+        const hits = cacheLookups.value({ tool, status: "hit" });
+        const lookups = hits + cacheLookups.value({ tool, status: "miss" });
+        return lookups > 0 ? [`s2t_cache_hit_ratio${formatLabels({ tool })} ${formatValue(hits / lookups)}`] : [];
+      }),
+    ];
+  }
+
+  return {
+    recordToolCall({ tool, durationMs, errorClass, cacheStatus }) {
+      toolCalls.inc({ tool });
+      toolDuration.observe({ tool }, durationMs / 1000);
+      if (errorClass) toolErrors.inc({ tool, error_class: errorClass });
+      if (cacheStatus) cacheLookups.inc({ tool, status: cacheStatus });
+    },
+
+    instrument(client) {
+      return {
+        async callApi(endpoint, method = "GET", body, callOptions) {
+          const labels = { endpoint: endpointRoute(endpoint), method: method.toUpperCase() };
+          const started = now();
+          try {
+            return await client.callApi(endpoint, method, body, callOptions);
+          } catch (error) {
+            upstreamErrors.inc({ ...labels, error_class: errorClassOf(error) });
+            throw error;
+          } finally {
+            upstreamDuration.observe(labels, (now() - started) / 1000);
+          }
+        },
+      };
+    },
+
+    gauge(name, help, collect) {
+      gauges.push({ name, help, collect });
+    },
+
+    render() {
+      const lines = [
+        ...toolCalls.render(),
+        ...toolErrors.render(),
+        ...toolDuration.render(),
+        ...upstreamDuration.render(),
+        ...upstreamErrors.render(),
+        ...cacheLookups.render(),
+        ...cacheHitRatios(),
+      ];
+      for (const { name, help, collect } of gauges) {
+        lines.push(...header(name, help, "gauge"));
+        for (const [labels, value] of collect()) {
+          lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+        }
+      }
+      return lines.join("\n") + "\n";
+    },
+  };
+}
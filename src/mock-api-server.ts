@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * S2T Accelerators - Mock S2T API Server
+ *
+ * Serves the mock S2T API (see mock-api.ts) for offline development, demos
+ * and integration tests. Point the MCP server at it with:
+ *
+ *   npm run mock:api
+ *   S2T_API_URL=http://localhost:4010 S2T_API_KEY=mock npm run dev
+ *
+ * Environment variables:
+ *   MOCK_API_PORT      (optional)  Listen port (default: 4010)
+ *   S2T_MOCK_SCENARIO  (optional)  Default scenario (default: success)
+ *   S2T_MOCK_SLOW_MS   (optional)  Delay for the "slow" scenario (default: 5000)
+ *
+ * @module mock-api-server
+ */
+
+import { createMockApiApp, MOCK_SCENARIOS, type MockScenario } from "./mock-api.js";
+
+const PORT = parseInt(process.env.MOCK_API_PORT || "4010", 10);
+const scenario = (process.env.S2T_MOCK_SCENARIO || "success") as MockScenario;
+
+if (!MOCK_SCENARIOS.includes(scenario)) {
+  console.error(`Error: unknown S2T_MOCK_SCENARIO "${scenario}"`);
+  console.error(`Available scenarios: ${MOCK_SCENARIOS.join(", ")}`);
+  process.exit(1);
+}
+
+const app = createMockApiApp({
+  scenario,
+  slowMs: process.env.S2T_MOCK_SLOW_MS ? parseInt(process.env.S2T_MOCK_SLOW_MS, 10) : undefined,
+});
+
+const httpServer = app.listen(PORT, () => {
+  console.error(`Mock S2T API listening on http://localhost:${PORT} (scenario: ${scenario})`);
+  console.error(`Set S2T_API_URL=http://localhost:${PORT} to use it`);
+});
+
+function shutdown(): void {
+  httpServer.close(() => process.exit(0));
+  setTimeout(() => process.exit(1), 5_000).unref();
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,181 @@
+/**
+ * S2T Accelerators MCP Server - Mock API Tests
+ *
+ * Exercises the mock S2T API over real HTTP through createApiClient: every
+ * route must satisfy its tool's outputSchema, and error scenarios must map
+ * onto the typed API errors.
+ *
+ * @module mock-api.test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server as HttpServer } from "node:http";
+import { createMockApiApp, MOCK_FIXTURES } from "./mock-api.js";
+import { createApiClient, type RetryPolicy } from "./api-client.js";
+import {
+  S2TAuthError,
+  S2TQuotaError,
+  S2TUpstreamUnavailableError,
+  UpstreamContractError,
+} from "./api-errors.js";
+import { validateUpstreamResponse } from "./schema-validation.js";
+import { TOOLS } from "./server-setup.js";
+import type { OutputSchema } from "./output-schemas.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Route -> the tool whose outputSchema describes its response. */
+const ROUTE_TOOLS: Record<string, string> = {
+  "GET /catalog": "s2t_catalog",
+  "GET /usage": "s2t_usage",
+  "POST /embed": "s2t_embed",
+  "POST /generate/cloudformation": "s2t_generate_cloudformation",
+  "POST /validate/oauth": "s2t_validate_oauth",
+  "POST /validate/mfa-compliance": "s2t_validate_mfa_compliance",
+  "POST /generate/dynamodb-design": "s2t_generate_dynamodb_design",
+  "POST /analyze/error-patterns": "s2t_analyze_error_patterns",
+  "POST /check/data-lake-readiness": "s2t_check_data_lake_readiness",
+  "POST /validate/iam-policy": "s2t_validate_iam_policy",
+  "POST /accelerators/risk/classify": "s2t_classify_action_risk",
+  "POST /accelerators/agent/route": "s2t_route_task_to_agent",
+  "POST /accelerators/predict/issues": "s2t_predict_system_issues",
+  "POST /accelerators/recovery/attempt": "s2t_attempt_auto_recovery",
+  "POST /accelerators/resilience/execute": "s2t_execute_with_resilience",
+  "POST /accelerators/agent/memory": "s2t_manage_agent_memory",
+  "POST /accelerators/agent/task": "s2t_submit_agent_task",
+  "POST /accelerators/trace/create": "s2t_create_trace_context",
+  "POST /accelerators/lock/acquire": "s2t_acquire_file_lock",
+  "POST /accelerators/cli/validate": "s2t_validate_cli_readiness",
+  "POST /aci/classify": "aci_classify_decision",
+  "POST /aci/financial-gate": "aci_financial_gate",
+  "POST /aci/compliance": "aci_compliance_check",
+  "POST /aci/route": "aci_route_domain",
+  "POST /aci/parallel-review": "aci_parallel_review",
+  "POST /aci/synthesize": "aci_synthesize_reviews",
+  "POST /aci/decision-log": "aci_log_decision",
+  "POST /aci/recall": "aci_recall_precedent",
+  "POST /aci/calibrate": "aci_record_outcome",
+  "POST /aci/blast-radius": "aci_estimate_blast_radius",
+  "POST /aci/rollback": "aci_generate_rollback",
+  "POST /aci/health": "aci_governance_health",
+};
+
+let httpServer: HttpServer;
+let baseUrl: string;
+
+beforeAll(async () => {
+  httpServer = createMockApiApp().listen(0);
+  await new Promise((resolve) => httpServer.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => httpServer.close(resolve));
+});
+
+/** A client pinned to one mock scenario via the X-S2T-Mock-Scenario header. */
+function mockClient(scenario?: string, retry: Partial<RetryPolicy> = { maxRetries: 0 }) {
+  return createApiClient(baseUrl, "mock-key", {
+    retry,
+    fetch: (url, init) =>
+      fetch(url, {
+        ...init,
+        headers: {
+          ...(init?.headers as Record<string, string>),
+          ...(scenario ? { "X-S2T-Mock-Scenario": scenario } : {}),
+        },
+      }),
+  });
+}
+
+// ===========================================================================
+// Coverage and contracts
+// ===========================================================================
+
+describe("mock S2T API", () => {
+  it("should mock one route per API-backed tool", () => {
+    expect(Object.keys(MOCK_FIXTURES).sort()).toEqual(Object.keys(ROUTE_TOOLS).sort());
+    const apiTools = TOOLS.filter((t) => t.outputSchema).map((t) => t.name).sort();
+    expect(Object.values(ROUTE_TOOLS).sort()).toEqual(apiTools);
+  });
+
+  it.each(Object.entries(ROUTE_TOOLS))("%s should satisfy the %s output schema", async (route, toolName) => {
+    const [method, endpoint] = route.split(" ");
+    const schema = TOOLS.find((t) => t.name === toolName)!.outputSchema as OutputSchema;
+
+    const data = await mockClient().callApi(endpoint, method, method === "POST" ? {} : undefined);
+
+    expect(() => validateUpstreamResponse(schema, data, { endpoint, method })).not.toThrow();
+  });
+
+  it("should be deterministic for identical requests", async () => {
+    const body = { text: "The quick brown fox" };
+    const first = await mockClient().callApi("/embed", "POST", body);
+    const second = await mockClient().callApi("/embed", "POST", body);
+    expect(first).toEqual(second);
+  });
+
+  // -------------------------------------------------------------------------
+  // Scenarios
+  // -------------------------------------------------------------------------
+
+  it("should serve endpoint variants", async () => {
+    const data = await mockClient("lock_blocked").callApi("/accelerators/lock/acquire", "POST", {
+      file_path: "src/a.ts",
+    });
+    expect(data).toMatchObject({ acquired: false, holder: "agent-security-1", file_path: "src/a.ts" });
+  });
+
+  it.each([
+    ["auth_error", S2TAuthError],
+    ["rate_limited", S2TQuotaError],
+    ["bad_gateway", S2TUpstreamUnavailableError],
+  ] as const)("should map the %s scenario to %s", async (scenario, errorClass) => {
+    await expect(mockClient(scenario).callApi("/catalog")).rejects.toBeInstanceOf(errorClass);
+  });
+
+  it("should fail alternate calls in the flaky scenario until retried", async () => {
+    await expect(mockClient("flaky", { maxRetries: 0 }).callApi("/catalog")).rejects.toBeInstanceOf(
+      S2TUpstreamUnavailableError
+    );
+
+    const client = mockClient("flaky", { maxRetries: 1, baseDelayMs: 1 });
+    await expect(client.callApi("/usage", "GET", undefined, { idempotent: true })).resolves.toMatchObject({
+      tier: "developer",
+    });
+  });
+
+  it("should surface contract drift through the handlers", async () => {
+    const apiClient = mockClient("contract_mismatch");
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain(
+      "Upstream contract mismatch for POST /accelerators/risk/classify: /risk_level"
+    );
+    expect(result._meta?.["s2t/error"]).toMatchObject({ type: UpstreamContractError.name });
+  });
+
+  it("should switch the default scenario at runtime", async () => {
+    const admin = (scenario: string) =>
+      fetch(`${baseUrl}/__mock/scenario`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scenario }),
+      });
+
+    expect((await admin("nope")).status).toBe(400);
+    await admin("auth_error");
+    try {
+      await expect(mockClient().callApi("/catalog")).rejects.toBeInstanceOf(S2TAuthError);
+    } finally {
+      await admin("success");
+    }
+  });
+});
@@ -0,0 +1,758 @@
+/**
+ * S2T Accelerators - Mock S2T API
+ *
+ * An in-process stand-in for the S2T Accelerator Platform covering every
+ * endpoint the tool handlers call. Responses are realistic, deterministic
+ * (IDs, timestamps and vectors derive from the request body, never from the
+ * clock or Math.random) and conform to the tools' output schemas.
+ *
+ * Scenarios select alternative behaviour, per request or server-wide:
+ *
+ *   X-S2T-Mock-Scenario header   per request
+ *   ?scenario= query parameter   per request
+ *   POST /__mock/scenario        switch the server default at runtime
+ *   createMockApiApp({ scenario }) initial default
+ *
+ * Error scenarios apply to every endpoint; the remaining ones are variants of
+ * specific endpoints and fall back to the default response elsewhere.
+ *
+ * @module mock-api
+ */
+
+import express, { Request, Response } from "express";
+import { createHash } from "node:crypto";
+
+// ---------------------------------------------------------------------------
+// Scenarios
+// ---------------------------------------------------------------------------
+
+export const ERROR_SCENARIOS = [
+  "auth_error",
+  "forbidden",
+  "quota_exceeded",
+  "rate_limited",
+  "validation_error",
+  "server_error",
+  "bad_gateway",
+  "flaky",
+  "slow",
+  "contract_mismatch",
+] as const;
+
+export const VARIANT_SCENARIOS = ["high_risk", "lock_blocked", "degraded", "no_match"] as const;
+
+export type MockScenario =
+  | "success"
+  | (typeof ERROR_SCENARIOS)[number]
+  | (typeof VARIANT_SCENARIOS)[number];
+
+export const MOCK_SCENARIOS: readonly MockScenario[] = [
+  "success",
+  ...ERROR_SCENARIOS,
+  ...VARIANT_SCENARIOS,
+];
+
+export interface MockApiOptions {
+  /** Default scenario when a request does not pick one (default: success). */
+  scenario?: MockScenario;
+  /** Delay applied by the "slow" scenario (default: 5000ms). */
+  slowMs?: number;
+}
+
+/** Fixed clock so every response is reproducible. */
+export const MOCK_NOW = "2026-01-15T12:00:00.000Z";
+
+type Body = Record<string, unknown>;
+type Fixture = (body: Body, scenario: MockScenario) => Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Deterministic helpers
+// ---------------------------------------------------------------------------
+
+function digest(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value ?? null)).digest("hex");
+}
+
+function mockId(prefix: string, body: Body): string {
+  return `${prefix}-${digest(body).slice(0, 12)}`;
+}
+
+/** Deterministic unit vector seeded by `text`. */
+function embeddingFor(text: string, dimensions: number): number[] {
+  const vector: number[] = [];
+  let block = digest(text);
+  while (vector.length < dimensions) {
+    for (let i = 0; i + 4 <= block.length && vector.length < dimensions; i += 4) {
+      vector.push(parseInt(block.slice(i, i + 4), 16) / 0xffff - 0.5);
+    }
+    block = digest(block);
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((v) => Number((v / norm).toFixed(6)));
+}
+
+function str(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.length > 0 ? value : fallback;
+}
+
+function timing(ms: number) {
+  return { processing_time_ms: ms };
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures: AI & Embeddings, Infrastructure, Security, Platform
+// ---------------------------------------------------------------------------
+
+const TIERS = {
+  free: { name: "Free", price: 0, limits: { requestsPerMinute: 10, requestsPerMonth: 100 } },
+  developer: { name: "Developer", price: 29, limits: { requestsPerMinute: 60, requestsPerMonth: 5000 } },
+  business: { name: "Business", price: 99, limits: { requestsPerMinute: 300, requestsPerMonth: 50000 } },
+  enterprise: { name: "Enterprise", price: 299, limits: { requestsPerMinute: 1000, requestsPerMonth: null } },
+};
+
+const PLATFORM_FIXTURES: Record<string, Fixture> = {
+  "GET /catalog": () => ({
+    accelerators: [
+      { id: "ACC-AI-001", name: "Vector Embeddings", endpoint: "/embed", description: "Generate embeddings for RAG and semantic search", tier_access: ["free", "developer", "business", "enterprise"] },
+      { id: "ACC-AWS-001", name: "CloudFormation Generator", endpoint: "/generate/cloudformation", description: "Generate SAM/CloudFormation templates from descriptions", tier_access: ["developer", "business", "enterprise"] },
+      { id: "ACC-INT-001", name: "OAuth Validator", endpoint: "/validate/oauth", description: "Detect OAuth 2.0 misconfigurations", tier_access: ["free", "developer", "business", "enterprise"] },
+      { id: "ACC-ACI-002", name: "Agent Governance Kit", endpoint: "/aci/classify", description: "Classify and gate autonomous agent actions", tier_access: ["business", "enterprise"] },
+    ],
+    tiers: TIERS,
+    your_tier: "developer",
+  }),
+
+  "GET /usage": () => ({
+    tier: "developer",
+    email: "dev@example.com",
+    period: "2026-01",
+    usage: { requests: 1240, last_request: MOCK_NOW },
+    limits: { requests_per_minute: 60, requests_per_month: 5000 },
+    remaining: { requests_this_month: 3760 },
+    billing: { tier_price: 29, usage_charges: 0, period_total: 29 },
+  }),
+
+  "POST /embed": (body) => {
+    const text = str(body.text, "");
+    const model = str(body.model, "amazon.titan-embed-text-v2:0");
+    const dimensions = model.endsWith("v1") ? 1536 : 1024;
+    const chunkSize = typeof body.chunk_size === "number" ? body.chunk_size : 512;
+    const words = text.split(/\s+/).filter(Boolean);
+    const chunks = [];
+    for (let i = 0; i < Math.max(words.length, 1); i += chunkSize) {
+      const chunkText = words.slice(i, i + chunkSize).join(" ");
+      chunks.push({
+        text: chunkText,
+        embedding: embeddingFor(chunkText, dimensions),
+        metadata: { word_count: chunkText.split(/\s+/).filter(Boolean).length },
+      });
+    }
+    const tokens = Math.ceil(text.length / 4);
+    return {
+      chunks,
+      summary: { total_chunks: chunks.length, model, dimensions, processing_time_ms: 42 },
+      usage: { tokens_used: tokens, estimated_cost: Number((tokens * 0.00002).toFixed(6)) },
+    };
+  },
+
+  "POST /generate/cloudformation": (body) => {
+    const format = str(body.format, "sam");
+    return {
+      template: [
+        format === "sam" ? "AWSTemplateFormatVersion: '2010-09-09'\nTransform: AWS::Serverless-2016-10-31" : "AWSTemplateFormatVersion: '2010-09-09'",
+        `Description: ${str(body.description, "Generated stack").slice(0, 120)}`,
+        "Resources:",
+        "  ApiFunction:",
+        `    Type: ${format === "sam" ? "AWS::Serverless::Function" : "AWS::Lambda::Function"}`,
+        "  DataTable:",
+        "    Type: AWS::DynamoDB::Table",
+      ].join("\n"),
+      metadata: {
+        format,
+        resource_count: 2,
+        resources: [
+          { logical_id: "ApiFunction", type: format === "sam" ? "AWS::Serverless::Function" : "AWS::Lambda::Function" },
+          { logical_id: "DataTable", type: "AWS::DynamoDB::Table" },
+        ],
+      },
+      warnings: [
+        { code: "CFN-W001", message: "DataTable has no point-in-time recovery", recommendation: "Enable PointInTimeRecoverySpecification" },
+      ],
+      usage: { estimated_cost: 0.002 },
+    };
+  },
+
+  "POST /validate/oauth": (body) => {
+    const uris = Array.isArray(body.redirect_uris) ? (body.redirect_uris as string[]) : [];
+    const insecure = uris.filter((u) => u.startsWith("http://") && !u.includes("localhost"));
+    return {
+      valid: insecure.length === 0,
+      provider: str(body.provider, "generic"),
+      configuration: {
+        authorization_endpoint: str(body.authorization_endpoint, "https://auth.example.com/oauth2/authorize"),
+        token_endpoint: str(body.token_endpoint, "https://auth.example.com/oauth2/token"),
+      },
+      validation: {
+        errors: insecure.map((u) => ({ code: "OAUTH-E002", message: `Redirect URI must use HTTPS: ${u}` })),
+        warnings: [{ code: "OAUTH-W001", message: "PKCE is recommended for public clients" }],
+      },
+      recommendations: [{ field: "code_challenge_method", value: "S256", reason: "Protects the authorization code flow against interception" }],
+    };
+  },
+
+  "POST /validate/mfa-compliance": () => ({
+    status: "AT_RISK",
+    compliance_score: 72,
+    summary: { total_findings: 2, critical: 0, high: 1, medium: 1, low: 0, users_checked: 3, policies_checked: 1, root_checked: true },
+    findings: [
+      { rule_id: "MFA-002", severity: "HIGH", user: "ci-deployer", finding: "Console user without MFA device", recommendation: "Enable a virtual or hardware MFA device" },
+      { rule_id: "MFA-005", severity: "MEDIUM", policy: "AdminAccess", finding: "Policy does not require aws:MultiFactorAuthPresent", recommendation: "Add an MFA condition to privileged policies" },
+    ],
+    recommendations: [
+      { priority: 1, title: "Enforce MFA for console users", description: "All human users should authenticate with MFA", actions: ["Attach an MFA-enforcement policy", "Audit users monthly"] },
+    ],
+  }),
+
+  "POST /generate/dynamodb-design": (body) => {
+    const entities = Array.isArray(body.entities) ? body.entities.length : 0;
+    const patterns = Array.isArray(body.access_patterns) ? body.access_patterns.length : 0;
+    return {
+      design: {
+        table_name: "AppTable",
+        key_schema: { PK: "S", SK: "S" },
+        gsis: [{ name: "GSI1", partition_key: { GSI1PK: "S" }, sort_key: { GSI1SK: "S" } }],
+        entity_mappings: [{ entity: "User", pk: "USER#<id>", sk: "PROFILE" }],
+        access_pattern_mappings: [{ pattern: "Get user by id", index: "table", key_condition: "PK = USER#<id>" }],
+        sample_items: [{ PK: "USER#1", SK: "PROFILE", name: "Ada" }],
+      },
+      cloudformation_template: { Resources: { AppTable: { Type: "AWS::DynamoDB::Table" } } },
+      summary: { entities, access_patterns: patterns, gsis_required: 1 },
+    };
+  },
+
+  "POST /analyze/error-patterns": (body) => {
+    const total = Array.isArray(body.errors) ? body.errors.length : 0;
+    return {
+      summary: { total_errors: total, unique_patterns: 1, critical_count: 0, high_count: 1, trend: "stable", trend_change_percent: 0 },
+      patterns: [
+        {
+          type: "timeout",
+          category: "network",
+          severity: "HIGH",
+          count: total,
+          percentage: 100,
+          common_causes: ["Slow downstream dependency", "Missing client timeout"],
+          remediation: ["Add timeouts and retries with backoff", "Introduce a circuit breaker"],
+          sample_errors: [{ message: "ETIMEDOUT connecting to upstream", timestamp: MOCK_NOW }],
+        },
+      ],
+      recommendations: [{ priority: 1, category: "network", issue: "Upstream timeouts", actions: ["Set a 5s client timeout"] }],
+    };
+  },
+
+  "POST /check/data-lake-readiness": () => ({
+    status: "PARTIALLY_READY",
+    overall_score: 68,
+    summary: { ready_for_production: false, categories_evaluated: 5, total_checks: 20, passed: 13, failed: 4, warnings: 3 },
+    category_scores: {
+      storage: { score: 85, passed: 4, failed: 0 },
+      catalog: { score: 60, passed: 2, failed: 1 },
+      security: { score: 55, passed: 2, failed: 2 },
+      performance: { score: 70, passed: 3, failed: 1 },
+      operations: { score: 75, passed: 2, failed: 0 },
+    },
+    recommendations: [
+      { priority: 1, category: "security", title: "Encrypt and govern access", items: [{ check: "encryption_at_rest", recommendation: "Enable SSE-KMS on all buckets" }] },
+    ],
+  }),
+
+  "POST /validate/iam-policy": () => ({
+    status: "FAIL",
+    score: 35,
+    summary: { statements_analyzed: 1, total_findings: 2, critical: 1, high: 1, medium: 0, low: 0 },
+    findings: [
+      { severity: "CRITICAL", code: "IAM-001", statement: 0, message: "Wildcard action grants full service access", action: "s3:*", recommendation: "Scope actions to what the workload needs" },
+      { severity: "HIGH", code: "IAM-002", statement: 0, message: "Wildcard resource", resource: "*", recommendation: "Restrict to specific ARNs" },
+    ],
+    suggestions: [{ priority: 1, title: "Apply least privilege", description: "Replace wildcards with scoped actions", actions: ["s3:GetObject", "s3:PutObject"] }],
+    scoped_alternatives: {
+      "s3:*": { read: ["s3:GetObject", "s3:ListBucket"], write: ["s3:PutObject", "s3:DeleteObject"], admin: ["s3:PutBucketPolicy"] },
+    },
+    metadata: { policy_version: "2012-10-17", processing_time_ms: 18 },
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Fixtures: Agent Orchestration & Distributed Systems
+// ---------------------------------------------------------------------------
+
+const AGENTS = [
+  { agent_id: "deployment-agent", name: "Deployment Agent", domain: "AWS deployment, CloudFront, S3 sync", capabilities: ["s3-sync", "cloudfront-invalidation", "lambda-deploy"] },
+  { agent_id: "security-agent", name: "Security Agent", domain: "IAM, secrets, compliance", capabilities: ["iam-review", "secret-scan"] },
+  { agent_id: "data-agent", name: "Data Agent", domain: "DynamoDB, data lake, ETL", capabilities: ["schema-design", "glue-jobs"] },
+];
+
+const AGENT_FIXTURES: Record<string, Fixture> = {
+  "POST /accelerators/risk/classify": (_body, scenario) =>
+    scenario === "high_risk"
+      ? {
+          risk_level: "CRITICAL",
+          score: 92,
+          factors: [
+            { name: "environment", weight: 0.4, value: "production", contribution: 40 },
+            { name: "destructive_command", weight: 0.5, value: "true", contribution: 52 },
+          ],
+          recommendation: "Block: destructive action against production requires human approval",
+          auto_approve: false,
+          metadata: { processing_time_ms: 7, model_version: "risk-v2.1" },
+        }
+      : {
+          risk_level: "LOW",
+          score: 12,
+          factors: [{ name: "environment", weight: 0.4, value: "local", contribution: 4 }],
+          recommendation: "Safe to proceed automatically",
+          auto_approve: true,
+          metadata: { processing_time_ms: 5, model_version: "risk-v2.1" },
+        },
+
+  "POST /accelerators/agent/route": (body) => {
+    const topK = typeof body.top_k === "number" ? body.top_k : 5;
+    const candidates = AGENTS.map((agent, i) => ({ ...agent, similarity_score: Number((0.89 - i * 0.17).toFixed(2)) })).slice(0, topK);
+    return {
+      best_match: candidates[0],
+      candidates,
+      routing_method: "semantic",
+      confidence: 0.89,
+      metadata: { agents_evaluated: AGENTS.length, processing_time_ms: 23 },
+    };
+  },
+
+  "POST /accelerators/predict/issues": (body) => ({
+    issues: [
+      { category: "capacity", severity: "HIGH", description: "Disk usage will exceed 90% at the current growth rate", predicted_date: "2026-02-02", confidence: 0.81, recommended_action: "Expand the volume or enable log rotation" },
+      { category: "latency", severity: "MEDIUM", description: "p99 latency trending upward", predicted_date: "2026-02-20", confidence: 0.64, recommended_action: "Profile the slowest endpoints" },
+    ],
+    health_score: 71,
+    summary: { total_predictions: 2, critical: 0, high: 1, medium: 1, low: 0 },
+    metadata: { analysis_window_days: typeof body.analysis_window_days === "number" ? body.analysis_window_days : 30, processing_time_ms: 31 },
+  }),
+
+  "POST /accelerators/recovery/attempt": (body, scenario) =>
+    scenario === "no_match"
+      ? {
+          matched: false,
+          pattern_id: null,
+          error_type: "unknown",
+          confidence: 0.1,
+          recovery_steps: [],
+          historical_success_rate: 0,
+          metadata: { patterns_checked: 48, processing_time_ms: 12 },
+        }
+      : {
+          matched: true,
+          pattern_id: "PAT-ECONNREFUSED-001",
+          error_type: str(body.error_source, "network"),
+          confidence: 0.87,
+          recovery_steps: [
+            { step: 1, action: "Check that the dependency is listening", command: "nc -z localhost 5432", expected_outcome: "Port reports open" },
+            { step: 2, action: "Restart the dependency", command: "docker compose restart db", expected_outcome: "Service healthy within 30s" },
+          ],
+          historical_success_rate: 0.92,
+          metadata: { patterns_checked: 48, processing_time_ms: 9 },
+        },
+
+  "POST /accelerators/resilience/execute": (body, scenario) => {
+    const maxRetries = typeof body.max_retries === "number" ? body.max_retries : 3;
+    const baseDelay = typeof body.base_delay_ms === "number" ? body.base_delay_ms : 1000;
+    const failed = scenario === "degraded";
+    return {
+      success: !failed,
+      attempts: failed ? maxRetries + 1 : 2,
+      total_latency_ms: failed ? baseDelay * 7 : baseDelay + 120,
+      circuit_breaker_state: failed ? "open" : "closed",
+      last_error: failed ? "Upstream returned 503 Service Unavailable" : null,
+      metadata: { retry_config: { max_retries: maxRetries, base_delay_ms: baseDelay, max_delay_ms: 30000 } },
+    };
+  },
+
+  "POST /accelerators/agent/memory": (body) => {
+    const operation = str(body.operation, "retrieve") as "store" | "retrieve" | "search" | "delete";
+    const namespace = str(body.namespace, "default");
+    const key = str(body.key, "last_deployment");
+    const entries =
+      operation === "delete"
+        ? []
+        : [{ key, value: body.value ?? { status: "succeeded", version: "1.4.2" }, namespace, created_at: MOCK_NOW, updated_at: MOCK_NOW }];
+    return {
+      operation,
+      success: true,
+      entries,
+      total_entries: entries.length,
+      namespace,
+      metadata: { storage_used_bytes: 2048, processing_time_ms: 4 },
+    };
+  },
+
+  "POST /accelerators/agent/task": (body) => ({
+    task_id: mockId("task", body),
+    agent_id: str(body.agent_id, "deployment-agent"),
+    status: "queued",
+    queue_position: body.priority === "critical" ? 1 : 3,
+    estimated_wait_ms: body.priority === "critical" ? 0 : 4500,
+    metadata: { queue_depth: 3, processing_time_ms: 6 },
+  }),
+
+  "POST /accelerators/trace/create": (body) => {
+    const parent = typeof body.parent_traceparent === "string" ? body.parent_traceparent.split("-") : [];
+    const traceId = parent.length === 4 ? parent[1] : digest(body).slice(0, 32);
+    const spanId = digest({ ...body, span: true }).slice(0, 16);
+    return {
+      traceparent: `00-${traceId}-${spanId}-01`,
+      trace_id: traceId,
+      span_id: spanId,
+      version: "00",
+      created_at: MOCK_NOW,
+      metadata: { format: "w3c-trace-context" },
+    };
+  },
+
+  "POST /accelerators/lock/acquire": (body, scenario) => {
+    const filePath = str(body.file_path, "src/index.ts");
+    if (body.operation === "release") {
+      return { acquired: false, lock_token: null, file_path: filePath, stale_cleaned: false, metadata: { wait_time_ms: 0, processing_time_ms: 3 } };
+    }
+    return scenario === "lock_blocked"
+      ? { acquired: false, lock_token: null, file_path: filePath, holder: "agent-security-1", stale_cleaned: false, metadata: { wait_time_ms: 5000, processing_time_ms: 5004 } }
+      : { acquired: true, lock_token: mockId("lock", body), file_path: filePath, stale_cleaned: false, metadata: { wait_time_ms: 0, processing_time_ms: 3 } };
+  },
+
+  "POST /accelerators/cli/validate": (body, scenario) => {
+    const tools = Array.isArray(body.cli_tools) ? (body.cli_tools as string[]) : ["codex"];
+    const degraded = scenario === "degraded";
+    return {
+      ready: !degraded,
+      checks: tools.map((name) =>
+        degraded
+          ? { name, status: "fail", message: `${name} CLI not found on PATH` }
+          : { name, status: "pass", message: `${name} CLI available`, version: "1.0.0" }
+      ),
+      degradation_mode: degraded ? "api-only" : null,
+      recommendations: degraded ? tools.map((name) => `Install the ${name} CLI or continue in api-only mode`) : [],
+      metadata: { total_checks: tools.length, processing_time_ms: 11 },
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Fixtures: ACI Governance
+// ---------------------------------------------------------------------------
+
+const ACI_FIXTURES: Record<string, Fixture> = {
+  "POST /aci/classify": (body, scenario) => {
+    const blocked = scenario === "high_risk";
+    return {
+      decision_id: mockId("dec", body),
+      classification: blocked ? "BLOCK" : "APPROVE",
+      confidence: blocked ? 0.94 : 0.91,
+      reasoning: blocked
+        ? "Irreversible change to production data without an approved change window"
+        : "Read-only action in a non-production environment",
+      domain_scores: { security: blocked ? 0.9 : 0.1, financial: 0.05, operational: blocked ? 0.7 : 0.1 },
+      rule_matches: blocked ? ["PROD-DESTRUCTIVE-001"] : [],
+      requires_human_approval: blocked,
+      metadata: { pipeline_stages: ["rules", "classifier"], llm_invoked: false, processing_time_ms: 14 },
+    };
+  },
+
+  "POST /aci/financial-gate": (body) => {
+    const hourly = 0.62;
+    const hours = typeof body.duration_hours === "number" ? body.duration_hours : 730;
+    const monthly = Number((hourly * Math.min(hours, 730)).toFixed(2));
+    const exceeds = monthly > 1000;
+    return {
+      estimated_cost: { one_time: 0, hourly, monthly, annual: Number((monthly * 12).toFixed(2)) },
+      budget_impact: { percent_of_remaining: Number(((monthly / 2500) * 100).toFixed(1)), exceeds_budget: exceeds, overage_amount: exceeds ? monthly - 1000 : 0 },
+      gate_result: exceeds ? "ESCALATE" : "APPROVE",
+      reasoning: exceeds ? "Monthly cost exceeds the auto-approval threshold" : "Within budget and auto-approval threshold",
+      alternatives: ["Use Graviton instances", "Purchase a Savings Plan"],
+      metadata: timing(8),
+    };
+  },
+
+  "POST /aci/compliance": (body) => {
+    const frameworks = Array.isArray(body.frameworks) ? (body.frameworks as string[]) : ["SOC2"];
+    return {
+      compliance_result: "WARN",
+      frameworks_evaluated: frameworks,
+      violations: [],
+      warnings: [{ framework: frameworks[0], control: "CC6.1", requirement: "Logical access changes must be reviewed" }],
+      passed: [{ framework: frameworks[0], control: "CC7.2", requirement: "System changes are logged" }],
+      metadata: timing(10),
+    };
+  },
+
+  "POST /aci/route": () => ({
+    primary_domain: "security",
+    confidence: 0.86,
+    secondary_domains: ["operations"],
+    recommended_agents: [
+      { agent_id: "security-agent", domain: "security", score: 0.86 },
+      { agent_id: "ops-agent", domain: "operations", score: 0.61 },
+    ],
+    governance_flags: { requires_parallel_review: true, minimum_reviewers: 2, escalation_path: "security-lead" },
+    metadata: timing(9),
+  }),
+
+  "POST /aci/parallel-review": (body) => {
+    const domains = Array.isArray(body.reviewers) ? (body.reviewers as string[]) : ["security", "ops"];
+    const sessionId = mockId("review", body);
+    return {
+      review_session_id: sessionId,
+      status: "DISPATCHED",
+      reviewers_dispatched: domains.length,
+      reviewers: domains.map((domain, i) => ({ domain, status: "PENDING", task_id: `${sessionId}-${i + 1}` })),
+      timeout_at: new Date(Date.parse(MOCK_NOW) + (typeof body.timeout_seconds === "number" ? body.timeout_seconds : 300) * 1000).toISOString(),
+      completion_criteria: {
+        require_unanimity: body.require_unanimity ?? false,
+        minimum_approvals: typeof body.minimum_approvals === "number" ? body.minimum_approvals : domains.length,
+      },
+      metadata: timing(16),
+    };
+  },
+
+  "POST /aci/synthesize": (body) => {
+    const reviews = Array.isArray(body.reviews) ? (body.reviews as Array<Record<string, unknown>>) : [];
+    const summary = reviews.map((r) => ({
+      domain: str(r.domain, "general"),
+      classification: (["APPROVE", "ESCALATE", "BLOCK"].includes(r.classification as string) ? r.classification : "ESCALATE") as string,
+      confidence: typeof r.confidence === "number" ? r.confidence : 0.5,
+    }));
+    const blocking = summary.filter((r) => r.classification === "BLOCK").map((r) => r.domain);
+    const consensus = new Set(summary.map((r) => r.classification)).size <= 1;
+    return {
+      review_session_id: str(body.review_session_id, "review-unknown"),
+      synthesized_classification: blocking.length > 0 ? "BLOCK" : consensus && summary[0] ? summary[0].classification : "ESCALATE",
+      synthesized_confidence: summary.length > 0 ? Number((summary.reduce((sum, r) => sum + r.confidence, 0) / summary.length).toFixed(2)) : 0,
+      synthesized_reasoning: blocking.length > 0 ? `Blocked by ${blocking.join(", ")} review` : consensus ? "Reviewers agree" : "Reviewers disagree; escalating",
+      reviewer_summary: summary,
+      consensus_reached: consensus,
+      blocking_domains: blocking,
+      action_items: blocking.map((domain) => `Resolve ${domain} concerns before proceeding`),
+      metadata: timing(12),
+    };
+  },
+
+  "POST /aci/decision-log": (body) => ({
+    decision_id: mockId("dec", body),
+    status: "LOGGED",
+    created_at: MOCK_NOW,
+    metadata: timing(6),
+  }),
+
+  "POST /aci/recall": () => ({
+    precedents: [
+      {
+        decision_id: "dec-5f1c2a9b7e31",
+        action: "Rotate production database credentials",
+        classification: "ESCALATE",
+        confidence: 0.82,
+        reasoning: "Credential rotation in production requires an approved window",
+        similarity_score: 0.88,
+        created_at: "2025-12-02T09:30:00.000Z",
+        outcome: "success",
+      },
+    ],
+    total_matches: 1,
+    returned: 1,
+    metadata: timing(11),
+  }),
+
+  "POST /aci/calibrate": (body) => ({
+    decision_id: str(body.decision_id, "dec-unknown"),
+    outcome_recorded: true,
+    calibration_updated: true,
+    calibration_delta: { confidence_adjustment: -0.02 },
+    metadata: timing(7),
+  }),
+
+  "POST /aci/blast-radius": (_body, scenario) => {
+    const critical = scenario === "high_risk";
+    return {
+      blast_radius: {
+        scope: critical ? "CRITICAL" : "MEDIUM",
+        affected_systems: critical ? 9 : 3,
+        affected_users: critical ? 12000 : 450,
+        affected_data_records: critical ? 2500000 : 12000,
+        cascade_depth: critical ? 4 : 2,
+        estimated_downtime_minutes: critical ? 240 : 15,
+        estimated_recovery_hours: critical ? 8 : 0.5,
+      },
+      impact_chain: [
+        { system: "orders-api", impact: "Elevated error rate during deploy", severity: critical ? "CRITICAL" : "MEDIUM" },
+        { system: "billing-worker", impact: "Delayed invoice processing", severity: "LOW" },
+      ],
+      reversibility: critical ? "IRREVERSIBLE" : "REVERSIBLE",
+      recommendation: critical ? "Do not proceed without a tested restore" : "Proceed during the maintenance window",
+      risk_score: critical ? 91 : 42,
+      metadata: timing(19),
+    };
+  },
+
+  "POST /aci/rollback": () => ({
+    rollback_plan: {
+      feasibility: "HIGH",
+      estimated_rollback_time_minutes: 12,
+      data_loss_risk: "LOW",
+      steps: [
+        { step: 1, action: "Shift traffic back to the previous version", command: "aws lambda update-alias --name live --function-version 41", rollback_of_step: null },
+        { step: 2, action: "Verify health checks", command: null, rollback_of_step: 1 },
+      ],
+      pre_requisites: ["Previous version still published"],
+      warnings: ["Schema migrations are not rolled back automatically"],
+    },
+    metadata: timing(13),
+  }),
+
+  "POST /aci/health": (body) => ({
+    org_id: "org-demo",
+    time_range: str(body.time_range, "7d"),
+    health_score: 84,
+    metrics: {
+      total_decisions: 312,
+      classification_distribution: { APPROVE: 241, ESCALATE: 58, BLOCK: 13 },
+      average_confidence: 0.86,
+      average_processing_time_ms: 14.2,
+      decisions_with_outcomes: 190,
+      false_positive_rate: 0.04,
+      false_negative_rate: 0.01,
+    },
+    calibration_status: { last_calibrated_at: MOCK_NOW, drift: "LOW" },
+    active_rules: 27,
+    rule_match_rate: 0.31,
+    metadata: timing(21),
+  }),
+};
+
+/** Every mocked route, keyed "METHOD /path". */
+export const MOCK_FIXTURES: Readonly<Record<string, Fixture>> = {
+  ...PLATFORM_FIXTURES,
+  ...AGENT_FIXTURES,
+  ...ACI_FIXTURES,
+};
+
+// ---------------------------------------------------------------------------
+// Error scenarios
+// ---------------------------------------------------------------------------
+
+function sendError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({ error: { code, message, request_id: `mock-${status}` } });
+}
+
+function sendScenarioError(res: Response, scenario: MockScenario): boolean {
+  switch (scenario) {
+    case "auth_error":
+      sendError(res, 401, "INVALID_API_KEY", "Invalid or revoked API key");
+      return true;
+    case "forbidden":
+      sendError(res, 403, "TIER_RESTRICTED", "This accelerator is not included in your tier");
+      return true;
+    case "quota_exceeded":
+      sendError(res, 402, "QUOTA_EXCEEDED", "Monthly request quota exhausted");
+      return true;
+    case "rate_limited":
+      res.setHeader("Retry-After", "1");
+      sendError(res, 429, "RATE_LIMITED", "Too many requests");
+      return true;
+    case "validation_error":
+      sendError(res, 400, "VALIDATION_FAILED", "Request body failed validation");
+      return true;
+    case "server_error":
+      sendError(res, 500, "INTERNAL_ERROR", "Unexpected error while processing the request");
+      return true;
+    case "bad_gateway":
+      res.status(502).type("text/html").send("<html><body><h1>502 Bad Gateway</h1></body></html>");
+      return true;
+    default:
+      return false;
+  }
+}
+
+function parseScenario(value: unknown): MockScenario | undefined {
+  return MOCK_SCENARIOS.includes(value as MockScenario) ? (value as MockScenario) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// App factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the mock API as an express app. Callers own the listener, so tests
+ * can bind an ephemeral port and the CLI (mock-api-server.ts) a fixed one.
+ */
+export function createMockApiApp(options: MockApiOptions = {}): express.Express {
+  let defaultScenario: MockScenario = options.scenario ?? "success";
+  const slowMs = options.slowMs ?? 5_000;
+  const hits = new Map<string, number>();
+
+  const app = express();
+  app.use(express.json({ limit: "2mb" }));
+
+  app.get("/__mock/scenario", (_req: Request, res: Response) => {
+    res.json({ scenario: defaultScenario, available: MOCK_SCENARIOS });
+  });
+
+  app.post("/__mock/scenario", (req: Request, res: Response) => {
+    const scenario = parseScenario(req.body?.scenario);
+    if (!scenario) {
+      res.status(400).json({ error: { message: `Unknown scenario. Use one of: ${MOCK_SCENARIOS.join(", ")}` } });
+      return;
+    }
+    defaultScenario = scenario;
+    hits.clear();
+    res.json({ scenario });
+  });
+
+  app.use(async (req: Request, res: Response) => {
+    const route = `${req.method} ${req.path}`;
+    const fixture = MOCK_FIXTURES[route];
+    if (!fixture) {
+      sendError(res, 404, "NOT_FOUND", `No mock for ${route}`);
+      return;
+    }
+    if (!req.header("X-S2T-API-Key")) {
+      sendError(res, 401, "MISSING_API_KEY", "X-S2T-API-Key header is required");
+      return;
+    }
+
+    const scenario =
+      parseScenario(req.header("X-S2T-Mock-Scenario")) ??
+      parseScenario(req.query.scenario) ??
+      defaultScenario;
+
+    if (sendScenarioError(res, scenario)) return;
+
+    if (scenario === "flaky") {
+      // Odd-numbered calls to each route fail with a retryable 503.
+      const count = (hits.get(route) ?? 0) + 1;
+      hits.set(route, count);
+      if (count % 2 === 1) {
+        sendError(res, 503, "SERVICE_UNAVAILABLE", "Temporarily unavailable, retry");
+        return;
+      }
+    }
+    if (scenario === "slow") {
+      await new Promise((resolve) => setTimeout(resolve, slowMs));
+      if (res.writableEnded || req.socket.destroyed) return;
+    }
+
+    const body = fixture((req.body ?? {}) as Body, scenario);
+    if (scenario === "contract_mismatch") {
+      // Drop the first field so clients exercise their drift diagnostics.
+      const [first] = Object.keys(body);
+      delete body[first];
+    }
+    res.json(body);
+  });
+
+  return app;
+}
@@ -0,0 +1,509 @@
+/**
+ * S2T Accelerators - Tool Output Schemas
+ *
+ * JSON Schemas advertised as each tool's `outputSchema`. They mirror the
+ * response interfaces in handlers.ts (and the ACI governance responses), so
+ * the `structuredContent` returned alongside the Markdown rendering can be
+ * consumed by downstream automation without parsing text.
+ *
+ * Schemas list every field the renderers rely on as `required`, and never set
+ * `additionalProperties: false` -- the API may add fields at any time.
+ * Supplementary sections (metadata, usage, billing, recommendations, ...)
+ * are optional: the renderers skip them when absent. Every API-backed tool
+ * checks each upstream response against its tool's schema before the
+ * handler renders it (server-setup's api() binding), so drift surfaces as
+ * an UpstreamContractError.
+ *
+ * @module output-schemas
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export type OutputSchema = NonNullable<Tool["outputSchema"]>;
+
+type JsonSchema = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Schema builders
+// ---------------------------------------------------------------------------
+
+const str: JsonSchema = { type: "string" };
+const num: JsonSchema = { type: "number" };
+const int: JsonSchema = { type: "integer" };
+const bool: JsonSchema = { type: "boolean" };
+const any: JsonSchema = {};
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { ...schema, type: [schema.type as string, "null"] };
+}
+
+function oneOf(...values: string[]): JsonSchema {
+  return { type: "string", enum: values };
+}
+
+function arr(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+function map(values: JsonSchema): JsonSchema {
+  return { type: "object", additionalProperties: values };
+}
+
+/**
+ * Object schema. Every property is required unless its key ends in "?",
+ * mirroring optional fields in the TypeScript interfaces.
+ */
+function obj(properties: Record<string, JsonSchema>): JsonSchema {
+  const props: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, schema] of Object.entries(properties)) {
+    if (key.endsWith("?")) {
+      props[key.slice(0, -1)] = schema;
+    } else {
+      props[key] = schema;
+      required.push(key);
+    }
+  }
+  return { type: "object", properties: props, required };
+}
+
+function output(properties: Record<string, JsonSchema>): OutputSchema {
+  return obj(properties) as OutputSchema;
+}
+
+const severityCounts = { critical: int, high: int, medium: int, low: int };
+const timing = obj({ processing_time_ms: num });
+
+// ---------------------------------------------------------------------------
+// AI & Embeddings
+// ---------------------------------------------------------------------------
+
+export const EMBED_OUTPUT_SCHEMA = output({
+  chunks: arr(obj({ text: str, metadata: obj({ word_count: int }) })),
+  summary: obj({ total_chunks: int, model: str, dimensions: int, processing_time_ms: num }),
+  "usage?": obj({ tokens_used: int, estimated_cost: num }),
+});
+
+export const ERROR_PATTERNS_OUTPUT_SCHEMA = output({
+  summary: obj({
+    total_errors: int,
+    unique_patterns: int,
+    critical_count: int,
+    high_count: int,
+    trend: str,
+    trend_change_percent: num,
+  }),
+  patterns: arr(obj({
+    type: str,
+    category: str,
+    severity: str,
+    count: int,
+    percentage: num,
+    common_causes: arr(str),
+    remediation: arr(str),
+    sample_errors: arr(obj({ message: str, "timestamp?": str })),
+  })),
+  "recommendations?": arr(obj({ priority: int, category: str, issue: str, "actions?": arr(str) })),
+});
+
+// ---------------------------------------------------------------------------
+// Infrastructure & Cloud
+// ---------------------------------------------------------------------------
+
+export const CLOUDFORMATION_OUTPUT_SCHEMA = output({
+  template: str,
+  metadata: obj({
+    format: str,
+    resource_count: int,
+    resources: arr(obj({ logical_id: str, type: str })),
+  }),
+  "warnings?": arr(obj({ code: str, message: str, recommendation: str })),
+  "usage?": obj({ estimated_cost: num }),
+});
+
+export const OAUTH_OUTPUT_SCHEMA = output({
+  valid: bool,
+  provider: str,
+  configuration: obj({ authorization_endpoint: str, token_endpoint: str }),
+  validation: obj({
+    errors: arr(obj({ code: str, message: str })),
+    warnings: arr(obj({ code: str, message: str })),
+  }),
+  "recommendations?": arr(obj({ field: str, value: str, reason: str })),
+});
+
+export const DYNAMODB_DESIGN_OUTPUT_SCHEMA = output({
+  design: obj({
+    table_name: str,
+    key_schema: { type: "object" },
+    "gsis?": arr(obj({ name: str, partition_key: any, "sort_key?": any })),
+    entity_mappings: arr(any),
+    access_pattern_mappings: arr(any),
+    sample_items: arr(any),
+  }),
+  cloudformation_template: { type: "object" },
+  summary: obj({ entities: int, access_patterns: int, gsis_required: int }),
+});
+
+export const DATA_LAKE_READINESS_OUTPUT_SCHEMA = output({
+  status: str,
+  overall_score: num,
+  summary: obj({
+    ready_for_production: bool,
+    categories_evaluated: int,
+    total_checks: int,
+    passed: int,
+    failed: int,
+    warnings: int,
+  }),
+  category_scores: map(obj({ score: num, passed: int, failed: int })),
+  "recommendations?": arr(obj({
+    priority: int,
+    category: str,
+    title: str,
+    items: arr(obj({ check: str, recommendation: str })),
+  })),
+});
+
+// ---------------------------------------------------------------------------
+// Security & Compliance
+// ---------------------------------------------------------------------------
+
+export const IAM_POLICY_OUTPUT_SCHEMA = output({
+  status: str,
+  score: num,
+  summary: obj({ statements_analyzed: int, total_findings: int, ...severityCounts }),
+  findings: arr(obj({
+    severity: str,
+    code: str,
+    statement: int,
+    message: str,
+    "action?": str,
+    "resource?": str,
+    recommendation: str,
+  })),
+  "suggestions?": arr(obj({
+    priority: int,
+    title: str,
+    description: str,
+    "actions?": arr(str),
+    "resources?": arr(str),
+  })),
+  "scoped_alternatives?": map(obj({ read: arr(str), write: arr(str), admin: arr(str) })),
+  "metadata?": obj({ policy_version: str, processing_time_ms: num }),
+});
+
+export const MFA_COMPLIANCE_OUTPUT_SCHEMA = output({
+  status: str,
+  compliance_score: num,
+  summary: obj({
+    total_findings: int,
+    ...severityCounts,
+    users_checked: int,
+    policies_checked: int,
+    root_checked: bool,
+  }),
+  findings: arr(obj({
+    rule_id: str,
+    severity: str,
+    "user?": str,
+    "policy?": str,
+    finding: str,
+    recommendation: str,
+  })),
+  "recommendations?": arr(obj({ priority: int, title: str, description: str, "actions?": arr(str) })),
+});
+
+export const CLI_READINESS_OUTPUT_SCHEMA = output({
+  ready: bool,
+  checks: arr(obj({ name: str, status: oneOf("pass", "fail", "warn"), message: str, "version?": str })),
+  degradation_mode: nullable(str),
+  "recommendations?": arr(str),
+  "metadata?": obj({ total_checks: int, processing_time_ms: num }),
+});
+
+// ---------------------------------------------------------------------------
+// Platform
+// ---------------------------------------------------------------------------
+
+export const CATALOG_OUTPUT_SCHEMA = output({
+  accelerators: arr(obj({ id: str, name: str, endpoint: str, description: str, tier_access: arr(str) })),
+  "tiers?": map(obj({
+    name: str,
+    price: num,
+    limits: obj({ requestsPerMinute: int, requestsPerMonth: nullable(int) }),
+  })),
+  your_tier: str,
+});
+
+export const USAGE_OUTPUT_SCHEMA = output({
+  tier: str,
+  email: str,
+  period: str,
+  usage: obj({ requests: int, last_request: nullable(str) }),
+  limits: obj({ requests_per_minute: int, requests_per_month: int }),
+  remaining: obj({ requests_this_month: int }),
+  "billing?": obj({ tier_price: num, usage_charges: num, period_total: num }),
+});
+
+// ---------------------------------------------------------------------------
+// Agent Orchestration
+// ---------------------------------------------------------------------------
+
+export const RISK_CLASSIFICATION_OUTPUT_SCHEMA = output({
+  risk_level: oneOf("LOW", "MEDIUM", "HIGH", "CRITICAL"),
+  score: num,
+  factors: arr(obj({ name: str, weight: num, value: str, contribution: num })),
+  recommendation: str,
+  auto_approve: bool,
+  "metadata?": obj({ processing_time_ms: num, model_version: str }),
+});
+
+const agentCandidate = obj({
+  agent_id: str,
+  name: str,
+  domain: str,
+  similarity_score: num,
+  "capabilities?": arr(str),
+});
+
+export const TASK_ROUTING_OUTPUT_SCHEMA = output({
+  best_match: agentCandidate,
+  candidates: arr(agentCandidate),
+  routing_method: oneOf("semantic", "keyword", "fallback"),
+  confidence: num,
+  "metadata?": obj({ agents_evaluated: int, processing_time_ms: num }),
+});
+
+export const SYSTEM_PREDICTION_OUTPUT_SCHEMA = output({
+  issues: arr(obj({
+    category: str,
+    severity: oneOf("LOW", "MEDIUM", "HIGH", "CRITICAL"),
+    description: str,
+    predicted_date: str,
+    confidence: num,
+    recommended_action: str,
+  })),
+  health_score: num,
+  summary: obj({ total_predictions: int, ...severityCounts }),
+  "metadata?": obj({ analysis_window_days: int, processing_time_ms: num }),
+});
+
+export const RECOVERY_OUTPUT_SCHEMA = output({
+  matched: bool,
+  pattern_id: nullable(str),
+  error_type: str,
+  confidence: num,
+  recovery_steps: arr(obj({ step: int, action: str, "command?": str, expected_outcome: str })),
+  historical_success_rate: num,
+  "metadata?": obj({ patterns_checked: int, processing_time_ms: num }),
+});
+
+export const RESILIENCE_OUTPUT_SCHEMA = output({
+  success: bool,
+  attempts: int,
+  total_latency_ms: num,
+  circuit_breaker_state: oneOf("closed", "open", "half-open"),
+  last_error: nullable(str),
+  "metadata?": obj({
+    retry_config: obj({ max_retries: int, base_delay_ms: num, max_delay_ms: num }),
+  }),
+});
+
+export const AGENT_MEMORY_OUTPUT_SCHEMA = output({
+  operation: oneOf("store", "retrieve", "search", "delete"),
+  success: bool,
+  entries: arr(obj({
+    key: str,
+    value: any,
+    namespace: str,
+    created_at: str,
+    updated_at: str,
+    "ttl?": num,
+  })),
+  total_entries: int,
+  namespace: str,
+  "metadata?": obj({ storage_used_bytes: int, processing_time_ms: num }),
+});
+
+export const TASK_SUBMISSION_OUTPUT_SCHEMA = output({
+  task_id: str,
+  agent_id: str,
+  status: oneOf("queued", "rejected"),
+  queue_position: int,
+  estimated_wait_ms: num,
+  "metadata?": obj({ queue_depth: int, processing_time_ms: num }),
+});
+
+// ---------------------------------------------------------------------------
+// Distributed Systems
+// ---------------------------------------------------------------------------
+
+export const TRACE_CONTEXT_OUTPUT_SCHEMA = output({
+  traceparent: str,
+  trace_id: str,
+  span_id: str,
+  version: str,
+  created_at: str,
+  "metadata?": obj({ format: str }),
+});
+
+export const FILE_LOCK_OUTPUT_SCHEMA = output({
+  acquired: bool,
+  lock_token: nullable(str),
+  file_path: str,
+  "holder?": str,
+  stale_cleaned: bool,
+  "metadata?": obj({ wait_time_ms: num, processing_time_ms: num }),
+});
+
+// ---------------------------------------------------------------------------
+// ACI Governance
+// ---------------------------------------------------------------------------
+
+const governanceDecision = oneOf("APPROVE", "ESCALATE", "BLOCK");
+
+export const ACI_CLASSIFY_OUTPUT_SCHEMA = output({
+  decision_id: str,
+  classification: governanceDecision,
+  confidence: num,
+  reasoning: str,
+  "domain_scores?": map(num),
+  "rule_matches?": arr(str),
+  requires_human_approval: bool,
+  "metadata?": obj({ "pipeline_stages?": arr(str), "llm_invoked?": bool, processing_time_ms: num }),
+});
+
+export const ACI_FINANCIAL_GATE_OUTPUT_SCHEMA = output({
+  estimated_cost: obj({ one_time: num, hourly: num, monthly: num, annual: num }),
+  budget_impact: obj({ percent_of_remaining: num, exceeds_budget: bool, overage_amount: num }),
+  gate_result: governanceDecision,
+  reasoning: str,
+  "alternatives?": arr(str),
+  "metadata?": timing,
+});
+
+const complianceControl = obj({ framework: str, control: str, requirement: str });
+
+export const ACI_COMPLIANCE_OUTPUT_SCHEMA = output({
+  compliance_result: str,
+  frameworks_evaluated: arr(str),
+  violations: arr(complianceControl),
+  warnings: arr(complianceControl),
+  "passed?": arr(complianceControl),
+  "metadata?": timing,
+});
+
+export const ACI_ROUTE_DOMAIN_OUTPUT_SCHEMA = output({
+  primary_domain: str,
+  confidence: num,
+  "secondary_domains?": arr(str),
+  recommended_agents: arr(obj({ agent_id: str, domain: str, score: num })),
+  "governance_flags?": obj({
+    "requires_parallel_review?": bool,
+    "minimum_reviewers?": int,
+    "escalation_path?": str,
+  }),
+  "metadata?": timing,
+});
+
+export const ACI_PARALLEL_REVIEW_OUTPUT_SCHEMA = output({
+  review_session_id: str,
+  status: str,
+  reviewers_dispatched: int,
+  reviewers: arr(obj({ domain: str, status: str, "task_id?": str })),
+  "timeout_at?": str,
+  "completion_criteria?": { type: "object" },
+  "metadata?": timing,
+});
+
+export const ACI_SYNTHESIZE_REVIEWS_OUTPUT_SCHEMA = output({
+  review_session_id: str,
+  synthesized_classification: governanceDecision,
+  synthesized_confidence: num,
+  synthesized_reasoning: str,
+  reviewer_summary: arr(obj({ domain: str, classification: governanceDecision, confidence: num })),
+  consensus_reached: bool,
+  "blocking_domains?": arr(str),
+  "action_items?": arr(str),
+  "metadata?": timing,
+});
+
+export const ACI_LOG_DECISION_OUTPUT_SCHEMA = output({
+  decision_id: str,
+  status: str,
+  created_at: str,
+  "metadata?": timing,
+});
+
+export const ACI_RECALL_PRECEDENT_OUTPUT_SCHEMA = output({
+  precedents: arr(obj({
+    decision_id: str,
+    action: str,
+    classification: governanceDecision,
+    "confidence?": num,
+    "reasoning?": str,
+    similarity_score: num,
+    "created_at?": str,
+    "outcome?": nullable(str),
+  })),
+  total_matches: int,
+  returned: int,
+  "metadata?": timing,
+});
+
+export const ACI_RECORD_OUTCOME_OUTPUT_SCHEMA = output({
+  decision_id: str,
+  outcome_recorded: bool,
+  calibration_updated: bool,
+  "calibration_delta?": { type: "object" },
+  "metadata?": timing,
+});
+
+export const ACI_BLAST_RADIUS_OUTPUT_SCHEMA = output({
+  blast_radius: obj({
+    scope: oneOf("LOW", "MEDIUM", "HIGH", "CRITICAL"),
+    affected_systems: int,
+    affected_users: int,
+    affected_data_records: int,
+    cascade_depth: int,
+    estimated_downtime_minutes: num,
+    estimated_recovery_hours: num,
+  }),
+  impact_chain: arr(obj({ system: str, impact: str, severity: str })),
+  reversibility: str,
+  recommendation: str,
+  risk_score: num,
+  "metadata?": timing,
+});
+
+export const ACI_ROLLBACK_OUTPUT_SCHEMA = output({
+  rollback_plan: obj({
+    feasibility: str,
+    estimated_rollback_time_minutes: num,
+    data_loss_risk: str,
+    steps: arr(obj({ step: int, action: str, "command?": nullable(str), "rollback_of_step?": nullable(int) })),
+    "pre_requisites?": arr(str),
+    "warnings?": arr(str),
+  }),
+  "metadata?": timing,
+});
+
+export const ACI_GOVERNANCE_HEALTH_OUTPUT_SCHEMA = output({
+  "org_id?": str,
+  time_range: str,
+  health_score: num,
+  metrics: obj({
+    total_decisions: int,
+    classification_distribution: map(int),
+    "average_confidence?": num,
+    "average_processing_time_ms?": num,
+    "decisions_with_outcomes?": int,
+    "false_positive_rate?": num,
+    "false_negative_rate?": num,
+  }),
+  "calibration_status?": { type: "object" },
+  "active_rules?": int,
+  "rule_match_rate?": num,
+  "metadata?": timing,
+});
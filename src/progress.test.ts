@@ -0,0 +1,135 @@
+/**
+ * S2T Accelerators MCP Server - Progress Tests
+ *
+ * Tests how phases map onto MCP's monotonic progress, the heartbeat and
+ * retry reports for platform requests, and the progress notifications a
+ * tool call sends when the client supplies a progressToken.
+ *
+ * @module progress.test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CallToolResultSchema, type Progress } from "@modelcontextprotocol/sdk/types.js";
+import { createProgressReporter, NO_PROGRESS, progressApiClient, type ProgressReporter } from "./progress.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { connectClient } from "./test-client.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===========================================================================
+// Reporter
+// ===========================================================================
+
+describe("createProgressReporter", () => {
+  function reporter() {
+    const send = vi.fn().mockResolvedValue(undefined);
+    return { send, report: createProgressReporter(send, "tok-1") };
+  }
+
+  it("should lay phases end to end so progress only grows", () => {
+    const { send, report } = reporter();
+
+    report({ phase: "Reading", completed: 0, total: 10 });
+    report({ phase: "Reading", completed: 10, total: 10 });
+    report({ phase: "Uploading", completed: 2, total: 4 });
+    report({ phase: "Done" });
+
+    expect(send.mock.calls.map(([params]) => params)).toEqual([
+      { progressToken: "tok-1", progress: 1, total: 11, message: "Reading" },
+      { progressToken: "tok-1", progress: 11, total: 11, message: "Reading" },
+      { progressToken: "tok-1", progress: 14, total: 16, message: "Uploading" },
+      { progressToken: "tok-1", progress: 15, message: "Done" },
+    ]);
+  });
+
+  it("should drop updates that do not advance", () => {
+    const { send, report } = reporter();
+
+    report({ phase: "Waiting", completed: 5 });
+    report({ phase: "Waiting", completed: 5 });
+    report({ phase: "Waiting", completed: 3 });
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should never throw when a notification cannot be sent", async () => {
+    const report = createProgressReporter(() => Promise.reject(new Error("closed")), 7);
+
+    expect(() => report({ phase: "Waiting" })).not.toThrow();
+  });
+});
+
+// ===========================================================================
+// Platform requests
+// ===========================================================================
+
+describe("progressApiClient", () => {
+  it("should report time waited and retries while a request is outstanding", async () => {
+    vi.useFakeTimers();
+    const updates: Parameters<ProgressReporter>[0][] = [];
+    let resolve!: (value: unknown) => void;
+    const callApi = vi.fn((_endpoint, _method, _body, options) => {
+      options.onRetry({ retry: 1, maxRetries: 2, delayMs: 100, error: new Error("busy") });
+      return new Promise((r) => (resolve = r));
+    });
+
+    const pending = progressApiClient({ callApi }, (update) => updates.push(update), 1_000).callApi("/embed", "POST");
+    await vi.advanceTimersByTimeAsync(2_000);
+    resolve({ ok: true });
+
+    await expect(pending).resolves.toEqual({ ok: true });
+    expect(updates).toEqual([
+      { phase: "Waiting for S2T API /embed" },
+      { phase: "Retrying S2T API /embed (1 of 2): busy" },
+      { phase: "Retrying S2T API /embed (1 of 2): busy", completed: 1 },
+      { phase: "Retrying S2T API /embed (1 of 2): busy", completed: 2 },
+    ]);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(updates).toHaveLength(4);
+  });
+
+  it("should leave the client alone without a reporter", () => {
+    const client = { callApi: vi.fn() };
+
+    expect(progressApiClient(client, NO_PROGRESS)).toBe(client);
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer progress", () => {
+  async function connect() {
+    const callApi = vi.fn(async (endpoint: string, method: string, body?: Record<string, unknown>) =>
+      MOCK_FIXTURES[`${method} ${endpoint}`](body ?? {}, "success")
+    );
+    return connectClient({ callApi });
+  }
+
+  it("should send progress notifications when the client asks for them", async () => {
+    const client = await connect();
+    const onprogress = vi.fn<(progress: Progress) => void>();
+
+    await client.callTool({ name: "s2t_embed", arguments: { text: "hello world" } }, CallToolResultSchema, {
+      onprogress,
+    });
+
+    expect(onprogress.mock.calls.map(([progress]) => progress)).toEqual([
+      { progress: 1, message: "Embedding 11 characters" },
+      { progress: 2, message: "Waiting for S2T API /embed" },
+    ]);
+  });
+
+  it("should stay quiet without a progressToken", async () => {
+    const client = await connect();
+    const notifications = vi.fn();
+    client.fallbackNotificationHandler = notifications;
+
+    await client.callTool({ name: "s2t_embed", arguments: { text: "hello world" } });
+
+    expect(notifications).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * S2T Accelerators - Tool Progress
+ *
+ * A transport-independent progress model for long-running tool calls.
+ * Handlers and the platform client report a phase ("Waiting for S2T API
+ * /embed") with optional completed/total counts. When the client sent a
+ * `progressToken`, createProgressReporter turns each update into an MCP
+ * `notifications/progress`. It is sent through the request's own channel,
+ * so stdio and HTTP behave the same, and on HTTP the notification travels
+ * on the stream of the call it describes.
+ *
+ * MCP requires `progress` to grow with every notification, but phase counts
+ * restart. The reporter lays phases end to end: each new phase starts one
+ * step past the last progress sent, and its completed/total are counted
+ * from there. An update that would not advance progress is dropped.
+ *
+ * While a platform request is outstanding, progressApiClient reports every
+ * few seconds how long the current attempt has waited, plus each retry, so
+ * calls such as a 600-second parallel review never look frozen.
+ *
+ * @module progress
+ */
+
+import type { ProgressNotification, ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+import type { ApiClient } from "./handlers.js";
+
+export interface ProgressUpdate {
+  /** What is happening now; sent as the notification's message. */
+  phase: string;
+  /** Units finished in this phase. */
+  completed?: number;
+  /** Units in this phase, when known. */
+  total?: number;
+}
+
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
+/** Reporter for calls without a progressToken. */
+export const NO_PROGRESS: ProgressReporter = () => {};
+
+/** How often a waiting platform request reports progress. */
+export const DEFAULT_HEARTBEAT_MS = 5_000;
+
+/**
+ * Report progress for `progressToken` through `send`. Sending is best
+ * effort: a failed notification never fails the tool call.
+ */
+export function createProgressReporter(
+  send: (params: ProgressNotification["params"]) => Promise<void>,
+  progressToken: ProgressToken
+): ProgressReporter {
+  let phase: string | undefined;
+  let phaseStart = 0;
+  let last = 0;
+
+  return ({ phase: next, completed = 0, total }) => {
+    if (next !== phase) {
+      phase = next;
+      phaseStart = last + 1;
+    }
+    const progress = phaseStart + completed;
+    if (progress <= last) return;
+    last = progress;
+
+    send({
+      progressToken,
+      progress,
+      ...(total !== undefined ? { total: phaseStart + total } : {}),
+      message: next,
+    }).catch(() => {});
+  };
+}
+
+/**
+ * Report each platform request made through `client`: its phase when it
+ * starts, the seconds waited every `heartbeatMs`, and any retry.
+ */
+export function progressApiClient(
+  client: ApiClient,
+  progress: ProgressReporter,
+  heartbeatMs: number = DEFAULT_HEARTBEAT_MS
+): ApiClient {
+  if (progress === NO_PROGRESS) return client;
+  return {
+    async callApi(endpoint, method, body, options) {
+      let phase = `Waiting for S2T API ${endpoint}`;
+      let started = Date.now();
+      progress({ phase });
+      const timer = setInterval(() => {
+        progress({ phase, completed: Math.round((Date.now() - started) / 1000) });
+      }, heartbeatMs);
+
+      try {
+        return await client.callApi(endpoint, method, body, {
+          ...options,
+          onRetry(event) {
+            options?.onRetry?.(event);
+            phase = `Retrying S2T API ${endpoint} (${event.retry} of ${event.maxRetries}): ${event.error.message}`;
+            started = Date.now();
+            progress({ phase });
+          },
+        });
+      } finally {
+        clearInterval(timer);
+      }
+    },
+  };
+}
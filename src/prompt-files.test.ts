@@ -0,0 +1,200 @@
+/**
+ * S2T Accelerators MCP Server - Prompt Tests
+ *
+ * Tests the built-in workflow prompts, prompt rendering and registry
+ * checks, loading team prompt files, and the prompts/list and prompts/get
+ * handlers createMcpServer registers.
+ *
+ * @module prompt-files.test
+ */
+
+import { describe, it, expect, vi, afterAll, beforeAll } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadPromptFiles, parsePromptFile, promptFilesFromEnv } from "./prompt-files.js";
+import { loadServerConfig } from "./config.js";
+import {
+  buildPromptRegistry,
+  PROMPT_REGISTRY,
+  PROMPT_TEMPLATES,
+  renderPrompt,
+  type PromptTemplate,
+} from "./server-setup.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-prompts-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const RELEASE_PROMPT = `
+name: release_readiness
+description: Check a release against the deployment checklist
+arguments:
+  - { name: service, required: true }
+  - { name: environment, default: staging }
+tools: [aci_generate_rollback]
+template: |
+  Review the {{service}} release to {{environment}}.
+`;
+
+function textOf(result: ReturnType<typeof renderPrompt>): string {
+  const [{ content }] = result.messages;
+  return content.type === "text" ? content.text : "";
+}
+
+// ===========================================================================
+// Built-in prompts and rendering
+// ===========================================================================
+
+describe("renderPrompt", () => {
+  const preflight = PROMPT_REGISTRY.get("preflight_production_change")!;
+
+  it("should fill in arguments and defaults", () => {
+    const text = textOf(renderPrompt(preflight, { change: "Drop the legacy orders table" }));
+
+    expect(text).toContain("Change: Drop the legacy orders table\nEnvironment: production\n\n1.");
+    expect(text).toContain('environment "production"');
+    expect(text).not.toContain("{{");
+  });
+
+  it("should keep optional sections only when their argument is given", () => {
+    const without = textOf(renderPrompt(preflight, { change: "x", context: " " }));
+    const withContext = textOf(renderPrompt(preflight, { change: "x", context: "CHG-1234" }));
+
+    expect(without).not.toContain("Context:");
+    expect(withContext).toContain("Context: CHG-1234");
+  });
+
+  it("should reject missing required and undeclared arguments", () => {
+    expect(() => renderPrompt(preflight, {})).toThrow(
+      "Missing required arguments for prompt preflight_production_change: change"
+    );
+    expect(() => renderPrompt(preflight, { change: "x", owner: "me" })).toThrow(
+      "Unknown arguments for prompt preflight_production_change: owner"
+    );
+  });
+
+  it("should render every built-in prompt with its required arguments", () => {
+    for (const prompt of PROMPT_TEMPLATES) {
+      const args = Object.fromEntries(
+        (prompt.arguments ?? []).filter((spec) => spec.required).map((spec) => [spec.name, "value"])
+      );
+      expect(textOf(renderPrompt(prompt, args)), prompt.name).not.toMatch(/\{\{|\}\}/);
+    }
+  });
+});
+
+describe("buildPromptRegistry", () => {
+  const prompt: PromptTemplate = { name: "p", description: "d", template: "Hi {{who}}", arguments: [{ name: "who" }] };
+
+  it("should reject duplicates, undeclared placeholders and unknown tools", () => {
+    expect(() => buildPromptRegistry([prompt, prompt])).toThrow('Duplicate prompt name "p"');
+    expect(() => buildPromptRegistry([{ ...prompt, arguments: [] }])).toThrow(
+      'Prompt "p" uses undeclared argument "who"'
+    );
+    expect(() => buildPromptRegistry([{ ...prompt, tools: ["s2t_teleport"] }])).toThrow(
+      'Prompt "p" names unknown tools: s2t_teleport'
+    );
+    expect(() => buildPromptRegistry([...PROMPT_TEMPLATES, { ...prompt, name: "audit_aws_account" }])).toThrow(
+      "Duplicate prompt name"
+    );
+  });
+});
+
+// ===========================================================================
+// Prompt files
+// ===========================================================================
+
+describe("parsePromptFile", () => {
+  it("should parse one prompt or a list, in YAML or JSON", () => {
+    expect(parsePromptFile(RELEASE_PROMPT, "release.yaml")).toMatchObject([
+      { name: "release_readiness", arguments: [{ name: "service" }, { name: "environment", default: "staging" }] },
+    ]);
+    expect(
+      parsePromptFile(JSON.stringify([{ name: "a", description: "d", template: "t" }]), "team.json")
+    ).toHaveLength(1);
+  });
+
+  it("should list violations with their location", () => {
+    expect(() => parsePromptFile(JSON.stringify({ name: "bad name", template: "t", colour: 1 }), "p.json")).toThrow(
+      "Invalid prompt file p.json: / must have required property 'description'; " +
+        '/ must NOT have additional properties "colour"; /name must match pattern'
+    );
+    expect(() => parsePromptFile("name: [", "p.yml")).toThrow("Invalid prompt file p.yml:");
+  });
+});
+
+describe("loadPromptFiles", () => {
+  it("should load files and every prompt file in a directory", () => {
+    const team = join(dir, "team");
+    mkdirSync(team);
+    writeFileSync(join(team, "release.yaml"), RELEASE_PROMPT);
+    writeFileSync(join(team, "notes.md"), "# not a prompt");
+    writeFileSync(join(dir, "one.json"), JSON.stringify({ name: "one", description: "d", template: "t" }));
+
+    const prompts = promptFilesFromEnv({ S2T_PROMPT_FILES: "team, one.json" }, dir);
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["release_readiness", "one"]);
+    expect(() => loadPromptFiles(["missing"], dir)).toThrow("Prompt file not found");
+  });
+
+  it("should resolve config file prompt paths against the config file", () => {
+    const project = join(dir, "project");
+    mkdirSync(project);
+    writeFileSync(join(project, "s2t.config.json"), JSON.stringify({ prompts: { files: ["prompts"] } }));
+
+    const config = loadServerConfig({ argv: [], env: {}, cwd: project });
+
+    expect(config.env.S2T_PROMPT_FILES).toBe(join(project, "prompts"));
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer prompts", () => {
+  it("should list built-in and team prompts and render them", async () => {
+    const client = await connectClient({ callApi: vi.fn() }, {
+      prompts: buildPromptRegistry([...PROMPT_TEMPLATES, ...parsePromptFile(RELEASE_PROMPT, "release.yaml")]),
+    });
+
+    const { prompts } = await client.listPrompts();
+    const result = await client.getPrompt({ name: "release_readiness", arguments: { service: "billing" } });
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "preflight_production_change",
+      "audit_aws_account",
+      "triage_incident",
+      "stakeholder_discovery",
+      "release_readiness",
+    ]);
+    expect(prompts[4].arguments).toEqual([
+      { name: "service", required: true },
+      { name: "environment" },
+    ]);
+    expect(result.messages[0].content).toEqual({ type: "text", text: "Review the billing release to staging.\n" });
+  });
+
+  it("should hide prompts whose tools are disabled", async () => {
+    const client = await connectClient({ callApi: vi.fn() }, { isToolEnabled: (name) => !name.startsWith("aci_") });
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).not.toContain("preflight_production_change");
+    await expect(client.getPrompt({ name: "preflight_production_change", arguments: { change: "x" } })).rejects.toThrow(
+      "Unknown prompt: preflight_production_change"
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * S2T Accelerators - Team Prompt Files
+ *
+ * Loads team-specific prompts from YAML or JSON files, served next to the
+ * built-in workflows in server-setup.ts. A file holds one prompt or a list
+ * of them:
+ *
+ *   name: release_readiness
+ *   title: Release Readiness Review
+ *   description: Check a release against our deployment checklist
+ *   arguments:
+ *     - { name: service, required: true }
+ *     - { name: environment, default: staging }
+ *   tools: [aci_classify_decision, aci_generate_rollback]
+ *   template: |
+ *     Review the {{service}} release to {{environment}} ...
+ *
+ * S2T_PROMPT_FILES (or `prompts.files` in the config file) lists files and
+ * directories, comma-separated; every .yaml, .yml and .json file in a
+ * listed directory is loaded.
+ *
+ * @module prompt-files
+ */
+
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { extname, join, resolve } from "node:path";
+import { Ajv } from "ajv";
+import { parse as parseYaml } from "yaml";
+import type { PromptTemplate } from "./server-setup.js";
+
+const PROMPT_FILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const text = { type: "string", minLength: 1 };
+
+const PROMPT_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["name", "description", "template"],
+  properties: {
+    name: { type: "string", pattern: "^[A-Za-z0-9_-]{1,64}$" },
+    title: text,
+    description: text,
+    arguments: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["name"],
+        properties: {
+          name: { type: "string", pattern: "^[A-Za-z0-9_]+$" },
+          description: text,
+          required: { type: "boolean" },
+          default: { type: "string" },
+        },
+      },
+    },
+    tools: { type: "array", items: text },
+    template: text,
+  },
+};
+
+const validatePromptFile = new Ajv({ allErrors: true, strict: false }).compile<PromptTemplate | PromptTemplate[]>({
+  oneOf: [PROMPT_SCHEMA, { type: "array", items: PROMPT_SCHEMA }],
+});
+
+/** Parse and validate a prompt file's contents; `source` names it in errors. */
+export function parsePromptFile(contents: string, source: string): PromptTemplate[] {
+  let parsed: unknown;
+  try {
+    parsed = [".yaml", ".yml"].includes(extname(source).toLowerCase()) ? parseYaml(contents) : JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid prompt file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!validatePromptFile(parsed)) {
+    // Report against the branch that matches the file's shape, not both.
+    const shape = Array.isArray(parsed) ? "/oneOf/1" : "/oneOf/0";
+    const errors = (validatePromptFile.errors ?? []).filter((error) => error.schemaPath.startsWith(`#${shape}`));
+    const details = (errors.length > 0 ? errors : validatePromptFile.errors ?? []).map((error) => {
+      const extra = error.keyword === "additionalProperties" ? ` "${error.params.additionalProperty}"` : "";
+      return `${error.instancePath || "/"} ${error.message}${extra}`;
+    });
+    throw new Error(`Invalid prompt file ${source}: ${details.join("; ")}`);
+  }
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Load every prompt in `paths` (files, or directories of prompt files). */
+export function loadPromptFiles(paths: string[], cwd: string = process.cwd()): PromptTemplate[] {
+  const files = paths.flatMap((path) => {
+    const absolute = resolve(cwd, path);
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(absolute).isDirectory();
+    } catch {
+      throw new Error(`Prompt file not found: ${absolute}`);
+    }
+    if (!isDirectory) return [absolute];
+    return readdirSync(absolute)
+      .filter((name) => PROMPT_FILE_EXTENSIONS.includes(extname(name).toLowerCase()))
+      .sort()
+      .map((name) => join(absolute, name));
+  });
+  return files.flatMap((file) => parsePromptFile(readFileSync(file, "utf8"), file));
+}
+
+/** Team prompts from the files and directories listed in S2T_PROMPT_FILES. */
+export function promptFilesFromEnv(env: NodeJS.ProcessEnv = process.env, cwd?: string): PromptTemplate[] {
+  const paths = (env.S2T_PROMPT_FILES ?? "")
+    .split(",")
+    .map((path) => path.trim())
+    .filter(Boolean);
+  return loadPromptFiles(paths, cwd);
+}
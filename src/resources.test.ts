@@ -0,0 +1,135 @@
+/**
+ * S2T Accelerators MCP Server - Resource Tests
+ *
+ * Tests resource URI resolution, which tool calls update which resources,
+ * and the list, read and subscribe handlers createMcpServer registers.
+ *
+ * @module resources.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { ResourceUpdatedNotificationSchema, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { resolveResource, resourcesUpdatedBy, RESOURCES } from "./resources.js";
+import { TOOL_REGISTRY, type McpServerOptions } from "./server-setup.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** An API client answering from the mock API's fixtures. */
+function mockApi() {
+  return vi.fn(async (endpoint: string, method: string, body?: Record<string, unknown>) =>
+    MOCK_FIXTURES[`${method} ${endpoint}`](body ?? {}, "success")
+  );
+}
+
+/** Parse the JSON text of a single-content read. */
+function json({ contents: [content] }: ReadResourceResult): unknown {
+  return JSON.parse("text" in content ? content.text : "");
+}
+
+async function connect(options: McpServerOptions = {}) {
+  const callApi = mockApi();
+  const client = await connectClient({ callApi }, options);
+  const updated = vi.fn();
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, updated);
+  return { client, callApi, updated };
+}
+
+// ===========================================================================
+// Resolution and updates
+// ===========================================================================
+
+describe("resolveResource", () => {
+  it("should resolve fixed URIs and bind template variables", () => {
+    expect(resolveResource("s2t://catalog")).toMatchObject({ resource: { tool: "s2t_catalog" }, params: {} });
+    expect(resolveResource("aci://precedents/rotate%20db%2Fcredentials")).toMatchObject({
+      resource: { name: "precedents" },
+      params: { query: "rotate db/credentials" },
+    });
+  });
+
+  it("should not resolve unknown, empty or malformed URIs", () => {
+    expect(resolveResource("s2t://nothing")).toBeUndefined();
+    expect(resolveResource("aci://precedents/")).toBeUndefined();
+    expect(resolveResource("aci://precedents/%E0%A4%A")).toBeUndefined();
+  });
+
+  it("should tie every resource to a registered tool", () => {
+    for (const resource of RESOURCES) {
+      expect(TOOL_REGISTRY.has(resource.tool), resource.uri).toBe(true);
+    }
+  });
+});
+
+describe("resourcesUpdatedBy", () => {
+  it("should name the resources a tool call changes", () => {
+    expect(resourcesUpdatedBy("s2t_embed")).toEqual(["s2t://usage"]);
+    expect(resourcesUpdatedBy("aci_record_outcome")).toEqual(["s2t://usage", "aci://governance/health"]);
+    expect(resourcesUpdatedBy("s2t_interview_message")).toEqual([]);
+    expect(resourcesUpdatedBy("s2t_catalog")).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer resources", () => {
+  it("should list fixed resources and templates", async () => {
+    const { client } = await connect();
+
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      "s2t://catalog",
+      "s2t://usage",
+      "aci://governance/health",
+    ]);
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual(["aci://precedents/{query}"]);
+  });
+
+  it("should read platform data as JSON", async () => {
+    const { client, callApi } = await connect();
+
+    const catalog = await client.readResource({ uri: "s2t://catalog" });
+    const precedents = await client.readResource({ uri: "aci://precedents/rotate%20credentials" });
+
+    expect(catalog.contents[0]).toMatchObject({ uri: "s2t://catalog", mimeType: "application/json" });
+    expect(json(catalog)).toMatchObject({ your_tier: "developer" });
+    expect(json(precedents)).toMatchObject({ precedents: [{ decision_id: "dec-5f1c2a9b7e31" }], returned: 1 });
+    expect(callApi).toHaveBeenCalledWith(
+      "/aci/recall",
+      "POST",
+      { query: "rotate credentials", top_k: 5 },
+      expect.objectContaining({ idempotent: true })
+    );
+  });
+
+  it("should reject unknown resources and those of disabled tools", async () => {
+    const { client } = await connect({ isToolEnabled: (name) => name !== "s2t_usage" });
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map((resource) => resource.uri)).not.toContain("s2t://usage");
+    await expect(client.readResource({ uri: "s2t://usage" })).rejects.toMatchObject({ code: -32002 });
+    await expect(client.subscribeResource({ uri: "s2t://nothing" })).rejects.toThrow("Resource not found");
+  });
+
+  it("should notify subscribers when a tool call changes a resource", async () => {
+    const { client, updated } = await connect();
+
+    await client.subscribeResource({ uri: "s2t://usage" });
+    await client.callTool({ name: "s2t_embed", arguments: { text: "hello" } });
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(1));
+    await client.unsubscribeResource({ uri: "s2t://usage" });
+    await client.callTool({ name: "s2t_embed", arguments: { text: "again" } });
+
+    expect(updated.mock.calls[0][0]).toMatchObject({ params: { uri: "s2t://usage" } });
+    expect(updated).toHaveBeenCalledTimes(1);
+  });
+});
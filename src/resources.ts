@@ -0,0 +1,184 @@
+/**
+ * S2T Accelerators - MCP Resources
+ *
+ * Read-only platform data exposed as MCP resources, so clients can attach
+ * it as context without spending a tool call:
+ *
+ *   s2t://catalog                        Accelerator catalog and your tier
+ *   s2t://usage                          Usage and remaining quota this period
+ *   aci://governance/health              Governance health over the last 30 days
+ *   aci://precedents/{query}             Past decisions most similar to an action
+ *
+ * Each resource belongs to the tool that serves the same data and is only
+ * served alongside it, so toolset and allow/deny selections cover resources
+ * too. Clients may subscribe to any resource URI; the server then sends
+ * `notifications/resources/updated` after tool calls that change it (see
+ * resourcesUpdatedBy).
+ *
+ * Decision-log entries and interview transcripts have no resource: the
+ * platform cannot read a logged decision back, and the local interview
+ * handlers are not in this tree.
+ *
+ * @module resources
+ */
+
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import type { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import type { ApiClient } from "./handlers.js";
+import { validateUpstreamResponse } from "./schema-validation.js";
+import {
+  ACI_GOVERNANCE_HEALTH_OUTPUT_SCHEMA,
+  ACI_RECALL_PRECEDENT_OUTPUT_SCHEMA,
+  CATALOG_OUTPUT_SCHEMA,
+  USAGE_OUTPUT_SCHEMA,
+  type OutputSchema,
+} from "./output-schemas.js";
+import { toolsetOf } from "./toolsets.js";
+
+export const CATALOG_URI = "s2t://catalog";
+export const USAGE_URI = "s2t://usage";
+export const GOVERNANCE_HEALTH_URI = "aci://governance/health";
+
+export interface S2TResource {
+  /** The resource URI, or an RFC 6570 template for parameterised ones. */
+  uri: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  /** Tool serving the same data; the resource is only served with it. */
+  tool: string;
+  /** Read the resource; `params` holds the template's variables. */
+  read(params: Record<string, string>, apiClient: ApiClient): Promise<string>;
+}
+
+/** Fetch and validate a platform response, rendered as JSON. */
+async function fetchJson(
+  apiClient: ApiClient,
+  schema: OutputSchema,
+  endpoint: string,
+  method: "GET" | "POST",
+  body?: Record<string, unknown>
+): Promise<string> {
+  const data = await apiClient.callApi(endpoint, method, body);
+  return JSON.stringify(validateUpstreamResponse(schema, data, { endpoint, method }), null, 2);
+}
+
+export const RESOURCES: readonly S2TResource[] = [
+  {
+    uri: CATALOG_URI,
+    name: "catalog",
+    title: "Accelerator Catalog",
+    description: "Every accelerator with the tiers that may use it, plus your current tier",
+    mimeType: "application/json",
+    tool: "s2t_catalog",
+    read: (_params, apiClient) => fetchJson(apiClient, CATALOG_OUTPUT_SCHEMA, "/catalog", "GET"),
+  },
+  {
+    uri: USAGE_URI,
+    name: "usage",
+    title: "API Usage",
+    description: "Requests made, limits and remaining quota for the current billing period",
+    mimeType: "application/json",
+    tool: "s2t_usage",
+    read: (_params, apiClient) => fetchJson(apiClient, USAGE_OUTPUT_SCHEMA, "/usage", "GET"),
+  },
+  {
+    uri: GOVERNANCE_HEALTH_URI,
+    name: "governance-health",
+    title: "Governance Health",
+    description: "Decision volume, classification mix, calibration and health score over the last 30 days",
+    mimeType: "application/json",
+    tool: "aci_governance_health",
+    read: (_params, apiClient) =>
+      fetchJson(apiClient, ACI_GOVERNANCE_HEALTH_OUTPUT_SCHEMA, "/aci/health", "POST", { time_range: "30d" }),
+  },
+  {
+    uri: "aci://precedents/{query}",
+    name: "precedents",
+    title: "Decision Precedents",
+    description: "The five past governance decisions most similar to an action, with their classifications and outcomes",
+    mimeType: "application/json",
+    tool: "aci_recall_precedent",
+    read: ({ query }, apiClient) =>
+      fetchJson(apiClient, ACI_RECALL_PRECEDENT_OUTPUT_SCHEMA, "/aci/recall", "POST", { query, top_k: 5 }),
+  },
+];
+
+const TEMPLATES = new Map(
+  RESOURCES.filter((resource) => UriTemplate.isTemplate(resource.uri)).map((resource) => [
+    resource,
+    new UriTemplate(resource.uri),
+  ])
+);
+
+/** The resources/list entry for a fixed resource. */
+export function resourceListing({ uri, name, title, description, mimeType }: S2TResource): Resource {
+  return { uri, name, title, description, mimeType };
+}
+
+/** The resources/templates/list entry for a parameterised resource. */
+export function resourceTemplateListing({
+  uri,
+  name,
+  title,
+  description,
+  mimeType,
+}: S2TResource): ResourceTemplate {
+  return { uriTemplate: uri, name, title, description, mimeType };
+}
+
+export function isResourceTemplate(resource: S2TResource): boolean {
+  return TEMPLATES.has(resource);
+}
+
+/** Find the resource a URI names, with the template variables it binds. */
+export function resolveResource(
+  uri: string
+): { resource: S2TResource; params: Record<string, string> } | undefined {
+  for (const resource of RESOURCES) {
+    const template = TEMPLATES.get(resource);
+    if (!template) {
+      if (resource.uri === uri) return { resource, params: {} };
+      continue;
+    }
+    const variables = template.match(uri);
+    if (!variables) continue;
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(variables)) {
+      const decoded = decodeVariable(String(value));
+      if (!decoded) return undefined;
+      params[key] = decoded;
+    }
+    return { resource, params };
+  }
+  return undefined;
+}
+
+/** Percent-decode a template variable; undefined when empty or malformed. */
+function decodeVariable(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Updates
+// ---------------------------------------------------------------------------
+
+/**
+ * Resource URIs a successful call to `tool` may have changed. Every platform
+ * call counts against the usage quota; decision-log writes move governance
+ * health. Precedent searches are not tracked: any logged decision may
+ * change any search.
+ */
+export function resourcesUpdatedBy(tool: string): string[] {
+  const uris: string[] = [];
+  const toolset = toolsetOf(tool);
+  if (toolset !== undefined && toolset !== "local" && toolset !== "platform") uris.push(USAGE_URI);
+
+  if (tool === "aci_log_decision" || tool === "aci_record_outcome") uris.push(GOVERNANCE_HEALTH_URI);
+  return uris;
+}
@@ -0,0 +1,230 @@
+/**
+ * S2T Accelerators MCP Server - Response Cache Tests
+ *
+ * Tests cache keys, TTLs, bypass and hit reporting, the LRU memory store and
+ * the SQLite store.
+ *
+ * @module response-cache.test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  cacheKey,
+  createMemoryCacheStore,
+  createResponseCache,
+  createSqliteCacheStore,
+  responseCacheFromEnv,
+  type CacheStore,
+} from "./response-cache.js";
+import type { ApiClient } from "./handlers.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function countingClient(): ApiClient & { callApi: ReturnType<typeof vi.fn> } {
+  let calls = 0;
+  return { callApi: vi.fn(async () => ({ call: ++calls })) };
+}
+
+const NOW = Date.now();
+
+function entry(value: unknown, storedAt = NOW, ttl = 60_000) {
+  return { value, storedAt, expiresAt: storedAt + ttl };
+}
+
+// ===========================================================================
+// Keys
+// ===========================================================================
+
+describe("cacheKey", () => {
+  it("should hash content independent of key order", () => {
+    expect(cacheKey("t", "/x", "POST", { a: 1, b: [1, 2] })).toBe(
+      cacheKey("t", "/x", "post", { b: [1, 2], a: 1 })
+    );
+    expect(cacheKey("t", "/x", "POST", { a: 1 })).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should distinguish tools, endpoints and bodies", () => {
+    const base = cacheKey("t", "/x", "POST", { a: 1 });
+    expect(cacheKey("u", "/x", "POST", { a: 1 })).not.toBe(base);
+    expect(cacheKey("t", "/y", "POST", { a: 1 })).not.toBe(base);
+    expect(cacheKey("t", "/x", "POST", { a: 2 })).not.toBe(base);
+  });
+});
+
+// ===========================================================================
+// Response cache
+// ===========================================================================
+
+describe("createResponseCache", () => {
+  it("should serve identical calls from the cache and report the hit", async () => {
+    let now = 1_000;
+    const cache = createResponseCache({ now: () => now });
+    const upstream = countingClient();
+
+    const first = cache.wrap(upstream, "s2t_validate_iam_policy");
+    expect(await first.apiClient.callApi("/validate/iam-policy", "POST", { p: 1 })).toEqual({ call: 1 });
+    expect(first.report()).toEqual({ status: "miss", ttlMs: 300_000 });
+
+    now += 42_000;
+    const second = cache.wrap(upstream, "s2t_validate_iam_policy");
+    expect(await second.apiClient.callApi("/validate/iam-policy", "POST", { p: 1 })).toEqual({ call: 1 });
+    expect(second.report()).toEqual({ status: "hit", ttlMs: 300_000, ageMs: 42_000 });
+
+    expect(upstream.callApi).toHaveBeenCalledTimes(1);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, bypasses: 0 });
+  });
+
+  it("should expire entries after the tool's TTL", async () => {
+    let now = 0;
+    const cache = createResponseCache({ now: () => now, toolTtls: { s2t_catalog: 1_000 } });
+    const upstream = countingClient();
+    const call = () => cache.wrap(upstream, "s2t_catalog").apiClient.callApi("/catalog");
+
+    await call();
+    now = 999;
+    expect(await call()).toEqual({ call: 1 });
+    now = 1_000;
+    expect(await call()).toEqual({ call: 2 });
+  });
+
+  it("should pass through tools with a zero TTL", async () => {
+    const cache = createResponseCache();
+    const upstream = countingClient();
+    expect(cache.ttlFor("s2t_usage")).toBe(0);
+
+    await cache.wrap(upstream, "s2t_usage").apiClient.callApi("/usage");
+    await cache.wrap(upstream, "s2t_usage").apiClient.callApi("/usage");
+
+    expect(upstream.callApi).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refresh the entry on bypass", async () => {
+    const cache = createResponseCache();
+    const upstream = countingClient();
+    const call = (bypass = false) =>
+      cache.wrap(upstream, "s2t_catalog", { bypass }).apiClient.callApi("/catalog");
+
+    await call();
+    expect(await call(true)).toEqual({ call: 2 });
+    expect(await call()).toEqual({ call: 2 });
+  });
+
+  it("should not cache errors", async () => {
+    const cache = createResponseCache();
+    const upstream: ApiClient = {
+      callApi: vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue({ ok: true }),
+    };
+    const call = () => cache.wrap(upstream, "s2t_catalog").apiClient.callApi("/catalog");
+
+    await expect(call()).rejects.toThrow("boom");
+    expect(await call()).toEqual({ ok: true });
+  });
+
+  it("should hand out copies so handlers cannot corrupt cached values", async () => {
+    const cache = createResponseCache();
+    const upstream: ApiClient = { callApi: async () => ({ list: [1] }) };
+    const call = () => cache.wrap(upstream, "s2t_catalog").apiClient.callApi("/catalog");
+
+    await call();
+    ((await call()) as { list: number[] }).list.push(2);
+    expect(await call()).toEqual({ list: [1] });
+  });
+});
+
+// ===========================================================================
+// Stores
+// ===========================================================================
+
+describe.each([
+  ["memory", () => ({ store: createMemoryCacheStore(2), cleanup: () => {} })],
+  [
+    "sqlite",
+    () => {
+      const dir = mkdtempSync(join(tmpdir(), "s2t-cache-"));
+      const store = createSqliteCacheStore(join(dir, "cache.db"), 2);
+      return {
+        store,
+        cleanup: () => {
+          store.close?.();
+          rmSync(dir, { recursive: true, force: true });
+        },
+      };
+    },
+  ],
+] as const)("%s cache store", (_name, open) => {
+  let store: CacheStore;
+  let cleanup: () => void = () => {};
+
+  afterEach(() => cleanup());
+
+  it("should round-trip entries and evict the least recently used", async () => {
+    ({ store, cleanup } = open());
+    await store.set("a", entry({ n: 1 }));
+    await store.set("b", entry({ n: 2 }));
+    expect(await store.get("a")).toEqual(entry({ n: 1 }));
+
+    await store.set("c", entry({ n: 3 }));
+
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("a")).toEqual(entry({ n: 1 }));
+    expect(await store.get("c")).toEqual(entry({ n: 3 }));
+  });
+
+  it("should delete and clear", async () => {
+    ({ store, cleanup } = open());
+    await store.set("a", entry(1));
+    await store.set("b", entry(2));
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+    await store.clear();
+    expect(await store.get("b")).toBeUndefined();
+  });
+});
+
+describe("sqlite cache store", () => {
+  it("should persist entries across reopen", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "s2t-cache-"));
+    try {
+      const path = join(dir, "cache.db");
+      const first = createSqliteCacheStore(path);
+      await first.set("k", entry({ persisted: true }));
+      first.close?.();
+
+      const second = createSqliteCacheStore(path);
+      expect((await second.get("k"))?.value).toEqual({ persisted: true });
+      second.close?.();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("responseCacheFromEnv", () => {
+  it("should default to an in-memory cache and honour S2T_CACHE=off", () => {
+    expect(responseCacheFromEnv({})).toBeDefined();
+    expect(responseCacheFromEnv({ S2T_CACHE: "off" })).toBeUndefined();
+  });
+
+  it("should parse TTL overrides", () => {
+    const cache = responseCacheFromEnv({
+      S2T_CACHE_TTL_MS: "1000",
+      S2T_CACHE_TTLS: "s2t_catalog=0, aci_compliance_check=5000",
+    })!;
+    expect(cache.ttlFor("s2t_catalog")).toBe(0);
+    expect(cache.ttlFor("aci_compliance_check")).toBe(5_000);
+    expect(cache.ttlFor("s2t_validate_oauth")).toBe(1_000);
+  });
+
+  it("should reject unknown stores", () => {
+    expect(() => responseCacheFromEnv({ S2T_CACHE: "redis" })).toThrow('Invalid S2T_CACHE "redis"');
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * S2T Accelerators - Response Cache
+ *
+ * A cache in front of the ApiClient for read-only, idempotent tools, so
+ * agents that re-send identical payloads are not billed for each one.
+ *
+ * Keys are SHA-256 hashes of the tenant, tool name, endpoint, method and
+ * normalized request body (see cassette.ts), so argument order does not
+ * matter and tenants never see each other's responses. Only
+ * successful responses are cached; errors always reach the platform again.
+ * Each tool has its own TTL, and a TTL of 0 disables caching for that tool
+ * (e.g. s2t_usage, which reports live quota).
+ *
+ * Two stores ship with the server:
+ *
+ *   memory   in-process LRU (default)
+ *   sqlite   better-sqlite3 file, shared across restarts and processes
+ *
+ * Any object implementing CacheStore can be plugged in instead.
+ *
+ * @module response-cache
+ */
+
+import { createHash } from "node:crypto";
+import Database from "better-sqlite3";
+import type { ApiClient } from "./handlers.js";
+import { normalizeBody } from "./canonical-json.js";
+
+export interface CacheEntry {
+  value: unknown;
+  /** Epoch ms when the response was stored. */
+  storedAt: number;
+  /** Epoch ms after which the entry must not be served. */
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  close?(): void;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 5 * 60_000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 1_000;
+
+/**
+ * TTL overrides for tools whose results change faster (or slower) than the
+ * default. Tools that return live state or fresh identifiers are disabled.
+ */
+export const DEFAULT_TOOL_TTLS: Record<string, number> = {
+  s2t_catalog: 60 * 60_000,
+  s2t_embed: 24 * 60 * 60_000,
+  s2t_usage: 0,
+  s2t_create_trace_context: 0,
+  s2t_predict_system_issues: 60_000,
+  s2t_validate_cli_readiness: 60_000,
+  aci_recall_precedent: 60_000,
+  aci_governance_health: 60_000,
+};
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+/** In-process LRU. Map iteration order doubles as recency order. */
+export function createMemoryCacheStore(maxEntries = DEFAULT_CACHE_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * SQLite-backed store. Rows are evicted least-recently-used first once the
+ * table exceeds maxEntries; expired rows are purged on every write.
+ */
+export function createSqliteCacheStore(
+  path: string,
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES
+): CacheStore {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS response_cache (
+      key        TEXT PRIMARY KEY,
+      value      TEXT    NOT NULL,
+      stored_at  INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      last_used  INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS response_cache_last_used ON response_cache (last_used);
+  `);
+
+  const select = db.prepare<[string], { value: string; stored_at: number; expires_at: number }>(
+    "SELECT value, stored_at, expires_at FROM response_cache WHERE key = ?"
+  );
+  const touch = db.prepare("UPDATE response_cache SET last_used = ? WHERE key = ?");
+  const upsert = db.prepare(
+    `INSERT INTO response_cache (key, value, stored_at, expires_at, last_used)
+     VALUES (@key, @value, @storedAt, @expiresAt, @lastUsed)
+     ON CONFLICT (key) DO UPDATE SET
+       value = excluded.value, stored_at = excluded.stored_at,
+       expires_at = excluded.expires_at, last_used = excluded.last_used`
+  );
+  const purgeExpired = db.prepare("DELETE FROM response_cache WHERE expires_at <= ?");
+  const trim = db.prepare(
+    `DELETE FROM response_cache WHERE key IN (
+       SELECT key FROM response_cache ORDER BY last_used DESC LIMIT -1 OFFSET ?
+     )`
+  );
+  const remove = db.prepare("DELETE FROM response_cache WHERE key = ?");
+  const removeAll = db.prepare("DELETE FROM response_cache");
+
+  // Monotonic recency counter so same-millisecond accesses still order.
+  let clock = Date.now();
+  const tick = () => (clock = Math.max(clock + 1, Date.now()));
+
+  const write = db.transaction((key: string, entry: CacheEntry) => {
+    upsert.run({
+      key,
+      value: JSON.stringify(entry.value),
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+      lastUsed: tick(),
+    });
+    purgeExpired.run(Date.now());
+    trim.run(maxEntries);
+  });
+
+  return {
+    async get(key) {
+      const row = select.get(key);
+      if (!row) return undefined;
+      touch.run(tick(), key);
+      return { value: JSON.parse(row.value), storedAt: row.stored_at, expiresAt: row.expires_at };
+    },
+    async set(key, entry) {
+      write(key, entry);
+    },
+    async delete(key) {
+      remove.run(key);
+    },
+    async clear() {
+      removeAll.run();
+    },
+    close() {
+      db.close();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Response cache
+// ---------------------------------------------------------------------------
+
+export interface ResponseCacheOptions {
+  store?: CacheStore;
+  defaultTtlMs?: number;
+  /** Per-tool TTL overrides, merged over DEFAULT_TOOL_TTLS. 0 disables. */
+  toolTtls?: Record<string, number>;
+  /** Injection point for tests. */
+  now?: () => number;
+}
+
+/**
+ * How a tool call was served:
+ *
+ *   hit      every upstream call came from the cache
+ *   miss     at least one upstream call reached the platform
+ *   bypass   the caller passed bypass_cache; the fresh result was stored
+ */
+export type CacheStatus = "hit" | "miss" | "bypass";
+
+export interface CacheReport {
+  status: CacheStatus;
+  ttlMs: number;
+  /** Age of the oldest cached response served, for hits. */
+  ageMs?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  bypasses: number;
+}
+
+export interface CachedCall {
+  apiClient: ApiClient;
+  /** Summarize the calls made through apiClient so far. */
+  report(): CacheReport;
+}
+
+export interface CacheCallOptions {
+  /** Fetch fresh and overwrite the cached entry. */
+  bypass?: boolean;
+  /** Partition for the entry, e.g. the tenant ID in multi-tenant mode. */
+  namespace?: string;
+}
+
+export interface ResponseCache {
+  ttlFor(tool: string): number;
+  /** Route one tool call's upstream requests through the cache. */
+  wrap(client: ApiClient, tool: string, options?: CacheCallOptions): CachedCall;
+  stats(): CacheStats;
+  clear(): Promise<void>;
+  close(): void;
+}
+
+export function cacheKey(
+  tool: string,
+  endpoint: string,
+  method: string,
+  body?: object,
+  namespace = ""
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([namespace, tool, method.toUpperCase(), endpoint, normalizeBody(body ?? null)]))
+    .digest("hex");
+}
+
+export function createResponseCache(options: ResponseCacheOptions = {}): ResponseCache {
+  const store = options.store ?? createMemoryCacheStore();
+  const defaultTtlMs = options.defaultTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const toolTtls = { ...DEFAULT_TOOL_TTLS, ...options.toolTtls };
+  const now = options.now ?? Date.now;
+  const stats: CacheStats = { hits: 0, misses: 0, bypasses: 0 };
+
+  function ttlFor(tool: string): number {
+    return toolTtls[tool] ?? defaultTtlMs;
+  }
+
+  return {
+    ttlFor,
+
+    wrap(client, tool, { bypass = false, namespace } = {}) {
+      const ttlMs = ttlFor(tool);
+      let hits = 0;
+      let misses = 0;
+      let oldestAgeMs: number | undefined;
+
+      const apiClient: ApiClient = {
+        async callApi(endpoint, method = "GET", body, callOptions) {
+          if (ttlMs <= 0) return client.callApi(endpoint, method, body, callOptions);
+
+          const key = cacheKey(tool, endpoint, method, body, namespace);
+          if (!bypass) {
+            const entry = await store.get(key);
+            if (entry && entry.expiresAt > now()) {
+              hits++;
+              const age = now() - entry.storedAt;
+              oldestAgeMs = Math.max(oldestAgeMs ?? 0, age);
+              return structuredClone(entry.value);
+            }
+            if (entry) await store.delete(key);
+          }
+
+          misses++;
+          const value = await client.callApi(endpoint, method, body, callOptions);
+          const storedAt = now();
+          await store.set(key, { value, storedAt, expiresAt: storedAt + ttlMs });
+          return value;
+        },
+      };
+
+      return {
+        apiClient,
+        report() {
+          if (bypass) {
+            stats.bypasses++;
+            return { status: "bypass", ttlMs };
+          }
+          if (hits > 0 && misses === 0) {
+            stats.hits++;
+            return { status: "hit", ttlMs, ageMs: oldestAgeMs };
+          }
+          stats.misses++;
+          return { status: "miss", ttlMs };
+        },
+      };
+    },
+
+    stats: () => ({ ...stats }),
+    clear: () => store.clear(),
+    close: () => store.close?.(),
+  };
+}
+
+/**
+ * Build the cache from the environment, or undefined when disabled:
+ *
+ *   S2T_CACHE               memory | sqlite | off (default: memory)
+ *   S2T_CACHE_PATH          SQLite file for the sqlite store (default: s2t-cache.db)
+ *   S2T_CACHE_MAX_ENTRIES   Store capacity (default: 1000)
+ *   S2T_CACHE_TTL_MS        Default TTL (default: 300000)
+ *   S2T_CACHE_TTLS          Per-tool `tool=ms` overrides, comma-separated
+ */
+export function responseCacheFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ResponseCache | undefined {
+  const kind = env.S2T_CACHE || "memory";
+  if (kind === "off") return undefined;
+
+  const maxEntries = Number(env.S2T_CACHE_MAX_ENTRIES) > 0
+    ? Number(env.S2T_CACHE_MAX_ENTRIES)
+    : DEFAULT_CACHE_MAX_ENTRIES;
+
+  let store: CacheStore;
+  if (kind === "memory") {
+    store = createMemoryCacheStore(maxEntries);
+  } else if (kind === "sqlite") {
+    store = createSqliteCacheStore(env.S2T_CACHE_PATH || "s2t-cache.db", maxEntries);
+  } else {
+    throw new Error(`Invalid S2T_CACHE "${kind}". Use one of: memory, sqlite, off`);
+  }
+
+  const toolTtls: Record<string, number> = {};
+  for (const pair of (env.S2T_CACHE_TTLS ?? "").split(",")) {
+    const [tool, ms] = pair.split("=").map((part) => part.trim());
+    if (tool && ms && Number(ms) >= 0) toolTtls[tool] = Number(ms);
+  }
+
+  const defaultTtl = Number(env.S2T_CACHE_TTL_MS);
+  return createResponseCache({
+    store,
+    toolTtls,
+    ...(env.S2T_CACHE_TTL_MS && defaultTtl >= 0 ? { defaultTtlMs: defaultTtl } : {}),
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * S2T Accelerators - Tool Argument Validation Tests
+ *
+ * @module schema-validation.test
+ */
+
+import { describe, it, expect } from "vitest";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { TOOLS } from "./server-setup.js";
+import { ToolArgumentsError, validateToolArguments } from "./schema-validation.js";
+
+function tool(name: string) {
+  const found = TOOLS.find((t) => t.name === name);
+  if (!found) throw new Error(`No such tool: ${name}`);
+  return found;
+}
+
+function violationsOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    return (error as ToolArgumentsError).violations;
+  }
+  throw new Error("Expected validation to fail");
+}
+
+describe("validateToolArguments", () => {
+  it("should compile every tool inputSchema", () => {
+    for (const t of TOOLS) {
+      expect(() => validateToolArguments(t, {})).not.toThrow(/schema/i);
+    }
+  });
+
+  it("should apply schema defaults without mutating the input", () => {
+    const args = { text: "hello" };
+    const result = validateToolArguments(tool("s2t_embed"), args);
+
+    expect(result).toEqual({
+      text: "hello",
+      model: "amazon.titan-embed-text-v2:0",
+      chunk_size: 512,
+      chunk_overlap: 50,
+      output_format: "markdown",
+    });
+    expect(args).toEqual({ text: "hello" });
+  });
+
+  it("should report missing required properties by pointer", () => {
+    const violations = violationsOf(() =>
+      validateToolArguments(tool("s2t_classify_action_risk"), {})
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({ pointer: "/action", keyword: "required" })
+    );
+  });
+
+  it("should report every violation, including nested ones", () => {
+    const violations = violationsOf(() =>
+      validateToolArguments(tool("s2t_analyze_error_patterns"), {
+        errors: [{ message: "" }, { message: "ok", extra: true }],
+        include_ai_analysis: "yes",
+      })
+    );
+
+    expect(violations.map((v) => v.pointer)).toEqual(
+      expect.arrayContaining([
+        "/errors/0/message",
+        "/errors/1/extra",
+        "/include_ai_analysis",
+      ])
+    );
+  });
+
+  it("should reject enum and range violations", () => {
+    const violations = violationsOf(() =>
+      validateToolArguments(tool("s2t_route_task_to_agent"), {
+        task_description: "Deploy the new billing service",
+        top_k: 50,
+      })
+    );
+    expect(violations).toEqual([
+      expect.objectContaining({ pointer: "/top_k", keyword: "maximum" }),
+    ]);
+  });
+
+  it("should surface as an InvalidParams MCP error with structured data", () => {
+    try {
+      validateToolArguments(tool("s2t_embed"), { text: "" });
+      expect.unreachable();
+    } catch (error) {
+      const err = error as ToolArgumentsError;
+      expect(err.code).toBe(ErrorCode.InvalidParams);
+      expect(err.message).toContain("Invalid arguments for s2t_embed");
+      expect(err.data).toEqual({ tool: "s2t_embed", violations: err.violations });
+    }
+  });
+});
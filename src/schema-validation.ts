@@ -0,0 +1,123 @@
+/**
+ * S2T Accelerators - Tool Argument Validation
+ *
+ * Enforces each tool's declared inputSchema at runtime before the call is
+ * dispatched, so malformed agent calls are rejected locally instead of
+ * reaching (and being billed by) the S2T API. Upstream responses are checked
+ * against the matching outputSchema before they are rendered, so API drift
+ * surfaces as a named contract mismatch rather than a TypeError.
+ *
+ * @module schema-validation
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import { ErrorCode, McpError, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import { UpstreamContractError } from "./api-errors.js";
+import type { ApiClient } from "./handlers.js";
+
+/** A single schema violation, addressed by JSON pointer into the arguments. */
+export interface SchemaViolation {
+  pointer: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Raised when tool arguments do not satisfy the tool's inputSchema. Surfaces
+ * to the client as a JSON-RPC InvalidParams error whose `data` lists every
+ * violation.
+ */
+export class ToolArgumentsError extends McpError {
+  readonly tool: string;
+  readonly violations: SchemaViolation[];
+
+  constructor(tool: string, violations: SchemaViolation[]) {
+    const details = violations.map((v) => `${v.pointer}: ${v.message}`).join("; ");
+    super(ErrorCode.InvalidParams, `Invalid arguments for ${tool}: ${details}`, {
+      tool,
+      violations,
+    });
+    this.name = "ToolArgumentsError";
+    this.tool = tool;
+    this.violations = violations;
+  }
+}
+
+const ajv = new Ajv({ allErrors: true, useDefaults: true, strict: false });
+const validators = new WeakMap<object, ValidateFunction>();
+
+function getValidator(schema: object): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function toViolation(error: ErrorObject): SchemaViolation {
+  let pointer = error.instancePath;
+  if (error.keyword === "required") {
+    pointer += `/${escapePointerSegment(String(error.params.missingProperty))}`;
+  } else if (error.keyword === "additionalProperties") {
+    pointer += `/${escapePointerSegment(String(error.params.additionalProperty))}`;
+  }
+  return {
+    pointer: pointer || "/",
+    keyword: error.keyword,
+    message: error.message ?? "is invalid",
+  };
+}
+
+/**
+ * Validate `args` against the tool's inputSchema and return a copy with
+ * schema `default`s applied. Throws ToolArgumentsError listing every
+ * violation when the arguments are invalid.
+ */
+export function validateToolArguments(
+  tool: Tool,
+  args: Record<string, unknown>
+): Record<string, unknown> {
+  const validate = getValidator(tool.inputSchema);
+  const candidate = structuredClone(args);
+
+  if (!validate(candidate)) {
+    throw new ToolArgumentsError(tool.name, (validate.errors ?? []).map(toViolation));
+  }
+  return candidate;
+}
+
+/**
+ * Check an upstream response against the tool's outputSchema and return it
+ * typed. Throws UpstreamContractError naming every offending field when the
+ * payload no longer matches what the renderers rely on.
+ */
+export function validateUpstreamResponse<T>(
+  schema: NonNullable<Tool["outputSchema"]>,
+  data: unknown,
+  request: { endpoint: string; method: string }
+): T {
+  const validate = getValidator(schema);
+  if (!validate(data)) {
+    throw new UpstreamContractError(request, (validate.errors ?? []).map(toViolation));
+  }
+  return data as T;
+}
+
+/**
+ * Check every response fetched through `client` against `schema`. The server
+ * puts this beneath the response cache, so only payloads that passed (with
+ * their defaults applied) are ever stored.
+ */
+export function validatingApiClient(client: ApiClient, schema: NonNullable<Tool["outputSchema"]>): ApiClient {
+  return {
+    async callApi(endpoint, method, body, options) {
+      const data = await client.callApi(endpoint, method, body, options);
+      return validateUpstreamResponse(schema, data, { endpoint, method: method ?? "GET" });
+    },
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * S2T Accelerators MCP Server - Server Setup Tests
+ *
+ * Tests the shared tool registry and the createMcpServer request handlers
+ * end to end through an in-memory MCP client.
+ *
+ * @module server-setup.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { TOOLS, TOOL_REGISTRY, buildToolRegistry, isCacheableTool } from "./server-setup.js";
+import { createResponseCache } from "./response-cache.js";
+import type { ApiClient } from "./handlers.js";
+import { S2TAuthError, S2TUpstreamUnavailableError } from "./api-errors.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createMockApiClient(
+  responseData: unknown = {}
+): { client: ApiClient; callApi: ReturnType<typeof vi.fn> } {
+  const callApi = vi.fn().mockResolvedValue(responseData);
+  return { client: { callApi } as ApiClient, callApi };
+}
+
+const RISK_RESPONSE = {
+  risk_level: "LOW",
+  score: 12,
+  factors: [],
+  recommendation: "Safe to proceed",
+  auto_approve: true,
+  metadata: { processing_time_ms: 4, model_version: "v1" },
+};
+
+// ===========================================================================
+// Tool registry
+// ===========================================================================
+
+describe("TOOL_REGISTRY", () => {
+  it("should register a handler for every tool definition", () => {
+    expect(TOOL_REGISTRY.size).toBe(TOOLS.length);
+    for (const tool of TOOLS) {
+      expect(TOOL_REGISTRY.get(tool.name)?.definition).toBe(tool);
+    }
+  });
+
+  it("should mark interview tools as local and the rest as API-backed", () => {
+    for (const [name, entry] of TOOL_REGISTRY) {
+      const expected = name.startsWith("s2t_interview_") ? "local" : "api";
+      expect(entry.dependencies).toEqual([expected]);
+    }
+  });
+
+  it("should declare an outputSchema for every API-backed tool", () => {
+    for (const [name, entry] of TOOL_REGISTRY) {
+      if (entry.dependencies.includes("api")) {
+        expect(entry.definition.outputSchema, name).toMatchObject({ type: "object" });
+      }
+    }
+  });
+
+  it("should refuse to build when a definition has no handler", () => {
+    const tools = [{ name: "orphan_tool", inputSchema: { type: "object" } }] as Tool[];
+    expect(() => buildToolRegistry(tools, {})).toThrow(
+      "Tool registry is incomplete: no handler for orphan_tool"
+    );
+  });
+
+  it("should refuse to build when a handler has no definition", () => {
+    expect(() =>
+      buildToolRegistry([], {
+        ghost_tool: { handler: async () => ({ text: "" }), dependencies: ["api"] },
+      })
+    ).toThrow("Tool registry is inconsistent: no definition for ghost_tool");
+  });
+});
+
+// ===========================================================================
+// createMcpServer
+// ===========================================================================
+
+describe("createMcpServer", () => {
+  it("should advertise every registered tool", async () => {
+    const { client: apiClient } = createMockApiClient();
+    const client = await connectClient(apiClient);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(TOOLS.map((t) => t.name));
+  });
+
+  it("should dispatch calls through the registry", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({
+      name: "s2t_classify_action_risk",
+      arguments: { action: "ls -la" },
+    });
+
+    expect(callApi).toHaveBeenCalledWith(
+      "/accelerators/risk/classify",
+      "POST",
+      expect.objectContaining({ action: "ls -la" }),
+      expect.anything()
+    );
+    expect(result.isError).toBeFalsy();
+    expect(JSON.stringify(result.content)).toContain("Action Risk Classification");
+  });
+
+  it("should return the upstream response as schema-conformant structuredContent", async () => {
+    const { client: apiClient } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient);
+    await client.listTools(); // primes the client's outputSchema validators
+
+    const result = await client.callTool({
+      name: "s2t_classify_action_risk",
+      arguments: { action: "ls -la" },
+    });
+
+    expect(result.structuredContent).toEqual(RISK_RESPONSE);
+  });
+
+  it("should return the raw response as text when output_format is json", async () => {
+    const { client: apiClient } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({
+      name: "s2t_classify_action_risk",
+      arguments: { action: "ls -la", output_format: "json" },
+    });
+
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content.text)).toEqual(RISK_RESPONSE);
+  });
+
+  it("should advertise only the output formats a tool honours", () => {
+    const formatsOf = (name: string) =>
+      (TOOLS.find((tool) => tool.name === name)!.inputSchema.properties?.output_format as { enum: string[] })?.enum;
+
+    expect(formatsOf("s2t_classify_action_risk")).toEqual(["markdown", "json", "compact"]);
+    expect(formatsOf("aci_classify_decision")).toEqual(["markdown", "json"]);
+    expect(formatsOf("s2t_interview_create")).toBeUndefined();
+  });
+
+  it("should reject invalid arguments before calling the API", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient);
+
+    await expect(
+      client.callTool({
+        name: "s2t_classify_action_risk",
+        arguments: { action: "ls", environment: "moon" },
+      })
+    ).rejects.toThrow(/Invalid arguments for s2t_classify_action_risk: \/environment/);
+    expect(callApi).not.toHaveBeenCalled();
+  });
+
+  it("should apply schema defaults before dispatch", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient);
+
+    await client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+
+    expect(callApi).toHaveBeenCalledWith("/accelerators/risk/classify", "POST", {
+      action: "ls",
+      environment: "local",
+      context: "development",
+    }, expect.anything());
+  });
+
+  it("should scope each call with the request's abort signal and idempotency", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient);
+
+    await client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+    await client.callTool({ name: "s2t_acquire_file_lock", arguments: { file_path: "src/a.ts" } });
+
+    const [idempotentCall, lockCall] = callApi.mock.calls;
+    expect(idempotentCall[3]).toEqual({ signal: expect.any(AbortSignal), idempotent: true });
+    expect(lockCall[3]).toMatchObject({ idempotent: false });
+  });
+
+  it("should map platform errors to results with remediation hints", async () => {
+    const { client: apiClient, callApi } = createMockApiClient();
+    callApi.mockRejectedValue(
+      new S2TAuthError("Invalid API key", {
+        endpoint: "/catalog",
+        method: "GET",
+        status: 401,
+        code: "INVALID_API_KEY",
+        requestId: "req-9",
+      })
+    );
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({ name: "s2t_catalog", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(content.text).toContain("Error (S2TAuthError): Invalid API key");
+    expect(content.text).toContain("[HTTP 401 | INVALID_API_KEY | request req-9]");
+    expect(content.text).toContain("Hint: Check that S2T_API_KEY is set");
+    expect(result._meta?.["s2t/error"]).toMatchObject({ type: "S2TAuthError", status: 401 });
+  });
+
+  it("should check every API-backed response against the tool's outputSchema", async () => {
+    const { client: apiClient } = createMockApiClient({ status: "queued" });
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({
+      name: "aci_classify_decision",
+      arguments: { action: "Restart staging workers" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(content.text).toContain("Error (UpstreamContractError): Upstream contract mismatch for POST /aci/");
+    expect(result._meta?.["s2t/error"]).toMatchObject({ type: "UpstreamContractError" });
+  });
+
+  it("should name the missing field in a contract mismatch", async () => {
+    const { client: apiClient } = createMockApiClient({ ...RISK_RESPONSE, score: undefined });
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(content.text).toContain(
+      "Upstream contract mismatch for POST /accelerators/risk/classify: /score must have required property 'score'"
+    );
+  });
+
+  it("should report nested type drift with a JSON pointer", async () => {
+    const { client: apiClient } = createMockApiClient({
+      ...RISK_RESPONSE,
+      metadata: { processing_time_ms: "fast", model_version: "v1" },
+    });
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(content.text).toContain(
+      "Upstream contract mismatch for POST /accelerators/risk/classify: /metadata/processing_time_ms must be number"
+    );
+  });
+
+  it("should omit absent facts for errors without a response", async () => {
+    const { client: apiClient, callApi } = createMockApiClient();
+    callApi.mockRejectedValue(
+      new S2TUpstreamUnavailableError("API request timed out after 10ms: GET /catalog", {
+        endpoint: "/catalog",
+        method: "GET",
+      })
+    );
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({ name: "s2t_catalog", arguments: {} });
+
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(content.text).toBe(
+      "Error (S2TUpstreamUnavailableError): API request timed out after 10ms: GET /catalog\n" +
+        "Hint: The S2T platform is temporarily unavailable. Retry shortly; if it persists, report the request ID to S2T support."
+    );
+  });
+
+  it("should return isError for unknown tools", async () => {
+    const { client: apiClient } = createMockApiClient();
+    const client = await connectClient(apiClient);
+
+    const result = await client.callTool({ name: "no_such_tool", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("Unknown tool: no_such_tool");
+  });
+
+  // -------------------------------------------------------------------------
+  // Response cache
+  // -------------------------------------------------------------------------
+
+  it("should serve repeat calls to cacheable tools from the cache", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient, { cache: createResponseCache() });
+    const call = (args: Record<string, unknown>) =>
+      client.callTool({ name: "s2t_classify_action_risk", arguments: args });
+
+    const first = await call({ action: "ls", environment: "local" });
+    const second = await call({ environment: "local", action: "ls" });
+
+    expect(callApi).toHaveBeenCalledTimes(1);
+    expect(first._meta).toEqual({ "s2t/cache": { status: "miss", ttlMs: 300_000 } });
+    expect(second._meta?.["s2t/cache"]).toMatchObject({ status: "hit", ttlMs: 300_000 });
+    expect(second.structuredContent).toEqual(RISK_RESPONSE);
+    const [content] = second.content as Array<{ type: string; text: string }>;
+    expect(content.text).toContain("Served from cache");
+  });
+
+  it("should refresh the cache when bypass_cache is set", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    const cache = createResponseCache();
+    const client = await connectClient(apiClient, { cache });
+
+    await client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+    const bypassed = await client.callTool({
+      name: "s2t_classify_action_risk",
+      arguments: { action: "ls", bypass_cache: true },
+    });
+
+    expect(callApi).toHaveBeenCalledTimes(2);
+    expect(bypassed._meta?.["s2t/cache"]).toMatchObject({ status: "bypass" });
+    expect(cache.stats()).toEqual({ hits: 0, misses: 1, bypasses: 1 });
+  });
+
+  it("should not cache a response that fails the outputSchema", async () => {
+    const { client: apiClient, callApi } = createMockApiClient(RISK_RESPONSE);
+    callApi.mockResolvedValueOnce({ ...RISK_RESPONSE, score: "high" });
+    const client = await connectClient(apiClient, { cache: createResponseCache() });
+    const call = () => client.callTool({ name: "s2t_classify_action_risk", arguments: { action: "ls" } });
+
+    const failed = await call();
+    const retried = await call();
+
+    expect(failed.isError).toBe(true);
+    expect(callApi).toHaveBeenCalledTimes(2);
+    expect(retried.isError).toBeUndefined();
+    expect(retried.structuredContent).toEqual(RISK_RESPONSE);
+  });
+
+  it("should keep cached json output parseable", async () => {
+    const { client: apiClient } = createMockApiClient(RISK_RESPONSE);
+    const client = await connectClient(apiClient, { cache: createResponseCache() });
+    const args = { action: "ls", output_format: "json" };
+
+    await client.callTool({ name: "s2t_classify_action_risk", arguments: args });
+    const result = await client.callTool({ name: "s2t_classify_action_risk", arguments: args });
+
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content.text)).toEqual(RISK_RESPONSE);
+  });
+
+  it("should never cache non-idempotent tools", async () => {
+    const { client: apiClient, callApi } = createMockApiClient({});
+    const client = await connectClient(apiClient, { cache: createResponseCache() });
+
+    for (let i = 0; i < 2; i++) {
+      const result = await client.callTool({
+        name: "s2t_acquire_file_lock",
+        arguments: { file_path: "a.ts" },
+      });
+      expect(result._meta?.["s2t/cache"]).toBeUndefined();
+    }
+    expect(callApi).toHaveBeenCalledTimes(2);
+  });
+
+  it("should advertise bypass_cache only on cacheable tools", () => {
+    for (const tool of TOOLS) {
+      expect("bypass_cache" in (tool.inputSchema.properties ?? {}), tool.name).toBe(isCacheableTool(tool));
+    }
+    expect(TOOLS.filter(isCacheableTool).map((t) => t.name)).toEqual(
+      expect.arrayContaining(["s2t_validate_iam_policy", "s2t_generate_dynamodb_design", "aci_compliance_check", "s2t_catalog"])
+    );
+  });
+});
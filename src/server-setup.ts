@@ -1,9 +1,10 @@
 /**
  * S2T Accelerators MCP Server - Shared Setup
  *
- * Contains tool definitions, API client factory, and request handler
- * registration logic shared between the stdio (index.ts) and HTTP
- * (http-server.ts) entry points.
+ * Contains tool definitions, the tool registry, and request handler
+ * registration logic (tools and resources) shared between the stdio (index.ts) and HTTP
+ * (http-server.ts) entry points. The API client lives in api-client.ts and
+ * is re-exported here for existing importers.
  *
  * @module server-setup
  * @version 1.4.0
@@ -12,8 +13,21 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   handleEmbed,
@@ -49,7 +63,10 @@ import {
   handleAciBlastRadius,
   handleAciRollback,
   handleAciGovernanceHealth,
+  getOutputFormat,
+  OUTPUT_FORMATS,
   ApiClient,
+  type OutputFormat,
 } from "./handlers.js";
 import {
   handleInterviewCreate,
@@ -57,6 +74,79 @@ import {
   handleInterviewSummary,
   handleInterviewList,
 } from './local-handlers.js';
+import { ToolArgumentsError, validateToolArguments, validatingApiClient } from "./schema-validation.js";
+import { scopeApiClient } from "./api-client.js";
+import { API_KEY_URL, S2TApiError, UpstreamContractError } from "./api-errors.js";
+import type { CacheReport, ResponseCache } from "./response-cache.js";
+import { errorClassOf, type Metrics } from "./metrics.js";
+import { parseTraceparent, type SpanContext, type Tracer } from "./tracing.js";
+import type { AuditLog } from "./audit.js";
+import { mergeSettings } from "./config.js";
+import { toolsetOf } from "./toolsets.js";
+import { createProgressReporter, NO_PROGRESS, progressApiClient, type ProgressReporter } from "./progress.js";
+import { createCompletionIndex, isCompletable, type CompletionIndex } from "./completions.js";
+import {
+  combineLoggers,
+  createClientLogger,
+  errorMessage,
+  loggingApiClient,
+  NO_LOG,
+  type LogFields,
+  type Logger,
+} from "./logger.js";
+import {
+  createTierWatcherPool,
+  isToolAvailable,
+  type TierAccessOptions,
+  type TierSnapshot,
+  type TierWatcherMembership,
+  type TierWatcherPool,
+} from "./tier-access.js";
+import {
+  CATALOG_URI,
+  isResourceTemplate,
+  RESOURCES,
+  resourceListing,
+  resourcesUpdatedBy,
+  resourceTemplateListing,
+  resolveResource,
+} from "./resources.js";
+
+export { createApiClient } from "./api-client.js";
+import {
+  EMBED_OUTPUT_SCHEMA,
+  ERROR_PATTERNS_OUTPUT_SCHEMA,
+  CLOUDFORMATION_OUTPUT_SCHEMA,
+  OAUTH_OUTPUT_SCHEMA,
+  DYNAMODB_DESIGN_OUTPUT_SCHEMA,
+  DATA_LAKE_READINESS_OUTPUT_SCHEMA,
+  IAM_POLICY_OUTPUT_SCHEMA,
+  MFA_COMPLIANCE_OUTPUT_SCHEMA,
+  CLI_READINESS_OUTPUT_SCHEMA,
+  CATALOG_OUTPUT_SCHEMA,
+  USAGE_OUTPUT_SCHEMA,
+  RISK_CLASSIFICATION_OUTPUT_SCHEMA,
+  TASK_ROUTING_OUTPUT_SCHEMA,
+  SYSTEM_PREDICTION_OUTPUT_SCHEMA,
+  RECOVERY_OUTPUT_SCHEMA,
+  RESILIENCE_OUTPUT_SCHEMA,
+  AGENT_MEMORY_OUTPUT_SCHEMA,
+  TASK_SUBMISSION_OUTPUT_SCHEMA,
+  TRACE_CONTEXT_OUTPUT_SCHEMA,
+  FILE_LOCK_OUTPUT_SCHEMA,
+  ACI_CLASSIFY_OUTPUT_SCHEMA,
+  ACI_FINANCIAL_GATE_OUTPUT_SCHEMA,
+  ACI_COMPLIANCE_OUTPUT_SCHEMA,
+  ACI_ROUTE_DOMAIN_OUTPUT_SCHEMA,
+  ACI_PARALLEL_REVIEW_OUTPUT_SCHEMA,
+  ACI_SYNTHESIZE_REVIEWS_OUTPUT_SCHEMA,
+  ACI_LOG_DECISION_OUTPUT_SCHEMA,
+  ACI_RECALL_PRECEDENT_OUTPUT_SCHEMA,
+  ACI_RECORD_OUTCOME_OUTPUT_SCHEMA,
+  ACI_BLAST_RADIUS_OUTPUT_SCHEMA,
+  ACI_ROLLBACK_OUTPUT_SCHEMA,
+  ACI_GOVERNANCE_HEALTH_OUTPUT_SCHEMA,
+} from "./output-schemas.js";
 
 export type { ApiClient };
 
@@ -67,7 +157,7 @@ export const SERVER_VERSION = "1.4.2";
 // Tool definitions
 // ---------------------------------------------------------------------------
 
-export const TOOLS: Tool[] = [
+const TOOL_DEFINITIONS: Tool[] = [
   // =========================================================================
   // AI & EMBEDDINGS (2 tools)
   // =========================================================================
@@ -109,6 +199,7 @@ export const TOOLS: Tool[] = [
       required: ["text"],
       additionalProperties: false,
     },
+    outputSchema: EMBED_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -145,6 +236,7 @@ export const TOOLS: Tool[] = [
       required: ["errors"],
       additionalProperties: false,
     },
+    outputSchema: ERROR_PATTERNS_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
 
@@ -185,6 +277,7 @@ export const TOOLS: Tool[] = [
       required: ["description"],
       additionalProperties: false,
     },
+    outputSchema: CLOUDFORMATION_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -233,6 +326,7 @@ export const TOOLS: Tool[] = [
       required: ["provider", "client_id", "redirect_uris", "scopes"],
       additionalProperties: false,
     },
+    outputSchema: OAUTH_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -284,6 +378,7 @@ export const TOOLS: Tool[] = [
       required: ["entities", "access_patterns"],
       additionalProperties: false,
     },
+    outputSchema: DYNAMODB_DESIGN_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -323,6 +418,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: DATA_LAKE_READINESS_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
 
@@ -356,6 +452,7 @@ export const TOOLS: Tool[] = [
       required: ["policy_document"],
       additionalProperties: false,
     },
+    outputSchema: IAM_POLICY_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -412,6 +509,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: MFA_COMPLIANCE_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -439,6 +537,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: CLI_READINESS_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
 
@@ -456,6 +555,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: CATALOG_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -469,11 +569,12 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: USAGE_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
 
   // =========================================================================
-  // AGENT ORCHESTRATION (7 tools)
+  // AGENT ORCHESTRATION (9 tools)
   // =========================================================================
   {
     name: "s2t_classify_action_risk",
@@ -505,6 +606,7 @@ export const TOOLS: Tool[] = [
       required: ["action"],
       additionalProperties: false,
     },
+    outputSchema: RISK_CLASSIFICATION_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -537,6 +639,7 @@ export const TOOLS: Tool[] = [
       required: ["task_description"],
       additionalProperties: false,
     },
+    outputSchema: TASK_ROUTING_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -563,6 +666,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: SYSTEM_PREDICTION_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -598,6 +702,7 @@ export const TOOLS: Tool[] = [
       required: ["error_message"],
       additionalProperties: false,
     },
+    outputSchema: RECOVERY_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
   {
@@ -639,6 +744,7 @@ export const TOOLS: Tool[] = [
       required: ["operation_id"],
       additionalProperties: false,
     },
+    outputSchema: RESILIENCE_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -685,6 +791,7 @@ export const TOOLS: Tool[] = [
       required: ["operation", "agent_id"],
       additionalProperties: false,
     },
+    outputSchema: AGENT_MEMORY_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
   {
@@ -722,12 +829,9 @@ export const TOOLS: Tool[] = [
       required: ["agent_id", "prompt"],
       additionalProperties: false,
     },
+    outputSchema: TASK_SUBMISSION_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
-
-  // =========================================================================
-  // DISTRIBUTED SYSTEMS (2 tools)
-  // =========================================================================
   {
     name: "s2t_create_trace_context",
     title: "Create Trace Context",
@@ -752,6 +856,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: TRACE_CONTEXT_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -790,6 +895,7 @@ export const TOOLS: Tool[] = [
       required: ["file_path"],
       additionalProperties: false,
     },
+    outputSchema: FILE_LOCK_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
 
@@ -839,6 +945,7 @@ export const TOOLS: Tool[] = [
       required: ["action"],
       additionalProperties: false,
     },
+    outputSchema: ACI_CLASSIFY_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
   {
@@ -875,6 +982,7 @@ export const TOOLS: Tool[] = [
       required: ["action"],
       additionalProperties: false,
     },
+    outputSchema: ACI_FINANCIAL_GATE_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
   {
@@ -911,6 +1019,7 @@ export const TOOLS: Tool[] = [
       required: ["action"],
       additionalProperties: false,
     },
+    outputSchema: ACI_COMPLIANCE_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -940,6 +1049,7 @@ export const TOOLS: Tool[] = [
       required: ["task_description"],
       additionalProperties: false,
     },
+    outputSchema: ACI_ROUTE_DOMAIN_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -986,6 +1096,7 @@ export const TOOLS: Tool[] = [
       required: ["action", "reviewers"],
       additionalProperties: false,
     },
+    outputSchema: ACI_PARALLEL_REVIEW_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
   {
@@ -1021,6 +1132,7 @@ export const TOOLS: Tool[] = [
       required: ["review_session_id", "reviews"],
       additionalProperties: false,
     },
+    outputSchema: ACI_SYNTHESIZE_REVIEWS_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -1068,6 +1180,7 @@ export const TOOLS: Tool[] = [
       required: ["action", "classification", "reasoning"],
       additionalProperties: false,
     },
+    outputSchema: ACI_LOG_DECISION_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
   },
   {
@@ -1112,6 +1225,7 @@ export const TOOLS: Tool[] = [
       required: ["query"],
       additionalProperties: false,
     },
+    outputSchema: ACI_RECALL_PRECEDENT_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -1142,6 +1256,7 @@ export const TOOLS: Tool[] = [
       required: ["decision_id", "outcome"],
       additionalProperties: false,
     },
+    outputSchema: ACI_RECORD_OUTCOME_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -1178,6 +1293,7 @@ export const TOOLS: Tool[] = [
       required: ["action"],
       additionalProperties: false,
     },
+    outputSchema: ACI_BLAST_RADIUS_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -1213,6 +1329,7 @@ export const TOOLS: Tool[] = [
       required: ["action"],
       additionalProperties: false,
     },
+    outputSchema: ACI_ROLLBACK_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
   {
@@ -1238,6 +1355,7 @@ export const TOOLS: Tool[] = [
       required: [],
       additionalProperties: false,
     },
+    outputSchema: ACI_GOVERNANCE_HEALTH_OUTPUT_SCHEMA,
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
   },
 
@@ -1352,298 +1470,889 @@ export const TOOLS: Tool[] = [
   },
 ];
 
+// Options accepted by tools in addition to their own parameters.
+
+const OUTPUT_FORMAT_DESCRIPTIONS: Record<OutputFormat, string> = {
+  markdown: "markdown (full report)",
+  json: "json (raw API response)",
+  compact: "compact (one-screen summary for tight context budgets)",
+};
+
+/**
+ * The output_format values each toolset's handlers honour, where not all
+ * of them. The governance handlers render one view, and api() returns their
+ * raw response for json; local tools render one view and take no
+ * output_format at all.
+ */
+const TOOLSET_OUTPUT_FORMATS: Readonly<Record<string, readonly OutputFormat[]>> = {
+  governance: ["markdown", "json"],
+  local: [],
+};
+
+function outputFormatProperty(formats: readonly OutputFormat[]) {
+  const described = formats.map((format) => OUTPUT_FORMAT_DESCRIPTIONS[format]);
+  const last = described.pop();
+  return {
+    type: "string",
+    enum: [...formats],
+    default: "markdown",
+    description: `Response format: ${described.length > 0 ? `${described.join(", ")} or ${last}` : last}`,
+  };
+}
+
+const BYPASS_CACHE_PROPERTY = {
+  type: "boolean",
+  description: "Skip the response cache and fetch a fresh result (the fresh result is cached)",
+};
+
+/**
+ * Whether a tool's API responses may be served from the response cache:
+ * API-backed (they declare an outputSchema), read-only and idempotent.
+ */
+export function isCacheableTool(tool: Tool): boolean {
+  return (
+    tool.outputSchema !== undefined &&
+    tool.annotations?.readOnlyHint === true &&
+    tool.annotations?.idempotentHint === true
+  );
+}
+
+function withUniversalOptions(tool: Tool): Tool {
+  const formats = TOOLSET_OUTPUT_FORMATS[toolsetOf(tool.name) ?? ""] ?? OUTPUT_FORMATS;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        ...(formats.length > 0 ? { output_format: outputFormatProperty(formats) } : {}),
+        ...(isCacheableTool(tool) ? { bypass_cache: BYPASS_CACHE_PROPERTY } : {}),
+      },
+    },
+  };
+}
+
+/** Publish the tool's toolset on its definition. Every tool must have one. */
+function withToolset(tool: Tool): Tool {
+  const toolset = toolsetOf(tool.name);
+  if (!toolset) {
+    throw new Error(`Tool ${tool.name} belongs to no toolset; add it to TOOLSETS in toolsets.ts`);
+  }
+  return { ...tool, _meta: { ...tool._meta, "s2t/toolset": toolset } };
+}
+
+export const TOOLS: Tool[] = TOOL_DEFINITIONS.map((tool) => withToolset(withUniversalOptions(tool)));
+
 // ---------------------------------------------------------------------------
-// API client factory
+// Tool registry
 // ---------------------------------------------------------------------------
 
-export function createApiClient(baseUrl: string, apiKey: string): ApiClient {
+/**
+ * Runtime dependencies a tool handler may need. "api" tools call the S2T
+ * Accelerator Platform through the ApiClient; "local" tools run entirely
+ * in-process on top of @s2t/core and never touch the network.
+ */
+export type ToolDependency = "api" | "local";
+
+export interface ToolDependencies {
+  apiClient: ApiClient;
+  /** Reports the call's progress to the client; a no-op without a progressToken. */
+  progress: ProgressReporter;
+}
+
+/**
+ * What a tool handler produces: the human-readable rendering plus, for tools
+ * that declare an outputSchema, the structured payload it describes.
+ */
+export interface ToolOutput {
+  text: string;
+  structuredContent?: Record<string, unknown>;
+}
+
+export type ToolHandler = (
+  args: Record<string, unknown>,
+  deps: ToolDependencies,
+  tool: Tool
+) => Promise<ToolOutput>;
+
+export interface ToolRegistryEntry {
+  definition: Tool;
+  handler: ToolHandler;
+  dependencies: readonly ToolDependency[];
+}
+
+type ToolBinding = Omit<ToolRegistryEntry, "definition">;
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Bind an API-backed handler. The handler renders the text; the upstream
+ * response it rendered from is captured on the way through and returned as
+ * the tool's structuredContent. The client it is given has already checked
+ * each response against the tool's outputSchema (see validatingApiClient),
+ * so a drifted payload fails as an UpstreamContractError instead of being
+ * rendered or returned. Handlers that render without consulting
+ * output_format still honour "json" by returning the captured response.
+ */
+function api(
+  handler: (args: Record<string, unknown>, apiClient: ApiClient, progress: ProgressReporter) => Promise<string>
+): ToolBinding {
   return {
-    async callApi(
-      endpoint: string,
-      method: string = "GET",
-      body?: object
-    ): Promise<unknown> {
-      const url = `${baseUrl}${endpoint}`;
-
-      const options: RequestInit = {
-        method,
-        headers: {
-          "X-S2T-API-Key": apiKey,
-          "Content-Type": "application/json",
+    handler: async (args, deps) => {
+      let structuredContent: Record<string, unknown> | undefined;
+      const recordingClient: ApiClient = {
+        async callApi(endpoint, method, body, options) {
+          const data = await deps.apiClient.callApi(endpoint, method, body, options);
+          if (isJsonObject(data)) structuredContent = data;
+          return data;
         },
       };
 
-      if (body) {
-        options.body = JSON.stringify(body);
+      let text = await handler(args, recordingClient, deps.progress);
+      if (getOutputFormat(args) === "json" && structuredContent) {
+        text = JSON.stringify(structuredContent, null, 2);
       }
+      return { text, structuredContent };
+    },
+    dependencies: ["api"],
+  };
+}
 
-      const response = await fetch(url, options);
-      const data = await response.json();
+function local(
+  handler: (args: Record<string, unknown>, progress: ProgressReporter) => Promise<string>
+): ToolBinding {
+  return {
+    handler: async (args, deps) => ({ text: await handler(args, deps.progress) }),
+    dependencies: ["local"],
+  };
+}
 
-      if (!response.ok) {
-        throw new Error(
-          (data as { error?: { message?: string } }).error?.message ||
-            `API error: ${response.status}`
-        );
+const TOOL_BINDINGS: Record<string, ToolBinding> = {
+  s2t_embed: api(handleEmbed),
+  s2t_analyze_error_patterns: api(handleErrorPatterns),
+  s2t_generate_cloudformation: api(handleCloudFormation),
+  s2t_validate_oauth: api(handleOAuthValidate),
+  s2t_generate_dynamodb_design: api(handleDynamoDbDesign),
+  s2t_check_data_lake_readiness: api(handleDataLakeReadiness),
+  s2t_validate_iam_policy: api(handleIamPolicyValidate),
+  s2t_validate_mfa_compliance: api(handleMfaCompliance),
+  s2t_validate_cli_readiness: api(handleCliReadiness),
+  s2t_catalog: api((args, apiClient) => handleCatalog(apiClient, args)),
+  s2t_usage: api((args, apiClient) => handleUsage(apiClient, args)),
+  s2t_classify_action_risk: api(handleRiskClassify),
+  s2t_route_task_to_agent: api(handleTaskRouting),
+  s2t_predict_system_issues: api(handlePredictIssues),
+  s2t_attempt_auto_recovery: api(handleAutoRecovery),
+  s2t_execute_with_resilience: api(handleResilienceExecute),
+  s2t_manage_agent_memory: api(handleAgentMemory),
+  s2t_submit_agent_task: api(handleAgentTask),
+  s2t_create_trace_context: api(handleTraceContext),
+  s2t_acquire_file_lock: api(handleFileLock),
+
+  // ACI Governance Tools
+  aci_classify_decision: api(handleAciClassify),
+  aci_financial_gate: api(handleAciFinancialGate),
+  aci_compliance_check: api(handleAciComplianceCheck),
+  aci_route_domain: api(handleAciRouteDomain),
+  aci_parallel_review: api(handleAciParallelReview),
+  aci_synthesize_reviews: api(handleAciSynthesizeReviews),
+  aci_log_decision: api(handleAciLogDecision),
+  aci_recall_precedent: api(handleAciRecallPrecedent),
+  aci_record_outcome: api(handleAciRecordOutcome),
+  aci_estimate_blast_radius: api(handleAciBlastRadius),
+  aci_generate_rollback: api(handleAciRollback),
+  aci_governance_health: api(handleAciGovernanceHealth),
+
+  // Local tools (powered by @s2t/core)
+  s2t_interview_create: local(handleInterviewCreate),
+  s2t_interview_message: local(handleInterviewMessage),
+  s2t_interview_summary: local(handleInterviewSummary),
+  s2t_interview_list: local(handleInterviewList),
+};
+
+/**
+ * Pair every tool definition with its handler binding. Throws if a
+ * definition has no handler or a handler has no definition, so a half-wired
+ * tool fails at startup instead of at call time.
+ */
+export function buildToolRegistry(
+  tools: Tool[],
+  bindings: Record<string, ToolBinding>
+): Map<string, ToolRegistryEntry> {
+  const registry = new Map<string, ToolRegistryEntry>();
+
+  const missing = tools.filter((t) => !(t.name in bindings)).map((t) => t.name);
+  if (missing.length > 0) {
+    throw new Error(`Tool registry is incomplete: no handler for ${missing.join(", ")}`);
+  }
+
+  const defined = new Set(tools.map((t) => t.name));
+  const orphaned = Object.keys(bindings).filter((name) => !defined.has(name));
+  if (orphaned.length > 0) {
+    throw new Error(`Tool registry is inconsistent: no definition for ${orphaned.join(", ")}`);
+  }
+
+  for (const definition of tools) {
+    registry.set(definition.name, { definition, ...bindings[definition.name] });
+  }
+  return registry;
+}
+
+export const TOOL_REGISTRY = buildToolRegistry(TOOLS, TOOL_BINDINGS);
+
+// ---------------------------------------------------------------------------
+// Prompt registry
+// ---------------------------------------------------------------------------
+
+export interface PromptArgumentSpec {
+  name: string;
+  description?: string;
+  required?: boolean;
+  /** Used when the argument is not given. */
+  default?: string;
+}
+
+/**
+ * A parameterised prompt for a multi-tool workflow. `template` becomes the
+ * user message: `{{name}}` is replaced by the argument of that name, and
+ * `{{#name}}...{{/name}}` is kept only when that argument is given.
+ */
+export interface PromptTemplate {
+  name: string;
+  title?: string;
+  description: string;
+  arguments?: PromptArgumentSpec[];
+  /** Tools the workflow calls; the prompt is only served while all of them are. */
+  tools?: string[];
+  template: string;
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "preflight_production_change",
+    title: "Pre-flight a Production Change",
+    description:
+      "Classify a proposed change, estimate its blast radius and prepare a rollback plan before it runs, then log the decision",
+    arguments: [
+      { name: "change", description: "The change to pre-flight, e.g. 'Drop the legacy orders table'", required: true },
+      {
+        name: "environment",
+        description: "Target environment: local, development, staging or production (default: production)",
+        default: "production",
+      },
+      { name: "context", description: "Anything else the reviewers should know: ticket, services touched, timing" },
+    ],
+    tools: ["aci_classify_decision", "aci_estimate_blast_radius", "aci_generate_rollback", "aci_log_decision"],
+    template: `Pre-flight this change before it runs:
+
+Change: {{change}}
+Environment: {{environment}}{{#context}}
+Context: {{context}}{{/context}}
+
+1. Call aci_classify_decision with the change as the action and environment "{{environment}}".
+2. Call aci_estimate_blast_radius for the same action and environment.
+3. Call aci_generate_rollback for the same action and environment.
+4. Summarize: the classification and confidence, the systems and users affected, the rollback steps with their expected duration, and any warnings.
+5. Recommend proceed, proceed with conditions, or stop. If the classification is ESCALATE or BLOCK, ask me for approval instead of recommending to proceed.
+6. Once I confirm, record the outcome with aci_log_decision, including the reasoning and who approved it.`,
+  },
+  {
+    name: "audit_aws_account",
+    title: "Audit an AWS Account",
+    description: "Review an AWS account's IAM policies and MFA coverage and produce a prioritized remediation list",
+    arguments: [
+      { name: "account", description: "Account name or ID, used to label the report", required: true },
+      { name: "policy_document", description: "An IAM policy document (JSON) to validate" },
+      { name: "users", description: "IAM users with console access, access keys, MFA and privilege flags (JSON or a list)" },
+    ],
+    tools: ["s2t_validate_iam_policy", "s2t_validate_mfa_compliance"],
+    template: `Audit AWS account {{account}} for identity and access risks.
+
+1. Validate the IAM policies with s2t_validate_iam_policy and suggest_improvements: true.{{#policy_document}} Start with this policy:
+
+{{policy_document}}{{/policy_document}}
+2. Check MFA compliance with s2t_validate_mfa_compliance, including the root account.{{#users}} Users:
+
+{{users}}{{/users}}
+3. Ask me for any policies or users you still need rather than guessing.
+4. Report the findings as one table ordered by severity (critical, high, medium, low). For each, give the affected principal or statement and the fix.
+5. End with the three changes that reduce the most risk for {{account}}.`,
+  },
+  {
+    name: "triage_incident",
+    title: "Triage an Incident",
+    description: "Group recent errors, check for related issues building up, and propose or attempt a recovery",
+    arguments: [
+      { name: "errors", description: "Error messages or log lines, one per line", required: true },
+      { name: "service", description: "Affected service or component" },
+    ],
+    tools: ["s2t_analyze_error_patterns", "s2t_predict_system_issues", "s2t_attempt_auto_recovery"],
+    template: `Triage an incident{{#service}} in {{service}}{{/service}}. Recent errors:
+
+{{errors}}
+
+1. Call s2t_analyze_error_patterns with one entry per error to find the dominant patterns and likely root cause.
+2. Call s2t_predict_system_issues to check for related issues that are building up.
+3. For the most likely root cause, call s2t_attempt_auto_recovery with auto_execute: false and present the recovery plan.
+4. Do not run the recovery until I approve it.`,
+  },
+  {
+    name: "stakeholder_discovery",
+    title: "Run a Stakeholder Discovery Interview",
+    description: "Interview a stakeholder about a business process and finish with a structured summary",
+    arguments: [
+      { name: "customer_name", description: "Customer organization", required: true },
+      { name: "stakeholder_name", description: "Person being interviewed", required: true },
+      { name: "process_area", description: "Process to focus on, e.g. finance or supply chain" },
+    ],
+    tools: ["s2t_interview_create", "s2t_interview_message", "s2t_interview_summary"],
+    template: `Run a discovery interview with {{stakeholder_name}} at {{customer_name}}{{#process_area}} about {{process_area}}{{/process_area}}.
+
+1. Create the session with s2t_interview_create.
+2. Ask me each question the interview returns, one at a time, and pass my answers back with s2t_interview_message.
+3. When the interview is complete, call s2t_interview_summary and present the key findings, pain points and recommendations.`,
+  },
+];
+
+const PROMPT_PLACEHOLDER = /\{\{\s*([#/]?)\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/**
+ * Index prompts by name. Throws on duplicate names, placeholders without a
+ * declared argument, and tools that do not exist, so a broken team prompt
+ * fails at startup instead of when a client asks for it.
+ */
+export function buildPromptRegistry(prompts: PromptTemplate[]): Map<string, PromptTemplate> {
+  const registry = new Map<string, PromptTemplate>();
+  for (const prompt of prompts) {
+    if (registry.has(prompt.name)) {
+      throw new Error(`Duplicate prompt name "${prompt.name}"`);
+    }
+    const declared = new Set((prompt.arguments ?? []).map((argument) => argument.name));
+    for (const [, , name] of prompt.template.matchAll(PROMPT_PLACEHOLDER)) {
+      if (!declared.has(name)) {
+        throw new Error(`Prompt "${prompt.name}" uses undeclared argument "${name}"`);
       }
+    }
+    const unknown = (prompt.tools ?? []).filter((tool) => !TOOL_REGISTRY.has(tool));
+    if (unknown.length > 0) {
+      throw new Error(`Prompt "${prompt.name}" names unknown tools: ${unknown.join(", ")}`);
+    }
+    registry.set(prompt.name, prompt);
+  }
+  return registry;
+}
 
-      return data;
-    },
+export const PROMPT_REGISTRY = buildPromptRegistry(PROMPT_TEMPLATES);
+
+/**
+ * Fill in a prompt's template. Throws InvalidParams for missing required
+ * arguments and arguments the prompt does not declare.
+ */
+export function renderPrompt(prompt: PromptTemplate, args: Record<string, string> = {}): GetPromptResult {
+  const specs = prompt.arguments ?? [];
+  const unknown = Object.keys(args).filter((name) => !specs.some((spec) => spec.name === name));
+  if (unknown.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown arguments for prompt ${prompt.name}: ${unknown.join(", ")}`);
+  }
+  const missing = specs.filter((spec) => spec.required && !args[spec.name]?.trim()).map((spec) => spec.name);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required arguments for prompt ${prompt.name}: ${missing.join(", ")}`
+    );
+  }
+
+  const values: Record<string, string> = {};
+  for (const spec of specs) {
+    const value = args[spec.name]?.trim() || spec.default;
+    if (value) values[spec.name] = value;
+  }
+  const text = prompt.template
+    .replace(/\{\{#\s*([A-Za-z0-9_]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g, (_, name: string, body: string) =>
+      values[name] ? body : ""
+    )
+    .replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (_, name: string) => values[name] ?? "");
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Error results
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a failed tool call for the agent. Platform errors get the status,
+ * upstream code and request ID plus a remediation hint, and the same fields
+ * are attached under `_meta` for programmatic clients.
+ */
+function toolErrorResult(error: unknown): CallToolResult {
+  if (error instanceof S2TApiError) {
+    const facts = [
+      error.status !== undefined ? `HTTP ${error.status}` : undefined,
+      error.code,
+      error.requestId ? `request ${error.requestId}` : undefined,
+    ].filter(Boolean);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `Error (${error.name}): ${error.message}` +
+            (facts.length > 0 ? `\n[${facts.join(" | ")}]` : "") +
+            `\nHint: ${error.remediation}`,
+        },
+      ],
+      isError: true,
+      _meta: {
+        "s2t/error": {
+          type: error.name,
+          status: error.status,
+          code: error.code,
+          requestId: error.requestId,
+          retryAfterMs: error.retryAfterMs,
+          remediation: error.remediation,
+        },
+      },
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: `Error: ${errorMessage(error)}` }],
+    isError: true,
   };
 }
 
+/** Footer appended to text output when a call was answered from the cache. */
+function cacheNotice(report: CacheReport): string {
+  const age = Math.round((report.ageMs ?? 0) / 1000);
+  return `\n\n_Served from cache (${age}s old). Pass bypass_cache: true for a fresh result._`;
+}
+
 // ---------------------------------------------------------------------------
 // Server factory
 // ---------------------------------------------------------------------------
 
+export interface McpServerOptions {
+  /** Serve repeat calls to cacheable tools from this cache. */
+  cache?: ResponseCache;
+  /** Tenant that owns this server's session; partitions its cache entries. */
+  tenantId?: string;
+  /** Record per-tool call counts, errors and latency. */
+  metrics?: Metrics;
+  /** Run each tool call in a span and propagate it to the platform API. */
+  tracer?: Tracer;
+  /** Write a redacted audit record of every tool call. */
+  audit?: AuditLog;
+  /** Serve only the tools this accepts; others are neither listed nor callable. */
+  isToolEnabled?: (name: string) => boolean;
+  /** Default arguments per tool, merged under the caller's arguments. */
+  toolDefaults?: Record<string, Record<string, unknown>>;
+  /** Hide or annotate tools the caller's tier cannot use, per the platform catalog. */
+  tierAccess?: TierAccessOptions;
+  /** One tier watcher per API key; share one pool across sessions so each key polls once. */
+  tierWatchers?: TierWatcherPool;
+  /** Prompts to serve (default: the built-in PROMPT_REGISTRY). */
+  prompts?: Map<string, PromptTemplate>;
+  /** Server-side log; records are also sent to clients that set a level. */
+  logger?: Logger;
+  /** Learns IDs from tool calls to complete arguments; share one across sessions. */
+  completions?: CompletionIndex;
+}
+
+/**
+ * Trace context supplied by the caller: `params._meta.traceparent` on the
+ * request, else the `traceparent` header of the HTTP request carrying it.
+ */
+function callerTraceContext(
+  meta: Record<string, unknown> | undefined,
+  headers: Record<string, string | string[] | undefined> | undefined
+): SpanContext | undefined {
+  return (
+    parseTraceparent(meta?.traceparent, meta?.tracestate) ??
+    parseTraceparent(headers?.traceparent, headers?.tracestate)
+  );
+}
+
+function tierList(tiers: readonly string[]): string {
+  return tiers.length > 1 ? `${tiers.slice(0, -1).join(", ")} or ${tiers[tiers.length - 1]}` : tiers.join("");
+}
+
+/** Flag a tool the caller's tier cannot use, for annotate mode. */
+function withTierNotice(tool: Tool, snapshot: TierSnapshot): Tool {
+  const requiredTiers = snapshot.requiredTiers.get(tool.name) ?? [];
+  return {
+    ...tool,
+    description: `[Requires the ${tierList(requiredTiers)} tier] ${tool.description ?? ""}`.trimEnd(),
+    _meta: { ...tool._meta, "s2t/tier": { available: false, requiredTiers, yourTier: snapshot.tier } },
+  };
+}
+
+/** Result fields that carry a governance verdict, by tool family. */
+const GOVERNANCE_VERDICT_FIELDS = ["classification", "gate_result", "synthesized_classification", "compliance_result"];
+
+/** The verdict in a governance tool's structured result, for the log. */
+function governanceDecisionOf(name: string, result: Record<string, unknown> | undefined): LogFields | undefined {
+  if (!name.startsWith("aci_") || !result) return undefined;
+  const field = GOVERNANCE_VERDICT_FIELDS.find((key) => typeof result[key] === "string");
+  if (!field) return undefined;
+  return {
+    tool: name,
+    decision: result[field],
+    ...(typeof result.decision_id === "string" ? { decisionId: result.decision_id } : {}),
+    ...(typeof result.confidence === "number" ? { confidence: result.confidence } : {}),
+  };
+}
+
+/** JSON-RPC error code for an unknown resource URI, per the MCP specification. */
+const RESOURCE_NOT_FOUND = -32002;
+
 /**
  * Create a fully configured MCP Server instance with all S2T tools and
  * handlers registered. The returned server is transport-agnostic -- callers
  * connect it to whichever transport they need (stdio, HTTP, etc.).
  */
-export function createMcpServer(apiClient: ApiClient): Server {
+export function createMcpServer(apiClient: ApiClient, options: McpServerOptions = {}): Server {
+  const {
+    cache,
+    tenantId,
+    metrics,
+    tracer,
+    audit,
+    isToolEnabled = () => true,
+    toolDefaults = {},
+    tierAccess,
+    prompts = PROMPT_REGISTRY,
+    logger = NO_LOG,
+    completions = createCompletionIndex(),
+  } = options;
+
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
-    { capabilities: { tools: {} } }
+    {
+      capabilities: {
+        tools: tierAccess ? { listChanged: true } : {},
+        resources: { subscribe: true },
+        prompts: {},
+        logging: {},
+        completions: {},
+      },
+    }
   );
 
+  // -- Logging -------------------------------------------------------------
+  // Records go to the server's log and, once this session's client picks a
+  // level with logging/setLevel, to the client as notifications/message.
+  const clientLogger = createClientLogger((params) => server.sendLoggingMessage(params));
+  const log = combineLoggers(logger, clientLogger.log);
+  // Platform requests are wrapped only while someone is listening.
+  const requestLog = () => (logger === NO_LOG && !clientLogger.level ? NO_LOG : log);
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogger.setLevel(request.params.level);
+    return {};
+  });
+
+  // URIs this session subscribed to; tool calls that change them notify it.
+  const subscriptions = new Set<string>();
+  const notifyUpdated = (uris: readonly string[]) => {
+    for (const uri of uris) {
+      if (subscriptions.has(uri)) server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  };
+
+  // -- Tier watching -------------------------------------------------------
+  // The catalog is fetched with this session's client, so multi-tenant
+  // sessions each see their own tier. Sessions with the same key share one
+  // watcher, joined on first use and left when the session closes.
+  const tierWatchers = tierAccess && (options.tierWatchers ?? createTierWatcherPool(tierAccess, logger));
+  let tierMembership: TierWatcherMembership | undefined;
+  const tiers = tierWatchers
+    ? () =>
+        (tierMembership ??= tierWatchers.join(
+          tenantId ?? "",
+          loggingApiClient(apiClient, logger, tenantId ? { tenantId } : {}),
+          () => {
+            server.sendToolListChanged().catch(() => {});
+            notifyUpdated([CATALOG_URI]);
+          }
+        )).watcher
+    : undefined;
+  if (tiers) {
+    server.oninitialized = () => void tiers();
+    server.onclose = () => tierMembership?.leave();
+  }
+
   // -- List tools ----------------------------------------------------------
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: TOOLS,
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    await tiers?.().ready();
+    const snapshot = tiers?.().current();
+    const tools: Tool[] = [];
+    for (const { definition } of TOOL_REGISTRY.values()) {
+      if (!isToolEnabled(definition.name)) continue;
+      if (snapshot && !isToolAvailable(snapshot, definition.name)) {
+        if (tierAccess?.mode === "hide") continue;
+        tools.push(withTierNotice(definition, snapshot));
+      } else {
+        tools.push(definition);
+      }
+    }
+    return { tools };
+  });
+
+  // -- Resources -----------------------------------------------------------
+  const servedResources = () => RESOURCES.filter((resource) => isToolEnabled(resource.tool));
+
+  /** The served resource a URI names; throws RESOURCE_NOT_FOUND otherwise. */
+  const findResource = (uri: string) => {
+    const found = resolveResource(uri);
+    if (!found || !isToolEnabled(found.resource.tool)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+    }
+    return found;
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: servedResources()
+      .filter((resource) => !isResourceTemplate(resource))
+      .map(resourceListing),
   }));
 
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: servedResources().filter(isResourceTemplate).map(resourceTemplateListing),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const { resource, params } = findResource(uri);
+    const text = await resource.read(params, scopeApiClient(apiClient, { signal: extra.signal, idempotent: true }));
+    return { contents: [{ uri, mimeType: resource.mimeType, text }] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    findResource(request.params.uri);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // -- Prompts -------------------------------------------------------------
+  const isPromptServed = (prompt: PromptTemplate) => (prompt.tools ?? []).every((tool) => isToolEnabled(tool));
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: Array.from(prompts.values())
+      .filter(isPromptServed)
+      .map(({ name, title, description, arguments: specs = [] }) => ({
+        name,
+        title,
+        description,
+        arguments: specs.map((spec) => ({ name: spec.name, description: spec.description, required: spec.required })),
+      })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const prompt = prompts.get(request.params.name);
+    if (!prompt || !isPromptServed(prompt)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+    }
+    return renderPrompt(prompt, request.params.arguments);
+  });
+
+  // -- Completions ---------------------------------------------------------
+  // Learned IDs stay with the tenant, or on a shared key the OAuth client,
+  // that saw them.
+  const completionNamespace = (extra: { authInfo?: { clientId: string } }) => tenantId ?? extra.authInfo?.clientId;
+
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref, argument, context } = request.params;
+    let source: string | undefined;
+    if (ref.type === "ref/prompt") {
+      const prompt = prompts.get(ref.name);
+      if (!prompt || !isPromptServed(prompt)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+      }
+      const declared = (prompt.arguments ?? []).some((spec) => spec.name === argument.name);
+      source = declared && isCompletable(argument.name) ? argument.name : undefined;
+    } else {
+      const resource = servedResources().find(
+        (candidate) => candidate.uri === ref.uri && isResourceTemplate(candidate)
+      );
+      if (!resource) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource template not found: ${ref.uri}`, { uri: ref.uri });
+      }
+      // No template variable holds a learned ID (a precedent query is free
+      // text), so templates are only checked.
+    }
+    return {
+      completion: source
+        ? completions.complete(source, argument.value, {
+            namespace: completionNamespace(extra),
+            arguments: context?.arguments,
+          })
+        : { values: [], total: 0, hasMore: false },
+    };
+  });
+
   // -- Call tool -----------------------------------------------------------
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    // Objects in the defaults merge key by key; the caller's values win.
+    const args = Object.hasOwn(toolDefaults, name)
+      ? mergeSettings(toolDefaults[name], request.params.arguments ?? {})
+      : request.params.arguments;
+    const started = performance.now();
+    const span = tracer?.startSpan(`tools/call ${name}`, {
+      kind: "server",
+      parent: callerTraceContext(request.params._meta, extra.requestInfo?.headers),
+      attributes: { "mcp.method.name": "tools/call", "mcp.tool.name": name },
+    });
+    span?.setAttribute("mcp.session.id", extra.sessionId);
+
+    const record = (errorClass?: string, cacheReport?: CacheReport) => {
+      const durationMs = performance.now() - started;
+      // Unknown names are grouped so arbitrary input cannot add label values.
+      metrics?.recordToolCall({
+        tool: TOOL_REGISTRY.has(name) ? name : "unknown",
+        durationMs,
+        errorClass,
+        cacheStatus: cacheReport?.status,
+      });
+      audit?.record(
+        {
+          tool: name,
+          args,
+          who: {
+            tenantId,
+            clientId: extra.authInfo?.clientId,
+            subject: extra.authInfo?.extra?.subject as string | undefined,
+            sessionId: extra.sessionId,
+          },
+          durationMs,
+          errorClass,
+          cacheStatus: cacheReport?.status,
+        },
+        (error) =>
+          log("error", "Failed to write audit record", {
+            tool: name,
+            sessionId: extra.sessionId,
+            error: errorMessage(error),
+          })
+      );
+      span?.setAttribute("s2t.outcome", errorClass ? "error" : "ok");
+      span?.setAttribute("error.type", errorClass);
+      span?.setAttribute("s2t.cache.status", cacheReport?.status);
+      span?.setStatus(errorClass ? "error" : "ok");
+      span?.end();
+    };
 
     try {
-      let result: string;
-
-      switch (name) {
-        case "s2t_embed":
-          result = await handleEmbed(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_generate_cloudformation":
-          result = await handleCloudFormation(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_validate_oauth":
-          result = await handleOAuthValidate(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_validate_iam_policy":
-          result = await handleIamPolicyValidate(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_validate_mfa_compliance":
-          result = await handleMfaCompliance(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_generate_dynamodb_design":
-          result = await handleDynamoDbDesign(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_analyze_error_patterns":
-          result = await handleErrorPatterns(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_check_data_lake_readiness":
-          result = await handleDataLakeReadiness(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_catalog":
-          result = await handleCatalog(apiClient);
-          break;
-        case "s2t_usage":
-          result = await handleUsage(apiClient);
-          break;
-        case "s2t_classify_action_risk":
-          result = await handleRiskClassify(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_route_task_to_agent":
-          result = await handleTaskRouting(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_predict_system_issues":
-          result = await handlePredictIssues(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_attempt_auto_recovery":
-          result = await handleAutoRecovery(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_execute_with_resilience":
-          result = await handleResilienceExecute(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_manage_agent_memory":
-          result = await handleAgentMemory(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_submit_agent_task":
-          result = await handleAgentTask(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_create_trace_context":
-          result = await handleTraceContext(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_acquire_file_lock":
-          result = await handleFileLock(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "s2t_validate_cli_readiness":
-          result = await handleCliReadiness(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-
-        // ACI Governance Tools
-        case "aci_classify_decision":
-          result = await handleAciClassify(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_financial_gate":
-          result = await handleAciFinancialGate(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_compliance_check":
-          result = await handleAciComplianceCheck(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_route_domain":
-          result = await handleAciRouteDomain(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_parallel_review":
-          result = await handleAciParallelReview(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_synthesize_reviews":
-          result = await handleAciSynthesizeReviews(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_log_decision":
-          result = await handleAciLogDecision(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_recall_precedent":
-          result = await handleAciRecallPrecedent(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_record_outcome":
-          result = await handleAciRecordOutcome(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_estimate_blast_radius":
-          result = await handleAciBlastRadius(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_generate_rollback":
-          result = await handleAciRollback(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-        case "aci_governance_health":
-          result = await handleAciGovernanceHealth(
-            args as Record<string, unknown>,
-            apiClient
-          );
-          break;
-
-        // Local tools (powered by @s2t/core)
-        case "s2t_interview_create":
-          result = await handleInterviewCreate(
-            args as Record<string, unknown>
-          );
-          break;
-        case "s2t_interview_message":
-          result = await handleInterviewMessage(
-            args as Record<string, unknown>
-          );
-          break;
-        case "s2t_interview_summary":
-          result = await handleInterviewSummary(
-            args as Record<string, unknown>
-          );
-          break;
-        case "s2t_interview_list":
-          result = await handleInterviewList(
-            args as Record<string, unknown>
-          );
-          break;
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      const entry = TOOL_REGISTRY.get(name);
+      if (!entry) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      if (!isToolEnabled(name)) {
+        throw new Error(`Tool ${name} is disabled on this server`);
+      }
+      const snapshot = tiers?.().current();
+      if (tierAccess?.mode === "hide" && snapshot && !isToolAvailable(snapshot, name)) {
+        throw new Error(
+          `Tool ${name} requires the ${tierList(snapshot.requiredTiers.get(name) ?? [])} tier ` +
+            `(your tier: ${snapshot.tier}). Upgrade at ${API_KEY_URL}`
+        );
+      }
+
+      const validArgs = validateToolArguments(entry.definition, args ?? {});
+      // Scope the client to this call: client cancellation aborts the
+      // upstream fetch, and idempotent tools may retry transient failures.
+      let callClient = scopeApiClient(apiClient, {
+        signal: extra.signal,
+        idempotent: entry.definition.annotations?.idempotentHint === true,
+      });
+      if (tracer && span) callClient = tracer.instrument(callClient, span);
+      callClient = loggingApiClient(callClient, requestLog(), { tool: name, sessionId: extra.sessionId });
+      // Report progress when the client asked for it. Cache hits never reach
+      // the wrapped client, so they send no waiting updates.
+      const progressToken = request.params._meta?.progressToken;
+      const progress =
+        progressToken === undefined
+          ? NO_PROGRESS
+          : createProgressReporter(
+              (params) => extra.sendNotification({ method: "notifications/progress", params }),
+              progressToken
+            );
+      callClient = progressApiClient(callClient, progress);
+      // Check responses beneath the cache so a payload that fails its
+      // outputSchema is never stored.
+      const { outputSchema } = entry.definition;
+      if (outputSchema) callClient = validatingApiClient(callClient, outputSchema);
+      const cached =
+        cache && isCacheableTool(entry.definition) && cache.ttlFor(name) > 0
+          ? cache.wrap(callClient, name, {
+              bypass: validArgs.bypass_cache === true,
+              namespace: tenantId,
+            })
+          : undefined;
+      if (cached) callClient = cached.apiClient;
+
+      const result = await entry.handler(validArgs, { apiClient: callClient, progress }, entry.definition);
+      const cacheReport = cached?.report();
+      record(undefined, cacheReport);
+      notifyUpdated(resourcesUpdatedBy(name));
+      completions.learn(name, validArgs, result.structuredContent, completionNamespace(extra));
+      if (cacheReport?.status === "hit") {
+        log("debug", "Cache hit", { tool: name, sessionId: extra.sessionId, ageMs: cacheReport.ageMs });
+      }
+      const decision = governanceDecisionOf(name, result.structuredContent);
+      if (decision) log("notice", "Governance decision", { ...decision, sessionId: extra.sessionId });
+
+      let text = result.text;
+      if (cacheReport?.status === "hit" && getOutputFormat(validArgs) !== "json") {
+        text += cacheNotice(cacheReport);
       }
 
       return {
-        content: [{ type: "text", text: result }],
+        content: [{ type: "text", text }],
+        ...(entry.definition.outputSchema && result.structuredContent
+          ? { structuredContent: result.structuredContent }
+          : {}),
+        ...(cacheReport
+          ? {
+              _meta: {
+                "s2t/cache": {
+                  status: cacheReport.status,
+                  ttlMs: cacheReport.ttlMs,
+                  ...(cacheReport.ageMs !== undefined ? { ageMs: cacheReport.ageMs } : {}),
+                },
+              },
+            }
+          : {}),
       };
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: "text", text: `Error: ${errorMessage}` }],
-        isError: true,
-      };
+      record(errorClassOf(error));
+      if (error instanceof ToolArgumentsError) {
+        log("warning", "Invalid tool arguments", { tool: name, sessionId: extra.sessionId, error: error.message });
+      } else if (error instanceof UpstreamContractError) {
+        log("error", "S2T API response failed validation", {
+          tool: name,
+          sessionId: extra.sessionId,
+          error: error.message,
+        });
+      }
+      // Protocol-level errors (e.g. invalid arguments) carry structured data
+      // and are surfaced as JSON-RPC errors rather than tool results.
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      return toolErrorResult(error);
     }
   });
 
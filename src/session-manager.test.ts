@@ -0,0 +1,189 @@
+/**
+ * S2T Accelerators MCP Server - Session Manager Tests
+ *
+ * Tests idle and lifetime expiry, per-key and global LRU caps, eviction
+ * accounting and environment parsing with an injected clock.
+ *
+ * @module session-manager.test
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createSessionManager,
+  sessionLimitsFromEnv,
+  type ManagedSession,
+} from "./session-manager.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function session(id: string, key?: string): ManagedSession & { close: ReturnType<typeof vi.fn> } {
+  return { id, kind: "streamable", key, close: vi.fn() };
+}
+
+/** Let fire-and-forget close() calls run. */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const UNLIMITED = { idleTtlMs: 0, maxLifetimeMs: 0, maxSessions: 0, maxSessionsPerKey: 0 };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===========================================================================
+// Expiry
+// ===========================================================================
+
+describe("createSessionManager sweep", () => {
+  it("should close sessions that have been idle past the TTL", async () => {
+    let now = 0;
+    const manager = createSessionManager({ ...UNLIMITED, idleTtlMs: 1_000 }, { now: () => now });
+    const idle = session("idle");
+    const active = session("active");
+    manager.add(idle);
+    manager.add(active);
+
+    now = 900;
+    manager.touch("active");
+    now = 1_000;
+
+    expect(manager.sweep()).toBe(1);
+    await flush();
+    expect(idle.close).toHaveBeenCalledTimes(1);
+    expect(active.close).not.toHaveBeenCalled();
+    expect(manager.stats()).toEqual({
+      active: 1,
+      evictions: { idle: 1, lifetime: 0, key_cap: 0, global_cap: 0 },
+    });
+  });
+
+  it("should close sessions past their maximum lifetime even when active", async () => {
+    let now = 0;
+    const manager = createSessionManager(
+      { ...UNLIMITED, idleTtlMs: 1_000, maxLifetimeMs: 5_000 },
+      { now: () => now }
+    );
+    const busy = session("busy");
+    manager.add(busy);
+
+    for (now = 500; now < 5_000; now += 500) manager.touch("busy");
+    now = 4_999;
+    expect(manager.sweep()).toBe(0);
+
+    now = 5_000;
+    expect(manager.sweep()).toBe(1);
+    await flush();
+    expect(busy.close).toHaveBeenCalled();
+    expect(manager.stats().evictions.lifetime).toBe(1);
+  });
+
+  it("should sweep on an interval once started", () => {
+    vi.useFakeTimers();
+    const manager = createSessionManager({ ...UNLIMITED, idleTtlMs: 1_000, sweepIntervalMs: 500 });
+    manager.add(session("a"));
+
+    manager.start();
+    vi.advanceTimersByTime(1_500);
+    manager.stop();
+
+    expect(manager.stats().active).toBe(0);
+  });
+});
+
+// ===========================================================================
+// Caps
+// ===========================================================================
+
+describe("createSessionManager caps", () => {
+  it("should evict the key's least recently used session at the per-key cap", async () => {
+    let now = 0;
+    const manager = createSessionManager({ ...UNLIMITED, maxSessionsPerKey: 2 }, { now: () => now++ });
+    const a1 = session("a1", "tenant-a");
+    const a2 = session("a2", "tenant-a");
+    const b1 = session("b1", "tenant-b");
+    manager.add(a1);
+    manager.add(a2);
+    manager.add(b1);
+    manager.touch("a1");
+
+    manager.add(session("a3", "tenant-a"));
+    await flush();
+
+    expect(a2.close).toHaveBeenCalled();
+    expect(a1.close).not.toHaveBeenCalled();
+    expect(b1.close).not.toHaveBeenCalled();
+    expect(manager.stats()).toMatchObject({ active: 3, evictions: { key_cap: 1 } });
+  });
+
+  it("should not cap sessions without a key, as in single-tenant mode without OAuth", async () => {
+    const manager = createSessionManager();
+    const opened = Array.from({ length: 51 }, (_, i) => session(`s${i}`));
+    for (const s of opened) manager.add(s);
+    await flush();
+
+    expect(opened.filter((s) => s.close.mock.calls.length > 0)).toEqual([]);
+    expect(manager.stats()).toMatchObject({ active: 51, evictions: { key_cap: 0, global_cap: 0 } });
+  });
+
+  it("should evict the least recently used session overall at the global cap", async () => {
+    const manager = createSessionManager({ ...UNLIMITED, maxSessions: 2 });
+    const first = session("first", "a");
+    const second = session("second", "b");
+    manager.add(first);
+    manager.add(second);
+    manager.touch("first");
+
+    manager.add(session("third", "c"));
+    await flush();
+
+    expect(second.close).toHaveBeenCalled();
+    expect(first.close).not.toHaveBeenCalled();
+    expect(manager.stats()).toMatchObject({ active: 2, evictions: { global_cap: 1 } });
+  });
+
+  it("should not count sessions that closed on their own as evictions", () => {
+    const manager = createSessionManager({ ...UNLIMITED, maxSessions: 1 });
+    manager.add(session("a"));
+    manager.remove("a");
+    manager.remove("a");
+    manager.add(session("b"));
+
+    expect(manager.stats()).toEqual({
+      active: 1,
+      evictions: { idle: 0, lifetime: 0, key_cap: 0, global_cap: 0 },
+    });
+  });
+
+  it("should report evictions and tolerate transports that fail to close", async () => {
+    const onEvict = vi.fn();
+    const manager = createSessionManager({ ...UNLIMITED, maxSessions: 1 }, { onEvict });
+    const failing = session("failing");
+    failing.close.mockRejectedValue(new Error("socket gone"));
+    manager.add(failing);
+
+    manager.add(session("next"));
+    await flush();
+
+    expect(onEvict).toHaveBeenCalledWith(failing, "global_cap");
+    expect(manager.stats().active).toBe(1);
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("sessionLimitsFromEnv", () => {
+  it("should read configured limits only", () => {
+    expect(
+      sessionLimitsFromEnv({ S2T_SESSION_IDLE_TTL_MS: "60000", S2T_MAX_SESSIONS_PER_KEY: "0" })
+    ).toEqual({ idleTtlMs: 60_000, maxSessionsPerKey: 0 });
+  });
+
+  it("should reject invalid values", () => {
+    expect(() => sessionLimitsFromEnv({ S2T_MAX_SESSIONS: "-5" })).toThrow(
+      'Invalid S2T_MAX_SESSIONS "-5"'
+    );
+  });
+});
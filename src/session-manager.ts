@@ -0,0 +1,206 @@
+/**
+ * S2T Accelerators - HTTP Session Lifecycle
+ *
+ * Bounds the HTTP server's session tables so abandoned clients cannot leak
+ * Server instances. Every Streamable HTTP session and legacy SSE connection
+ * is registered here and closed when it:
+ *
+ *   idle       has seen no request for idleTtlMs
+ *   lifetime   is older than maxLifetimeMs
+ *   key_cap    is its key's least recently used session when that key opens
+ *              one more than maxSessionsPerKey; sessions without a key (a
+ *              single-tenant server without OAuth) have no per-key cap
+ *   global_cap is the least recently used session overall when the server
+ *              would exceed maxSessions
+ *
+ * Idle and lifetime limits are enforced by a periodic sweep; caps are
+ * enforced as sessions open. A limit of 0 disables it. Eviction counts by
+ * reason are reported on /health.
+ *
+ * @module session-manager
+ */
+
+export type SessionKind = "streamable" | "sse";
+
+export type EvictionReason = "idle" | "lifetime" | "key_cap" | "global_cap";
+
+export interface SessionLimits {
+  idleTtlMs: number;
+  maxLifetimeMs: number;
+  maxSessions: number;
+  maxSessionsPerKey: number;
+  sweepIntervalMs: number;
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  idleTtlMs: 30 * 60_000,
+  maxLifetimeMs: 24 * 60 * 60_000,
+  maxSessions: 1_000,
+  maxSessionsPerKey: 50,
+  sweepIntervalMs: 60_000,
+};
+
+export interface ManagedSession {
+  id: string;
+  kind: SessionKind;
+  /** Owner used for per-key caps: tenant or OAuth client, if any. */
+  key?: string;
+  /** Close the transport; its close handler should call remove(). */
+  close(): Promise<void> | void;
+}
+
+export interface SessionStats {
+  active: number;
+  evictions: Record<EvictionReason, number>;
+}
+
+export interface SessionManager {
+  /** Register a new session, evicting others first if a cap is reached. */
+  add(session: ManagedSession): void;
+  /** Record activity, making the session most recently used. */
+  touch(id: string): void;
+  /** Forget a session that closed on its own. Safe to call repeatedly. */
+  remove(id: string): void;
+  /** Evict idle and expired sessions; returns how many were evicted. */
+  sweep(): number;
+  /** Run sweep() every sweepIntervalMs until stop(). */
+  start(): void;
+  stop(): void;
+  stats(): SessionStats;
+}
+
+interface Tracked {
+  session: ManagedSession;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+export function createSessionManager(
+  limits: Partial<SessionLimits> = {},
+  options: {
+    now?: () => number;
+    onEvict?: (session: ManagedSession, reason: EvictionReason) => void;
+  } = {}
+): SessionManager {
+  const config: SessionLimits = { ...DEFAULT_SESSION_LIMITS, ...limits };
+  const now = options.now ?? Date.now;
+  // Map iteration order doubles as recency order (least recent first).
+  const sessions = new Map<string, Tracked>();
+  const evictions: Record<EvictionReason, number> = {
+    idle: 0,
+    lifetime: 0,
+    key_cap: 0,
+    global_cap: 0,
+  };
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  function evict(tracked: Tracked, reason: EvictionReason): void {
+    sessions.delete(tracked.session.id);
+    evictions[reason]++;
+    options.onEvict?.(tracked.session, reason);
+    // Closing is fire-and-forget: a transport that fails to close cleanly
+    // must not block admission of the new session.
+    Promise.resolve()
+      .then(() => tracked.session.close())
+      .catch(() => undefined);
+  }
+
+  function leastRecent(predicate: (tracked: Tracked) => boolean): Tracked | undefined {
+    for (const tracked of sessions.values()) {
+      if (predicate(tracked)) return tracked;
+    }
+    return undefined;
+  }
+
+  function sweep(): number {
+    const at = now();
+    let count = 0;
+    for (const tracked of Array.from(sessions.values())) {
+      if (config.maxLifetimeMs > 0 && at - tracked.createdAt >= config.maxLifetimeMs) {
+        evict(tracked, "lifetime");
+        count++;
+      } else if (config.idleTtlMs > 0 && at - tracked.lastActivityAt >= config.idleTtlMs) {
+        evict(tracked, "idle");
+        count++;
+      }
+    }
+    return count;
+  }
+
+  return {
+    add(session) {
+      if (config.maxSessionsPerKey > 0 && session.key !== undefined) {
+        const sameKey = () =>
+          Array.from(sessions.values()).filter((t) => t.session.key === session.key).length;
+        while (sameKey() >= config.maxSessionsPerKey) {
+          evict(leastRecent((t) => t.session.key === session.key)!, "key_cap");
+        }
+      }
+      if (config.maxSessions > 0) {
+        while (sessions.size >= config.maxSessions) {
+          evict(leastRecent(() => true)!, "global_cap");
+        }
+      }
+      const at = now();
+      sessions.set(session.id, { session, createdAt: at, lastActivityAt: at });
+    },
+
+    touch(id) {
+      const tracked = sessions.get(id);
+      if (!tracked) return;
+      tracked.lastActivityAt = now();
+      sessions.delete(id);
+      sessions.set(id, tracked);
+    },
+
+    remove(id) {
+      sessions.delete(id);
+    },
+
+    sweep,
+
+    start() {
+      if (timer || config.sweepIntervalMs <= 0) return;
+      timer = setInterval(sweep, config.sweepIntervalMs);
+      timer.unref();
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    },
+
+    stats: () => ({ active: sessions.size, evictions: { ...evictions } }),
+  };
+}
+
+/**
+ * Read limits from the environment (0 disables a limit):
+ *
+ *   S2T_SESSION_IDLE_TTL_MS       Idle timeout (default: 1800000)
+ *   S2T_SESSION_MAX_LIFETIME_MS   Maximum session age (default: 86400000)
+ *   S2T_MAX_SESSIONS              Global cap (default: 1000)
+ *   S2T_MAX_SESSIONS_PER_KEY      Per-key cap (default: 50)
+ *   S2T_SESSION_SWEEP_MS          Sweep interval (default: 60000)
+ */
+export function sessionLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<SessionLimits> {
+  const variables: Record<keyof SessionLimits, string> = {
+    idleTtlMs: "S2T_SESSION_IDLE_TTL_MS",
+    maxLifetimeMs: "S2T_SESSION_MAX_LIFETIME_MS",
+    maxSessions: "S2T_MAX_SESSIONS",
+    maxSessionsPerKey: "S2T_MAX_SESSIONS_PER_KEY",
+    sweepIntervalMs: "S2T_SESSION_SWEEP_MS",
+  };
+
+  const limits: Partial<SessionLimits> = {};
+  for (const [field, name] of Object.entries(variables) as [keyof SessionLimits, string][]) {
+    const raw = env[name];
+    if (raw === undefined || raw === "") continue;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${name} "${raw}": expected a non-negative integer`);
+    }
+    limits[field] = value;
+  }
+  return limits;
+}
@@ -0,0 +1,47 @@
+/**
+ * S2T Accelerators MCP Server - Startup Tests
+ *
+ * Starts each entry point with a bad setting and checks it exits with a
+ * one-line error instead of a stack trace.
+ *
+ * @module startup.test
+ */
+
+import { describe, it, expect } from "vitest";
+import { execFile } from "node:child_process";
+
+/** Run an entry point under tsx and collect how it exited. */
+function start(entry: string, env: Record<string, string>): Promise<{ code: number | null; stderr: string }> {
+  const inherited = Object.fromEntries(
+    Object.entries(process.env).filter(([name]) => !name.startsWith("S2T_") && !name.startsWith("OTEL_"))
+  );
+  return new Promise((resolve) => {
+    const child = execFile(
+      process.execPath,
+      ["--import", "tsx", entry],
+      { env: { ...inherited, ...env }, timeout: 30_000 },
+      (error, _stdout, stderr) => resolve({ code: error ? (error.code as number) : 0, stderr })
+    );
+    child.stdin?.end();
+  });
+}
+
+describe("startup", () => {
+  it("should exit with the message for a bad S2T_TENANCY", async () => {
+    const { code, stderr } = await start("src/http-server.ts", { S2T_TENANCY: "bogus" });
+
+    expect(code).toBe(1);
+    expect(stderr).toBe('Error: Invalid S2T_TENANCY "bogus". Use one of: single, multi\n');
+  }, 60_000);
+
+  it("should exit with the message for a bad S2T_AUDIT_ARGS", async () => {
+    const { code, stderr } = await start("src/index.ts", {
+      S2T_API_KEY: "test-key",
+      S2T_AUDIT_LOG: "stderr",
+      S2T_AUDIT_ARGS: "all",
+    });
+
+    expect(code).toBe(1);
+    expect(stderr).toBe('Error: Invalid S2T_AUDIT_ARGS "all". Use one of: digest, redacted\n');
+  }, 60_000);
+});
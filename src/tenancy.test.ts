@@ -0,0 +1,138 @@
+/**
+ * S2T Accelerators MCP Server - Tenancy Tests
+ *
+ * Tests API key resolution, tenant identifiers and per-tenant usage
+ * attribution for multi-tenant HTTP mode.
+ *
+ * @module tenancy.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  apiKeyFromRequest,
+  createTenantRegistry,
+  tenancyModeFromEnv,
+  tenantIdForKey,
+} from "./tenancy.js";
+import { createResponseCache } from "./response-cache.js";
+import type { ApiClient } from "./handlers.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function initializeBody(meta?: Record<string, unknown>) {
+  return {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-11-25",
+      capabilities: {},
+      clientInfo: { name: "test", version: "1.0.0" },
+      ...(meta ? { _meta: meta } : {}),
+    },
+  };
+}
+
+// ===========================================================================
+// Key resolution
+// ===========================================================================
+
+describe("apiKeyFromRequest", () => {
+  it("should prefer the X-S2T-API-Key header", () => {
+    expect(
+      apiKeyFromRequest({ "x-s2t-api-key": " key-a " }, initializeBody({ "s2t/apiKey": "key-b" }))
+    ).toBe("key-a");
+  });
+
+  it("should fall back to the initialize params _meta", () => {
+    expect(apiKeyFromRequest({}, initializeBody({ "s2t/apiKey": "key-b" }))).toBe("key-b");
+  });
+
+  it("should return undefined when no key is supplied", () => {
+    expect(apiKeyFromRequest({ "x-s2t-api-key": "  " }, initializeBody())).toBeUndefined();
+    expect(apiKeyFromRequest({}, initializeBody({ "s2t/apiKey": 42 }))).toBeUndefined();
+  });
+});
+
+describe("tenantIdForKey", () => {
+  it("should be stable and not reveal the key", () => {
+    const id = tenantIdForKey("s2t_live_secret");
+    expect(id).toBe(tenantIdForKey("s2t_live_secret"));
+    expect(id).toMatch(/^tenant-[0-9a-f]{12}$/);
+    expect(id).not.toContain("secret");
+    expect(tenantIdForKey("other")).not.toBe(id);
+  });
+});
+
+// ===========================================================================
+// Usage attribution
+// ===========================================================================
+
+describe("createTenantRegistry", () => {
+  it("should track sessions per tenant", () => {
+    const registry = createTenantRegistry(() => new Date("2026-03-01T00:00:00Z"));
+    const a = registry.openSession("key-a");
+    registry.openSession("key-a");
+    const b = registry.openSession("key-b");
+    registry.closeSession(a);
+
+    expect(registry.usage(a)).toMatchObject({ activeSessions: 1, totalSessions: 2 });
+    expect(registry.usage(b)).toMatchObject({
+      activeSessions: 1,
+      totalSessions: 1,
+      firstSeenAt: "2026-03-01T00:00:00.000Z",
+    });
+    expect(registry.list()).toHaveLength(2);
+  });
+
+  it("should attribute platform calls and errors to the calling tenant", async () => {
+    const registry = createTenantRegistry();
+    const a = registry.openSession("key-a");
+    const b = registry.openSession("key-b");
+    const upstream: ApiClient = {
+      callApi: vi.fn().mockResolvedValueOnce({}).mockRejectedValueOnce(new Error("boom")).mockResolvedValue({}),
+    };
+
+    await registry.meter(upstream, a).callApi("/catalog");
+    await expect(registry.meter(upstream, a).callApi("/catalog")).rejects.toThrow("boom");
+    await registry.meter(upstream, b).callApi("/usage", "GET", undefined, { idempotent: true });
+
+    expect(registry.usage(a)).toMatchObject({ apiCalls: 2, apiErrors: 1 });
+    expect(registry.usage(b)).toMatchObject({ apiCalls: 1, apiErrors: 0 });
+    expect(upstream.callApi).toHaveBeenLastCalledWith("/usage", "GET", undefined, { idempotent: true });
+  });
+
+  it("should return copies of usage records", () => {
+    const registry = createTenantRegistry();
+    const a = registry.openSession("key-a");
+    registry.usage(a)!.apiCalls = 99;
+    expect(registry.usage(a)?.apiCalls).toBe(0);
+  });
+});
+
+describe("tenant cache isolation", () => {
+  it("should not share cached responses between tenants", async () => {
+    const cache = createResponseCache();
+    const upstream: ApiClient = { callApi: vi.fn(async () => ({ decisions: [] })) };
+    const call = (namespace: string) =>
+      cache.wrap(upstream, "aci_compliance_check", { namespace }).apiClient.callApi("/aci/compliance", "POST", {
+        action: "deploy",
+      });
+
+    await call("tenant-a");
+    await call("tenant-b");
+    await call("tenant-a");
+
+    expect(upstream.callApi).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("tenancyModeFromEnv", () => {
+  it("should default to single and validate the value", () => {
+    expect(tenancyModeFromEnv({})).toBe("single");
+    expect(tenancyModeFromEnv({ S2T_TENANCY: "multi" })).toBe("multi");
+    expect(() => tenancyModeFromEnv({ S2T_TENANCY: "shared" })).toThrow('Invalid S2T_TENANCY "shared"');
+  });
+});
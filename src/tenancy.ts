@@ -0,0 +1,151 @@
+/**
+ * S2T Accelerators - Multi-Tenant Sessions
+ *
+ * Lets one HTTP server host several teams. In multi-tenant mode every MCP
+ * session authenticates with its own S2T API key, supplied either as the
+ * `X-S2T-API-Key` header on the initialize request (and GET /sse) or as
+ * `_meta["s2t/apiKey"]` in the initialize params. Later requests on the
+ * session must present the same key. Each session gets its own ApiClient,
+ * and platform calls are attributed to the tenant that made them.
+ *
+ * Tenants are identified by a short hash of their key, so the key itself
+ * never appears in logs, /health or usage reports.
+ *
+ * @module tenancy
+ */
+
+import { createHash } from "node:crypto";
+import type { ApiClient } from "./handlers.js";
+
+/**
+ *   single   every session shares the server's S2T_API_KEY (default)
+ *   multi    every session must bring its own key
+ */
+export type TenancyMode = "single" | "multi";
+
+export const TENANCY_MODES: readonly TenancyMode[] = ["single", "multi"];
+
+export const API_KEY_HEADER = "x-s2t-api-key";
+
+/** Initialize-params `_meta` key carrying the session's API key. */
+export const API_KEY_META = "s2t/apiKey";
+
+export interface TenantUsage {
+  tenantId: string;
+  activeSessions: number;
+  totalSessions: number;
+  /** Calls that reached the S2T platform (cache hits are not counted). */
+  apiCalls: number;
+  apiErrors: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Key resolution
+// ---------------------------------------------------------------------------
+
+/** Stable, non-reversible tenant identifier for an API key. */
+export function tenantIdForKey(apiKey: string): string {
+  return `tenant-${createHash("sha256").update(apiKey).digest("hex").slice(0, 12)}`;
+}
+
+/**
+ * Read the session API key from the request headers, falling back to
+ * `_meta["s2t/apiKey"]` in the initialize params.
+ */
+export function apiKeyFromRequest(
+  headers: Record<string, string | string[] | undefined>,
+  body?: unknown
+): string | undefined {
+  const header = headers[API_KEY_HEADER];
+  const fromHeader = Array.isArray(header) ? header[0] : header;
+  if (fromHeader?.trim()) return fromHeader.trim();
+
+  const meta = (body as { params?: { _meta?: Record<string, unknown> } } | undefined)?.params?._meta;
+  const fromMeta = meta?.[API_KEY_META];
+  return typeof fromMeta === "string" && fromMeta.trim() ? fromMeta.trim() : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Usage registry
+// ---------------------------------------------------------------------------
+
+export interface TenantRegistry {
+  /** Count a new session for the tenant owning `apiKey`; returns its ID. */
+  openSession(apiKey: string): string;
+  closeSession(tenantId: string): void;
+  /** Wrap a session's client so its platform calls are attributed to the tenant. */
+  meter(client: ApiClient, tenantId: string): ApiClient;
+  usage(tenantId: string): TenantUsage | undefined;
+  list(): TenantUsage[];
+}
+
+export function createTenantRegistry(now: () => Date = () => new Date()): TenantRegistry {
+  const tenants = new Map<string, TenantUsage>();
+
+  function touch(tenantId: string): TenantUsage {
+    const timestamp = now().toISOString();
+    let usage = tenants.get(tenantId);
+    if (!usage) {
+      usage = {
+        tenantId,
+        activeSessions: 0,
+        totalSessions: 0,
+        apiCalls: 0,
+        apiErrors: 0,
+        firstSeenAt: timestamp,
+        lastSeenAt: timestamp,
+      };
+      tenants.set(tenantId, usage);
+    }
+    usage.lastSeenAt = timestamp;
+    return usage;
+  }
+
+  return {
+    openSession(apiKey) {
+      const tenantId = tenantIdForKey(apiKey);
+      const usage = touch(tenantId);
+      usage.activeSessions++;
+      usage.totalSessions++;
+      return tenantId;
+    },
+
+    closeSession(tenantId) {
+      const usage = tenants.get(tenantId);
+      if (usage) usage.activeSessions = Math.max(0, usage.activeSessions - 1);
+    },
+
+    meter(client, tenantId) {
+      return {
+        async callApi(endpoint, method, body, options) {
+          const usage = touch(tenantId);
+          usage.apiCalls++;
+          try {
+            return await client.callApi(endpoint, method, body, options);
+          } catch (error) {
+            usage.apiErrors++;
+            throw error;
+          }
+        },
+      };
+    },
+
+    usage: (tenantId) => {
+      const usage = tenants.get(tenantId);
+      return usage ? { ...usage } : undefined;
+    },
+
+    list: () => Array.from(tenants.values(), (usage) => ({ ...usage })),
+  };
+}
+
+/** Read S2T_TENANCY (default: single). */
+export function tenancyModeFromEnv(env: NodeJS.ProcessEnv = process.env): TenancyMode {
+  const mode = (env.S2T_TENANCY || "single") as TenancyMode;
+  if (!TENANCY_MODES.includes(mode)) {
+    throw new Error(`Invalid S2T_TENANCY "${mode}". Use one of: ${TENANCY_MODES.join(", ")}`);
+  }
+  return mode;
+}
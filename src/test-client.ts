@@ -0,0 +1,37 @@
+/**
+ * S2T Accelerators MCP Server - Test Client
+ *
+ * Connects an MCP client to a fresh createMcpServer instance over an
+ * in-memory transport, for the tests that drive the server end to end.
+ * Kept out of the *.test.ts files so importing it does not register
+ * another file's tests.
+ *
+ * @module test-client
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createMcpServer, type McpServerOptions } from "./server-setup.js";
+import type { ApiClient } from "./handlers.js";
+
+export interface ConnectClientOptions {
+  /** Sent with every request, as the HTTP transport does for an OAuth bearer token. */
+  authInfo?: AuthInfo;
+}
+
+export async function connectClient(
+  apiClient: ApiClient,
+  options?: McpServerOptions,
+  { authInfo }: ConnectClientOptions = {}
+): Promise<Client> {
+  const server = createMcpServer(apiClient, options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  if (authInfo) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, sendOptions) => send(message, { ...sendOptions, authInfo });
+  }
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
@@ -0,0 +1,295 @@
+/**
+ * S2T Accelerators MCP Server - Tier Access Tests
+ *
+ * Tests catalog snapshots, change detection in the tier watcher, sharing
+ * watchers between sessions, the environment settings, and the tool list, call rejection and
+ * tools/list_changed notifications createMcpServer produces from them.
+ *
+ * @module tier-access.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  createTierWatcher,
+  createTierWatcherPool,
+  isToolAvailable,
+  tierAccessFromEnv,
+  tierSnapshot,
+  TOOL_ACCELERATORS,
+  type TierAccessOptions,
+} from "./tier-access.js";
+import { TOOL_REGISTRY } from "./server-setup.js";
+import { S2TUpstreamUnavailableError } from "./api-errors.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function catalog(tier: string, aciTiers = ["business", "enterprise"]) {
+  return {
+    accelerators: [
+      {
+        id: "embed",
+        name: "Embeddings",
+        endpoint: "/embed",
+        description: "Vectors",
+        tier_access: ["free", "developer", "business"],
+      },
+      {
+        id: "aci",
+        name: "ACI Governance",
+        endpoint: "/aci/classify",
+        description: "Decision governance",
+        tier_access: aciTiers,
+      },
+    ],
+    total: 2,
+    your_tier: tier,
+  };
+}
+
+const unavailable = () =>
+  new S2TUpstreamUnavailableError("down", { endpoint: "/catalog", method: "GET", status: 503 });
+
+// ===========================================================================
+// Snapshots
+// ===========================================================================
+
+describe("tierSnapshot", () => {
+  it("should map catalog restrictions onto tools", () => {
+    const snapshot = tierSnapshot(catalog("developer"));
+
+    expect(snapshot.requiredTiers.get("aci_log_decision")).toEqual(["business", "enterprise"]);
+    expect(isToolAvailable(snapshot, "aci_log_decision")).toBe(false);
+    expect(isToolAvailable(snapshot, "s2t_embed")).toBe(true);
+  });
+
+  it("should never restrict tools the catalog does not list", () => {
+    const snapshot = tierSnapshot(catalog("developer"));
+
+    expect(isToolAvailable(snapshot, "s2t_validate_oauth")).toBe(true);
+    expect(isToolAvailable(snapshot, "s2t_interview_create")).toBe(true);
+    expect(isToolAvailable(undefined, "aci_log_decision")).toBe(true);
+  });
+
+  it("should only map tools that exist", () => {
+    for (const tool of Object.keys(TOOL_ACCELERATORS)) {
+      expect(TOOL_REGISTRY.has(tool), tool).toBe(true);
+    }
+  });
+});
+
+// ===========================================================================
+// Watcher
+// ===========================================================================
+
+describe("createTierWatcher", () => {
+  const options: TierAccessOptions = { mode: "hide", refreshMs: 0 };
+
+  it("should report changes after the first fetch only", async () => {
+    const callApi = vi
+      .fn()
+      .mockResolvedValueOnce(catalog("developer"))
+      .mockResolvedValueOnce(catalog("developer"))
+      .mockResolvedValueOnce(catalog("business"));
+    const onChange = vi.fn();
+    const watcher = createTierWatcher({ callApi }, { ...options, onChange });
+
+    await watcher.ready();
+    expect(await watcher.refresh()).toBe(false);
+    expect(await watcher.refresh()).toBe(true);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(watcher.current()?.tier).toBe("business");
+    expect(callApi).toHaveBeenCalledWith("/catalog", "GET", undefined, expect.objectContaining({ idempotent: true }));
+  });
+
+  it("should keep the last snapshot when a fetch fails", async () => {
+    const callApi = vi.fn().mockResolvedValueOnce(catalog("developer")).mockRejectedValueOnce(unavailable());
+    const onError = vi.fn();
+    const watcher = createTierWatcher({ callApi }, { ...options, onError });
+
+    await watcher.ready();
+    expect(await watcher.refresh()).toBe(false);
+
+    expect(watcher.current()?.tier).toBe("developer");
+    expect(onError).toHaveBeenCalledWith(expect.any(S2TUpstreamUnavailableError));
+  });
+
+  it("should report a catalog that arrives after a failed first fetch", async () => {
+    const callApi = vi.fn().mockRejectedValueOnce(unavailable()).mockResolvedValueOnce(catalog("developer"));
+    const onChange = vi.fn();
+    const watcher = createTierWatcher({ callApi }, { ...options, onChange });
+
+    await watcher.ready();
+    expect(watcher.current()).toBeUndefined();
+    await watcher.refresh();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject malformed catalogs", async () => {
+    const callApi = vi.fn().mockResolvedValue({ accelerators: "none" });
+    const onError = vi.fn();
+    const watcher = createTierWatcher({ callApi }, { ...options, onError });
+
+    await watcher.ready();
+
+    expect(watcher.current()).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createTierWatcherPool", () => {
+  const options: TierAccessOptions = { mode: "hide", refreshMs: 0 };
+
+  it("should fetch the catalog once per key", async () => {
+    const callApi = vi.fn().mockResolvedValue(catalog("developer"));
+    const pool = createTierWatcherPool(options);
+
+    const first = pool.join("tenant-a", { callApi }, vi.fn());
+    const second = pool.join("tenant-a", { callApi }, vi.fn());
+    const other = pool.join("tenant-b", { callApi }, vi.fn());
+    await Promise.all([first.watcher.ready(), second.watcher.ready(), other.watcher.ready()]);
+
+    expect(second.watcher).toBe(first.watcher);
+    expect(other.watcher).not.toBe(first.watcher);
+    expect(callApi).toHaveBeenCalledTimes(2);
+  });
+
+  it("should tell every session of a change", async () => {
+    const callApi = vi.fn().mockResolvedValueOnce(catalog("developer")).mockResolvedValue(catalog("business"));
+    const pool = createTierWatcherPool(options);
+    const [onFirst, onSecond] = [vi.fn(), vi.fn()];
+
+    const first = pool.join("", { callApi }, onFirst);
+    pool.join("", { callApi }, onSecond);
+    await first.watcher.ready();
+    await first.watcher.refresh();
+
+    expect(onFirst).toHaveBeenCalledTimes(1);
+    expect(onSecond).toHaveBeenCalledTimes(1);
+  });
+
+  it("should start a new watcher once the last session has left", async () => {
+    const callApi = vi.fn().mockResolvedValue(catalog("developer"));
+    const pool = createTierWatcherPool(options);
+
+    const first = pool.join("", { callApi }, vi.fn());
+    const second = pool.join("", { callApi }, vi.fn());
+    first.leave();
+    const third = pool.join("", { callApi }, vi.fn());
+    second.leave();
+    third.leave();
+    const fourth = pool.join("", { callApi }, vi.fn());
+
+    expect(third.watcher).toBe(first.watcher);
+    expect(fourth.watcher).not.toBe(first.watcher);
+  });
+
+  it("should log failed refreshes at warning", async () => {
+    const callApi = vi.fn().mockRejectedValue(unavailable());
+    const log = vi.fn();
+    const pool = createTierWatcherPool(options, log);
+
+    await pool.join("tenant-a", { callApi }, vi.fn()).watcher.ready();
+
+    expect(log).toHaveBeenCalledWith("warning", "Tier catalog refresh failed", {
+      tenantId: "tenant-a",
+      error: expect.any(String),
+    });
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("tierAccessFromEnv", () => {
+  it("should annotate tools and refresh every five minutes by default", () => {
+    expect(tierAccessFromEnv({})).toEqual({ mode: "annotate", refreshMs: 300_000 });
+    expect(tierAccessFromEnv({ S2T_TIER_TOOLS: "hide", S2T_TIER_REFRESH_MS: "0" })).toEqual({
+      mode: "hide",
+      refreshMs: 0,
+    });
+    expect(tierAccessFromEnv({ S2T_TIER_TOOLS: "off" })).toBeUndefined();
+  });
+
+  it("should reject unknown modes and intervals", () => {
+    expect(() => tierAccessFromEnv({ S2T_TIER_TOOLS: "strict" })).toThrow('Invalid S2T_TIER_TOOLS "strict"');
+    expect(() => tierAccessFromEnv({ S2T_TIER_REFRESH_MS: "5m" })).toThrow('Invalid S2T_TIER_REFRESH_MS "5m"');
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer with tier access", () => {
+  async function connect(callApi: ReturnType<typeof vi.fn>, tierAccess: TierAccessOptions) {
+    const client = await connectClient({ callApi }, { tierAccess });
+    const listChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+    return { client, listChanged };
+  }
+
+  it("should hide tools outside the tier and reject calls to them", async () => {
+    const callApi = vi.fn().mockResolvedValue(catalog("developer"));
+    const { client } = await connect(callApi, { mode: "hide", refreshMs: 0 });
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: "aci_log_decision", arguments: {} });
+
+    expect(client.getServerCapabilities()?.tools).toEqual({ listChanged: true });
+    expect(tools.map((tool) => tool.name)).not.toContain("aci_log_decision");
+    expect(tools).toHaveLength(TOOL_REGISTRY.size - 12);
+    expect(result).toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining("requires the business or enterprise tier (your tier: developer)") }],
+    });
+    expect(callApi).toHaveBeenCalledTimes(1);
+    await client.close();
+  });
+
+  it("should annotate tools outside the tier instead of hiding them", async () => {
+    const callApi = vi.fn().mockResolvedValue(catalog("developer"));
+    const { client } = await connect(callApi, { mode: "annotate", refreshMs: 0 });
+
+    const { tools } = await client.listTools();
+    const decision = tools.find((tool) => tool.name === "aci_log_decision");
+
+    expect(tools).toHaveLength(TOOL_REGISTRY.size);
+    expect(decision?.description).toMatch(/^\[Requires the business or enterprise tier\] /);
+    expect(decision?._meta).toMatchObject({
+      "s2t/toolset": "governance",
+      "s2t/tier": { available: false, requiredTiers: ["business", "enterprise"], yourTier: "developer" },
+    });
+    expect(tools.find((tool) => tool.name === "s2t_embed")?._meta).not.toHaveProperty("s2t/tier");
+    await client.close();
+  });
+
+  it("should share one catalog fetch between sessions given the same pool", async () => {
+    const callApi = vi.fn().mockResolvedValue(catalog("developer"));
+    const tierAccess: TierAccessOptions = { mode: "hide", refreshMs: 0 };
+    const tierWatchers = createTierWatcherPool(tierAccess);
+    const clients = await Promise.all([1, 2].map(() => connectClient({ callApi }, { tierAccess, tierWatchers })));
+
+    for (const client of clients) await client.listTools();
+
+    expect(callApi).toHaveBeenCalledTimes(1);
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  it("should notify the client when the tier changes", async () => {
+    const callApi = vi.fn().mockResolvedValueOnce(catalog("developer")).mockResolvedValue(catalog("business"));
+    const { client, listChanged } = await connect(callApi, { mode: "hide", refreshMs: 20 });
+
+    expect(await client.listTools()).toMatchObject({ tools: { length: TOOL_REGISTRY.size - 12 } });
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(1));
+
+    expect((await client.listTools()).tools).toHaveLength(TOOL_REGISTRY.size);
+    await client.close();
+  });
+});
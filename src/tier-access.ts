@@ -0,0 +1,273 @@
+/**
+ * S2T Accelerators - Tier-Aware Tool Listing
+ *
+ * The platform catalog (`GET /catalog`) lists which tiers may use each
+ * accelerator (`tier_access`) and the caller's own tier (`your_tier`).
+ * A tier watcher fetches it when a session starts and again every
+ * `refreshMs`, so tools/list can hide -- or, in annotate mode, flag --
+ * tools the caller's tier cannot use, instead of letting them fail at call
+ * time. When the tier or the catalog's restrictions change, the watcher
+ * reports it so the server can send `notifications/tools/list_changed`.
+ * Sessions using the same API key share one watcher (TierWatcherPool).
+ *
+ * Tools are tied to catalog entries by the platform endpoint they are sold
+ * under (TOOL_ACCELERATORS). Tools with no entry, or whose accelerator is
+ * missing from the catalog, are never restricted. If the catalog cannot be
+ * fetched, every tool stays visible and the platform has the final say.
+ *
+ * @module tier-access
+ */
+
+import type { ApiClient } from "./handlers.js";
+import { validateUpstreamResponse } from "./schema-validation.js";
+import { CATALOG_OUTPUT_SCHEMA } from "./output-schemas.js";
+import { NO_LOG, errorMessage, type Logger } from "./logger.js";
+
+export type TierMode = "hide" | "annotate";
+
+export interface TierAccessOptions {
+  /** Hide unavailable tools, or list them with a note and `_meta["s2t/tier"]`. */
+  mode: TierMode;
+  /** How often to re-fetch the catalog; 0 fetches only at session start. */
+  refreshMs: number;
+}
+
+export const DEFAULT_TIER_REFRESH_MS = 300_000;
+
+/** How long tools/list waits for the first catalog fetch. */
+const CATALOG_TIMEOUT_MS = 5_000;
+
+/**
+ * Catalog endpoint of the accelerator each API tool belongs to. The
+ * governance tools ship together as the Agent Governance Kit, which the
+ * catalog lists under its classify endpoint.
+ */
+export const TOOL_ACCELERATORS: Readonly<Record<string, string>> = {
+  s2t_embed: "/embed",
+  s2t_analyze_error_patterns: "/analyze/error-patterns",
+  s2t_generate_cloudformation: "/generate/cloudformation",
+  s2t_validate_oauth: "/validate/oauth",
+  s2t_generate_dynamodb_design: "/generate/dynamodb-design",
+  s2t_check_data_lake_readiness: "/check/data-lake-readiness",
+  s2t_validate_iam_policy: "/validate/iam-policy",
+  s2t_validate_mfa_compliance: "/validate/mfa-compliance",
+  s2t_validate_cli_readiness: "/accelerators/cli/validate",
+  s2t_classify_action_risk: "/accelerators/risk/classify",
+  s2t_route_task_to_agent: "/accelerators/agent/route",
+  s2t_predict_system_issues: "/accelerators/predict/issues",
+  s2t_attempt_auto_recovery: "/accelerators/recovery/attempt",
+  s2t_execute_with_resilience: "/accelerators/resilience/execute",
+  s2t_manage_agent_memory: "/accelerators/agent/memory",
+  s2t_submit_agent_task: "/accelerators/agent/task",
+  s2t_create_trace_context: "/accelerators/trace/create",
+  s2t_acquire_file_lock: "/accelerators/lock/acquire",
+  aci_classify_decision: "/aci/classify",
+  aci_financial_gate: "/aci/classify",
+  aci_compliance_check: "/aci/classify",
+  aci_route_domain: "/aci/classify",
+  aci_parallel_review: "/aci/classify",
+  aci_synthesize_reviews: "/aci/classify",
+  aci_log_decision: "/aci/classify",
+  aci_recall_precedent: "/aci/classify",
+  aci_record_outcome: "/aci/classify",
+  aci_estimate_blast_radius: "/aci/classify",
+  aci_generate_rollback: "/aci/classify",
+  aci_governance_health: "/aci/classify",
+};
+
+interface CatalogResponse {
+  accelerators: { endpoint: string; tier_access: string[] }[];
+  your_tier: string;
+}
+
+/** The caller's tier and the tiers each restricted tool requires. */
+export interface TierSnapshot {
+  tier: string;
+  /** Tools the catalog restricts, with the tiers that may use them. */
+  requiredTiers: Map<string, readonly string[]>;
+}
+
+/** Build a snapshot from a catalog response. */
+export function tierSnapshot(catalog: CatalogResponse): TierSnapshot {
+  const tiersByEndpoint = new Map(catalog.accelerators.map((entry) => [entry.endpoint, entry.tier_access]));
+  const requiredTiers = new Map<string, readonly string[]>();
+  for (const [tool, endpoint] of Object.entries(TOOL_ACCELERATORS)) {
+    const tiers = tiersByEndpoint.get(endpoint);
+    if (tiers) requiredTiers.set(tool, tiers);
+  }
+  return { tier: catalog.your_tier, requiredTiers };
+}
+
+/** Whether the snapshot's tier may use `tool`; unknown tools are allowed. */
+export function isToolAvailable(snapshot: TierSnapshot | undefined, tool: string): boolean {
+  const tiers = snapshot?.requiredTiers.get(tool);
+  return !tiers || tiers.includes(snapshot!.tier);
+}
+
+function sameSnapshot(a: TierSnapshot | undefined, b: TierSnapshot): boolean {
+  if (!a || a.tier !== b.tier || a.requiredTiers.size !== b.requiredTiers.size) return false;
+  for (const [tool, tiers] of b.requiredTiers) {
+    const previous = a.requiredTiers.get(tool);
+    if (!previous || previous.join(",") !== tiers.join(",")) return false;
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Watcher
+// ---------------------------------------------------------------------------
+
+export interface TierWatcher {
+  /** Latest snapshot, or undefined before the first successful fetch. */
+  current(): TierSnapshot | undefined;
+  /** Resolves once the first fetch has succeeded or failed. Starts it if needed. */
+  ready(): Promise<void>;
+  /** Re-fetch now; resolves to true when availability changed. */
+  refresh(): Promise<boolean>;
+  /** Start periodic re-checks. */
+  start(): void;
+  stop(): void;
+}
+
+export function createTierWatcher(
+  apiClient: ApiClient,
+  options: TierAccessOptions & {
+    /** Called after a refresh that changed the tier or the catalog's restrictions. */
+    onChange?: (snapshot: TierSnapshot) => void;
+    onError?: (error: unknown) => void;
+  }
+): TierWatcher {
+  let snapshot: TierSnapshot | undefined;
+  let first: Promise<void> | undefined;
+  // Whether a fetch has completed, so clients may have listed tools already.
+  let settled = false;
+  let timer: NodeJS.Timeout | undefined;
+  const onError = options.onError ?? (() => {});
+
+  async function refresh(): Promise<boolean> {
+    try {
+      const data = await apiClient.callApi("/catalog", "GET", undefined, {
+        signal: AbortSignal.timeout(CATALOG_TIMEOUT_MS),
+        idempotent: true,
+      });
+      const next = tierSnapshot(
+        validateUpstreamResponse<CatalogResponse>(CATALOG_OUTPUT_SCHEMA, data, { endpoint: "/catalog", method: "GET" })
+      );
+      const changed = !sameSnapshot(snapshot, next);
+      snapshot = next;
+      // tools/list waits for the first fetch, so only later changes are news.
+      if (changed && settled) options.onChange?.(next);
+      return changed;
+    } catch (error) {
+      // Keep the last known snapshot; the platform still enforces tiers.
+      onError(error);
+      return false;
+    } finally {
+      settled = true;
+    }
+  }
+
+  function ready(): Promise<void> {
+    first ??= refresh().then(() => undefined);
+    return first;
+  }
+
+  return {
+    current: () => snapshot,
+    ready,
+    refresh,
+    start() {
+      void ready();
+      if (timer || options.refreshMs <= 0) return;
+      timer = setInterval(() => void refresh(), options.refreshMs);
+      timer.unref();
+    },
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sharing
+// ---------------------------------------------------------------------------
+
+/** A session's hold on a shared watcher. */
+export interface TierWatcherMembership {
+  watcher: TierWatcher;
+  /** Stop listening; the watcher stops once its last session has left. */
+  leave(): void;
+}
+
+/**
+ * One tier watcher per API key, shared by every session using that key, so
+ * a server with N sessions polls the catalog once per key instead of N times.
+ */
+export interface TierWatcherPool {
+  /**
+   * Join the watcher for `key` (the tenant, or "" for the server's own key),
+   * starting it with `apiClient` if this is the key's first session.
+   */
+  join(key: string, apiClient: ApiClient, onChange: (snapshot: TierSnapshot) => void): TierWatcherMembership;
+}
+
+export function createTierWatcherPool(options: TierAccessOptions, log: Logger = NO_LOG): TierWatcherPool {
+  const shared = new Map<string, { watcher: TierWatcher; listeners: Set<(snapshot: TierSnapshot) => void> }>();
+
+  return {
+    join(key, apiClient, onChange) {
+      let entry = shared.get(key);
+      if (!entry) {
+        const listeners = new Set<(snapshot: TierSnapshot) => void>();
+        const watcher = createTierWatcher(apiClient, {
+          ...options,
+          onChange: (snapshot) => listeners.forEach((listener) => listener(snapshot)),
+          onError: (error) =>
+            log("warning", "Tier catalog refresh failed", {
+              ...(key ? { tenantId: key } : {}),
+              error: errorMessage(error),
+            }),
+        });
+        entry = { watcher, listeners };
+        shared.set(key, entry);
+        watcher.start();
+      }
+
+      const joined = entry;
+      joined.listeners.add(onChange);
+      return {
+        watcher: joined.watcher,
+        leave() {
+          if (!joined.listeners.delete(onChange) || joined.listeners.size > 0) return;
+          joined.watcher.stop();
+          if (shared.get(key) === joined) shared.delete(key);
+        },
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Environment
+// ---------------------------------------------------------------------------
+
+/**
+ * Tier-aware listing from S2T_TIER_TOOLS (hide | annotate | off, default:
+ * annotate) and S2T_TIER_REFRESH_MS. Returns undefined when off. Hiding is
+ * opt-in: a stale or wrong catalog must not take tools away unasked.
+ */
+export function tierAccessFromEnv(env: NodeJS.ProcessEnv = process.env): TierAccessOptions | undefined {
+  const mode = env.S2T_TIER_TOOLS || "annotate";
+  if (mode === "off") return undefined;
+  if (mode !== "hide" && mode !== "annotate") {
+    throw new Error(`Invalid S2T_TIER_TOOLS "${mode}". Use one of: hide, annotate, off`);
+  }
+
+  const raw = env.S2T_TIER_REFRESH_MS;
+  const refreshMs = raw === undefined || raw === "" ? DEFAULT_TIER_REFRESH_MS : Number(raw);
+  if (!Number.isInteger(refreshMs) || refreshMs < 0) {
+    throw new Error(`Invalid S2T_TIER_REFRESH_MS "${raw}". Use a whole number of milliseconds`);
+  }
+  return { mode, refreshMs };
+}
@@ -0,0 +1,133 @@
+/**
+ * S2T Accelerators MCP Server - Toolset Tests
+ *
+ * Tests that every tool belongs to exactly one toolset, toolset selection
+ * from the environment and config file, and the tool list and call
+ * rejection createMcpServer applies for a selection.
+ *
+ * @module toolsets.test
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseToolsetList,
+  toolsetFilter,
+  toolsetOf,
+  toolsetSelectionFromEnv,
+  TOOLSETS,
+} from "./toolsets.js";
+import { parseConfig, settingsToEnv, toolFilterFromEnv } from "./config.js";
+import { TOOLS } from "./server-setup.js";
+import { connectClient } from "./test-client.js";
+
+// ===========================================================================
+// Toolsets
+// ===========================================================================
+
+describe("TOOLSETS", () => {
+  it("should place every tool in exactly one toolset", () => {
+    const grouped = TOOLSETS.flatMap((toolset) => toolset.tools);
+
+    expect(new Set(grouped).size).toBe(grouped.length);
+    expect([...grouped].sort()).toEqual(TOOLS.map((tool) => tool.name).sort());
+  });
+
+  it("should offer the seven tool groups", () => {
+    expect(TOOLSETS.map((toolset) => toolset.title)).toEqual([
+      "AI & Embeddings",
+      "Infrastructure",
+      "Security",
+      "Platform",
+      "Agent Orchestration",
+      "ACI Governance",
+      "Local",
+    ]);
+    expect(toolsetOf("s2t_acquire_file_lock")).toBe("agents");
+  });
+
+  it("should publish each tool's toolset on its definition", () => {
+    for (const tool of TOOLS) {
+      expect(tool._meta?.["s2t/toolset"], tool.name).toBe(toolsetOf(tool.name));
+    }
+    expect(toolsetOf("aci_classify_decision")).toBe("governance");
+    expect(toolsetOf("s2t_interview_list")).toBe("local");
+  });
+});
+
+describe("toolsetFilter", () => {
+  it("should select everything without a selection", () => {
+    expect(toolsetFilter({})).toBeUndefined();
+    expect(toolsetFilter({ enabled: [], disabled: [] })).toBeUndefined();
+  });
+
+  it("should serve enabled toolsets minus disabled ones", () => {
+    const only = toolsetFilter({ enabled: ["governance", "platform"] })!;
+    const without = toolsetFilter({ disabled: ["local"] })!;
+
+    expect(["aci_log_decision", "s2t_catalog", "s2t_embed"].map(only)).toEqual([true, true, false]);
+    expect(["s2t_interview_create", "s2t_embed", "unknown_tool"].map(without)).toEqual([false, true, false]);
+  });
+});
+
+describe("parseToolsetList", () => {
+  it("should reject unknown toolsets, naming the source", () => {
+    expect(parseToolsetList(" governance, local ", "S2T_TOOLSETS")).toEqual(["governance", "local"]);
+    expect(() => parseToolsetList("governance,infra", "?toolsets")).toThrow(
+      'Unknown toolset "infra" in ?toolsets. Use one of: ai, infrastructure, security'
+    );
+  });
+});
+
+// ===========================================================================
+// Configuration
+// ===========================================================================
+
+describe("toolset configuration", () => {
+  it("should read the selection from the environment", () => {
+    expect(toolsetSelectionFromEnv({ S2T_TOOLSETS: "governance", S2T_TOOLSETS_DISABLED: "local" })).toEqual({
+      enabled: ["governance"],
+      disabled: ["local"],
+    });
+    expect(() => toolsetSelectionFromEnv({ S2T_TOOLSETS_DISABLED: "everything" })).toThrow(
+      'Unknown toolset "everything" in S2T_TOOLSETS_DISABLED'
+    );
+  });
+
+  it("should combine toolsets with the tool allow and deny lists", () => {
+    const enabled = toolFilterFromEnv({ S2T_TOOLSETS: "governance", S2T_TOOLS_DENY: "aci_generate_rollback" })!;
+
+    expect(["aci_classify_decision", "aci_generate_rollback", "s2t_catalog"].map(enabled)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("should validate and translate the config file's toolsets", () => {
+    const file = parseConfig(JSON.stringify({ toolsets: { enabled: ["governance"], disabled: ["local"] } }), "c.json");
+
+    expect(settingsToEnv(file)).toEqual({ S2T_TOOLSETS: "governance", S2T_TOOLSETS_DISABLED: "local" });
+    expect(() => parseConfig(JSON.stringify({ toolsets: { enabled: ["infra"] } }), "c.json")).toThrow(
+      "/toolsets/enabled/0 must be equal to one of the allowed values"
+    );
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer with toolsets", () => {
+  it("should advertise only the selected toolsets and reject calls to the rest", async () => {
+    const callApi = vi.fn();
+    const client = await connectClient({ callApi }, { isToolEnabled: toolsetFilter({ enabled: ["governance"] }) });
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: "s2t_embed", arguments: { text: "hello" } });
+
+    expect(tools).toHaveLength(12);
+    expect(tools.every((tool) => tool._meta?.["s2t/toolset"] === "governance")).toBe(true);
+    expect(result).toMatchObject({ isError: true, content: [{ text: "Error: Tool s2t_embed is disabled on this server" }] });
+    expect(callApi).not.toHaveBeenCalled();
+  });
+});
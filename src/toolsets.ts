@@ -0,0 +1,156 @@
+/**
+ * S2T Accelerators - Toolsets
+ *
+ * Groups the tool surface into toolsets so a deployment or a session can
+ * advertise only the groups it uses instead of all 36 tools. Every tool
+ * belongs to exactly one toolset, which is also published on its
+ * definition as `_meta["s2t/toolset"]`. Membership follows the section
+ * comments in TOOLS; the trace-context and file-lock tools that coordinate
+ * agents are part of Agent Orchestration.
+ *
+ * Selection is a list of enabled toolsets (empty means all) minus a list
+ * of disabled ones. It comes from S2T_TOOLSETS / S2T_TOOLSETS_DISABLED or
+ * the config file's `toolsets`, and HTTP sessions can narrow it further
+ * with `?toolsets=` / `?disabled_toolsets=` on the request that opens them.
+ *
+ * @module toolsets
+ */
+
+export interface Toolset {
+  id: string;
+  title: string;
+  description: string;
+  tools: readonly string[];
+}
+
+export const TOOLSETS: readonly Toolset[] = [
+  {
+    id: "ai",
+    title: "AI & Embeddings",
+    description: "Vector embeddings and error-log pattern analysis",
+    tools: ["s2t_embed", "s2t_analyze_error_patterns"],
+  },
+  {
+    id: "infrastructure",
+    title: "Infrastructure",
+    description: "CloudFormation, OAuth, DynamoDB and data lake design and validation",
+    tools: [
+      "s2t_generate_cloudformation",
+      "s2t_validate_oauth",
+      "s2t_generate_dynamodb_design",
+      "s2t_check_data_lake_readiness",
+    ],
+  },
+  {
+    id: "security",
+    title: "Security",
+    description: "IAM policy, MFA and CLI readiness checks",
+    tools: ["s2t_validate_iam_policy", "s2t_validate_mfa_compliance", "s2t_validate_cli_readiness"],
+  },
+  {
+    id: "platform",
+    title: "Platform",
+    description: "Tool catalog, tier and usage",
+    tools: ["s2t_catalog", "s2t_usage"],
+  },
+  {
+    id: "agents",
+    title: "Agent Orchestration",
+    description: "Risk classification, task routing, recovery, resilience, agent memory, trace contexts and file locks",
+    tools: [
+      "s2t_classify_action_risk",
+      "s2t_route_task_to_agent",
+      "s2t_predict_system_issues",
+      "s2t_attempt_auto_recovery",
+      "s2t_execute_with_resilience",
+      "s2t_manage_agent_memory",
+      "s2t_submit_agent_task",
+      "s2t_create_trace_context",
+      "s2t_acquire_file_lock",
+    ],
+  },
+  {
+    id: "governance",
+    title: "ACI Governance",
+    description: "Decision classification, gates, reviews, audit log and rollback",
+    tools: [
+      "aci_classify_decision",
+      "aci_financial_gate",
+      "aci_compliance_check",
+      "aci_route_domain",
+      "aci_parallel_review",
+      "aci_synthesize_reviews",
+      "aci_log_decision",
+      "aci_recall_precedent",
+      "aci_record_outcome",
+      "aci_estimate_blast_radius",
+      "aci_generate_rollback",
+      "aci_governance_health",
+    ],
+  },
+  {
+    id: "local",
+    title: "Local",
+    description: "Stakeholder interviews that run in-process without an API key",
+    tools: ["s2t_interview_create", "s2t_interview_message", "s2t_interview_summary", "s2t_interview_list"],
+  },
+];
+
+export const TOOLSET_IDS = TOOLSETS.map((toolset) => toolset.id);
+
+const TOOLSET_BY_TOOL = new Map(
+  TOOLSETS.flatMap((toolset) => toolset.tools.map((tool) => [tool, toolset.id] as const))
+);
+
+/** The toolset a tool belongs to, if any. */
+export function toolsetOf(tool: string): string | undefined {
+  return TOOLSET_BY_TOOL.get(tool);
+}
+
+export interface ToolsetSelection {
+  /** Only these toolsets are served; empty or absent means all. */
+  enabled?: readonly string[];
+  /** These toolsets are never served. */
+  disabled?: readonly string[];
+}
+
+/**
+ * Parse a comma-separated list of toolset IDs. Throws naming `source` when
+ * an ID is unknown.
+ */
+export function parseToolsetList(value: string | undefined, source: string): string[] {
+  const ids = (value ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  for (const id of ids) {
+    if (!TOOLSET_IDS.includes(id)) {
+      throw new Error(`Unknown toolset "${id}" in ${source}. Use one of: ${TOOLSET_IDS.join(", ")}`);
+    }
+  }
+  return ids;
+}
+
+/** Tool filter for a selection, or undefined when it selects everything. */
+export function toolsetFilter(selection: ToolsetSelection): ((tool: string) => boolean) | undefined {
+  const enabled = selection.enabled ?? [];
+  const disabled = selection.disabled ?? [];
+  if (enabled.length === 0 && disabled.length === 0) return undefined;
+
+  return (tool) => {
+    const toolset = toolsetOf(tool);
+    return (
+      toolset !== undefined &&
+      (enabled.length === 0 || enabled.includes(toolset)) &&
+      !disabled.includes(toolset)
+    );
+  };
+}
+
+/** Selection from S2T_TOOLSETS and S2T_TOOLSETS_DISABLED. */
+export function toolsetSelectionFromEnv(env: NodeJS.ProcessEnv = process.env): ToolsetSelection {
+  return {
+    enabled: parseToolsetList(env.S2T_TOOLSETS, "S2T_TOOLSETS"),
+    disabled: parseToolsetList(env.S2T_TOOLSETS_DISABLED, "S2T_TOOLSETS_DISABLED"),
+  };
+}
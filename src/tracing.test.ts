@@ -0,0 +1,379 @@
+/**
+ * S2T Accelerators MCP Server - Tracing Tests
+ *
+ * Tests W3C trace context handling, span batching and sampling, the OTLP
+ * exporters, and the spans createMcpServer records around tool calls and
+ * their platform API requests.
+ *
+ * @module tracing.test
+ */
+
+import { describe, it, expect, vi, afterAll, beforeAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createFileExporter,
+  createOtlpHttpExporter,
+  createTracer,
+  formatTraceparent,
+  parseTraceparent,
+  toOtlpJson,
+  tracerFromEnv,
+  type FinishedSpan,
+  type SpanExporter,
+} from "./tracing.js";
+import { MOCK_FIXTURES } from "./mock-api.js";
+import { S2TUpstreamUnavailableError } from "./api-errors.js";
+import { connectClient } from "./test-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const PARENT_ID = "b7ad6b7169203331";
+const CALLER = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "s2t-tracing-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** A fetch that never settles until its signal aborts. */
+function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+  });
+}
+
+/** A tracer whose exported spans are collected in memory. */
+function recordingTracer() {
+  const exported: FinishedSpan[] = [];
+  const exporter: SpanExporter = {
+    async export(spans) {
+      exported.push(...spans);
+    },
+  };
+  let id = 0;
+  const tracer = createTracer({
+    exporter,
+    now: () => 1_700_000_000_000,
+    randomId: (bytes) => (++id).toString(16).padStart(bytes * 2, "0"),
+  });
+  return { tracer, exported };
+}
+
+// ===========================================================================
+// Trace context
+// ===========================================================================
+
+describe("parseTraceparent", () => {
+  it("should round-trip a valid header", () => {
+    const context = parseTraceparent(CALLER, "vendor=abc");
+    expect(context).toEqual({ traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: 1, traceState: "vendor=abc" });
+    expect(formatTraceparent(context!)).toBe(CALLER);
+  });
+
+  it.each([
+    ["a missing header", undefined],
+    ["garbage", "not-a-traceparent"],
+    ["an all-zero trace ID", `00-${"0".repeat(32)}-${PARENT_ID}-01`],
+    ["the forbidden version", `ff-${TRACE_ID}-${PARENT_ID}-01`],
+    ["trailing fields on version 00", `${CALLER}-extra`],
+  ])("should reject %s", (_label, header) => {
+    expect(parseTraceparent(header)).toBeUndefined();
+  });
+
+  it("should accept future versions with trailing fields", () => {
+    expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-00-extra`)?.traceFlags).toBe(0);
+  });
+});
+
+// ===========================================================================
+// Tracer
+// ===========================================================================
+
+describe("createTracer", () => {
+  it("should start new traces and continue existing ones", async () => {
+    const { tracer, exported } = recordingTracer();
+
+    const root = tracer.startSpan("root");
+    const child = tracer.startSpan("child", { parent: root.context });
+    const continued = tracer.startSpan("continued", { parent: parseTraceparent(CALLER) });
+    for (const span of [child, root, continued]) span.end();
+    await tracer.shutdown();
+
+    expect(exported.map((span) => [span.name, span.context.traceId, span.parentSpanId])).toEqual([
+      ["child", root.context.traceId, root.context.spanId],
+      ["root", root.context.traceId, undefined],
+      ["continued", TRACE_ID, PARENT_ID],
+    ]);
+  });
+
+  it("should propagate but not export unsampled traces", async () => {
+    const { tracer, exported } = recordingTracer();
+
+    const span = tracer.startSpan("unsampled", { parent: parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`) });
+    span.end();
+    await tracer.shutdown();
+
+    expect(span.context.traceFlags).toBe(0);
+    expect(exported).toEqual([]);
+  });
+
+  it("should export full batches without waiting for the interval", async () => {
+    const exporter = { export: vi.fn().mockResolvedValue(undefined) };
+    const tracer = createTracer({ exporter, maxBatchSize: 2 });
+
+    tracer.startSpan("a").end();
+    tracer.startSpan("b").end();
+    tracer.startSpan("c").end();
+    await tracer.flush();
+
+    expect(exporter.export.mock.calls.map(([spans]) => spans.length)).toEqual([2, 1]);
+    await tracer.shutdown();
+  });
+
+  it("should name client spans by route and keep the requested path", async () => {
+    const { tracer, exported } = recordingTracer();
+    const parent = tracer.startSpan("tools/call aci_record_outcome");
+
+    await tracer
+      .instrument({ callApi: vi.fn().mockResolvedValue({}) }, parent)
+      .callApi("/aci/decision-log/dec-5f1c2a9b7e31", "get");
+    await tracer.shutdown();
+
+    expect(exported[0]).toMatchObject({
+      name: "GET /aci/decision-log/:id",
+      attributes: { "url.path": "/aci/decision-log/dec-5f1c2a9b7e31", "url.template": "/aci/decision-log/:id" },
+    });
+  });
+
+  it("should report export failures without throwing", async () => {
+    const onError = vi.fn();
+    const tracer = createTracer({ exporter: { export: () => Promise.reject(new Error("down")) }, onError });
+
+    tracer.startSpan("lost").end();
+    await tracer.shutdown();
+
+    expect(onError).toHaveBeenCalledWith(new Error("down"));
+  });
+
+  it("should stop waiting for a stuck export at shutdown", async () => {
+    const onError = vi.fn();
+    const tracer = createTracer({ exporter: { export: () => new Promise(() => {}) }, onError, shutdownTimeoutMs: 20 });
+
+    tracer.startSpan("stuck").end();
+    await tracer.shutdown();
+
+    expect(onError).toHaveBeenCalledWith(
+      new Error("Trace export did not finish within 20ms of shutdown; spans dropped")
+    );
+  });
+});
+
+// ===========================================================================
+// Exporters
+// ===========================================================================
+
+describe("exporters", () => {
+  const span: FinishedSpan = {
+    name: "tools/call s2t_catalog",
+    kind: "server",
+    context: { traceId: TRACE_ID, spanId: "00f067aa0ba902b7", traceFlags: 1 },
+    parentSpanId: PARENT_ID,
+    startTime: 1_700_000_000_000,
+    endTime: 1_700_000_000_012.5,
+    attributes: { "mcp.tool.name": "s2t_catalog", "http.response.status_code": 503, sampled: true },
+    status: { code: "error", message: "down" },
+  };
+  const resource = { serviceName: "s2t-test", serviceVersion: "1.0.0" };
+
+  it("should encode spans as OTLP/JSON", () => {
+    expect(toOtlpJson([span], resource)).toEqual({
+      resourceSpans: [
+        {
+          resource: {
+            attributes: [
+              { key: "service.name", value: { stringValue: "s2t-test" } },
+              { key: "service.version", value: { stringValue: "1.0.0" } },
+            ],
+          },
+          scopeSpans: [
+            {
+              scope: { name: "s2t-accelerators-mcp" },
+              spans: [
+                {
+                  traceId: TRACE_ID,
+                  spanId: "00f067aa0ba902b7",
+                  parentSpanId: PARENT_ID,
+                  name: "tools/call s2t_catalog",
+                  kind: 2,
+                  startTimeUnixNano: "1700000000000000000",
+                  endTimeUnixNano: "1700000000012500000",
+                  attributes: [
+                    { key: "mcp.tool.name", value: { stringValue: "s2t_catalog" } },
+                    { key: "http.response.status_code", value: { intValue: "503" } },
+                    { key: "sampled", value: { boolValue: true } },
+                  ],
+                  status: { code: 2, message: "down" },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should POST batches to the OTLP/HTTP endpoint", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    const exporter = createOtlpHttpExporter("http://collector:4318/v1/traces", resource, {
+      headers: { authorization: "Bearer abc" },
+      fetch: fetchImpl as unknown as typeof fetch,
+    });
+
+    await exporter.export([span]);
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe("http://collector:4318/v1/traces");
+    expect(init.headers).toEqual({ "Content-Type": "application/json", authorization: "Bearer abc" });
+    expect(JSON.parse(init.body)).toEqual(toOtlpJson([span], resource));
+  });
+
+  it("should abandon exports the collector does not answer in time", async () => {
+    const exporter = createOtlpHttpExporter("http://collector:4318/v1/traces", resource, {
+      timeoutMs: 20,
+      fetch: hangingFetch as unknown as typeof fetch,
+    });
+
+    await expect(exporter.export([span])).rejects.toThrow(/timeout|aborted/i);
+  });
+
+  it("should fail the export on collector errors", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+    const exporter = createOtlpHttpExporter("http://collector:4318/v1/traces", resource, {
+      fetch: fetchImpl as unknown as typeof fetch,
+    });
+
+    await expect(exporter.export([span])).rejects.toThrow("HTTP 503");
+  });
+
+  it("should append one OTLP/JSON line per batch to the file", async () => {
+    const path = join(dir, "spans.jsonl");
+    const exporter = createFileExporter(path, resource);
+
+    await exporter.export([span]);
+    await exporter.export([span, span]);
+
+    const lines = readFileSync(path, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.resourceSpans[0].scopeSpans[0].spans.length)).toEqual([1, 2]);
+  });
+});
+
+// ===========================================================================
+// Server integration
+// ===========================================================================
+
+describe("createMcpServer tracing", () => {
+  async function connect(callApi: ReturnType<typeof vi.fn>) {
+    const { tracer, exported } = recordingTracer();
+    const client = await connectClient({ callApi }, { tracer });
+    return { client, tracer, exported };
+  }
+
+  it("should trace the call and propagate traceparent to the platform", async () => {
+    const callApi = vi.fn().mockResolvedValue(MOCK_FIXTURES["GET /catalog"]({}, "success"));
+    const { client, tracer, exported } = await connect(callApi);
+
+    await client.callTool({ name: "s2t_catalog", arguments: {} });
+    await tracer.shutdown();
+
+    const [upstream, call] = exported;
+    expect(call).toMatchObject({
+      name: "tools/call s2t_catalog",
+      kind: "server",
+      attributes: { "mcp.tool.name": "s2t_catalog", "s2t.outcome": "ok" },
+      status: { code: "ok" },
+    });
+    expect(call.parentSpanId).toBeUndefined();
+    expect(upstream).toMatchObject({
+      name: "GET /catalog",
+      kind: "client",
+      parentSpanId: call.context.spanId,
+      context: { traceId: call.context.traceId },
+    });
+    const [, , , options] = callApi.mock.calls[0];
+    expect(options.headers).toEqual({ traceparent: formatTraceparent(upstream.context) });
+  });
+
+  it("should continue the caller's trace from params._meta", async () => {
+    const callApi = vi.fn().mockResolvedValue(MOCK_FIXTURES["GET /catalog"]({}, "success"));
+    const { client, tracer, exported } = await connect(callApi);
+
+    await client.callTool({ name: "s2t_catalog", arguments: {}, _meta: { traceparent: CALLER } });
+    await tracer.shutdown();
+
+    const call = exported.find((span) => span.kind === "server")!;
+    expect(call.context.traceId).toBe(TRACE_ID);
+    expect(call.parentSpanId).toBe(PARENT_ID);
+    expect(callApi.mock.calls[0][3].headers.traceparent).toMatch(new RegExp(`^00-${TRACE_ID}-`));
+  });
+
+  it("should record failures on both spans", async () => {
+    const callApi = vi.fn().mockRejectedValue(
+      new S2TUpstreamUnavailableError("down", { endpoint: "/aci/classify", method: "POST", status: 503 })
+    );
+    const { client, tracer, exported } = await connect(callApi);
+
+    await client.callTool({ name: "aci_classify_decision", arguments: { action: "Deploy to production" } });
+    await tracer.shutdown();
+
+    expect(exported.map((span) => [span.kind, span.status.code, span.attributes["error.type"]])).toEqual([
+      ["client", "error", "S2TUpstreamUnavailableError"],
+      ["server", "error", "S2TUpstreamUnavailableError"],
+    ]);
+    expect(exported[0].attributes["http.response.status_code"]).toBe(503);
+    expect(exported[1].attributes["s2t.outcome"]).toBe("error");
+  });
+});
+
+// ===========================================================================
+// Environment
+// ===========================================================================
+
+describe("tracerFromEnv", () => {
+  it("should be off without an exporter or when disabled", () => {
+    expect(tracerFromEnv({})).toBeUndefined();
+    expect(
+      tracerFromEnv({ OTEL_SDK_DISABLED: "true", OTEL_EXPORTER_OTLP_ENDPOINT: "http://collector:4318" })
+    ).toBeUndefined();
+  });
+
+  it("should build tracers for OTLP/HTTP and file export", async () => {
+    for (const env of [
+      { OTEL_EXPORTER_OTLP_ENDPOINT: "http://collector:4318/" },
+      { S2T_TRACE_FILE: join(dir, "env.jsonl") },
+    ]) {
+      const tracer = tracerFromEnv(env);
+      expect(tracer).toBeDefined();
+      await tracer!.shutdown();
+    }
+  });
+
+  it("should report failed exports to onError", async () => {
+    const onError = vi.fn();
+    const tracer = tracerFromEnv({ S2T_TRACE_FILE: join(dir, "missing", "env.jsonl") }, "1.0.0", { onError })!;
+
+    tracer.startSpan("tools/call s2t_catalog").end();
+    await tracer.shutdown();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: "ENOENT" }));
+  });
+});
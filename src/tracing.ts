@@ -0,0 +1,385 @@
+/**
+ * S2T Accelerators - Distributed Tracing
+ *
+ * A small OpenTelemetry-compatible tracer. Every tools/call handled by
+ * createMcpServer runs in a SERVER span carrying the tool name, session ID
+ * and outcome, and each platform API request it makes runs in a CLIENT child
+ * span whose W3C `traceparent` is sent with the request, so the platform's
+ * own spans join the same trace.
+ *
+ * A caller that is already tracing can pass its context as
+ * `params._meta.traceparent` (and `tracestate`) on the tools/call request,
+ * or as `traceparent` HTTP headers on the HTTP transports; the tool span
+ * then continues that trace and respects its sampled flag.
+ *
+ * Finished spans are batched and exported as OTLP/JSON, either over
+ * OTLP/HTTP to a collector or appended to a local file (one
+ * ExportTraceServiceRequest per line, readable by the collector's
+ * `otlpjsonfile` receiver) for air-gapped environments. Exports to a
+ * collector time out, and shutdown waits for the last export only so long,
+ * so an unreachable collector never holds up a tool call or process exit.
+ *
+ * @module tracing
+ */
+
+import { appendFileSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+import type { ApiClient } from "./handlers.js";
+import { S2TApiError } from "./api-errors.js";
+import { endpointRoute, errorClassOf } from "./metrics.js";
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  /** W3C trace flags; bit 0 is "sampled". */
+  traceFlags: number;
+  traceState?: string;
+}
+
+export type SpanKind = "internal" | "server" | "client";
+
+export type AttributeValue = string | number | boolean;
+
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  context: SpanContext;
+  parentSpanId?: string;
+  /** Epoch milliseconds. */
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  status: { code: "unset" | "ok" | "error"; message?: string };
+}
+
+export interface Span {
+  readonly context: SpanContext;
+  setAttribute(key: string, value: AttributeValue | undefined): void;
+  setStatus(code: "ok" | "error", message?: string): void;
+  end(): void;
+}
+
+export interface SpanExporter {
+  export(spans: FinishedSpan[]): Promise<void>;
+}
+
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: SpanKind; parent?: SpanContext; attributes?: Record<string, AttributeValue> }
+  ): Span;
+  /** Wrap a client so each request runs in a child span of `parent` and carries its traceparent. */
+  instrument(client: ApiClient, parent: Span): ApiClient;
+  /** Export buffered spans now. */
+  flush(): Promise<void>;
+  /** Export buffered spans and stop; gives up after `shutdownTimeoutMs`. */
+  shutdown(): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// W3C trace context
+// ---------------------------------------------------------------------------
+
+const SAMPLED = 0x01;
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/** Parse a W3C traceparent header; undefined when absent or invalid. */
+export function parseTraceparent(header: unknown, traceState?: unknown): SpanContext | undefined {
+  if (typeof header !== "string") return undefined;
+  const match = TRACEPARENT.exec(header.trim().toLowerCase());
+  if (!match) return undefined;
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden; version 00 has no trailing fields.
+  if (version === "ff" || (version === "00" && rest)) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    ...(typeof traceState === "string" && traceState ? { traceState } : {}),
+  };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, "0")}`;
+}
+
+/** Headers that propagate `context` to a downstream service. */
+export function traceHeaders(context: SpanContext): Record<string, string> {
+  return {
+    traceparent: formatTraceparent(context),
+    ...(context.traceState ? { tracestate: context.traceState } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tracer
+// ---------------------------------------------------------------------------
+
+export interface TracerOptions {
+  exporter: SpanExporter;
+  /** Export once this many spans are buffered (default: 64). */
+  maxBatchSize?: number;
+  /** Export buffered spans at least this often (default: 5000). */
+  flushIntervalMs?: number;
+  /** How long shutdown waits for outstanding exports (default: 5000). */
+  shutdownTimeoutMs?: number;
+  /** Called when an export fails; tracing never fails a tool call. */
+  onError?: (error: unknown) => void;
+  now?: () => number;
+  randomId?: (bytes: number) => string;
+}
+
+export function createTracer(options: TracerOptions): Tracer {
+  const maxBatchSize = options.maxBatchSize ?? 64;
+  const now = options.now ?? Date.now;
+  const randomId = options.randomId ?? ((bytes: number) => randomBytes(bytes).toString("hex"));
+  const onError = options.onError ?? ((error: unknown) => console.error("Trace export failed:", error));
+  let buffer: FinishedSpan[] = [];
+  let pending: Promise<void> = Promise.resolve();
+
+  const timer = setInterval(() => void flush(), options.flushIntervalMs ?? 5_000);
+  timer.unref();
+
+  function flush(): Promise<void> {
+    if (buffer.length === 0) return pending;
+    const batch = buffer;
+    buffer = [];
+    // Serialize exports so file output stays in order.
+    pending = pending.then(() => options.exporter.export(batch)).catch(onError);
+    return pending;
+  }
+
+  function startSpan(
+    name: string,
+    { kind = "internal", parent, attributes = {} }: Parameters<Tracer["startSpan"]>[1] = {}
+  ): Span {
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomId(16),
+      spanId: randomId(8),
+      traceFlags: parent ? parent.traceFlags : SAMPLED,
+      ...(parent?.traceState ? { traceState: parent.traceState } : {}),
+    };
+    const span: FinishedSpan = {
+      name,
+      kind,
+      context,
+      parentSpanId: parent?.spanId,
+      startTime: now(),
+      endTime: 0,
+      attributes: { ...attributes },
+      status: { code: "unset" },
+    };
+    let ended = false;
+
+    return {
+      context,
+      setAttribute(key, value) {
+        if (value !== undefined) span.attributes[key] = value;
+      },
+      setStatus(code, message) {
+        span.status = { code, ...(message ? { message } : {}) };
+      },
+      end() {
+        if (ended) return;
+        ended = true;
+        span.endTime = now();
+        // Unsampled spans still propagate context but are not exported.
+        if ((context.traceFlags & SAMPLED) === 0) return;
+        buffer.push(span);
+        if (buffer.length >= maxBatchSize) void flush();
+      },
+    };
+  }
+
+  return {
+    startSpan,
+
+    instrument(client, parent) {
+      return {
+        async callApi(endpoint, method = "GET", body, callOptions) {
+          const route = endpointRoute(endpoint);
+          const span = startSpan(`${method.toUpperCase()} ${route}`, {
+            kind: "client",
+            parent: parent.context,
+            attributes: { "http.request.method": method.toUpperCase(), "url.path": endpoint, "url.template": route },
+          });
+          try {
+            const result = await client.callApi(endpoint, method, body, {
+              ...callOptions,
+              headers: { ...callOptions?.headers, ...traceHeaders(span.context) },
+            });
+            span.setStatus("ok");
+            return result;
+          } catch (error) {
+            span.setAttribute("error.type", errorClassOf(error));
+            if (error instanceof S2TApiError) span.setAttribute("http.response.status_code", error.status);
+            span.setStatus("error", error instanceof Error ? error.message : String(error));
+            throw error;
+          } finally {
+            span.end();
+          }
+        },
+      };
+    },
+
+    flush,
+
+    async shutdown() {
+      clearInterval(timer);
+      const timeoutMs = options.shutdownTimeoutMs ?? 5_000;
+      let timeout: NodeJS.Timeout | undefined;
+      const expired = new Promise<void>((resolve) => {
+        timeout = setTimeout(() => {
+          onError(new Error(`Trace export did not finish within ${timeoutMs}ms of shutdown; spans dropped`));
+          resolve();
+        }, timeoutMs);
+        timeout.unref();
+      });
+      await Promise.race([flush(), expired]);
+      clearTimeout(timeout);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Exporters
+// ---------------------------------------------------------------------------
+
+export interface TraceResource {
+  serviceName: string;
+  serviceVersion?: string;
+}
+
+const OTLP_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS: Record<FinishedSpan["status"]["code"], number> = { unset: 0, ok: 1, error: 2 };
+
+function otlpValue(value: AttributeValue): Record<string, unknown> {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function otlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+const nanos = (ms: number) => (BigInt(Math.round(ms * 1_000)) * 1_000n).toString();
+
+/** Encode spans as an OTLP/JSON ExportTraceServiceRequest. */
+export function toOtlpJson(spans: FinishedSpan[], resource: TraceResource): object {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: otlpAttributes({
+            "service.name": resource.serviceName,
+            ...(resource.serviceVersion ? { "service.version": resource.serviceVersion } : {}),
+          }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "s2t-accelerators-mcp" },
+            spans: spans.map((span) => ({
+              traceId: span.context.traceId,
+              spanId: span.context.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              ...(span.context.traceState ? { traceState: span.context.traceState } : {}),
+              name: span.name,
+              kind: OTLP_KIND[span.kind],
+              startTimeUnixNano: nanos(span.startTime),
+              endTimeUnixNano: nanos(span.endTime),
+              attributes: otlpAttributes(span.attributes),
+              status: {
+                code: OTLP_STATUS[span.status.code],
+                ...(span.status.message ? { message: span.status.message } : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export const DEFAULT_OTLP_TIMEOUT_MS = 10_000;
+
+/**
+ * POST batches to an OTLP/HTTP collector, e.g. http://collector:4318/v1/traces.
+ * Each export is abandoned after `timeoutMs` (default: 10000).
+ */
+export function createOtlpHttpExporter(
+  url: string,
+  resource: TraceResource,
+  options: { headers?: Record<string, string>; timeoutMs?: number; fetch?: typeof fetch } = {}
+): SpanExporter {
+  const doFetch = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_OTLP_TIMEOUT_MS;
+  return {
+    async export(spans) {
+      const response = await doFetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...options.headers },
+        body: JSON.stringify(toOtlpJson(spans, resource)),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`OTLP export to ${url} failed: HTTP ${response.status}`);
+      }
+    },
+  };
+}
+
+/** Append each batch to a local file as one line of OTLP/JSON. */
+export function createFileExporter(path: string, resource: TraceResource): SpanExporter {
+  return {
+    async export(spans) {
+      appendFileSync(path, JSON.stringify(toOtlpJson(spans, resource)) + "\n");
+    },
+  };
+}
+
+/**
+ * Build a tracer from the environment, or undefined when tracing is off.
+ * Uses the standard OpenTelemetry variables where they exist:
+ *
+ *   OTEL_EXPORTER_OTLP_TRACES_ENDPOINT  Full traces URL, e.g. http://collector:4318/v1/traces
+ *   OTEL_EXPORTER_OTLP_ENDPOINT         Collector base URL (/v1/traces is appended)
+ *   OTEL_EXPORTER_OTLP_HEADERS          Extra headers, e.g. "authorization=Bearer abc"
+ *   OTEL_SERVICE_NAME                   Service name (default: s2t-accelerators-mcp)
+ *   OTEL_SDK_DISABLED                   "true" turns tracing off
+ *   S2T_TRACE_FILE                      Append OTLP/JSON lines to this file instead
+ */
+export function tracerFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  serviceVersion?: string,
+  options: Pick<TracerOptions, "onError"> = {}
+): Tracer | undefined {
+  if (env.OTEL_SDK_DISABLED === "true") return undefined;
+
+  const resource: TraceResource = {
+    serviceName: env.OTEL_SERVICE_NAME || "s2t-accelerators-mcp",
+    serviceVersion,
+  };
+
+  if (env.S2T_TRACE_FILE) {
+    return createTracer({ exporter: createFileExporter(env.S2T_TRACE_FILE, resource), onError: options.onError });
+  }
+
+  const url =
+    env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+    (env.OTEL_EXPORTER_OTLP_ENDPOINT
+      ? `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, "")}/v1/traces`
+      : undefined);
+  if (!url) return undefined;
+
+  const headers: Record<string, string> = {};
+  for (const pair of (env.OTEL_EXPORTER_OTLP_HEADERS ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) continue;
+    headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+  }
+  return createTracer({ exporter: createOtlpHttpExporter(url, resource, { headers }), onError: options.onError });
+}